@@ -0,0 +1,45 @@
+import { fireEvent, render, screen } from '@testing-library/react';
+import { describe, expect, it, vi } from 'vitest';
+
+import NumberInput from '@/components/NumberInput';
+
+function renderInput(value: number, min: number, max: number) {
+  const onCommit = vi.fn();
+  render(
+    <NumberInput
+      aria-label="값"
+      value={value}
+      min={min}
+      max={max}
+      onCommit={onCommit}
+    />
+  );
+  return { input: screen.getByLabelText('값'), onCommit };
+}
+
+describe('NumberInput', () => {
+  it('keeps intermediate text while typing and commits on blur', () => {
+    const { input, onCommit } = renderInput(32, 8, 120);
+
+    fireEvent.change(input, { target: { value: '2' } });
+    expect(input).toHaveValue(2);
+    fireEvent.change(input, { target: { value: '24' } });
+    expect(onCommit).not.toHaveBeenCalled();
+
+    fireEvent.blur(input);
+    expect(onCommit).toHaveBeenCalledWith(24);
+  });
+
+  it('clamps to the range on Enter and reverts when left empty', () => {
+    const { input, onCommit } = renderInput(-40, -90, -10);
+
+    fireEvent.change(input, { target: { value: '5' } });
+    fireEvent.keyDown(input, { key: 'Enter' });
+    expect(onCommit).toHaveBeenLastCalledWith(-10);
+
+    fireEvent.change(input, { target: { value: '' } });
+    fireEvent.blur(input);
+    expect(onCommit).toHaveBeenCalledTimes(1);
+    expect(input).toHaveValue(-40);
+  });
+});
@@ -58,3 +58,73 @@ describe('TrimRangeOverlay', () => {
     fireEvent.pointerUp(startHandle, { pointerId: 1 });
   });
 });
+
+describe('TrimRangeOverlay snapping', () => {
+  function renderWithSnap() {
+    const onChangeStart = vi.fn();
+    const snap = vi.fn((ms: number) =>
+      Math.abs(ms - 1500) <= 100
+        ? { ms: 1500, target: { ms: 1500, kind: 'caption' as const } }
+        : { ms, target: null }
+    );
+
+    const { container } = render(
+      <TrimRangeOverlay
+        range={{ startMs: 1000, endMs: 3000 }}
+        durationMs={4000}
+        onChangeStart={onChangeStart}
+        onChangeEnd={vi.fn()}
+        onChangeRange={vi.fn()}
+        snap={snap}
+      />
+    );
+
+    const overlay = container.firstChild as HTMLDivElement;
+    Object.defineProperty(overlay, 'getBoundingClientRect', {
+      value: () => createRect(200),
+    });
+
+    const startHandle = screen.getByTestId('trim-handle-start');
+    let captured = false;
+    startHandle.setPointerCapture = vi.fn(() => {
+      captured = true;
+    });
+    startHandle.releasePointerCapture = vi.fn(() => {
+      captured = false;
+    });
+    startHandle.hasPointerCapture = vi.fn(() => captured);
+
+    return { onChangeStart, snap, startHandle };
+  }
+
+  it('snaps the handle and shows the snap indicator', () => {
+    const { onChangeStart, snap, startHandle } = renderWithSnap();
+
+    fireEvent.pointerDown(startHandle, { clientX: 70, pointerId: 1 });
+    // 74px = 1480ms
+    fireEvent.pointerMove(startHandle, { clientX: 74, pointerId: 1 });
+
+    // 8px = 160ms
+    expect(snap).toHaveBeenLastCalledWith(1480, { thresholdMs: 160 });
+    expect(onChangeStart).toHaveBeenLastCalledWith(1500);
+    expect(screen.getByTestId('snap-indicator')).toBeTruthy();
+    expect(screen.getByText('0:01.500 · 자막 경계')).toBeTruthy();
+
+    fireEvent.pointerUp(startHandle, { pointerId: 1 });
+    expect(screen.queryByTestId('snap-indicator')).toBeNull();
+  });
+
+  it('bypasses snapping while Alt is held', () => {
+    const { onChangeStart, startHandle } = renderWithSnap();
+
+    fireEvent.pointerDown(startHandle, { clientX: 70, pointerId: 1 });
+    fireEvent.pointerMove(startHandle, {
+      clientX: 74,
+      pointerId: 1,
+      altKey: true,
+    });
+
+    expect(onChangeStart).toHaveBeenLastCalledWith(1480);
+    expect(screen.queryByTestId('snap-indicator')).toBeNull();
+  });
+});
@@ -0,0 +1,49 @@
+import { describe, it, expect } from 'vitest';
+import { render, screen } from '@testing-library/react';
+
+import TrimRecommendationOverlay from '@/features/waveform/TrimRecommendationOverlay';
+
+const breakdown = [
+  { id: 'energy', label: '음량', score: 0.4, weight: 1 },
+  { id: 'speechDensity', label: '말소리 밀도', score: 0.9, weight: 2 },
+];
+
+describe('TrimRecommendationOverlay', () => {
+  it('shows the feature breakdown of the active recommendation', () => {
+    render(
+      <TrimRecommendationOverlay
+        recommendations={[
+          { startMs: 0, endMs: 1000, score: 0.7, breakdown },
+          { startMs: 2000, endMs: 3000, score: 0.5, breakdown },
+        ]}
+        durationMs={4000}
+        activeIndex={0}
+      />
+    );
+
+    const bars = screen.getAllByTestId('recommendation-breakdown');
+    expect(bars).toHaveLength(1);
+    expect(bars[0].textContent).toContain('말소리 밀도');
+    expect(bars[0].textContent).toContain('90%');
+
+    const second = screen.getByRole('button', {
+      name: '추천 구간 2',
+      hidden: true,
+    });
+    expect(second.getAttribute('title')).toBe(
+      '음량 40% (×1)\n말소리 밀도 90% (×2)'
+    );
+  });
+
+  it('renders no breakdown for amplitude-only recommendations', () => {
+    render(
+      <TrimRecommendationOverlay
+        recommendations={[{ startMs: 0, endMs: 1000, score: 12 }]}
+        durationMs={4000}
+        activeIndex={0}
+      />
+    );
+
+    expect(screen.queryByTestId('recommendation-breakdown')).toBeNull();
+  });
+});
@@ -146,6 +146,9 @@ describe('VideoDetailPage', () => {
         isPlaying: false,
         currentTimeMs: 0,
         durationMs: 60000,
+        outputTimeMs: 0,
+        outputDurationMs: 60000,
+        playbackRate: 1,
       },
       actions: {
         play: vi.fn(),
@@ -155,6 +158,13 @@ describe('VideoDetailPage', () => {
         setLoopRange: vi.fn(),
         setLoopEnabled: vi.fn(),
         setSeekGuardsEnabled: vi.fn(),
+        seekOutput: vi.fn(),
+        setEditDecisionList: vi.fn(),
+        stepFrame: vi.fn(),
+        setPlaybackRate: vi.fn(),
+        shuttleForward: vi.fn(),
+        shuttleReverse: vi.fn(),
+        shuttleStop: vi.fn(),
       },
     } as unknown as ReturnType<typeof usePlaybackController>);
 
@@ -196,4 +206,36 @@ describe('VideoDetailPage', () => {
 
     utils.unmount();
   });
+
+  it('shows reverse shuttle speed instead of a forward rate', () => {
+    const controller = mockUsePlaybackController();
+    mockUsePlaybackController.mockReturnValue({
+      ...controller,
+      view: { ...controller.view, playbackRate: -2 },
+    });
+
+    renderPage();
+
+    expect(screen.getByTestId('speed-indicator')).toHaveTextContent('◀◀ 2×');
+    const select = screen.getByLabelText('재생 속도');
+    expect(select).toBeDisabled();
+    expect(select).toHaveDisplayValue('2× 역재생');
+  });
+
+  it('adds every detected silence to the cut list at once', () => {
+    // 20초 버킷 세 개 중 가운데만 조용하다.
+    mockUseWaveformPeaks.mockReturnValue({
+      peaks: new Int16Array([-16000, 16000, 0, 0, -16000, 16000]),
+      isLoading: false,
+      error: null,
+      progress: 1,
+    } as unknown as ReturnType<typeof useWaveformPeaks>);
+
+    renderPage();
+
+    expect(screen.getByText('무음 1구간 · 총 19.8초')).toBeInTheDocument();
+    fireEvent.click(screen.getByRole('button', { name: '무음 모두 제거' }));
+
+    expect(screen.getByText('#1 0:20 ~ 0:39')).toBeInTheDocument();
+  });
 });
@@ -121,6 +121,59 @@ describe('WaveformCanvas', () => {
     expect(m.fillRect).toHaveBeenCalled();
   });
 
+  it('stacks channel lanes and highlights clipped buckets', () => {
+    const fillText = vi.fn();
+    const bars: { y: number; color: string }[] = [];
+    const ctx = {
+      clearRect: vi.fn(),
+      beginPath: vi.fn(),
+      moveTo: vi.fn(),
+      lineTo: vi.fn(),
+      stroke: vi.fn(),
+      fillText,
+      fillStyle: '',
+      fillRect(_x: number, y: number) {
+        bars.push({ y, color: String(ctx.fillStyle) });
+      },
+    };
+    vi.spyOn(HTMLCanvasElement.prototype, 'getContext').mockImplementation(
+      () => ctx as unknown as CanvasRenderingContext2D
+    );
+
+    const buckets = 10;
+    const left = new Int16Array(buckets * 2);
+    const right = new Int16Array(buckets * 2);
+    for (let i = 0; i < buckets; i++) {
+      left[i * 2] = -1000;
+      left[i * 2 + 1] = 1000;
+      right[i * 2] = -32768;
+      right[i * 2 + 1] = 32767;
+    }
+
+    render(
+      <WaveformCanvas
+        peaks={left}
+        channels={[
+          { peaks: left, pyramid: null },
+          { peaks: right, pyramid: null },
+        ]}
+        width={200}
+        height={40}
+        durationMs={1000}
+        colorWave="wave"
+        colorClip="clip"
+      />
+    );
+
+    expect(fillText.mock.calls.map((call) => call[0])).toEqual(['L', 'R']);
+    const waveBars = bars.filter((bar) => bar.color === 'wave');
+    const clipBars = bars.filter((bar) => bar.color === 'clip');
+    expect(waveBars).toHaveLength(buckets);
+    expect(clipBars).toHaveLength(buckets);
+    expect(waveBars.every((bar) => bar.y < 20)).toBe(true);
+    expect(clipBars.every((bar) => bar.y >= 20)).toBe(true);
+  });
+
   it('renders trim background when provided', () => {
     const m = createMockCanvas();
 
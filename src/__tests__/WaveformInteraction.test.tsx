@@ -48,4 +48,39 @@ describe('WaveformInteraction', () => {
     fireEvent.pointerUp(slider, { pointerId: 1 });
     expect(slider.releasePointerCapture).toHaveBeenCalledWith(1);
   });
+
+  it('zooms around the cursor with ctrl+wheel and pans with shift+wheel', () => {
+    const onViewChange = vi.fn();
+
+    render(
+      <WaveformInteraction
+        durationMs={10000}
+        viewStartMs={2000}
+        viewEndMs={6000}
+        onSeek={vi.fn()}
+        onViewChange={onViewChange}
+      >
+        <div />
+      </WaveformInteraction>
+    );
+
+    const slider = screen.getByRole('slider') as HTMLDivElement;
+    Object.defineProperty(slider, 'getBoundingClientRect', {
+      value: () => ({ left: 0, top: 0, right: 400, bottom: 20, width: 400 }),
+    });
+
+    fireEvent.wheel(slider, { clientX: 100, deltaY: -100, ctrlKey: true });
+    const zoomed = onViewChange.mock.calls[0][0];
+    expect(zoomed.viewEndMs - zoomed.viewStartMs).toBeLessThan(4000);
+    // 커서 아래(3000ms)의 화면 위치(25%)가 유지된다.
+    expect(
+      (3000 - zoomed.viewStartMs) / (zoomed.viewEndMs - zoomed.viewStartMs)
+    ).toBeCloseTo(0.25);
+
+    fireEvent.wheel(slider, { clientX: 100, deltaY: 100, shiftKey: true });
+    expect(onViewChange).toHaveBeenLastCalledWith({
+      viewStartMs: 3000,
+      viewEndMs: 7000,
+    });
+  });
 });
@@ -0,0 +1,95 @@
+import { describe, expect, it } from 'vitest';
+
+import { createCaptionId } from '@/data/types';
+import {
+  DEFAULT_CAPTION_STYLE,
+  diffCaptionStyle,
+  normalizeCaptionStyle,
+} from '@/features/captions/captionStyle';
+import { captionsToAss, escapeAssText, toAssColor } from '@/features/export';
+
+describe('ASS 스타일', () => {
+  it('#rrggbb를 &HAABBGGRR로 변환한다', () => {
+    expect(toAssColor('#ff8800')).toBe('&H000088FF');
+    expect(toAssColor('#fff', 0.5)).toBe('&H80FFFFFF');
+    expect(toAssColor('not-a-color')).toBe('&H00FFFFFF');
+  });
+
+  it('중괄호와 줄바꿈을 이스케이프하고 쉼표/콜론/퍼센트는 그대로 둔다', () => {
+    expect(escapeAssText('50%, 시간: {중요}\n다음 줄')).toBe(
+      '50%, 시간: \\{중요\\}\\N다음 줄'
+    );
+  });
+
+  it('비디오 기본 스타일로 Default 스타일과 PlayRes를 만든다', () => {
+    const ass = captionsToAss(
+      [{ id: createCaptionId('a'), startMs: 1230, endMs: 2500, text: 'a, b' }],
+      {
+        defaultStyle: {
+          ...DEFAULT_CAPTION_STYLE,
+          fontSize: 48,
+          color: '#ffff00',
+          outlineWidth: 3,
+          verticalPosition: 'top',
+          marginV: 60,
+        },
+        playResX: 405,
+        playResY: 720,
+      }
+    );
+
+    expect(ass).toContain('PlayResX: 405');
+    expect(ass).toContain(
+      'Style: Default,DejaVu Sans,48,&H0000FFFF,&H0000FFFF,&H00000000,&H80000000,0,0,0,0,100,100,0,0,1,3,0,8,20,20,60,1'
+    );
+    expect(ass).toContain(
+      'Dialogue: 0,0:00:01.23,0:00:02.50,Default,,0,0,0,,a, b'
+    );
+  });
+
+  it('자막별 오버라이드를 이름 있는 스타일로 내보내고 같은 모양은 묶는다', () => {
+    const override = { backgroundEnabled: true, alignment: 'left' as const };
+    const ass = captionsToAss([
+      { id: createCaptionId('a'), startMs: 0, endMs: 1000, text: 'one' },
+      {
+        id: createCaptionId('b'),
+        startMs: 1000,
+        endMs: 2000,
+        text: 'two',
+        style: override,
+      },
+      {
+        id: createCaptionId('c'),
+        startMs: 2000,
+        endMs: 3000,
+        text: 'three',
+        style: { ...override },
+      },
+    ]);
+
+    const styleLines = ass.split('\n').filter((l) => l.startsWith('Style:'));
+    expect(styleLines).toHaveLength(2);
+    // 배경 상자: BorderStyle 3, 상자 색은 OutlineColour, 왼쪽 아래 정렬(1)
+    expect(styleLines[1]).toBe(
+      'Style: Custom1,DejaVu Sans,36,&H00FFFFFF,&H00FFFFFF,&H66000000,&H80000000,0,0,0,0,100,100,0,0,3,6,0,1,20,20,40,1'
+    );
+    expect(ass).toContain('Default,,0,0,0,,one');
+    expect(ass).toContain('Custom1,,0,0,0,,two');
+    expect(ass).toContain('Custom1,,0,0,0,,three');
+  });
+
+  it('기본값과 다른 항목만 오버라이드로 남긴다', () => {
+    expect(
+      diffCaptionStyle(DEFAULT_CAPTION_STYLE, DEFAULT_CAPTION_STYLE)
+    ).toBeUndefined();
+    expect(
+      diffCaptionStyle(DEFAULT_CAPTION_STYLE, {
+        ...DEFAULT_CAPTION_STYLE,
+        fontSize: 50,
+      })
+    ).toEqual({ fontSize: 50 });
+    expect(
+      normalizeCaptionStyle({ fontSize: 20, color: 3 as unknown as string })
+    ).toEqual({ ...DEFAULT_CAPTION_STYLE, fontSize: 20 });
+  });
+});
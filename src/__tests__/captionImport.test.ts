@@ -0,0 +1,98 @@
+import { describe, expect, it } from 'vitest';
+
+import {
+  detectCaptionFormat,
+  parseCaptionFile,
+  toVtt,
+} from '../features/captions/format';
+
+const VTT = `WEBVTT - sample
+
+STYLE
+::cue(.yellow) { color: yellow; }
+
+NOTE 번역 검수 필요
+
+intro
+00:00:01.000 --> 00:00:03.500 line:0 align:start
+<v Bob><c.yellow>Hello</c> &amp; welcome
+
+00:00:04.000 --> 00:00:06.000
+one <00:00:04.500>two <00:00:05.200>three
+`;
+
+const ASS = `[Script Info]
+ScriptType: v4.00+
+
+[V4+ Styles]
+Format: Name, Fontname, Fontsize
+Style: Default,Arial,20
+
+[Events]
+Format: Layer, Start, End, Style, Name, MarginL, MarginR, MarginV, Effect, Text
+Comment: 0,0:00:00.00,0:00:01.00,Default,,0,0,0,,ignored
+Dialogue: 0,0:00:01.00,0:00:03.00,Default,,0,0,0,,{\\an8}Hi, there\\Nsecond line
+Dialogue: 0,0:00:04.00,0:00:06.00,Default,,0,0,0,,{\\k50}Hel{\\kf30}lo {\\k20} {\\K60}world
+`;
+
+describe('자막 파일 불러오기', () => {
+  it('내용과 확장자로 형식을 판별한다', () => {
+    expect(detectCaptionFormat(VTT)).toBe('vtt');
+    expect(detectCaptionFormat(ASS)).toBe('ass');
+    expect(detectCaptionFormat('1\n00:00:01,000 --> 00:00:02,000\nhi')).toBe(
+      'srt'
+    );
+    expect(detectCaptionFormat('', 'clip.SSA')).toBe('ass');
+  });
+
+  it('WebVTT 큐 id, 설정, STYLE/NOTE 블록을 보존한다', () => {
+    const parsed = parseCaptionFile(VTT);
+    expect(parsed.format).toBe('vtt');
+    expect(parsed.vttStyles).toEqual(['::cue(.yellow) { color: yellow; }']);
+    expect(parsed.vttNotes).toEqual(['번역 검수 필요']);
+
+    const [first, second] = parsed.captions;
+    expect(first).toMatchObject({
+      startMs: 1000,
+      endMs: 3500,
+      text: 'Hello & welcome',
+      cueId: 'intro',
+      cueSettings: 'line:0 align:start',
+    });
+
+    expect(second.text).toBe('one two three');
+    expect(second.words).toEqual([
+      { text: 'one', startMs: 4000, endMs: 4500 },
+      { text: 'two', startMs: 4500, endMs: 5200 },
+      { text: 'three', startMs: 5200, endMs: 6000 },
+    ]);
+
+    const roundTrip = toVtt(parsed.captions, {
+      styles: parsed.vttStyles,
+      notes: parsed.vttNotes,
+    });
+    expect(roundTrip).toContain('STYLE\n::cue(.yellow) { color: yellow; }');
+    expect(roundTrip).toContain(
+      'intro\n00:00:01.000 --> 00:00:03.500 line:0 align:start'
+    );
+  });
+
+  it('ASS Dialogue와 \\k 카라오케 타이밍을 읽는다', () => {
+    const { format, captions } = parseCaptionFile(ASS);
+    expect(format).toBe('ass');
+    expect(captions).toHaveLength(2);
+
+    expect(captions[0]).toMatchObject({
+      startMs: 1000,
+      endMs: 3000,
+      text: 'Hi, there\nsecond line',
+    });
+    expect(captions[0].words).toBeUndefined();
+
+    expect(captions[1].text).toBe('Hello world');
+    expect(captions[1].words).toEqual([
+      { text: 'Hello', startMs: 4000, endMs: 4800 },
+      { text: 'world', startMs: 5000, endMs: 5600 },
+    ]);
+  });
+});
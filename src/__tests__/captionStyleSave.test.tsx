@@ -0,0 +1,50 @@
+import { act, renderHook } from '@testing-library/react';
+import { QueryClient, QueryClientProvider } from '@tanstack/react-query';
+import type { ReactNode } from 'react';
+import { afterEach, describe, expect, it, vi } from 'vitest';
+
+import { appApi } from '@/data/createAppApi';
+import { captionStyleKey } from '@/data/queryKeys';
+import type { VideoId } from '@/data/types';
+import { DEFAULT_CAPTION_STYLE } from '@/features/captions/captionStyle';
+import { useSaveCaptionStyle } from '@/features/captions/queries';
+
+vi.mock('@/data/createAppApi', () => ({
+  appApi: { saveCaptionStyle: vi.fn(() => Promise.resolve()) },
+}));
+
+const videoId = 'video-1' as VideoId;
+
+describe('useSaveCaptionStyle', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.clearAllMocks();
+  });
+
+  it('updates the cache right away and saves only the last style', async () => {
+    vi.useFakeTimers();
+    const queryClient = new QueryClient();
+    const wrapper = ({ children }: { children: ReactNode }) => (
+      <QueryClientProvider client={queryClient}>{children}</QueryClientProvider>
+    );
+    const { result } = renderHook(() => useSaveCaptionStyle(videoId), {
+      wrapper,
+    });
+
+    const sizes = [30, 34, 40];
+    for (const fontSize of sizes) {
+      act(() => result.current({ ...DEFAULT_CAPTION_STYLE, fontSize }));
+    }
+    expect(queryClient.getQueryData(captionStyleKey(videoId))).toMatchObject({
+      fontSize: 40,
+    });
+    expect(appApi.saveCaptionStyle).not.toHaveBeenCalled();
+
+    await act(() => vi.runAllTimersAsync());
+    expect(appApi.saveCaptionStyle).toHaveBeenCalledTimes(1);
+    expect(appApi.saveCaptionStyle).toHaveBeenCalledWith(videoId, {
+      ...DEFAULT_CAPTION_STYLE,
+      fontSize: 40,
+    });
+  });
+});
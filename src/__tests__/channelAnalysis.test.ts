@@ -0,0 +1,59 @@
+import { describe, it, expect } from 'vitest';
+import {
+  analyzeChannels,
+  channelLabel,
+  detectClippedRanges,
+  detectSilentRanges,
+} from '@/features/waveform/channelAnalysis';
+
+/** 버킷마다 ±amplitude(0~1)인 peaks 모드 피크 */
+function peaksFrom(amplitudes: number[]): Int16Array {
+  const out = new Int16Array(amplitudes.length * 2);
+  amplitudes.forEach((a, i) => {
+    out[i * 2] = Math.round(-a * 32767);
+    out[i * 2 + 1] = Math.round(a * 32767);
+  });
+  return out;
+}
+
+describe('channelAnalysis', () => {
+  it('labels stereo channels as L/R and others by number', () => {
+    expect(channelLabel(0, 2)).toBe('L');
+    expect(channelLabel(1, 2)).toBe('R');
+    expect(channelLabel(2, 6)).toBe('3');
+  });
+
+  it('groups quiet buckets into silent ranges longer than the minimum', () => {
+    // 버킷 하나가 100ms
+    const peaks = peaksFrom([0.5, 0, 0, 0, 0.5, 0, 0.5, 0.5, 0, 0]);
+    expect(detectSilentRanges(peaks, 1000, { minSilenceMs: 200 })).toEqual([
+      { startMs: 100, endMs: 400 },
+      { startMs: 800, endMs: 1000 },
+    ]);
+  });
+
+  it('finds clipped buckets', () => {
+    const peaks = peaksFrom([0.5, 1, 1, 0.5, 0.999]);
+    expect(detectClippedRanges(peaks, 500)).toEqual([
+      { startMs: 100, endMs: 300 },
+      { startMs: 400, endMs: 500 },
+    ]);
+  });
+
+  it('reports dropouts only where the other channel still has sound', () => {
+    const left = peaksFrom([0.5, 0.5, 0, 0, 0, 0, 0.5, 0, 0, 0]);
+    const right = peaksFrom([0.5, 0.5, 0.5, 0.5, 0.5, 0.5, 0.5, 0, 0, 0]);
+    const [l, r] = analyzeChannels([left, right], 1000, {
+      minSilenceMs: 200,
+    });
+
+    expect(l.label).toBe('L');
+    expect(l.silentRanges).toEqual([
+      { startMs: 200, endMs: 600 },
+      { startMs: 700, endMs: 1000 },
+    ]);
+    expect(l.dropoutRanges).toEqual([{ startMs: 200, endMs: 600 }]);
+    expect(l.silentRatio).toBeCloseTo(0.7);
+    expect(r.dropoutRanges).toEqual([]);
+  });
+});
@@ -0,0 +1,137 @@
+import { fireEvent, render, screen } from '@testing-library/react';
+import { afterEach, describe, expect, it, vi } from 'vitest';
+
+import {
+  MAX_RECENT_COMMANDS,
+  fuzzyMatch,
+  loadRecentCommandIds,
+  pushRecentCommandId,
+  rankCommands,
+  useCommandPaletteCommands,
+  type PaletteCommand,
+} from '@/features/commandPalette';
+import CommandPaletteProvider from '@/features/commandPalette/CommandPaletteProvider';
+import ShortcutProvider from '@/features/shortcuts/ShortcutProvider';
+
+const command = (
+  id: string,
+  label: string,
+  extra: Partial<PaletteCommand> = {}
+): PaletteCommand => ({ id, label, group: '테스트', run: () => {}, ...extra });
+
+describe('fuzzyMatch', () => {
+  it('matches scattered characters in order and ignores case', () => {
+    expect(fuzzyMatch('mp4', 'MP4로 내보내기')?.indices).toEqual([0, 1, 2]);
+    expect(fuzzyMatch('wbm', 'WebM으로 내보내기')?.indices).toEqual([0, 2, 3]);
+    expect(fuzzyMatch('mw', 'WebM으로 내보내기')).toBeNull();
+  });
+
+  it('ranks contiguous matches above scattered ones', () => {
+    const contiguous = fuzzyMatch('트림', '트림 구간 초기화')!;
+    const scattered = fuzzyMatch('트림', '트랙 기록 림')!;
+    expect(contiguous.score).toBeGreaterThan(scattered.score);
+  });
+});
+
+describe('rankCommands', () => {
+  const commands = [
+    command('trim.setStart', '현재 위치를 트림 시작점으로'),
+    command('export.mp4', 'MP4로 내보내기', { keywords: ['export'] }),
+    command('export.webm', 'WebM으로 내보내기', { keywords: ['export'] }),
+  ];
+
+  it('puts recent commands first when the query is empty', () => {
+    const ranked = rankCommands(commands, '', ['export.webm']);
+    expect(ranked.map((r) => r.command.id)).toEqual([
+      'export.webm',
+      'trim.setStart',
+      'export.mp4',
+    ]);
+    expect(ranked[0].isRecent).toBe(true);
+  });
+
+  it('filters by label, group and keywords and breaks ties by recency', () => {
+    expect(rankCommands(commands, '트림', []).map((r) => r.command.id)).toEqual(
+      ['trim.setStart']
+    );
+    expect(
+      rankCommands(commands, 'export', ['export.webm']).map((r) => r.command.id)
+    ).toEqual(['export.webm', 'export.mp4']);
+  });
+
+  it('keeps a bounded, de-duplicated recent list', () => {
+    let recents: string[] = [];
+    for (const id of ['a', 'b', 'c', 'd', 'e', 'f', 'b']) {
+      recents = pushRecentCommandId(recents, id);
+    }
+    expect(recents[0]).toBe('b');
+    expect(recents).toHaveLength(MAX_RECENT_COMMANDS);
+    expect(new Set(recents).size).toBe(recents.length);
+  });
+});
+
+function Feature({
+  onExport,
+  onTrim,
+  canTrim,
+}: {
+  onExport: () => void;
+  onTrim: () => void;
+  canTrim: boolean;
+}) {
+  useCommandPaletteCommands([
+    command('export.mp4', 'MP4로 내보내기', { run: onExport }),
+    command('trim.clear', '트림 구간 초기화', {
+      enabled: canTrim,
+      disabledReason: '트림 구간이 없습니다',
+      run: onTrim,
+    }),
+  ]);
+  return null;
+}
+
+describe('CommandPaletteProvider', () => {
+  afterEach(() => {
+    localStorage.clear();
+  });
+
+  it('opens with Ctrl+K, runs the chosen command and remembers it', () => {
+    const onExport = vi.fn();
+    const onTrim = vi.fn();
+    render(
+      <ShortcutProvider>
+        <CommandPaletteProvider>
+          <Feature onExport={onExport} onTrim={onTrim} canTrim={false} />
+        </CommandPaletteProvider>
+      </ShortcutProvider>
+    );
+
+    fireEvent.keyDown(window, { key: 'k', code: 'KeyK', ctrlKey: true });
+    const input = screen.getByRole('combobox', { name: '명령 검색' });
+
+    // 실행할 수 없는 명령은 이유를 보여 주고 실행하지 않는다.
+    fireEvent.change(input, { target: { value: '트림' } });
+    expect(screen.getByRole('option')).toHaveTextContent(
+      '트림 구간이 없습니다'
+    );
+    fireEvent.keyDown(input, { key: 'Enter', code: 'Enter' });
+    expect(onTrim).not.toHaveBeenCalled();
+
+    fireEvent.change(input, { target: { value: 'mp4' } });
+    fireEvent.keyDown(input, { key: 'Enter', code: 'Enter' });
+    expect(onExport).toHaveBeenCalledTimes(1);
+    expect(screen.queryByRole('dialog')).not.toBeInTheDocument();
+    expect(loadRecentCommandIds()).toEqual(['export.mp4']);
+
+    fireEvent.keyDown(window, { key: 'k', code: 'KeyK', ctrlKey: true });
+    const options = screen.getAllByRole('option');
+    expect(options[0]).toHaveTextContent('MP4로 내보내기');
+    expect(options[0]).toHaveTextContent('최근');
+
+    fireEvent.keyDown(screen.getByRole('combobox'), {
+      key: 'Escape',
+      code: 'Escape',
+    });
+    expect(screen.queryByRole('dialog')).not.toBeInTheDocument();
+  });
+});
@@ -0,0 +1,141 @@
+import { describe, expect, it } from 'vitest';
+
+import { createCaptionId } from '@/data/types';
+import type { Caption } from '@/data/types';
+import {
+  computeKeepSegments,
+  isRangeCut,
+  mapTimeThroughCuts,
+  normalizeCutRanges,
+  retimeCaptionsForCuts,
+  stripCutWords,
+  subtractCutRange,
+  wordCutRange,
+} from '@/features/export';
+
+describe('cutRanges', () => {
+  it('제거 구간을 정렬하고 겹치는 구간을 합친다', () => {
+    expect(
+      normalizeCutRanges(
+        [
+          { startMs: 5000, endMs: 6000 },
+          { startMs: 1000, endMs: 2000 },
+          { startMs: 1500, endMs: 3000 },
+          { startMs: 9000, endMs: 12000 },
+          { startMs: 4000, endMs: 4000 },
+        ],
+        10000
+      )
+    ).toEqual([
+      { startMs: 1000, endMs: 3000 },
+      { startMs: 5000, endMs: 6000 },
+      { startMs: 9000, endMs: 10000 },
+    ]);
+  });
+
+  it('제거 구간 사이의 유지 구간을 계산한다', () => {
+    const cuts = [
+      { startMs: 0, endMs: 1000 },
+      { startMs: 4000, endMs: 5000 },
+    ];
+    expect(computeKeepSegments(cuts, 8000)).toEqual([
+      { startMs: 1000, endMs: 4000 },
+      { startMs: 5000, endMs: 8000 },
+    ]);
+    expect(computeKeepSegments([{ startMs: 0, endMs: 8000 }], 8000)).toEqual(
+      []
+    );
+  });
+
+  it('원본 시간을 출력 타임라인으로 변환한다', () => {
+    const cuts = [
+      { startMs: 1000, endMs: 2000 },
+      { startMs: 3000, endMs: 5000 },
+    ];
+    expect(mapTimeThroughCuts(500, cuts)).toBe(500);
+    expect(mapTimeThroughCuts(1500, cuts)).toBe(1000);
+    expect(mapTimeThroughCuts(2500, cuts)).toBe(1500);
+    expect(mapTimeThroughCuts(6000, cuts)).toBe(3000);
+  });
+
+  it('자막과 단어 타이밍을 제거 구간에 맞춰 다시 맞춘다', () => {
+    const captions: Caption[] = [
+      {
+        id: createCaptionId('a'),
+        startMs: 0,
+        endMs: 1500,
+        text: 'hello world',
+        words: [
+          { text: 'hello', startMs: 0, endMs: 700 },
+          { text: 'world', startMs: 1100, endMs: 1500 },
+        ],
+      },
+      { id: createCaptionId('b'), startMs: 1200, endMs: 1800, text: 'gone' },
+      { id: createCaptionId('c'), startMs: 3000, endMs: 4000, text: 'later' },
+    ];
+
+    const retimed = retimeCaptionsForCuts(
+      captions,
+      [{ startMs: 1000, endMs: 2000 }],
+      5000
+    );
+
+    expect(retimed.map((c) => c.text)).toEqual(['hello world', 'later']);
+    expect(retimed[0]).toMatchObject({ startMs: 0, endMs: 1000 });
+    expect(retimed[0].words).toEqual([
+      { text: 'hello', startMs: 0, endMs: 700 },
+    ]);
+    expect(retimed[1]).toMatchObject({ startMs: 2000, endMs: 3000 });
+  });
+
+  it('되살린 구간을 제거 목록에서 빼낸다', () => {
+    const ranges = [{ startMs: 1000, endMs: 5000 }];
+    expect(
+      subtractCutRange(ranges, { startMs: 2000, endMs: 3000 }, 10000)
+    ).toEqual([
+      { startMs: 1000, endMs: 2000 },
+      { startMs: 3000, endMs: 5000 },
+    ]);
+    expect(
+      subtractCutRange(ranges, { startMs: 0, endMs: 6000 }, 10000)
+    ).toEqual([]);
+    expect(isRangeCut({ startMs: 1500, endMs: 5000 }, ranges)).toBe(true);
+    expect(isRangeCut({ startMs: 500, endMs: 1500 }, ranges)).toBe(false);
+  });
+
+  it('지운 단어를 자막에서 빼고 연속한 단어는 한 구간으로 잇는다', () => {
+    const caption: Caption = {
+      id: createCaptionId('a'),
+      startMs: 0,
+      endMs: 2000,
+      text: 'um hello there world',
+      words: [
+        { text: 'um', startMs: 0, endMs: 300 },
+        { text: 'hello', startMs: 400, endMs: 900 },
+        { text: 'there', startMs: 1000, endMs: 1400 },
+        { text: 'world', startMs: 1500, endMs: 2000 },
+      ],
+    };
+    const words = caption.words ?? [];
+    const cuts = normalizeCutRanges(
+      [wordCutRange(caption, words, 1), wordCutRange(caption, words, 2)],
+      5000
+    );
+    expect(cuts).toEqual([{ startMs: 400, endMs: 1500 }]);
+
+    const [stripped] = stripCutWords([caption], cuts, 5000);
+    expect(stripped.text).toBe('um world');
+    expect(stripped.words?.map((w) => w.text)).toEqual(['um', 'world']);
+
+    const [retimed] = retimeCaptionsForCuts([stripped], cuts, 5000);
+    expect(retimed).toMatchObject({ startMs: 0, endMs: 900 });
+    expect(retimed.words?.[1]).toEqual({
+      text: 'world',
+      startMs: 400,
+      endMs: 900,
+    });
+    expect(
+      stripCutWords([caption], [{ startMs: 0, endMs: 2000 }], 5000)
+    ).toEqual([]);
+  });
+});
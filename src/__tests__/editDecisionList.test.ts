@@ -0,0 +1,74 @@
+import { describe, expect, it } from 'vitest';
+
+import { createCaptionId } from '@/data/types';
+import {
+  createEditDecisionList,
+  findCutStartWithin,
+  isIdentityEdl,
+  mapCaptionsToOutput,
+  outputToSourceMs,
+  resolvePlayableSourceMs,
+  sourceToOutputMs,
+} from '@/features/playback/editDecisionList';
+
+describe('editDecisionList', () => {
+  const edl = createEditDecisionList(
+    [
+      { startMs: 3000, endMs: 5000 },
+      { startMs: 1000, endMs: 2000 },
+      { startMs: 9000, endMs: 12000 },
+    ],
+    10000
+  );
+
+  it('남길 구간을 이어 붙여 출력 타임라인을 만든다', () => {
+    expect(edl.outputDurationMs).toBe(6000);
+    expect(edl.segments).toEqual([
+      { sourceStartMs: 0, sourceEndMs: 1000, outputStartMs: 0 },
+      { sourceStartMs: 2000, sourceEndMs: 3000, outputStartMs: 1000 },
+      { sourceStartMs: 5000, sourceEndMs: 9000, outputStartMs: 2000 },
+    ]);
+    expect(isIdentityEdl(edl)).toBe(false);
+    expect(isIdentityEdl(createEditDecisionList([], 10000))).toBe(true);
+  });
+
+  it('원본 시간과 출력 시간을 서로 변환한다', () => {
+    expect(sourceToOutputMs(edl, 500)).toBe(500);
+    expect(sourceToOutputMs(edl, 1500)).toBe(1000);
+    expect(sourceToOutputMs(edl, 6000)).toBe(3000);
+    expect(sourceToOutputMs(edl, 9500)).toBe(6000);
+
+    expect(outputToSourceMs(edl, 500)).toBe(500);
+    // 경계에서는 뒤 구간의 시작으로 간다.
+    expect(outputToSourceMs(edl, 1000)).toBe(2000);
+    expect(outputToSourceMs(edl, 3000)).toBe(6000);
+    expect(outputToSourceMs(edl, 99999)).toBe(9000);
+  });
+
+  it('제거 구간 안의 재생 위치를 다음 남길 구간으로 옮긴다', () => {
+    expect(resolvePlayableSourceMs(edl, 500)).toBeNull();
+    expect(resolvePlayableSourceMs(edl, 3500)).toBe(5000);
+    expect(resolvePlayableSourceMs(edl, 9200)).toBe(10000);
+  });
+
+  it('다음 프레임 전에 시작하는 제거 구간을 찾는다', () => {
+    expect(findCutStartWithin(edl, 900, 1100)).toBe(1000);
+    expect(findCutStartWithin(edl, 2500, 3200)).toBe(3000);
+    expect(findCutStartWithin(edl, 1100, 2900)).toBeNull();
+  });
+
+  it('자막을 출력 타임라인으로 옮긴다', () => {
+    const captions = mapCaptionsToOutput(
+      [
+        { id: createCaptionId('a'), startMs: 2200, endMs: 2800, text: 'a' },
+        { id: createCaptionId('b'), startMs: 3200, endMs: 4000, text: 'b' },
+        { id: createCaptionId('c'), startMs: 5500, endMs: 6000, text: 'c' },
+      ],
+      edl
+    );
+    expect(captions.map((c) => [c.text, c.startMs, c.endMs])).toEqual([
+      ['a', 1200, 1800],
+      ['c', 2500, 3000],
+    ]);
+  });
+});
@@ -0,0 +1,87 @@
+import { describe, expect, it } from 'vitest';
+import { act, renderHook } from '@testing-library/react';
+
+import {
+  EMPTY_HISTORY,
+  HISTORY_GROUP_WINDOW_MS,
+  pushHistory,
+  redoHistory,
+  undoHistory,
+  useEditHistory,
+} from '@/features/history';
+import { useTrimRange } from '@/features/playback/useTrimRange';
+
+function counterCommand(
+  log: number[],
+  before: number,
+  after: number,
+  groupKey?: string
+) {
+  return {
+    label: `set ${after}`,
+    groupKey,
+    undo: () => log.push(before),
+    redo: () => log.push(after),
+  };
+}
+
+describe('editHistory', () => {
+  it('같은 groupKey의 연속 편집은 시간 창 안에서 하나로 묶는다', () => {
+    const log: number[] = [];
+    let state = pushHistory(EMPTY_HISTORY, counterCommand(log, 0, 1, 't'), 0);
+    state = pushHistory(state, counterCommand(log, 1, 2, 't'), 300);
+    state = pushHistory(state, counterCommand(log, 2, 3, 't'), 600);
+    expect(state.past).toHaveLength(1);
+
+    state = pushHistory(
+      state,
+      counterCommand(log, 3, 4, 't'),
+      600 + HISTORY_GROUP_WINDOW_MS + 1
+    );
+    expect(state.past).toHaveLength(2);
+
+    const first = undoHistory(state);
+    const second = first && undoHistory(first.state);
+    second?.entry.undo();
+    second?.entry.redo();
+    // 묶인 기록은 첫 편집 이전 값으로 되돌리고 마지막 편집 값으로 다시 실행한다.
+    expect(log).toEqual([0, 3]);
+  });
+
+  it('새 편집은 다시 실행 목록을 비운다', () => {
+    const log: number[] = [];
+    let state = pushHistory(EMPTY_HISTORY, counterCommand(log, 0, 1), 0);
+    state = undoHistory(state)!.state;
+    expect(state.future).toHaveLength(1);
+
+    state = pushHistory(state, counterCommand(log, 0, 5), 10);
+    expect(state.future).toHaveLength(0);
+    expect(redoHistory(state)).toBeNull();
+  });
+
+  it('트림 구간 변경을 실행 취소/다시 실행한다', () => {
+    const { result } = renderHook(() => {
+      const history = useEditHistory();
+      const trim = useTrimRange(2000, { record: history.record });
+      return { history, trim };
+    });
+
+    act(() => result.current.trim.actions.setRange(100, 400));
+    act(() => result.current.trim.actions.clear());
+    expect(result.current.trim.range).toBeNull();
+    expect(result.current.history.past.map((e) => e.label)).toEqual([
+      '트림 구간 변경',
+      '트림 구간 해제',
+    ]);
+
+    act(() => result.current.history.undo());
+    expect(result.current.trim.range).toEqual({ startMs: 100, endMs: 400 });
+
+    act(() => result.current.history.jumpTo(null));
+    expect(result.current.trim.range).toBeNull();
+    expect(result.current.history.canUndo).toBe(false);
+
+    act(() => result.current.history.redo());
+    expect(result.current.trim.range).toEqual({ startMs: 100, endMs: 400 });
+  });
+});
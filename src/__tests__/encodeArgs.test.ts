@@ -0,0 +1,39 @@
+import { describe, expect, it } from 'vitest';
+
+import { buildTrimCodecArgs } from '@/features/export/encodeArgs';
+
+describe('buildTrimCodecArgs', () => {
+  it('copies streams into MP4 when nothing needs re-encoding', () => {
+    expect(buildTrimCodecArgs({ outputFormat: 'mp4' })).toEqual(['-c', 'copy']);
+    const audioOnly = buildTrimCodecArgs({
+      outputFormat: 'mp4',
+      audioChannel: 'left',
+    });
+    expect(audioOnly.slice(0, 2)).toEqual(['-c:v', 'copy']);
+    expect(audioOnly).toContain('aac');
+  });
+
+  it('always re-encodes to VP9/Vorbis for WebM', () => {
+    for (const options of [
+      {},
+      { audioChannel: 'right' as const },
+      { videoFilter: 'hue=s=0' },
+    ]) {
+      const args = buildTrimCodecArgs({ outputFormat: 'webm', ...options });
+      expect(args).not.toContain('copy');
+      expect(args[args.indexOf('-c:v') + 1]).toBe('libvpx-vp9');
+      expect(args[args.indexOf('-c:a') + 1]).toBe('libvorbis');
+    }
+  });
+
+  it('keeps the video filter and channel pan when re-encoding', () => {
+    const args = buildTrimCodecArgs({
+      outputFormat: 'mp4',
+      videoFilter: 'hue=s=0',
+      audioChannel: 'left',
+    });
+    expect(args[args.indexOf('-vf') + 1]).toBe('hue=s=0');
+    expect(args[args.indexOf('-af') + 1]).toBe('pan=stereo|c0=c0|c1=c0');
+    expect(args[args.indexOf('-c:v') + 1]).toBe('libx264');
+  });
+});
@@ -0,0 +1,161 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+
+import {
+  extractWaveformPeaks,
+  initFFmpegWorker,
+  isJobRunning,
+  terminateFFmpegWorker,
+  trimVideo,
+} from '@/features/export/ffmpegClient';
+import type {
+  WorkerRequest,
+  WorkerResponse,
+} from '@/features/export/ffmpegTypes';
+
+class FakeWorker extends EventTarget {
+  static current: FakeWorker | null = null;
+  sent: WorkerRequest[] = [];
+
+  constructor() {
+    super();
+    FakeWorker.current = this;
+  }
+
+  postMessage(msg: WorkerRequest) {
+    this.sent.push(msg);
+    if (msg.type === 'init') {
+      queueMicrotask(() =>
+        this.reply({ type: 'init-complete', success: true, loadMs: 1 })
+      );
+    }
+  }
+
+  reply(msg: WorkerResponse) {
+    this.dispatchEvent(new MessageEvent('message', { data: msg }));
+  }
+
+  jobs() {
+    return this.sent.filter((msg) => msg.type !== 'init');
+  }
+
+  terminate() {}
+}
+
+const blob = new Blob(['media']);
+const peaksData = {
+  peaks: new Int16Array(2),
+  pyramid: null,
+  channels: null,
+  elapsedMs: 1,
+};
+
+function worker() {
+  return FakeWorker.current!;
+}
+
+describe('ffmpegClient job queue', () => {
+  beforeEach(async () => {
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    vi.stubGlobal('Worker', FakeWorker);
+    await initFFmpegWorker();
+  });
+
+  afterEach(() => {
+    terminateFFmpegWorker();
+    vi.unstubAllGlobals();
+    vi.restoreAllMocks();
+    vi.useRealTimers();
+  });
+
+  it('lets an export pre-empt a running analysis job and re-runs it afterwards', async () => {
+    const peaks = extractWaveformPeaks({ inputBlob: blob, bucketCount: 2 });
+    const [peaksJob] = worker().jobs();
+    expect(peaksJob.type).toBe('peaks');
+
+    const trim = trimVideo({ inputBlob: blob, startMs: 0, endMs: 1000 });
+    // 분석 작업에 취소만 보내고, 워커가 답할 때까지 내보내기는 보내지 않는다.
+    expect(
+      worker()
+        .jobs()
+        .map((msg) => msg.type)
+    ).toEqual(['peaks', 'cancel']);
+
+    worker().reply({
+      type: 'cancelled',
+      jobId: (peaksJob as { jobId: string }).jobId,
+    });
+    const trimJob = worker().jobs()[2] as { type: string; jobId: string };
+    expect(trimJob.type).toBe('trim');
+
+    worker().reply({
+      type: 'completed',
+      jobId: trimJob.jobId,
+      data: {
+        outputBuffer: new ArrayBuffer(4),
+        mime: 'video/mp4',
+        elapsedMs: 1,
+      },
+    });
+    await expect(trim).resolves.toMatchObject({ elapsedMs: 1 });
+
+    const retried = worker().jobs()[3] as { type: string; jobId: string };
+    expect(retried.type).toBe('peaks');
+    worker().reply({
+      type: 'peaks-completed',
+      jobId: retried.jobId,
+      data: peaksData,
+    });
+    await expect(peaks).resolves.toMatchObject({ elapsedMs: 1 });
+    expect(isJobRunning()).toBe(false);
+  });
+
+  it('keeps the slot after a timeout until the worker answers', async () => {
+    vi.useFakeTimers();
+    const first = extractWaveformPeaks(
+      { inputBlob: blob, bucketCount: 2 },
+      { timeoutMs: 1000 }
+    );
+    const firstJob = worker().jobs()[0] as { jobId: string };
+    const second = extractWaveformPeaks({ inputBlob: blob, bucketCount: 2 });
+
+    vi.advanceTimersByTime(1000);
+    await expect(first).rejects.toMatchObject({ code: 'TIMEOUT' });
+    expect(
+      worker()
+        .jobs()
+        .map((msg) => msg.type)
+    ).toEqual(['peaks', 'cancel']);
+    expect(isJobRunning()).toBe(true);
+
+    worker().reply({ type: 'cancelled', jobId: firstJob.jobId });
+    const secondJob = worker().jobs()[2] as { type: string; jobId: string };
+    expect(secondJob.type).toBe('peaks');
+    worker().reply({
+      type: 'peaks-completed',
+      jobId: secondJob.jobId,
+      data: peaksData,
+    });
+    await expect(second).resolves.toMatchObject({ elapsedMs: 1 });
+  });
+
+  it('drops a queued job when its signal aborts', async () => {
+    const running = extractWaveformPeaks({ inputBlob: blob, bucketCount: 2 });
+    const controller = new AbortController();
+    const queued = extractWaveformPeaks(
+      { inputBlob: blob, bucketCount: 2 },
+      { signal: controller.signal }
+    );
+
+    controller.abort();
+    await expect(queued).rejects.toMatchObject({ code: 'CANCELLED' });
+
+    const job = worker().jobs()[0] as { jobId: string };
+    worker().reply({
+      type: 'peaks-completed',
+      jobId: job.jobId,
+      data: peaksData,
+    });
+    await expect(running).resolves.toBeDefined();
+    expect(worker().jobs()).toHaveLength(1);
+  });
+});
@@ -0,0 +1,65 @@
+import { describe, expect, it } from 'vitest';
+
+import { buildFFmpegVideoFilter } from '@/features/filters';
+import type { FilterState } from '@/features/filters';
+
+const off = { enabled: false, amount: 0 };
+
+function makeFilters(
+  overrides: Partial<FilterState['filters']>
+): FilterState['filters'] {
+  return { grayscale: off, brightness: off, contrast: off, ...overrides };
+}
+
+describe('buildFFmpegVideoFilter', () => {
+  it('활성화된 필터가 없으면 undefined를 반환한다', () => {
+    expect(buildFFmpegVideoFilter(makeFilters({}))).toBeUndefined();
+    expect(
+      buildFFmpegVideoFilter(
+        makeFilters({ brightness: { enabled: true, amount: 0 } })
+      )
+    ).toBeUndefined();
+  });
+
+  it('흑백 필터는 셰이더와 같은 luma 가중치로 채널을 섞는다', () => {
+    const chain = buildFFmpegVideoFilter(
+      makeFilters({ grayscale: { enabled: true, amount: 1 } })
+    );
+    expect(chain).toBe(
+      'colorchannelmixer=rr=0.299:rg=0.587:rb=0.114:gr=0.299:gg=0.587:gb=0.114:br=0.299:bg=0.587:bb=0.114,format=yuv420p'
+    );
+
+    const half = buildFFmpegVideoFilter(
+      makeFilters({ grayscale: { enabled: true, amount: 0.5 } })
+    );
+    expect(half).toContain('rr=0.6495:rg=0.2935:rb=0.057');
+  });
+
+  it('밝기 다음에 대비를 적용하는 lutrgb 식을 만든다', () => {
+    const chain = buildFFmpegVideoFilter(
+      makeFilters({
+        brightness: { enabled: true, amount: 0.2 },
+        contrast: { enabled: true, amount: 0.5 },
+      })
+    );
+    const expr = 'clip((clip(val+51,0,255)-127.5)*1.5+127.5,0,255)';
+    expect(chain).toBe(
+      `lutrgb=r='${expr}':g='${expr}':b='${expr}',format=yuv420p`
+    );
+  });
+
+  it('흑백 → 밝기/대비 순서로 체인을 연결한다', () => {
+    const chain = buildFFmpegVideoFilter(
+      makeFilters({
+        grayscale: { enabled: true, amount: 1 },
+        contrast: { enabled: true, amount: -0.5 },
+      })
+    );
+    const filters = chain?.split(/,(?=[a-z]+=)/) ?? [];
+    expect(filters.map((f) => f.split('=')[0])).toEqual([
+      'colorchannelmixer',
+      'lutrgb',
+      'format',
+    ]);
+  });
+});
@@ -0,0 +1,139 @@
+import { describe, expect, it, vi } from 'vitest';
+
+import type { Caption } from '@/data/types';
+import {
+  alignCaptionWords,
+  alignCaptionsToAudio,
+  computeFrameEnergies,
+  estimateSyllables,
+  mergeServiceAlignment,
+  type AlignmentService,
+} from '@/features/transcription';
+
+const RATE = 16000;
+
+/** 주어진 구간에만 220Hz 사인파가 있고 나머지는 약한 잡음인 오디오 */
+function makeBursts(durationMs: number, bursts: [number, number][]) {
+  const samples = new Float32Array((durationMs / 1000) * RATE);
+  for (let i = 0; i < samples.length; i++) {
+    samples[i] = (((i * 7919) % 200) / 200 - 0.5) * 0.002;
+  }
+  for (const [startMs, endMs] of bursts) {
+    const from = (startMs / 1000) * RATE;
+    const to = (endMs / 1000) * RATE;
+    for (let i = from; i < to; i++) {
+      samples[i] = 0.5 * Math.sin((2 * Math.PI * 220 * i) / RATE);
+    }
+  }
+  return { samples, sampleRate: RATE };
+}
+
+const caption: Caption = {
+  id: 'c1',
+  startMs: 0,
+  endMs: 3000,
+  text: 'alpha beta gamma',
+};
+
+const bursts: [number, number][] = [
+  [200, 700],
+  [1000, 1900],
+  [2300, 2800],
+];
+
+describe('forced alignment', () => {
+  it('음절 수를 센다', () => {
+    expect(estimateSyllables('안녕하세요')).toBe(5);
+    expect(estimateSyllables('alignment')).toBe(3);
+    expect(estimateSyllables('...')).toBe(1);
+  });
+
+  it('발화 구간 사이의 골을 단어 경계로 고른다', () => {
+    const audio = makeBursts(3000, bursts);
+    const energies = computeFrameEnergies(audio.samples, audio.sampleRate);
+    const { words, confidence } = alignCaptionWords(caption, energies);
+
+    expect(words.map((w) => w.text)).toEqual(['alpha', 'beta', 'gamma']);
+    words.forEach((word, i) => {
+      expect(Math.abs(word.startMs - bursts[i][0])).toBeLessThanOrEqual(50);
+      expect(Math.abs(word.endMs - bursts[i][1])).toBeLessThanOrEqual(50);
+    });
+    expect(confidence).toBeGreaterThan(0.6);
+    expect(confidence).toBeLessThanOrEqual(1);
+  });
+
+  it('이전 단어 목록이 아니라 현재 텍스트의 단어를 정렬한다', () => {
+    const audio = makeBursts(3000, bursts);
+    const energies = computeFrameEnergies(audio.samples, audio.sampleRate);
+    const edited = {
+      ...caption,
+      text: 'alpha beta delta',
+      words: [{ text: 'alpha beta gamma', startMs: 0, endMs: 3000 }],
+    };
+    const { words } = alignCaptionWords(edited, energies);
+
+    expect(words.map((w) => w.text)).toEqual(['alpha', 'beta', 'delta']);
+  });
+
+  it('에너지 변화가 없으면 균등 분배에 낮은 신뢰도를 준다', () => {
+    const audio = makeBursts(3000, []);
+    const energies = computeFrameEnergies(audio.samples, audio.sampleRate);
+    const { words, confidence } = alignCaptionWords(caption, energies);
+
+    expect(words).toHaveLength(3);
+    expect(words[0].startMs).toBe(0);
+    expect(words[2].endMs).toBe(3000);
+    expect(confidence).toBeLessThanOrEqual(0.1);
+  });
+
+  it('서비스가 정렬한 단어만 서비스 타이밍을 쓴다', () => {
+    const energy = {
+      words: [
+        { text: 'Hello,', startMs: 1000, endMs: 1400 },
+        { text: 'world.', startMs: 1400, endMs: 2000 },
+      ],
+      confidence: 0.6,
+    };
+    const merged = mergeServiceAlignment(
+      { id: 'c', startMs: 1000, endMs: 2000, text: 'Hello, world.' },
+      [
+        {
+          word: 'hello',
+          case: 'success',
+          start: 0.25,
+          phones: [{ duration: 0.1 }, { duration: 0.2 }],
+        },
+        { word: 'world', case: 'not-found-in-audio' },
+      ],
+      800,
+      energy
+    );
+
+    expect(merged.words).toEqual([
+      { text: 'Hello,', startMs: 1050, endMs: 1350 },
+      { text: 'world.', startMs: 1400, endMs: 2000 },
+    ]);
+    expect(merged.confidence).toBeCloseTo(0.5 * 0.9 + 0.5 * 0.6 * 0.5);
+  });
+
+  it('서비스가 실패한 자막은 에너지 정렬로 채운다', async () => {
+    const service: AlignmentService = {
+      alignCaption: vi.fn(() => Promise.reject(new Error('offline'))),
+    };
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    const onProgress = vi.fn();
+
+    const [aligned] = await alignCaptionsToAudio(
+      [caption],
+      makeBursts(3000, bursts),
+      { service, onProgress }
+    );
+
+    expect(service.alignCaption).toHaveBeenCalledOnce();
+    expect(aligned.words).toHaveLength(3);
+    expect(aligned.alignmentConfidence).toBeGreaterThan(0.6);
+    expect(onProgress).toHaveBeenLastCalledWith(
+      expect.objectContaining({ progress: 1, stage: 'aligning' })
+    );
+  });
+});
@@ -0,0 +1,129 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+
+import { ApiError } from '@/data/apiErrors';
+import { createHttpAppApi } from '@/data/httpAppApi';
+import { createMockHttpServer } from '@/data/mockHttpServer';
+import { createCaptionId, createVideoId } from '@/data/types';
+import { DEFAULT_CAPTION_STYLE } from '@/features/captions/captionStyle';
+
+describe('createHttpAppApi', () => {
+  const server = createMockHttpServer('/api');
+  const api = createHttpAppApi({
+    baseUrl: '/api',
+    fetch: server.fetch,
+    retryBaseDelayMs: 0,
+  });
+
+  beforeEach(() => {
+    server.reset();
+  });
+
+  it('비디오 CRUD를 서버와 주고받는다', async () => {
+    const first = await api.createVideo({ title: '첫 영상', createdAt: 1 });
+    const second = await api.createVideo({ title: '둘째 영상', createdAt: 2 });
+
+    const list = await api.listVideos();
+    expect(list.map((v) => v.id)).toEqual([second.id, first.id]);
+
+    await api.updateVideoMetadata(first.id, { durationMs: 1500, width: 640 });
+    expect(await api.getVideo(first.id)).toMatchObject({
+      title: '첫 영상',
+      durationMs: 1500,
+      width: 640,
+    });
+
+    await api.deleteVideo(first.id);
+    expect(await api.getVideo(first.id)).toBeNull();
+    expect(await api.listVideos()).toHaveLength(1);
+  });
+
+  it('자막을 저장하고 다시 불러온다', async () => {
+    const video = await api.createVideo({ title: '자막 영상' });
+    expect(await api.listCaptions(video.id)).toEqual([]);
+
+    const captions = [
+      { id: createCaptionId('c1'), startMs: 0, endMs: 1000, text: 'hello' },
+    ];
+    await api.saveCaptions(video.id, captions);
+    expect(await api.listCaptions(video.id)).toEqual(captions);
+  });
+
+  it('비디오 기본 자막 스타일을 저장하고 다시 불러온다', async () => {
+    const video = await api.createVideo({ title: '스타일 영상' });
+    expect(await api.getCaptionStyle(video.id)).toBeNull();
+
+    const style = { ...DEFAULT_CAPTION_STYLE, fontSize: 42, bold: true };
+    await api.saveCaptionStyle(video.id, style);
+    expect(await api.getCaptionStyle(video.id)).toEqual(style);
+  });
+
+  it('비디오와 썸네일 blob을 업로드/다운로드한다', async () => {
+    const video = await api.createVideo({ title: 'blob 영상' });
+    expect(await api.getVideoBlob(video.id)).toBeNull();
+
+    await api.putVideoBlob(
+      video.id,
+      new Blob(['video-bytes'], { type: 'video/mp4' })
+    );
+    await api.putThumbnailBlob(
+      video.id,
+      new Blob(['thumb'], { type: 'image/jpeg' })
+    );
+
+    const videoBlob = await api.getVideoBlob(video.id);
+    expect(videoBlob?.size).toBe('video-bytes'.length);
+    expect(videoBlob?.type).toBe('video/mp4');
+
+    const thumb = await api.getThumbnailBlob(video.id);
+    expect(thumb?.type).toBe('image/jpeg');
+  });
+
+  it('5xx 응답은 재시도한 뒤 성공한다', async () => {
+    let failures = 2;
+    const flakyFetch = vi.fn<typeof fetch>((input, init) => {
+      if (failures > 0) {
+        failures -= 1;
+        return Promise.resolve(new Response('busy', { status: 503 }));
+      }
+      return server.fetch(input, init);
+    });
+    const flakyApi = createHttpAppApi({
+      baseUrl: '/api',
+      fetch: flakyFetch,
+      retryBaseDelayMs: 0,
+    });
+
+    await expect(flakyApi.listVideos()).resolves.toEqual([]);
+    expect(flakyFetch).toHaveBeenCalledTimes(3);
+  });
+
+  it('POST는 재시도하지 않고 ApiError를 던진다', async () => {
+    const failingFetch = vi.fn<typeof fetch>(() =>
+      Promise.resolve(new Response('down', { status: 500 }))
+    );
+    const failingApi = createHttpAppApi({
+      baseUrl: '/api',
+      fetch: failingFetch,
+      retryBaseDelayMs: 0,
+    });
+
+    const error = await failingApi
+      .createVideo({ title: 'x' })
+      .catch((e: unknown) => e);
+    expect(error).toBeInstanceOf(ApiError);
+    expect(error).toMatchObject({ code: 'SERVER_ERROR', status: 500 });
+    expect(failingFetch).toHaveBeenCalledTimes(1);
+  });
+
+  it('네트워크 오류는 NETWORK_ERROR로 변환된다', async () => {
+    const offlineApi = createHttpAppApi({
+      baseUrl: '/api',
+      fetch: () => Promise.reject(new TypeError('Failed to fetch')),
+      retries: 0,
+    });
+
+    await expect(
+      offlineApi.getVideo(createVideoId('missing'))
+    ).rejects.toMatchObject({ code: 'NETWORK_ERROR' });
+  });
+});
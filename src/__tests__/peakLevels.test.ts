@@ -0,0 +1,60 @@
+import { describe, expect, it } from 'vitest';
+
+import {
+  detailCoversView,
+  needsDetailPeaks,
+  selectPyramidLevel,
+} from '@/features/waveform/peakLevels';
+import { panViewRange, zoomViewRange } from '@/features/waveform/timeMapping';
+
+const levels = [
+  new Int16Array(1600 * 2),
+  new Int16Array(800 * 2),
+  new Int16Array(400 * 2),
+  new Int16Array(200 * 2),
+];
+
+describe('selectPyramidLevel', () => {
+  it('전체 보기에서는 픽셀 수를 채우는 가장 거친 레벨을 고른다', () => {
+    expect(selectPyramidLevel(levels, 10_000, 10_000, 300)).toBe(2);
+    expect(selectPyramidLevel(levels, 10_000, 10_000, 100)).toBe(3);
+  });
+
+  it('확대할수록 촘촘한 레벨로 내려가고, 모자라면 구간 피크를 요청한다', () => {
+    expect(selectPyramidLevel(levels, 10_000, 2_500, 200)).toBe(1);
+    expect(selectPyramidLevel(levels, 10_000, 500, 300)).toBe(0);
+    expect(needsDetailPeaks(levels[0], 10_000, 500, 300)).toBe(true);
+    expect(needsDetailPeaks(levels[0], 10_000, 2_500, 300)).toBe(false);
+  });
+
+  it('구간 피크는 보기 구간을 모두 덮을 때만 쓴다', () => {
+    const detail = { startMs: 1000, endMs: 2000, peaks: new Int16Array(600) };
+    expect(detailCoversView(detail, 1200, 1800, 300)).toBe(true);
+    expect(detailCoversView(detail, 900, 1800, 300)).toBe(false);
+  });
+});
+
+describe('view range zoom/pan', () => {
+  it('기준점의 화면 위치를 유지하며 확대한다', () => {
+    expect(zoomViewRange(10_000, 0, 10_000, 0.5, 2_500)).toEqual({
+      viewStartMs: 1250,
+      viewEndMs: 6250,
+    });
+  });
+
+  it('전체 길이와 최소 보기 길이를 넘지 않는다', () => {
+    expect(zoomViewRange(10_000, 8_000, 10_000, 10, 9_000)).toEqual({
+      viewStartMs: 0,
+      viewEndMs: 10_000,
+    });
+    const tiny = zoomViewRange(10_000, 0, 1_000, 0.001, 500);
+    expect(tiny.viewEndMs - tiny.viewStartMs).toBe(100);
+  });
+
+  it('이동은 끝에서 멈춘다', () => {
+    expect(panViewRange(10_000, 7_000, 9_000, 5_000)).toEqual({
+      viewStartMs: 8_000,
+      viewEndMs: 10_000,
+    });
+  });
+});
@@ -0,0 +1,61 @@
+import { describe, expect, it } from 'vitest';
+
+import { parseProbeLog } from '@/features/export/probeParser';
+
+const MP4_LOG = [
+  "Input #0, mov,mp4,m4a,3gp,3g2,mj2, from 'probe_input.mp4':",
+  '  Metadata:',
+  '    major_brand     : isom',
+  '  Duration: 00:01:02.50, start: 0.000000, bitrate: 2345 kb/s',
+  '  Stream #0:0[0x1](und): Video: h264 (High) (avc1 / 0x31637661), yuv420p(tv, bt709, progressive), 1920x1080 [SAR 1:1 DAR 16:9], 2200 kb/s, 29.97 fps, 29.97 tbr, 30k tbn (default)',
+  '    Metadata:',
+  '      handler_name    : VideoHandler',
+  '  Stream #0:1[0x2](und): Audio: aac (LC) (mp4a / 0x6134706D), 48000 Hz, stereo, fltp, 128 kb/s (default)',
+  'At least one output file must be specified',
+];
+
+describe('parseProbeLog', () => {
+  it('길이, 해상도, 프레임레이트, 코덱, 오디오 정보를 추출한다', () => {
+    const probe = parseProbeLog(MP4_LOG);
+
+    expect(probe.durationMs).toBe(62_500);
+    expect(probe.bitrate).toBe(2_345_000);
+    expect(probe.width).toBe(1920);
+    expect(probe.height).toBe(1080);
+    expect(probe.videoCodec).toBe('h264');
+    expect(probe.codec).toBe('h264');
+    expect(probe.frameRate).toBeCloseTo(30000 / 1001, 6);
+    expect(probe.rotation).toBe(0);
+    expect(probe.audioCodec).toBe('aac');
+    expect(probe.audioSampleRate).toBe(48000);
+    expect(probe.audioChannels).toBe(2);
+  });
+
+  it('displaymatrix 회전을 반영해 표시 크기를 바꾼다', () => {
+    const probe = parseProbeLog([
+      '  Duration: 00:00:05.00, start: 0.000000, bitrate: 900 kb/s',
+      '  Stream #0:0(und): Video: hevc (Main) (hvc1 / 0x31637668), yuv420p(tv), 1920x1080, 25 fps, 25 tbr (default)',
+      '    Side data:',
+      '      displaymatrix: rotation of -90.00 degrees',
+      '  Stream #0:1(und): Audio: opus, 44100 Hz, mono, fltp (default)',
+    ]);
+
+    expect(probe.rotation).toBe(90);
+    expect(probe.width).toBe(1080);
+    expect(probe.height).toBe(1920);
+    expect(probe.frameRate).toBe(25);
+    expect(probe.audioChannels).toBe(1);
+  });
+
+  it('오디오 전용 파일과 5.1 채널 레이아웃을 처리한다', () => {
+    const probe = parseProbeLog([
+      '  Duration: 00:00:01.23, start: 0.000000, bitrate: 320 kb/s',
+      '  Stream #0:0: Audio: ac3, 48000 Hz, 5.1(side), fltp, 320 kb/s',
+    ]);
+
+    expect(probe.durationMs).toBe(1230);
+    expect(probe.width).toBe(0);
+    expect(probe.rotation).toBeUndefined();
+    expect(probe.audioChannels).toBe(6);
+  });
+});
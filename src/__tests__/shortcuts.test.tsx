@@ -0,0 +1,136 @@
+import { fireEvent, render, screen } from '@testing-library/react';
+import { afterEach, describe, expect, it, vi } from 'vitest';
+
+import {
+  DEFAULT_KEYMAP,
+  SHORTCUT_COMMANDS,
+  comboFromEvent,
+  findBindingConflicts,
+  findConflicts,
+  formatCombo,
+  loadKeymapOverrides,
+  resolveKeymap,
+  usePageShortcuts,
+} from '@/features/shortcuts';
+import ShortcutProvider from '@/features/shortcuts/ShortcutProvider';
+
+const key = (init: Partial<KeyboardEvent>) =>
+  ({
+    key: '',
+    code: '',
+    ctrlKey: false,
+    metaKey: false,
+    altKey: false,
+    shiftKey: false,
+    ...init,
+  }) as KeyboardEvent;
+
+describe('comboFromEvent', () => {
+  it('reads letters by physical key so Hangul input still matches', () => {
+    expect(comboFromEvent(key({ key: 'ㅓ', code: 'KeyJ' }))).toBe('J');
+    expect(
+      comboFromEvent(
+        key({ key: 'Z', code: 'KeyZ', metaKey: true, shiftKey: true })
+      )
+    ).toBe('Mod+Shift+Z');
+  });
+
+  it('drops Shift for punctuation and ignores bare modifiers', () => {
+    expect(
+      comboFromEvent(key({ key: '?', code: 'Slash', shiftKey: true }))
+    ).toBe('?');
+    expect(comboFromEvent(key({ key: ' ', code: 'Space' }))).toBe('Space');
+    expect(comboFromEvent(key({ key: 'Shift', code: 'ShiftLeft' }))).toBeNull();
+  });
+});
+
+describe('keymap', () => {
+  it('has no conflicts in the default bindings', () => {
+    expect(findConflicts(SHORTCUT_COMMANDS, DEFAULT_KEYMAP)).toEqual([]);
+  });
+
+  it('lets focus scopes shadow player keys but not global ones', () => {
+    expect(
+      findBindingConflicts(
+        SHORTCUT_COMMANDS,
+        DEFAULT_KEYMAP,
+        'wordEditor.nextWord',
+        'ArrowRight'
+      )
+    ).toEqual([]);
+    expect(
+      findBindingConflicts(
+        SHORTCUT_COMMANDS,
+        DEFAULT_KEYMAP,
+        'wordEditor.nextWord',
+        'Mod+Z'
+      ).map((command) => command.id)
+    ).toEqual(['history.undo']);
+  });
+
+  it('reports overridden bindings that collide', () => {
+    const keymap = resolveKeymap(SHORTCUT_COMMANDS, {
+      'player.toggleMute': ['Space'],
+    });
+    expect(findConflicts(SHORTCUT_COMMANDS, keymap)).toEqual([
+      {
+        combo: 'Space',
+        commandIds: ['player.togglePlay', 'player.toggleMute'],
+      },
+    ]);
+  });
+
+  it('formats combos per platform', () => {
+    expect(formatCombo('Mod+Shift+Z', false)).toBe('Ctrl+Shift+Z');
+    expect(formatCombo('Mod+Shift+Z', true)).toBe('⌘⇧Z');
+    expect(formatCombo('Shift+ArrowLeft', false)).toBe('Shift+←');
+  });
+});
+
+function Player({ onToggle }: { onToggle: () => void }) {
+  usePageShortcuts({ 'player.togglePlay': onToggle });
+  return <input aria-label="입력칸" />;
+}
+
+describe('ShortcutProvider', () => {
+  afterEach(() => {
+    localStorage.clear();
+  });
+
+  it('opens the cheat sheet with ? and remaps a command', () => {
+    const onToggle = vi.fn();
+    render(
+      <ShortcutProvider>
+        <Player onToggle={onToggle} />
+      </ShortcutProvider>
+    );
+
+    fireEvent.keyDown(window, { key: ' ', code: 'Space' });
+    expect(onToggle).toHaveBeenCalledTimes(1);
+    // 입력칸에서는 동작하지 않는다.
+    fireEvent.keyDown(screen.getByLabelText('입력칸'), {
+      key: ' ',
+      code: 'Space',
+    });
+    expect(onToggle).toHaveBeenCalledTimes(1);
+
+    fireEvent.keyDown(window, { key: '?', code: 'Slash', shiftKey: true });
+    const dialog = screen.getByRole('dialog', { name: '단축키' });
+    const row = screen.getByText('재생 / 일시정지').closest('li')!;
+
+    fireEvent.click(row.querySelector('button')!);
+    // 이미 음소거에 묶인 M은 거절한다.
+    fireEvent.keyDown(dialog, { key: 'm', code: 'KeyM' });
+    expect(screen.getByRole('status')).toHaveTextContent('음소거');
+
+    fireEvent.keyDown(dialog, { key: 'p', code: 'KeyP' });
+    expect(row).toHaveTextContent('P');
+    expect(loadKeymapOverrides()).toEqual({ 'player.togglePlay': ['P'] });
+
+    fireEvent.keyDown(dialog, { key: 'Escape', code: 'Escape' });
+    expect(screen.queryByRole('dialog')).not.toBeInTheDocument();
+
+    fireEvent.keyDown(window, { key: 'p', code: 'KeyP' });
+    expect(onToggle).toHaveBeenCalledTimes(2);
+  });
+});
@@ -0,0 +1,85 @@
+import { describe, it, expect } from 'vitest';
+import { detectSilences } from '@/features/waveform/silenceDetection';
+
+/** 버킷마다 ±amplitude(0~1)인 peaks 모드 피크 */
+function peaksFrom(amplitudes: number[]): Int16Array {
+  const out = new Int16Array(amplitudes.length * 2);
+  amplitudes.forEach((a, i) => {
+    out[i * 2] = Math.round(-a * 32767);
+    out[i * 2 + 1] = Math.round(a * 32767);
+  });
+  return out;
+}
+
+// 버킷 하나가 100ms
+const speech = 0.3;
+const quiet = 0.005; // 약 -46 dBFS
+
+describe('detectSilences', () => {
+  it('keeps padding around speech but not at the edges', () => {
+    const peaks = peaksFrom([
+      quiet,
+      quiet,
+      speech,
+      quiet,
+      quiet,
+      quiet,
+      quiet,
+      quiet,
+      speech,
+      quiet,
+    ]);
+    expect(
+      detectSilences(peaks, 1000, {
+        thresholdDb: -40,
+        minSilenceMs: 100,
+        paddingMs: 50,
+      })
+    ).toEqual([
+      { startMs: 0, endMs: 150 },
+      { startMs: 350, endMs: 750 },
+      { startMs: 950, endMs: 1000 },
+    ]);
+  });
+
+  it('ignores pauses shorter than the minimum length', () => {
+    const peaks = peaksFrom([
+      speech,
+      quiet,
+      speech,
+      quiet,
+      quiet,
+      quiet,
+      speech,
+    ]);
+    expect(
+      detectSilences(peaks, 700, {
+        thresholdDb: -40,
+        minSilenceMs: 250,
+        paddingMs: 0,
+      })
+    ).toEqual([{ startMs: 300, endMs: 600 }]);
+  });
+
+  it('uses the threshold in dBFS', () => {
+    const peaks = peaksFrom([speech, quiet, quiet, speech]);
+    const options = { minSilenceMs: 100, paddingMs: 0 };
+    expect(
+      detectSilences(peaks, 400, { ...options, thresholdDb: -50 })
+    ).toEqual([]);
+    expect(
+      detectSilences(peaks, 400, { ...options, thresholdDb: -40 })
+    ).toEqual([{ startMs: 100, endMs: 300 }]);
+  });
+
+  it('drops ranges swallowed by padding', () => {
+    const peaks = peaksFrom([speech, quiet, quiet, speech]);
+    expect(
+      detectSilences(peaks, 400, {
+        thresholdDb: -40,
+        minSilenceMs: 100,
+        paddingMs: 100,
+      })
+    ).toEqual([]);
+  });
+});
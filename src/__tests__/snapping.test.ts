@@ -0,0 +1,101 @@
+import { describe, it, expect } from 'vitest';
+
+import type { Caption } from '@/data/types';
+import {
+  DEFAULT_SNAP_SETTINGS,
+  captionEdgeId,
+  collectSnapTargets,
+  snapTime,
+  wordEdgeId,
+} from '@/features/snapping';
+
+const captions = [
+  {
+    id: 'a',
+    startMs: 1000,
+    endMs: 2000,
+    text: '안녕 하세요',
+    words: [
+      { text: '안녕', startMs: 1000, endMs: 1400 },
+      { text: '하세요', startMs: 1450, endMs: 2000 },
+    ],
+  },
+] as Caption[];
+
+describe('collectSnapTargets', () => {
+  it('gathers enabled targets in time order', () => {
+    const targets = collectSnapTargets(
+      {
+        captions,
+        silences: [{ startMs: 2500, endMs: 3000 }],
+        playheadMs: 1200,
+      },
+      DEFAULT_SNAP_SETTINGS.kinds
+    );
+
+    expect(targets.map((t) => [t.ms, t.kind])).toEqual([
+      [1000, 'caption'],
+      [1000, 'word'],
+      [1200, 'playhead'],
+      [1400, 'word'],
+      [1450, 'word'],
+      [2000, 'caption'],
+      [2000, 'word'],
+      [2500, 'silence'],
+      [3000, 'silence'],
+    ]);
+  });
+
+  it('skips disabled kinds and captions without word timings', () => {
+    const targets = collectSnapTargets(
+      {
+        captions: [{ ...captions[0], words: undefined }],
+        playheadMs: 1200,
+      },
+      { ...DEFAULT_SNAP_SETTINGS.kinds, playhead: false }
+    );
+
+    expect(targets.map((t) => t.kind)).toEqual(['caption', 'caption']);
+  });
+});
+
+describe('snapTime', () => {
+  const targets = collectSnapTargets({ captions }, DEFAULT_SNAP_SETTINGS.kinds);
+
+  it('snaps to the nearest target within the threshold', () => {
+    expect(snapTime(1430, targets, { thresholdMs: 50 })).toEqual({
+      ms: 1450,
+      target: {
+        ms: 1450,
+        kind: 'word',
+        id: wordEdgeId('a', 1, 'start'),
+      },
+    });
+  });
+
+  it('leaves the time alone when nothing is close enough', () => {
+    expect(snapTime(1700, targets, { thresholdMs: 50 })).toEqual({
+      ms: 1700,
+      target: null,
+    });
+  });
+
+  it('ignores excluded targets', () => {
+    const result = snapTime(1010, targets, {
+      thresholdMs: 50,
+      excludeIds: [captionEdgeId('a', 'start'), wordEdgeId('a', 0, 'start')],
+    });
+    expect(result.target).toBeNull();
+  });
+
+  it('falls back to frame boundaries when a frame rate is given', () => {
+    const result = snapTime(2710, targets, {
+      thresholdMs: 50,
+      frameRate: 25,
+    });
+    expect(result).toEqual({
+      ms: 2720,
+      target: { ms: 2720, kind: 'frame' },
+    });
+  });
+});
@@ -0,0 +1,83 @@
+import { describe, it, expect } from 'vitest';
+import { createSpectrogramAccumulator } from '@/lib/spectrogram';
+
+const SAMPLE_RATE = 8000;
+
+function sine(length: number, frequency: number, amplitude = 0.5) {
+  const samples = new Float32Array(length);
+  for (let i = 0; i < length; i++) {
+    samples[i] =
+      amplitude * Math.sin((2 * Math.PI * frequency * i) / SAMPLE_RATE);
+  }
+  return samples;
+}
+
+function strongestBin(
+  magnitudes: Uint8Array,
+  bins: number,
+  column: number
+): number {
+  let best = 0;
+  for (let b = 1; b < bins; b++) {
+    if (magnitudes[column * bins + b] > magnitudes[column * bins + best]) {
+      best = b;
+    }
+  }
+  return best;
+}
+
+describe('createSpectrogramAccumulator', () => {
+  it('puts a pure tone in the matching frequency bin', () => {
+    const samples = sine(SAMPLE_RATE, 1000);
+    const acc = createSpectrogramAccumulator(samples.length, SAMPLE_RATE, 4, {
+      fftSize: 256,
+    });
+    acc.push(samples);
+    const result = acc.finish();
+
+    expect(result.columns).toBe(4);
+    expect(result.bins).toBe(128);
+    expect(result.magnitudes).toHaveLength(4 * 128);
+    // 1000Hz / (8000Hz / 256) = 32번 bin
+    for (let c = 0; c < result.columns; c++) {
+      expect(strongestBin(result.magnitudes, result.bins, c)).toBe(32);
+    }
+  });
+
+  it('gives the same result for chunked and one-shot input', () => {
+    const samples = sine(SAMPLE_RATE / 2, 440);
+    const oneShot = createSpectrogramAccumulator(
+      samples.length,
+      SAMPLE_RATE,
+      10,
+      { fftSize: 128 }
+    );
+    oneShot.push(samples);
+
+    const chunked = createSpectrogramAccumulator(
+      samples.length,
+      SAMPLE_RATE,
+      10,
+      { fftSize: 128 }
+    );
+    for (let i = 0; i < samples.length; i += 333) {
+      chunked.push(samples.subarray(i, i + 333));
+    }
+
+    expect(chunked.finish().magnitudes).toEqual(oneShot.finish().magnitudes);
+  });
+
+  it('keeps silent columns at zero', () => {
+    const acc = createSpectrogramAccumulator(1000, SAMPLE_RATE, 5, {
+      fftSize: 64,
+    });
+    acc.push(new Float32Array(1000));
+    expect(acc.finish().magnitudes.every((v) => v === 0)).toBe(true);
+  });
+
+  it('rejects an fftSize that is not a power of two', () => {
+    expect(() =>
+      createSpectrogramAccumulator(1000, SAMPLE_RATE, 5, { fftSize: 100 })
+    ).toThrow();
+  });
+});
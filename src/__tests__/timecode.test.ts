@@ -0,0 +1,76 @@
+import { describe, it, expect } from 'vitest';
+
+import {
+  formatFrameTimecode,
+  formatSmpte,
+  frameToMs,
+  isDropFrameRate,
+  msToFrame,
+  parseFrameTimecode,
+  parseSmpte,
+  snapToFrame,
+} from '@/features/playback/timecode';
+
+const NTSC = 30000 / 1001;
+
+describe('frame math', () => {
+  it.each([24, 25, 50, 24000 / 1001, NTSC, 60000 / 1001])(
+    'round-trips frame start times at %f fps',
+    (fps) => {
+      for (let frame = 0; frame < 500; frame++) {
+        expect(msToFrame(frameToMs(frame, fps), fps)).toBe(frame);
+      }
+    }
+  );
+
+  it('finds the frame that contains a time', () => {
+    // 25fps: 40ms 간격
+    expect(msToFrame(0, 25)).toBe(0);
+    expect(msToFrame(39, 25)).toBe(0);
+    expect(msToFrame(40, 25)).toBe(1);
+  });
+
+  it('snaps to the nearest frame boundary', () => {
+    expect(snapToFrame(1019, 25)).toBe(1000);
+    expect(snapToFrame(1021, 25)).toBe(1040);
+  });
+});
+
+describe('SMPTE timecode', () => {
+  it('formats non-drop-frame timecode', () => {
+    expect(formatSmpte(0, 25)).toBe('00:00:00:00');
+    expect(formatSmpte(3_723_480, 25)).toBe('01:02:03:12');
+    expect(formatSmpte(1_999, 24)).toBe('00:00:01:23');
+  });
+
+  it('treats only 29.97 and 59.94 as drop-frame', () => {
+    expect(isDropFrameRate(NTSC)).toBe(true);
+    expect(isDropFrameRate(60000 / 1001)).toBe(true);
+    expect(isDropFrameRate(24000 / 1001)).toBe(false);
+    expect(isDropFrameRate(30)).toBe(false);
+  });
+
+  it('skips frame labels at each minute except every tenth', () => {
+    expect(formatFrameTimecode(1799, NTSC)).toBe('00:00:59;29');
+    expect(formatFrameTimecode(1800, NTSC)).toBe('00:01:00;02');
+    expect(formatFrameTimecode(17982, NTSC)).toBe('00:10:00;00');
+    expect(formatFrameTimecode(3600, 60000 / 1001)).toBe('00:01:00;04');
+  });
+
+  it('parses timecode back to the same frame', () => {
+    for (const frame of [0, 1799, 1800, 17981, 17982, 107892]) {
+      expect(parseFrameTimecode(formatFrameTimecode(frame, NTSC), NTSC)).toBe(
+        frame
+      );
+    }
+    expect(parseSmpte('01:02:03:12', 25)).toBe(3_723_480);
+  });
+
+  it('rejects out-of-range and dropped labels', () => {
+    expect(parseSmpte('00:00:01:25', 25)).toBeNull();
+    expect(parseSmpte('00:61:00:00', 25)).toBeNull();
+    expect(parseSmpte('1.5', 25)).toBeNull();
+    expect(parseFrameTimecode('00:01:00;00', NTSC)).toBeNull();
+    expect(parseFrameTimecode('00:10:00;00', NTSC)).toBe(17982);
+  });
+});
@@ -0,0 +1,134 @@
+import { describe, expect, it, vi } from 'vitest';
+
+import {
+  TranscriptionError,
+  createWhisperServerEngine,
+  downmixToMono,
+  encodeWav,
+  parseWhisperResponse,
+  planPcmChunks,
+  resamplePcm,
+} from '@/features/transcription';
+
+const verboseJson = {
+  text: ' Hello, world.',
+  segments: [
+    {
+      text: ' Hello, world.',
+      start: 0.5,
+      end: 2.0,
+      words: [
+        { word: '[_BEG_]', start: 0.5, end: 0.5 },
+        { word: ' Hel', start: 0.5, end: 0.7 },
+        { word: 'lo', start: 0.7, end: 0.9 },
+        { word: ',', start: 0.9, end: 0.95 },
+        { word: ' world.', start: 1.1, end: 2.0 },
+      ],
+    },
+  ],
+};
+
+describe('audio PCM helpers', () => {
+  it('다채널을 평균내 모노로 만들고 48kHz를 16kHz로 줄인다', () => {
+    const mono = downmixToMono([
+      new Float32Array([1, 1, 1]),
+      new Float32Array([0, -1, 1]),
+    ]);
+    expect(Array.from(mono)).toEqual([0.5, 0, 1]);
+
+    const resampled = resamplePcm(
+      new Float32Array([0, 0.3, 0.6, 0.9, 0.9, 0.9]),
+      48000,
+      16000
+    );
+    expect(resampled).toHaveLength(2);
+    expect(resampled[0]).toBeCloseTo(0.3);
+    expect(resampled[1]).toBeCloseTo(0.9);
+  });
+
+  it('16비트 모노 WAV 헤더를 쓴다', () => {
+    const view = new DataView(encodeWav(new Float32Array([0, 1, -1]), 16000));
+    expect(view.byteLength).toBe(44 + 6);
+    expect(view.getUint32(24, true)).toBe(16000);
+    expect(view.getInt16(46, true)).toBe(32767);
+    expect(view.getInt16(48, true)).toBe(-32768);
+  });
+
+  it('조각 경계를 가장 조용한 구간으로 옮긴다', () => {
+    const rate = 1000;
+    const samples = new Float32Array(2500).fill(0.5);
+    samples.fill(0, 800, 860); // 0.8초 부근의 무음
+    const chunks = planPcmChunks(samples, rate, 1000, 400);
+
+    expect(chunks[0].start).toBe(0);
+    expect(chunks[0].end).toBeGreaterThanOrEqual(800);
+    expect(chunks[0].end).toBeLessThan(860);
+    expect(chunks.at(-1)?.end).toBe(2500);
+  });
+});
+
+describe('whisper server engine', () => {
+  it('verbose_json 토큰을 단어로 합치고 특수 토큰은 버린다', () => {
+    const [caption] = parseWhisperResponse(verboseJson, 1000);
+
+    expect(caption).toMatchObject({
+      startMs: 1500,
+      endMs: 3000,
+      text: 'Hello, world.',
+    });
+    expect(caption.words).toEqual([
+      { text: 'Hello,', startMs: 1500, endMs: 1950 },
+      { text: 'world.', startMs: 2100, endMs: 3000 },
+    ]);
+  });
+
+  it('조각마다 요청하고 시간 오프셋과 진행률을 반영한다', async () => {
+    const fetchMock = vi.fn<typeof fetch>(() =>
+      Promise.resolve(
+        new Response(JSON.stringify(verboseJson), {
+          headers: { 'Content-Type': 'application/json' },
+        })
+      )
+    );
+    const engine = createWhisperServerEngine({
+      baseUrl: 'http://stt.local/',
+      fetch: fetchMock,
+      chunkMs: 1000,
+    });
+    const onProgress = vi.fn();
+
+    const captions = await engine.transcribe(
+      { samples: new Float32Array(1500), sampleRate: 1000 },
+      { language: 'ko', onProgress }
+    );
+
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+    expect(fetchMock.mock.calls[0][0]).toBe('http://stt.local/inference');
+    const form = fetchMock.mock.calls[0][1]?.body as FormData;
+    expect(form.get('response_format')).toBe('verbose_json');
+    expect(form.get('language')).toBe('ko');
+
+    expect(captions).toHaveLength(2);
+    expect(captions[1].startMs).toBeGreaterThan(captions[0].startMs);
+    expect(onProgress).toHaveBeenLastCalledWith(
+      expect.objectContaining({ progress: 1, totalMs: 1500 })
+    );
+  });
+
+  it('서버 오류는 TranscriptionError로 알린다', async () => {
+    const engine = createWhisperServerEngine({
+      baseUrl: 'http://stt.local',
+      fetch: () =>
+        Promise.resolve(new Response('model missing', { status: 500 })),
+    });
+
+    const error = await engine
+      .transcribe({ samples: new Float32Array(10), sampleRate: 16000 })
+      .catch((e: unknown) => e);
+    expect(error).toBeInstanceOf(TranscriptionError);
+    expect(error).toMatchObject({
+      code: 'SERVER_ERROR',
+      details: 'model missing',
+    });
+  });
+});
@@ -1,3 +1,8 @@
+import type { Caption } from '@/data/types';
+import {
+  DEFAULT_RECOMMENDATION_FEATURES,
+  type RecommendationFeature,
+} from '@/features/waveform/recommendationFeatures';
 import { computeTrimRecommendations } from '@/features/waveform/trimRecommendations';
 
 function makePeaks(values: number[]) {
@@ -51,3 +56,100 @@ describe('computeTrimRecommendations', () => {
     expect(res[1].startMs).toBe(3000);
   });
 });
+
+function caption(startMs: number, endMs: number, text: string): Caption {
+  return { id: `${startMs}` as Caption['id'], startMs, endMs, text };
+}
+
+describe('computeTrimRecommendations with features', () => {
+  // 앞 절반은 고르게 큰 음악, 뒤 절반은 자막이 있는 말소리
+  const peaks = makePeaks([9000, 9000, 9000, 9000, 3000, 6000, 2000, 5000]);
+  const captions = [
+    caption(4000, 8000, '안녕하세요 여러분 오늘은 편집 이야기를 해 볼게요'),
+  ];
+
+  it('picks the loud music when scoring by amplitude only', () => {
+    const res = computeTrimRecommendations(peaks, 8000, {
+      mode: 'highlight',
+      count: 1,
+      segmentMs: 2000,
+      captions,
+    });
+
+    expect(res[0].endMs).toBeLessThanOrEqual(4000);
+    expect(res[0].breakdown).toBeUndefined();
+  });
+
+  it('prefers captioned speech over loud music', () => {
+    const res = computeTrimRecommendations(peaks, 8000, {
+      mode: 'highlight',
+      count: 1,
+      segmentMs: 2000,
+      features: DEFAULT_RECOMMENDATION_FEATURES,
+      captions,
+    });
+
+    expect(res).toHaveLength(1);
+    expect(res[0].startMs).toBeGreaterThanOrEqual(4000);
+    expect(res[0].score).toBeGreaterThan(0);
+    expect(res[0].score).toBeLessThanOrEqual(1);
+    const speech = res[0].breakdown?.find((b) => b.id === 'speechDensity');
+    expect(speech?.score).toBe(1);
+  });
+
+  it('leaves out caption features when there are no captions', () => {
+    const res = computeTrimRecommendations(peaks, 8000, {
+      mode: 'highlight',
+      count: 1,
+      segmentMs: 2000,
+      features: DEFAULT_RECOMMENDATION_FEATURES,
+    });
+
+    expect(res[0].breakdown?.map((b) => b.id)).toEqual([
+      'energy',
+      'energyVariance',
+    ]);
+  });
+
+  it('boosts segments whose captions mention a keyword', () => {
+    const flat = makePeaks(new Array(8).fill(5000));
+    const res = computeTrimRecommendations(flat, 8000, {
+      mode: 'highlight',
+      count: 1,
+      segmentMs: 2000,
+      features: DEFAULT_RECOMMENDATION_FEATURES,
+      captions: [
+        caption(0, 4000, '오늘 날씨 이야기'),
+        caption(4000, 8000, '편집 꿀팁 이야기'),
+      ],
+      keywords: ['꿀팁'],
+    });
+
+    expect(res[0].startMs).toBeLessThanOrEqual(6000);
+    expect(res[0].endMs).toBeGreaterThan(6000);
+    const keyword = res[0].breakdown?.find((b) => b.id === 'keywords');
+    expect(keyword?.score).toBeGreaterThan(0);
+  });
+
+  it('accepts custom features', () => {
+    const early: RecommendationFeature = {
+      id: 'early',
+      label: '앞부분',
+      prepare:
+        ({ bucketCount }) =>
+        (start) =>
+          1 - start / bucketCount,
+    };
+    const res = computeTrimRecommendations(peaks, 8000, {
+      mode: 'highlight',
+      count: 1,
+      segmentMs: 2000,
+      features: [{ feature: early, weight: 1 }],
+    });
+
+    expect(res[0].startMs).toBe(0);
+    expect(res[0].breakdown).toEqual([
+      { id: 'early', label: '앞부분', score: 1, weight: 1 },
+    ]);
+  });
+});
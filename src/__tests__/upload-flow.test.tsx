@@ -12,6 +12,9 @@ vi.mock('@/features/upload/uploadService', () => ({
       png: { blob: new Blob(), width: 320, height: 180, mime: 'image/png' },
     })
   ),
+  probeVideoForUpload: vi.fn(() =>
+    Promise.resolve({ durationMs: 1000, width: 1920, height: 1080 })
+  ),
 }));
 
 describe('업로드 플로우', () => {
@@ -1,11 +1,13 @@
-import { render, fireEvent } from '@testing-library/react';
+import { act, render, renderHook, fireEvent } from '@testing-library/react';
 import { describe, it, expect, vi } from 'vitest';
 import { usePlaybackController } from '@/features/playback/usePlaybackController';
+import { createEditDecisionList } from '@/features/playback/editDecisionList';
 
-function TestPlayer() {
+function TestPlayer({ frameRate }: { frameRate?: number }) {
   const { videoRef, view, actions } = usePlaybackController({
     resetKey: 'k',
     onLoadedMetadata: () => {},
+    frameRate,
   });
 
   return (
@@ -23,9 +25,61 @@ function TestPlayer() {
       <button data-testid="seek" onClick={() => actions.seek(1200)}>
         seek
       </button>
+      <button
+        data-testid="edl"
+        onClick={() =>
+          actions.setEditDecisionList(
+            createEditDecisionList(
+              [
+                { startMs: 1000, endMs: 2000 },
+                { startMs: 2000, endMs: 2500 },
+              ],
+              30000
+            )
+          )
+        }
+      >
+        edl
+      </button>
+      <button
+        data-testid="seek-output"
+        onClick={() => actions.seekOutput(1500)}
+      >
+        seek output
+      </button>
+      <button
+        data-testid="loop"
+        onClick={() => {
+          actions.setLoopRange({ startMs: 1000, endMs: 1050 });
+          actions.setLoopEnabled(true);
+        }}
+      >
+        loop
+      </button>
+      <button data-testid="next-frame" onClick={() => actions.stepFrame(1)}>
+        next frame
+      </button>
+      <button data-testid="prev-frame" onClick={() => actions.stepFrame(-1)}>
+        prev frame
+      </button>
+      <button data-testid="rate" onClick={() => actions.setPlaybackRate(1.5)}>
+        rate
+      </button>
+      <button data-testid="shuttle-j" onClick={() => actions.shuttleReverse()}>
+        J
+      </button>
+      <button data-testid="shuttle-k" onClick={() => actions.shuttleStop()}>
+        K
+      </button>
+      <button data-testid="shuttle-l" onClick={() => actions.shuttleForward()}>
+        L
+      </button>
+      <div data-testid="rate-value">{String(view.playbackRate)}</div>
       <div data-testid="isReady">{String(view.isReady)}</div>
       <div data-testid="isPlaying">{String(view.isPlaying)}</div>
       <div data-testid="time">{String(view.currentTimeMs)}</div>
+      <div data-testid="output-time">{String(view.outputTimeMs)}</div>
+      <div data-testid="output-duration">{String(view.outputDurationMs)}</div>
     </div>
   );
 }
@@ -85,4 +139,174 @@ describe('usePlaybackController', () => {
     fireEvent.click(getByTestId('toggle'));
     expect(playSpy).toHaveBeenCalledTimes(2);
   });
+
+  it('편집 결정 목록으로 제거 구간을 건너뛰고 출력 시간을 보고한다', () => {
+    const { getByTestId } = render(<TestPlayer />);
+    const video = getByTestId('video') as HTMLVideoElement;
+    vi.spyOn(HTMLMediaElement.prototype, 'play').mockResolvedValue(undefined);
+
+    Object.defineProperty(video, 'duration', { value: 30, writable: true });
+    fireEvent(video, new Event('loadedmetadata'));
+
+    fireEvent.click(getByTestId('edl'));
+    expect(getByTestId('output-duration').textContent).toBe('28500');
+
+    fireEvent.click(getByTestId('seek'));
+    fireEvent.click(getByTestId('play'));
+    expect(Math.round(video.currentTime * 1000)).toBe(2500);
+
+    fireEvent.click(getByTestId('seek-output'));
+    expect(Math.round(video.currentTime * 1000)).toBe(3000);
+    expect(getByTestId('output-time').textContent).toBe('1500');
+  });
+
+  it('steps by exact frames and snaps the playhead to frame starts', () => {
+    const { getByTestId } = render(<TestPlayer frameRate={25} />);
+    const video = getByTestId('video') as HTMLVideoElement;
+
+    Object.defineProperty(video, 'duration', { value: 1, writable: true });
+    fireEvent(video, new Event('loadedmetadata'));
+
+    fireEvent.click(getByTestId('seek'));
+    // 1000ms 길이라 1200ms는 끝으로 잘리고, 마지막 프레임(24번)은 960ms에서 시작한다.
+    fireEvent.click(getByTestId('next-frame'));
+    expect(getByTestId('time').textContent).toBe('960');
+    // 앞 프레임이 보이지 않도록 프레임 한가운데로 이동한다.
+    expect(video.currentTime).toBeCloseTo(0.98);
+
+    fireEvent.click(getByTestId('prev-frame'));
+    fireEvent.click(getByTestId('prev-frame'));
+    expect(getByTestId('time').textContent).toBe('880');
+
+    video.currentTime = 0.5;
+    fireEvent(video, new Event('seeked'));
+    expect(getByTestId('time').textContent).toBe('480');
+  });
+
+  it('sets a pitch-preserved playback rate and speeds up on repeated L', () => {
+    const { getByTestId } = render(<TestPlayer />);
+    const video = getByTestId('video') as HTMLVideoElement;
+    vi.spyOn(HTMLMediaElement.prototype, 'play').mockImplementation(function (
+      this: HTMLMediaElement
+    ) {
+      Object.defineProperty(this, 'paused', {
+        value: false,
+        configurable: true,
+      });
+      return Promise.resolve();
+    });
+    vi.spyOn(HTMLMediaElement.prototype, 'pause').mockImplementation(function (
+      this: HTMLMediaElement
+    ) {
+      Object.defineProperty(this, 'paused', {
+        value: true,
+        configurable: true,
+      });
+    });
+    vi.stubGlobal('requestAnimationFrame', () => 1);
+    vi.stubGlobal('cancelAnimationFrame', () => {});
+
+    Object.defineProperty(video, 'duration', { value: 30, writable: true });
+    fireEvent(video, new Event('loadedmetadata'));
+
+    fireEvent.click(getByTestId('rate'));
+    expect(video.playbackRate).toBe(1.5);
+    expect(video.preservesPitch).toBe(true);
+    expect(getByTestId('rate-value').textContent).toBe('1.5');
+
+    // 멈춰 있으면 L은 기본 속도로 재생하고, 이어서 누르면 셔틀 속도를 올린다.
+    fireEvent.click(getByTestId('shuttle-l'));
+    expect(getByTestId('isPlaying').textContent).toBe('true');
+    expect(video.playbackRate).toBe(1.5);
+    fireEvent.click(getByTestId('shuttle-l'));
+    expect(video.playbackRate).toBe(2);
+    fireEvent.click(getByTestId('shuttle-l'));
+    expect(video.playbackRate).toBe(4);
+
+    fireEvent.click(getByTestId('shuttle-k'));
+    expect(getByTestId('isPlaying').textContent).toBe('false');
+    expect(video.playbackRate).toBe(1.5);
+    expect(getByTestId('rate-value').textContent).toBe('1.5');
+
+    vi.unstubAllGlobals();
+  });
+
+  it('jumps a short cut that a fast frame would skip over', () => {
+    vi.useFakeTimers();
+    const frames: FrameRequestCallback[] = [];
+    vi.stubGlobal('requestAnimationFrame', (cb: FrameRequestCallback) => {
+      frames.push(cb);
+      return frames.length;
+    });
+    vi.stubGlobal('cancelAnimationFrame', () => {});
+    const { result } = renderHook(() =>
+      usePlaybackController({ resetKey: 'k' })
+    );
+    const video = document.createElement('video');
+    Object.defineProperty(video, 'paused', { value: false });
+    act(() => {
+      result.current.videoRef(video);
+      result.current.actions.setEditDecisionList(
+        createEditDecisionList([{ startMs: 1000, endMs: 1050 }], 30000)
+      );
+    });
+    act(() => {
+      video.playbackRate = 8;
+      video.currentTime = 0.98;
+      video.dispatchEvent(new Event('play'));
+    });
+
+    // 다음 프레임에는 이미 1050ms를 넘으므로 프레임 단위로 보면 구간을 놓친다.
+    act(() => frames.shift()?.(0));
+    expect(Math.round(video.currentTime * 1000)).toBe(980);
+    act(() => vi.advanceTimersByTime(3));
+    expect(Math.round(video.currentTime * 1000)).toBe(1050);
+
+    vi.useRealTimers();
+    vi.unstubAllGlobals();
+  });
+
+  it('J steps backwards, wraps inside the loop range and K stops', () => {
+    const { getByTestId } = render(<TestPlayer />);
+    const video = getByTestId('video') as HTMLVideoElement;
+    vi.spyOn(HTMLMediaElement.prototype, 'pause').mockImplementation(() => {});
+    const frames: FrameRequestCallback[] = [];
+    vi.stubGlobal('requestAnimationFrame', (cb: FrameRequestCallback) => {
+      frames.push(cb);
+      return frames.length;
+    });
+    vi.stubGlobal('cancelAnimationFrame', () => {});
+    const runFrame = (timestamp: number) => {
+      const cb = frames.shift();
+      act(() => cb?.(timestamp));
+    };
+
+    Object.defineProperty(video, 'duration', { value: 30, writable: true });
+    fireEvent(video, new Event('loadedmetadata'));
+    fireEvent.click(getByTestId('seek'));
+
+    fireEvent.click(getByTestId('shuttle-j'));
+    expect(getByTestId('rate-value').textContent).toBe('-1');
+    expect(getByTestId('isPlaying').textContent).toBe('true');
+    runFrame(0);
+    runFrame(100);
+    expect(Math.round(video.currentTime * 1000)).toBe(1100);
+
+    // 두 번째 J는 2배속으로 거꾸로 간다.
+    fireEvent.click(getByTestId('shuttle-j'));
+    expect(getByTestId('rate-value').textContent).toBe('-2');
+    frames.length = 0;
+    fireEvent.click(getByTestId('loop'));
+    fireEvent.click(getByTestId('shuttle-j'));
+    runFrame(0);
+    runFrame(100);
+    // 4배속으로 1100ms에서 400ms 물러나면 구간 시작(1000ms)을 지나 끝으로 돌아간다.
+    expect(Math.round(video.currentTime * 1000)).toBe(1050);
+
+    fireEvent.click(getByTestId('shuttle-k'));
+    expect(getByTestId('isPlaying').textContent).toBe('false');
+    expect(getByTestId('rate-value').textContent).toBe('1');
+
+    vi.unstubAllGlobals();
+  });
 });
@@ -0,0 +1,47 @@
+import { act, renderHook } from '@testing-library/react';
+import { describe, expect, it, vi } from 'vitest';
+
+import { decodeAudioForTranscription } from '@/features/transcription/decodeAudio';
+import { transcribeInWorker } from '@/features/transcription/transcriptionClient';
+import { useTranscription } from '@/features/transcription/useTranscription';
+
+vi.mock('@/features/transcription/decodeAudio', () => ({
+  decodeAudioForTranscription: vi.fn(),
+}));
+
+vi.mock('@/features/transcription/transcriptionClient', () => ({
+  transcribeInWorker: vi.fn(),
+  alignInWorker: vi.fn(),
+}));
+
+const engine = { kind: 'whisper-server', baseUrl: 'http://stt.local' } as const;
+
+describe('useTranscription', () => {
+  it('디코딩 중에 취소하면 취소 상태로 끝나고 다시 시작할 수 있다', async () => {
+    let finishDecoding!: () => void;
+    vi.mocked(decodeAudioForTranscription).mockImplementationOnce(
+      () =>
+        new Promise((resolve) => {
+          finishDecoding = () =>
+            resolve({ samples: new Float32Array(10), sampleRate: 16000 });
+        })
+    );
+    const { result } = renderHook(() => useTranscription(engine));
+
+    let pending!: Promise<unknown>;
+    act(() => {
+      pending = result.current.start(new Blob(['audio']));
+    });
+    expect(result.current.state.status).toBe('decoding');
+
+    act(() => result.current.cancel());
+    await act(async () => {
+      finishDecoding();
+      await pending;
+    });
+
+    expect(result.current.state.status).toBe('cancelled');
+    expect(result.current.isBusy).toBe(false);
+    expect(transcribeInWorker).not.toHaveBeenCalled();
+  });
+});
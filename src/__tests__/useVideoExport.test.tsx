@@ -0,0 +1,38 @@
+import { act, renderHook } from '@testing-library/react';
+import { afterEach, describe, expect, it, vi } from 'vitest';
+
+import { cutoutVideo } from '@/features/export/ffmpegClient';
+import { useVideoExport } from '@/features/export/useVideoExport';
+
+vi.mock('@/features/export/ffmpegClient', () => ({
+  initFFmpegWorker: vi.fn(() => Promise.resolve()),
+  isFFmpegReady: vi.fn(() => true),
+  exportWithSubtitles: vi.fn(),
+  trimVideo: vi.fn(),
+  cutoutVideo: vi.fn(),
+  cancelCurrentJob: vi.fn(),
+}));
+
+describe('useVideoExport', () => {
+  afterEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('refuses a cutout until the media duration is known', async () => {
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    const { result } = renderHook(() => useVideoExport());
+
+    await act(() =>
+      result.current.startExport({
+        videoBlob: new Blob(['video']),
+        exportMode: 'cutout',
+        cutRanges: [{ startMs: 1000, endMs: 2000 }],
+        includeSubtitles: false,
+      })
+    );
+
+    expect(cutoutVideo).not.toHaveBeenCalled();
+    expect(result.current.state.status).toBe('error');
+    expect(result.current.state.error).toContain('영상 길이');
+  });
+});
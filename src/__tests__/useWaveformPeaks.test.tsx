@@ -3,21 +3,44 @@ import { render, screen, waitFor } from '@testing-library/react';
 
 import { useWaveformPeaks } from '@/features/waveform/useWaveformPeaks';
 import type { ComputePeaksOptions } from '@/lib/waveformPeaks';
+import { getWaveformPeaks, saveVideoBlob } from '@/lib/localAssetStore';
+import {
+  extractWaveformPeaks,
+  initFFmpegWorker,
+} from '@/features/export/ffmpegClient';
+
+vi.mock('@/features/export/ffmpegClient', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('@/features/export/ffmpegClient')>()),
+  extractWaveformPeaks: vi.fn(),
+  initFFmpegWorker: vi.fn(),
+}));
 
 function TestHarness({
   blob,
   buckets = 100,
   options,
+  useWorker,
+  videoId,
+  splitChannels,
+  durationMs,
 }: {
   blob: Blob | null;
   buckets?: number;
   options?: ComputePeaksOptions;
+  useWorker?: boolean;
+  videoId?: string;
+  splitChannels?: boolean;
+  durationMs?: number;
 }) {
-  const { peaks, pyramid, isLoading, error, progress, retry } =
+  const { peaks, pyramid, channels, isLoading, error, progress, retry } =
     useWaveformPeaks({
       videoBlob: blob,
       bucketCount: buckets,
       options,
+      useWorker,
+      videoId,
+      splitChannels,
+      durationMs,
     });
   return (
     <div>
@@ -29,6 +52,11 @@ function TestHarness({
         {peaks ? `${peaks[0]},${peaks[1]}` : ''}
       </div>
       <div data-testid="pyramidLen">{pyramid ? pyramid.length : -1}</div>
+      <div data-testid="channels">
+        {channels
+          ? channels.map((ch) => `${ch.peaks[0]},${ch.peaks[1]}`).join('|')
+          : ''}
+      </div>
       <button data-testid="retry" onClick={() => retry()}>
         retry
       </button>
@@ -250,4 +278,160 @@ describe('useWaveformPeaks', () => {
       Number(screen.getByTestId('pyramidLen').textContent)
     ).toBeGreaterThan(0);
   });
+
+  it('uses peaks extracted by the worker without decoding on the main thread', async () => {
+    const decodeAudioData = vi.fn();
+    (globalThis as unknown as { AudioContext?: unknown }).AudioContext = class {
+      decodeAudioData = decodeAudioData;
+      close = async () => {};
+    };
+    vi.mocked(initFFmpegWorker).mockResolvedValue();
+    vi.mocked(extractWaveformPeaks).mockImplementation(
+      async (_payload, options) => {
+        options?.onProgress?.({ progress: 0.5 });
+        return {
+          peaks: new Int16Array([-5, 5, -7, 7]),
+          pyramid: null,
+          channels: null,
+          elapsedMs: 1,
+        };
+      }
+    );
+
+    vi.useRealTimers();
+    render(
+      <TestHarness
+        blob={new Blob(['x'])}
+        buckets={2}
+        useWorker
+        durationMs={60 * 60 * 1000}
+      />
+    );
+
+    await waitFor(() =>
+      expect(screen.getByTestId('progress').textContent).toBe('1')
+    );
+    expect(screen.getByTestId('firstPair').textContent).toBe('-5,5');
+    expect(vi.mocked(extractWaveformPeaks).mock.calls[0][0]).toMatchObject({
+      bucketCount: 2,
+      pyramidLevels: 1,
+    });
+    // 한 시간짜리 영상은 기본 5분 제한에 걸리지 않도록 길이만큼 기다린다.
+    expect(vi.mocked(extractWaveformPeaks).mock.calls[0][1]).toMatchObject({
+      timeoutMs: 60 * 60 * 1000,
+    });
+    expect(decodeAudioData).not.toHaveBeenCalled();
+  });
+
+  it('falls back to main-thread decoding when the worker fails', async () => {
+    class FakeAudioContext {
+      decodeAudioData = async () =>
+        ({
+          numberOfChannels: 1,
+          length: 10,
+          getChannelData: () => new Float32Array(10).fill(0.25),
+        }) as unknown as AudioBuffer;
+      close = async () => {};
+    }
+    (globalThis as unknown as { AudioContext?: unknown }).AudioContext =
+      FakeAudioContext;
+    vi.mocked(initFFmpegWorker).mockResolvedValue();
+    vi.mocked(extractWaveformPeaks).mockRejectedValue({
+      code: 'INPUT_ERROR',
+      message: '오디오 파형 추출 실패',
+    });
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+
+    const fakeBlob = {
+      arrayBuffer: async () => new ArrayBuffer(8),
+    } as unknown as Blob;
+
+    vi.useRealTimers();
+    render(<TestHarness blob={fakeBlob} buckets={2} useWorker />);
+
+    await waitFor(() =>
+      expect(screen.getByTestId('progress').textContent).toBe('1')
+    );
+    expect(screen.getByTestId('peaksLen').textContent).toBe('4');
+    expect(warn).toHaveBeenCalled();
+    warn.mockRestore();
+  });
+
+  it('computes per-channel peaks from the decoded buffer', async () => {
+    const left = new Float32Array(10).fill(0.5);
+    const right = new Float32Array(10);
+    (globalThis as unknown as { AudioContext?: unknown }).AudioContext = class {
+      decodeAudioData = async () =>
+        ({
+          numberOfChannels: 2,
+          length: 10,
+          getChannelData: (ch: number) => (ch === 0 ? left : right),
+        }) as unknown as AudioBuffer;
+      close = async () => {};
+    };
+    const fakeBlob = {
+      arrayBuffer: async () => new ArrayBuffer(8),
+    } as unknown as Blob;
+
+    vi.useRealTimers();
+    render(<TestHarness blob={fakeBlob} buckets={2} splitChannels />);
+
+    await waitFor(() =>
+      expect(screen.getByTestId('progress').textContent).toBe('1')
+    );
+    const half = Math.round(0.5 * 32767);
+    const quarter = Math.round(0.25 * 32767);
+    expect(screen.getByTestId('channels').textContent).toBe(
+      `${half},${half}|0,0`
+    );
+    expect(screen.getByTestId('firstPair').textContent).toBe(
+      `${quarter},${quarter}`
+    );
+  });
+
+  it('reuses cached peaks per video until the blob is replaced', async () => {
+    const decodeAudioData = vi.fn(
+      async () =>
+        ({
+          numberOfChannels: 1,
+          length: 10,
+          getChannelData: () => new Float32Array(10).fill(0.25),
+        }) as unknown as AudioBuffer
+    );
+    (globalThis as unknown as { AudioContext?: unknown }).AudioContext = class {
+      decodeAudioData = decodeAudioData;
+      close = async () => {};
+    };
+    const fakeBlob = {
+      size: 8,
+      type: 'video/mp4',
+      arrayBuffer: async () => new ArrayBuffer(8),
+    } as unknown as Blob;
+
+    vi.useRealTimers();
+    const first = render(
+      <TestHarness blob={fakeBlob} buckets={2} videoId="cached-video" />
+    );
+    await waitFor(() =>
+      expect(screen.getByTestId('progress').textContent).toBe('1')
+    );
+    await waitFor(async () =>
+      expect(
+        await getWaveformPeaks('cached-video', 'peaks', 2, fakeBlob)
+      ).toBeDefined()
+    );
+    first.unmount();
+
+    render(<TestHarness blob={fakeBlob} buckets={2} videoId="cached-video" />);
+    await waitFor(() =>
+      expect(screen.getByTestId('progress').textContent).toBe('1')
+    );
+    expect(screen.getByTestId('peaksLen').textContent).toBe('4');
+    expect(decodeAudioData).toHaveBeenCalledTimes(1);
+
+    await saveVideoBlob('cached-video', fakeBlob);
+    expect(
+      await getWaveformPeaks('cached-video', 'peaks', 2, fakeBlob)
+    ).toBeUndefined();
+  });
 });
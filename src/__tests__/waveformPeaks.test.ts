@@ -1,5 +1,9 @@
 import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
-import { computePeaksInIdle } from '@/lib/waveformPeaks';
+import {
+  computePeaksInIdle,
+  createChannelPeakAccumulator,
+  createPeakAccumulator,
+} from '@/lib/waveformPeaks';
 
 describe('computePeaksInIdle', () => {
   beforeEach(() => {
@@ -162,3 +166,83 @@ describe('computePeaksInIdle', () => {
     expect(pyramid[2][1]).toBe(32767);
   });
 });
+
+describe('createPeakAccumulator', () => {
+  it('matches the one-shot result when fed in uneven chunks', async () => {
+    vi.useFakeTimers();
+    const samples = new Float32Array(1000);
+    for (let i = 0; i < samples.length; i++)
+      samples[i] = Math.sin(i / 7) * (i / samples.length);
+
+    const p = computePeaksInIdle(samples, 40, undefined, {
+      returnPyramid: true,
+      pyramidLevels: 3,
+    });
+    await vi.runAllTimersAsync();
+    const expected = (await p) as { peaks: Int16Array; pyramid: Int16Array[] };
+    vi.useRealTimers();
+
+    const acc = createPeakAccumulator(samples.length, 40, {
+      returnPyramid: true,
+      pyramidLevels: 3,
+    });
+    acc.push(samples.subarray(0, 333));
+    acc.push(samples.subarray(333, 334));
+    acc.push(samples.subarray(334));
+    const { peaks, pyramid } = acc.finish();
+
+    expect(Array.from(peaks)).toEqual(Array.from(expected.peaks));
+    expect(pyramid?.map((level) => level.length)).toEqual(
+      expected.pyramid.map((level) => level.length)
+    );
+    expect(Array.from(pyramid![2])).toEqual(Array.from(expected.pyramid[2]));
+  });
+
+  it('fills buckets past a short stream with silence', () => {
+    const acc = createPeakAccumulator(100, 4, { mode: 'rms' });
+    acc.push(new Float32Array(50).fill(0.25));
+    const { peaks, pyramid } = acc.finish();
+
+    expect(peaks[1]).toBe(Math.round(0.25 * 32767));
+    expect(peaks[0]).toBe(-peaks[1]);
+    expect(Array.from(peaks.subarray(4))).toEqual([0, 0, 0, 0]);
+    expect(pyramid).toBeNull();
+  });
+});
+
+describe('createChannelPeakAccumulator', () => {
+  const q = (v: number) => Math.round(v * 32767);
+
+  it('splits interleaved chunks into channel peaks and a mono mix', () => {
+    const frames = 8;
+    const interleaved = new Float32Array(frames * 2);
+    for (let f = 0; f < frames; f++) {
+      interleaved[f * 2] = 0.5;
+      interleaved[f * 2 + 1] = f < 4 ? 0 : -0.5;
+    }
+    const acc = createChannelPeakAccumulator(frames, 2, 2);
+    // 프레임 중간에서 끊긴 조각도 이어 붙인다.
+    acc.push(interleaved.subarray(0, 5));
+    acc.push(interleaved.subarray(5));
+    const { peaks, channels } = acc.finish();
+
+    expect(channels).toHaveLength(2);
+    const [left, right] = channels!;
+    expect(Array.from(left.peaks)).toEqual([q(0.5), q(0.5), q(0.5), q(0.5)]);
+    expect(Array.from(right.peaks)).toEqual([0, 0, q(-0.5), q(-0.5)]);
+    expect(Array.from(peaks)).toEqual([q(0.25), q(0.25), 0, 0]);
+  });
+
+  it('skips channel peaks for mono input', () => {
+    const acc = createChannelPeakAccumulator(4, 1, 2);
+    acc.push(new Float32Array([0.5, 0.5, -0.5, -0.5]));
+    const result = acc.finish();
+    expect(result.channels).toBeNull();
+    expect(Array.from(result.peaks)).toEqual([
+      q(0.5),
+      q(0.5),
+      q(-0.5),
+      q(-0.5),
+    ]);
+  });
+});
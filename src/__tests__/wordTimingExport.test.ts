@@ -0,0 +1,66 @@
+import { describe, expect, it } from 'vitest';
+
+import type { Caption } from '@/data/types';
+import { createCaptionId } from '@/data/types';
+import { toVtt, toWordTimelineJson } from '@/features/captions/format';
+import { parseVtt } from '@/features/captions/vttFormat';
+import { captionsToAss } from '@/features/export/srtUtils';
+
+const caption: Caption = {
+  id: createCaptionId('c1'),
+  startMs: 1000,
+  endMs: 2500,
+  text: 'one two three',
+  words: [
+    { text: 'one', startMs: 1000, endMs: 1400 },
+    { text: 'two', startMs: 1600, endMs: 2000 },
+    { text: 'three', startMs: 2000, endMs: 2500 },
+  ],
+};
+
+describe('word timing export', () => {
+  it('ASS 카라오케 태그로 단어 길이와 단어 사이 공백을 내보낸다', () => {
+    const ass = captionsToAss([caption], { karaoke: 'kf' });
+
+    expect(ass).toContain(
+      'Dialogue: 0,0:00:01.00,0:00:02.50,Default,,0,0,0,,{\\kf40}one {\\k20}{\\kf40}two {\\kf50}three'
+    );
+    // 카라오케에서는 PrimaryColour가 강조 색, SecondaryColour가 기본 글자 색이다.
+    expect(ass).toContain(
+      'Style: Default,DejaVu Sans,36,&H0000D4FF,&H00FFFFFF'
+    );
+  });
+
+  it('단어 타이밍이 없는 자막은 균등 분배한 타이밍을 쓴다', () => {
+    const ass = captionsToAss([{ ...caption, words: undefined, text: 'a b' }], {
+      karaoke: 'k',
+    });
+    expect(ass).toContain(',,{\\k75}a {\\k75}b');
+  });
+
+  it('VTT 인라인 타임스탬프를 넣고 다시 읽으면 단어 타이밍이 복원된다', () => {
+    const vtt = toVtt([caption], { wordTimestamps: true });
+    expect(vtt).toContain('one <00:00:01.600>two <00:00:02.000>three');
+
+    const [cue] = parseVtt(vtt).cues;
+    expect(cue.text).toBe('one two three');
+    expect(cue.words?.map((w) => w.startMs)).toEqual([1000, 1600, 2000]);
+  });
+
+  it('단어 타임라인 JSON을 내보낸다', () => {
+    const json = JSON.parse(toWordTimelineJson([caption]));
+
+    expect(json.version).toBe(1);
+    expect(json.captions[0]).toMatchObject({
+      id: 'c1',
+      startMs: 1000,
+      endMs: 2500,
+      text: 'one two three',
+    });
+    expect(json.captions[0].words[1]).toEqual({
+      text: 'two',
+      startMs: 1600,
+      endMs: 2000,
+    });
+  });
+});
@@ -1,12 +1,18 @@
 import { RouterProvider } from 'react-router-dom';
 import QueryProvider from './providers/QueryProvider';
+import ShortcutProvider from '@/features/shortcuts/ShortcutProvider';
+import CommandPaletteProvider from '@/features/commandPalette/CommandPaletteProvider';
 
 import { router } from './router';
 
 function App() {
   return (
     <QueryProvider>
-      <RouterProvider router={router} />
+      <ShortcutProvider>
+        <CommandPaletteProvider>
+          <RouterProvider router={router} />
+        </CommandPaletteProvider>
+      </ShortcutProvider>
     </QueryProvider>
   );
 }
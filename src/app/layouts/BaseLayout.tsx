@@ -1,10 +1,13 @@
 import { NavLink, Outlet } from 'react-router-dom';
 
+import { useShortcutSettings } from '@/features/shortcuts';
 import styles from './BaseLayout.module.css';
 
 const navItems = [{ to: '/videos', label: '비디오 목록' }];
 
 function BaseLayout() {
+  const shortcuts = useShortcutSettings();
+
   return (
     <div className={styles.shell}>
       <header className={styles.header}>
@@ -35,6 +38,17 @@ function BaseLayout() {
               </NavLink>
             ))}
           </nav>
+          {shortcuts && (
+            <button
+              type="button"
+              className={styles.shortcutButton}
+              onClick={shortcuts.openCheatSheet}
+              title="단축키 (?)"
+              aria-label="단축키 보기"
+            >
+              ?
+            </button>
+          )}
           <NavLink to="/upload" className={styles.cta}>
             새 프로젝트 업로드
           </NavLink>
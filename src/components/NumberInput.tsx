@@ -0,0 +1,63 @@
+import { useState, type InputHTMLAttributes } from 'react';
+
+type NumberInputProps = Omit<
+  InputHTMLAttributes<HTMLInputElement>,
+  'type' | 'value' | 'onChange' | 'min' | 'max'
+> & {
+  value: number;
+  min: number;
+  max: number;
+  /** 입력을 마쳤을 때(blur·Enter) 범위로 맞춘 값을 넘긴다. */
+  onCommit: (value: number) => void;
+};
+
+/**
+ * 입력하는 동안에는 문자열을 그대로 두고, 입력을 마쳤을 때만 숫자로 바꿔 범위로
+ * 맞춘다. 비우거나 "-"부터 치는 중간 상태도 입력할 수 있다. 숫자가 아니면
+ * 원래 값으로 돌아가고, Escape는 입력을 취소한다.
+ */
+function NumberInput({
+  value,
+  min,
+  max,
+  onCommit,
+  onBlur,
+  onKeyDown,
+  ...rest
+}: NumberInputProps) {
+  const [draft, setDraft] = useState<string | null>(null);
+
+  const commit = () => {
+    if (draft === null) return;
+    setDraft(null);
+    const parsed = Number.parseFloat(draft);
+    if (!Number.isFinite(parsed)) return;
+    const clamped = Math.max(min, Math.min(max, parsed));
+    if (clamped !== value) onCommit(clamped);
+  };
+
+  return (
+    <input
+      {...rest}
+      type="number"
+      min={min}
+      max={max}
+      value={draft ?? value}
+      onChange={(e) => setDraft(e.target.value)}
+      onBlur={(e) => {
+        commit();
+        onBlur?.(e);
+      }}
+      onKeyDown={(e) => {
+        if (e.key === 'Enter') {
+          commit();
+        } else if (e.key === 'Escape') {
+          setDraft(null);
+        }
+        onKeyDown?.(e);
+      }}
+    />
+  );
+}
+
+export default NumberInput;
@@ -2,6 +2,8 @@ import type { ApiMode } from '@/data/types';
 
 const DEFAULT_API_BASE_URL = '/api';
 const DEFAULT_API_MODE: ApiMode = 'local';
+// whisper.cpp `server` 예제의 기본 주소
+const DEFAULT_TRANSCRIPTION_URL = 'http://127.0.0.1:8080';
 
 function normalizeNonEmptyString(value: unknown): string | undefined {
   if (typeof value !== 'string') return undefined;
@@ -18,9 +20,14 @@ function normalizeApiMode(value: string | undefined): ApiMode {
 export type AppEnv = {
   apiBaseUrl: string;
   apiMode: ApiMode;
+  transcriptionUrl: string;
+  /** Gentle 호환 강제 정렬 서비스. 없으면 브라우저 안의 에너지 정렬만 쓴다. */
+  alignmentUrl?: string;
   raw: {
     VITE_API_BASE_URL: string;
     VITE_API_MODE: string;
+    VITE_TRANSCRIPTION_URL: string;
+    VITE_ALIGNMENT_URL: string;
   };
 };
 
@@ -32,13 +39,23 @@ export function getAppEnv(): AppEnv {
 
   const apiBaseUrl = rawApiBaseUrl ?? DEFAULT_API_BASE_URL;
   const apiMode = normalizeApiMode(rawApiMode);
+  const transcriptionUrl =
+    normalizeNonEmptyString(import.meta.env.VITE_TRANSCRIPTION_URL) ??
+    DEFAULT_TRANSCRIPTION_URL;
+  const alignmentUrl = normalizeNonEmptyString(
+    import.meta.env.VITE_ALIGNMENT_URL
+  );
 
   return {
     apiBaseUrl,
     apiMode,
+    transcriptionUrl,
+    alignmentUrl,
     raw: {
       VITE_API_BASE_URL: import.meta.env.VITE_API_BASE_URL,
       VITE_API_MODE: import.meta.env.VITE_API_MODE,
+      VITE_TRANSCRIPTION_URL: import.meta.env.VITE_TRANSCRIPTION_URL,
+      VITE_ALIGNMENT_URL: import.meta.env.VITE_ALIGNMENT_URL,
     },
   };
 }
@@ -57,5 +74,7 @@ export function logAppEnvOnce(): void {
   console.info('[env] resolved:', {
     apiBaseUrl: env.apiBaseUrl,
     apiMode: env.apiMode,
+    transcriptionUrl: env.transcriptionUrl,
+    alignmentUrl: env.alignmentUrl,
   });
 }
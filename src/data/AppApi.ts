@@ -1,5 +1,6 @@
 import type {
   Caption,
+  CaptionStyle,
   CreateVideoInput,
   Video,
   VideoId,
@@ -15,6 +16,9 @@ export type AppApi = {
 
   listCaptions(videoId: VideoId): Promise<Caption[]>;
   saveCaptions(videoId: VideoId, captions: Caption[]): Promise<void>;
+  /** 비디오 기본 자막 스타일. 저장된 적이 없으면 null */
+  getCaptionStyle(videoId: VideoId): Promise<CaptionStyle | null>;
+  saveCaptionStyle(videoId: VideoId, style: CaptionStyle): Promise<void>;
 
   putVideoBlob(videoId: VideoId, blob: Blob): Promise<void>;
   getVideoBlob(videoId: VideoId): Promise<Blob | null>;
@@ -0,0 +1,58 @@
+export type ApiErrorCode =
+  | 'NETWORK_ERROR'
+  | 'TIMEOUT'
+  | 'NOT_FOUND'
+  | 'BAD_REQUEST'
+  | 'UNAUTHORIZED'
+  | 'CONFLICT'
+  | 'SERVER_ERROR'
+  | 'INVALID_RESPONSE'
+  | 'UNKNOWN';
+
+export class ApiError extends Error {
+  readonly code: ApiErrorCode;
+  readonly status: number | null;
+  readonly method: string;
+  readonly url: string;
+  readonly details?: string;
+
+  constructor(
+    code: ApiErrorCode,
+    message: string,
+    init: {
+      status?: number | null;
+      method: string;
+      url: string;
+      details?: string;
+      cause?: unknown;
+    }
+  ) {
+    super(message, { cause: init.cause });
+    this.name = 'ApiError';
+    this.code = code;
+    this.status = init.status ?? null;
+    this.method = init.method;
+    this.url = init.url;
+    this.details = init.details;
+  }
+
+  /** 일시적인 실패(네트워크, 타임아웃, 5xx, 429)인지 여부 */
+  get isRetryable(): boolean {
+    if (this.code === 'NETWORK_ERROR' || this.code === 'TIMEOUT') return true;
+    if (this.status === 429) return true;
+    return this.status !== null && this.status >= 500;
+  }
+}
+
+export function codeFromStatus(status: number): ApiErrorCode {
+  if (status === 400 || status === 422) return 'BAD_REQUEST';
+  if (status === 401 || status === 403) return 'UNAUTHORIZED';
+  if (status === 404) return 'NOT_FOUND';
+  if (status === 409) return 'CONFLICT';
+  if (status >= 500) return 'SERVER_ERROR';
+  return 'UNKNOWN';
+}
+
+export function isApiError(error: unknown): error is ApiError {
+  return error instanceof ApiError;
+}
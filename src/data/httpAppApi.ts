@@ -0,0 +1,255 @@
+import type { AppApi } from './AppApi';
+import { ApiError, codeFromStatus } from './apiErrors';
+import type {
+  Caption,
+  CaptionStyle,
+  CreateVideoInput,
+  Video,
+  VideoId,
+  VideoMetadataPatch,
+} from './types';
+
+type HttpMethod = 'GET' | 'POST' | 'PUT' | 'PATCH' | 'DELETE';
+
+export type HttpAppApiOptions = {
+  baseUrl: string;
+  fetch?: typeof fetch;
+  /** 재시도 가능한 실패에 대한 최대 재시도 횟수 */
+  retries?: number;
+  retryBaseDelayMs?: number;
+  retryMaxDelayMs?: number;
+  timeoutMs?: number;
+};
+
+type RequestOptions = {
+  body?: BodyInit;
+  contentType?: string;
+  /** 404를 오류 대신 null로 돌려준다 */
+  allowNotFound?: boolean;
+};
+
+const DEFAULT_RETRIES = 2;
+const DEFAULT_RETRY_BASE_DELAY_MS = 300;
+const DEFAULT_RETRY_MAX_DELAY_MS = 5000;
+const DEFAULT_TIMEOUT_MS = 30 * 1000;
+
+// POST는 서버에 중복 생성을 만들 수 있어 재시도하지 않는다.
+const IDEMPOTENT_METHODS: ReadonlySet<HttpMethod> = new Set([
+  'GET',
+  'PUT',
+  'PATCH',
+  'DELETE',
+]);
+
+function joinUrl(baseUrl: string, path: string): string {
+  return `${baseUrl.replace(/\/+$/, '')}${path}`;
+}
+
+function videoPath(id: VideoId, suffix = ''): string {
+  return `/videos/${encodeURIComponent(id)}${suffix}`;
+}
+
+function delay(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+async function readErrorDetails(res: Response): Promise<string | undefined> {
+  try {
+    const text = await res.text();
+    return text.trim() ? text.slice(0, 500) : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+export function createHttpAppApi(options: HttpAppApiOptions): AppApi {
+  const {
+    baseUrl,
+    retries = DEFAULT_RETRIES,
+    retryBaseDelayMs = DEFAULT_RETRY_BASE_DELAY_MS,
+    retryMaxDelayMs = DEFAULT_RETRY_MAX_DELAY_MS,
+    timeoutMs = DEFAULT_TIMEOUT_MS,
+  } = options;
+  const fetchImpl = options.fetch ?? ((...args) => fetch(...args));
+
+  async function sendOnce(
+    method: HttpMethod,
+    url: string,
+    init: RequestOptions
+  ): Promise<Response> {
+    const controller = new AbortController();
+    const timeoutId = setTimeout(() => controller.abort(), timeoutMs);
+    const headers: Record<string, string> = { Accept: 'application/json' };
+    if (init.contentType) headers['Content-Type'] = init.contentType;
+
+    try {
+      return await fetchImpl(url, {
+        method,
+        headers,
+        body: init.body,
+        signal: controller.signal,
+      });
+    } catch (error) {
+      if (controller.signal.aborted) {
+        throw new ApiError(
+          'TIMEOUT',
+          `요청 시간이 초과되었습니다. (${timeoutMs / 1000}초)`,
+          { method, url, cause: error }
+        );
+      }
+      throw new ApiError('NETWORK_ERROR', '서버에 연결할 수 없습니다.', {
+        method,
+        url,
+        details: error instanceof Error ? error.message : undefined,
+        cause: error,
+      });
+    } finally {
+      clearTimeout(timeoutId);
+    }
+  }
+
+  async function request(
+    method: HttpMethod,
+    path: string,
+    init: RequestOptions = {}
+  ): Promise<Response | null> {
+    const url = joinUrl(baseUrl, path);
+    const maxAttempts = IDEMPOTENT_METHODS.has(method) ? retries + 1 : 1;
+
+    for (let attempt = 0; ; attempt++) {
+      let failure: ApiError;
+      try {
+        const res = await sendOnce(method, url, init);
+        if (res.ok) return res;
+        if (res.status === 404 && init.allowNotFound) return null;
+
+        failure = new ApiError(
+          codeFromStatus(res.status),
+          `요청이 실패했습니다. (HTTP ${res.status})`,
+          {
+            status: res.status,
+            method,
+            url,
+            details: await readErrorDetails(res),
+          }
+        );
+      } catch (error) {
+        if (!(error instanceof ApiError)) throw error;
+        failure = error;
+      }
+
+      if (!failure.isRetryable || attempt + 1 >= maxAttempts) throw failure;
+      await delay(Math.min(retryBaseDelayMs * 2 ** attempt, retryMaxDelayMs));
+    }
+  }
+
+  async function readJson<T>(res: Response, method: HttpMethod): Promise<T> {
+    try {
+      return (await res.json()) as T;
+    } catch (error) {
+      throw new ApiError(
+        'INVALID_RESPONSE',
+        '서버 응답을 해석할 수 없습니다.',
+        { status: res.status, method, url: res.url, cause: error }
+      );
+    }
+  }
+
+  function jsonBody(value: unknown): RequestOptions {
+    return { body: JSON.stringify(value), contentType: 'application/json' };
+  }
+
+  function blobBody(blob: Blob): RequestOptions {
+    return {
+      body: blob,
+      contentType: blob.type || 'application/octet-stream',
+    };
+  }
+
+  async function getBlob(path: string): Promise<Blob | null> {
+    const res = await request('GET', path, { allowNotFound: true });
+    if (!res) return null;
+    return res.blob();
+  }
+
+  return {
+    async listVideos(): Promise<Video[]> {
+      const res = await request('GET', '/videos');
+      const videos = await readJson<Video[]>(res!, 'GET');
+      return [...videos].sort((a, b) => b.createdAt - a.createdAt);
+    },
+
+    async getVideo(id: VideoId): Promise<Video | null> {
+      const res = await request('GET', videoPath(id), { allowNotFound: true });
+      if (!res) return null;
+      return readJson<Video>(res, 'GET');
+    },
+
+    async createVideo(input: CreateVideoInput): Promise<Video> {
+      const res = await request('POST', '/videos', jsonBody(input));
+      return readJson<Video>(res!, 'POST');
+    },
+
+    async updateVideoMetadata(
+      id: VideoId,
+      patch: VideoMetadataPatch
+    ): Promise<void> {
+      await request('PATCH', videoPath(id), {
+        ...jsonBody(patch),
+        allowNotFound: true,
+      });
+    },
+
+    async deleteVideo(id: VideoId): Promise<void> {
+      await request('DELETE', videoPath(id), { allowNotFound: true });
+    },
+
+    async listCaptions(videoId: VideoId): Promise<Caption[]> {
+      const res = await request('GET', videoPath(videoId, '/captions'), {
+        allowNotFound: true,
+      });
+      if (!res) return [];
+      const captions = await readJson<Caption[]>(res, 'GET');
+      return Array.isArray(captions) ? captions : [];
+    },
+
+    async saveCaptions(videoId: VideoId, captions: Caption[]): Promise<void> {
+      await request('PUT', videoPath(videoId, '/captions'), jsonBody(captions));
+    },
+
+    async getCaptionStyle(videoId: VideoId): Promise<CaptionStyle | null> {
+      const res = await request('GET', videoPath(videoId, '/caption-style'), {
+        allowNotFound: true,
+      });
+      if (!res) return null;
+      return readJson<CaptionStyle>(res, 'GET');
+    },
+
+    async saveCaptionStyle(
+      videoId: VideoId,
+      style: CaptionStyle
+    ): Promise<void> {
+      await request(
+        'PUT',
+        videoPath(videoId, '/caption-style'),
+        jsonBody(style)
+      );
+    },
+
+    async putVideoBlob(videoId: VideoId, blob: Blob): Promise<void> {
+      await request('PUT', videoPath(videoId, '/blob'), blobBody(blob));
+    },
+
+    async getVideoBlob(videoId: VideoId): Promise<Blob | null> {
+      return getBlob(videoPath(videoId, '/blob'));
+    },
+
+    async putThumbnailBlob(videoId: VideoId, blob: Blob): Promise<void> {
+      await request('PUT', videoPath(videoId, '/thumbnail'), blobBody(blob));
+    },
+
+    async getThumbnailBlob(videoId: VideoId): Promise<Blob | null> {
+      return getBlob(videoPath(videoId, '/thumbnail'));
+    },
+  };
+}
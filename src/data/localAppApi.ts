@@ -2,13 +2,20 @@
 import type { AppApi } from './AppApi';
 import type {
   Caption,
+  CaptionStyle,
   CreateVideoInput,
   Video,
   VideoId,
   VideoMetadataPatch,
 } from './types';
 import { createVideoId } from './types';
-import { deleteCaptions, getCaptions, saveCaptions } from '@/lib/captionStore';
+import {
+  deleteCaptions,
+  getCaptionStyle,
+  getCaptions,
+  saveCaptionStyle,
+  saveCaptions,
+} from '@/lib/captionStore';
 import {
   deleteThumbnailBlob,
   deleteVideoBlob,
@@ -100,6 +107,19 @@ export function createLocalAppApi(): AppApi {
       await saveCaptions(videoId, captions);
     },
 
+    async getCaptionStyle(videoId: VideoId): Promise<CaptionStyle | null> {
+      await ensureSeeded();
+      return getCaptionStyle(videoId);
+    },
+
+    async saveCaptionStyle(
+      videoId: VideoId,
+      style: CaptionStyle
+    ): Promise<void> {
+      await ensureSeeded();
+      await saveCaptionStyle(videoId, style);
+    },
+
     async putVideoBlob(videoId: VideoId, blob: Blob): Promise<void> {
       await ensureSeeded();
       await saveVideoBlob(videoId, blob);
@@ -0,0 +1,229 @@
+import type {
+  Caption,
+  CaptionStyle,
+  CreateVideoInput,
+  Video,
+  VideoMetadataPatch,
+} from './types';
+import { createVideoId } from './types';
+
+/**
+ * HTTP AppApi 계약을 흉내 내는 메모리 기반 목 서버.
+ * 네트워크 없이 `createHttpAppApi({ fetch: server.fetch })`로 주입해 사용한다.
+ */
+
+type StoredAsset = { data: ArrayBuffer; type: string };
+
+type MockRequest = {
+  method: string;
+  params: Record<string, string>;
+  body: BodyInit | null | undefined;
+};
+
+type MockHandler = {
+  method: string;
+  pattern: RegExp;
+  keys: string[];
+  handle: (req: MockRequest) => Promise<Response> | Response;
+};
+
+export type MockHttpServer = {
+  fetch: typeof fetch;
+  reset: () => void;
+  requests: { method: string; path: string }[];
+};
+
+function json(value: unknown, status = 200): Response {
+  return new Response(JSON.stringify(value), {
+    status,
+    headers: { 'Content-Type': 'application/json' },
+  });
+}
+
+function noContent(): Response {
+  return new Response(null, { status: 204 });
+}
+
+function notFound(): Response {
+  return json({ error: 'not found' }, 404);
+}
+
+function route(
+  method: string,
+  path: string,
+  handle: MockHandler['handle']
+): MockHandler {
+  const keys: string[] = [];
+  const source = path.replace(/:(\w+)/g, (_, key: string) => {
+    keys.push(key);
+    return '([^/]+)';
+  });
+  return { method, pattern: new RegExp(`^${source}$`), keys, handle };
+}
+
+function readBlob(blob: Blob): Promise<ArrayBuffer> {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as ArrayBuffer);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsArrayBuffer(blob);
+  });
+}
+
+async function readAsset(
+  body: BodyInit | null | undefined
+): Promise<StoredAsset | null> {
+  if (body instanceof Blob) {
+    return { data: await readBlob(body), type: body.type };
+  }
+  if (body instanceof ArrayBuffer) {
+    return { data: body, type: 'application/octet-stream' };
+  }
+  return null;
+}
+
+function readJsonBody<T>(body: BodyInit | null | undefined): T | null {
+  if (typeof body !== 'string') return null;
+  try {
+    return JSON.parse(body) as T;
+  } catch {
+    return null;
+  }
+}
+
+export function createMockHttpServer(baseUrl = '/api'): MockHttpServer {
+  const videos = new Map<string, Video>();
+  const captions = new Map<string, Caption[]>();
+  const captionStyles = new Map<string, CaptionStyle>();
+  const videoBlobs = new Map<string, StoredAsset>();
+  const thumbnails = new Map<string, StoredAsset>();
+  const requests: MockHttpServer['requests'] = [];
+  let sequence = 0;
+
+  const assetRoutes = (
+    suffix: string,
+    store: Map<string, StoredAsset>
+  ): MockHandler[] => [
+    route('GET', `/videos/:id/${suffix}`, ({ params }) => {
+      const asset = store.get(params.id);
+      if (!asset) return notFound();
+      return new Response(asset.data.slice(0), {
+        status: 200,
+        headers: { 'Content-Type': asset.type || 'application/octet-stream' },
+      });
+    }),
+    route('PUT', `/videos/:id/${suffix}`, async ({ params, body }) => {
+      if (!videos.has(params.id)) return notFound();
+      const asset = await readAsset(body);
+      if (!asset) return json({ error: 'binary body required' }, 400);
+      store.set(params.id, asset);
+      return noContent();
+    }),
+  ];
+
+  const handlers: MockHandler[] = [
+    route('GET', '/videos', () => json([...videos.values()])),
+    route('POST', '/videos', ({ body }) => {
+      const input = readJsonBody<CreateVideoInput>(body);
+      if (!input?.title) return json({ error: 'title required' }, 400);
+      sequence += 1;
+      const video: Video = {
+        id: input.id ?? createVideoId(`http_${sequence}`),
+        title: input.title,
+        createdAt: input.createdAt ?? Date.now(),
+      };
+      if (videos.has(video.id)) return json({ error: 'duplicate id' }, 409);
+      videos.set(video.id, video);
+      return json(video, 201);
+    }),
+    route('GET', '/videos/:id', ({ params }) => {
+      const video = videos.get(params.id);
+      return video ? json(video) : notFound();
+    }),
+    route('PATCH', '/videos/:id', ({ params, body }) => {
+      const video = videos.get(params.id);
+      if (!video) return notFound();
+      const patch = readJsonBody<VideoMetadataPatch>(body) ?? {};
+      videos.set(params.id, { ...video, ...patch });
+      return noContent();
+    }),
+    route('DELETE', '/videos/:id', ({ params }) => {
+      if (!videos.delete(params.id)) return notFound();
+      captions.delete(params.id);
+      captionStyles.delete(params.id);
+      videoBlobs.delete(params.id);
+      thumbnails.delete(params.id);
+      return noContent();
+    }),
+    route('GET', '/videos/:id/captions', ({ params }) => {
+      if (!videos.has(params.id)) return notFound();
+      return json(captions.get(params.id) ?? []);
+    }),
+    route('PUT', '/videos/:id/captions', ({ params, body }) => {
+      if (!videos.has(params.id)) return notFound();
+      const next = readJsonBody<Caption[]>(body);
+      if (!Array.isArray(next)) return json({ error: 'array required' }, 400);
+      captions.set(params.id, next);
+      return noContent();
+    }),
+    route('GET', '/videos/:id/caption-style', ({ params }) => {
+      const style = captionStyles.get(params.id);
+      return style ? json(style) : notFound();
+    }),
+    route('PUT', '/videos/:id/caption-style', ({ params, body }) => {
+      if (!videos.has(params.id)) return notFound();
+      const next = readJsonBody<CaptionStyle>(body);
+      if (!next || typeof next !== 'object') {
+        return json({ error: 'object required' }, 400);
+      }
+      captionStyles.set(params.id, next);
+      return noContent();
+    }),
+    ...assetRoutes('blob', videoBlobs),
+    ...assetRoutes('thumbnail', thumbnails),
+  ];
+
+  const prefix = baseUrl.replace(/\/+$/, '');
+
+  const mockFetch: typeof fetch = async (input, init) => {
+    const rawUrl =
+      typeof input === 'string'
+        ? input
+        : input instanceof URL
+          ? input.href
+          : input.url;
+    const method = (init?.method ?? 'GET').toUpperCase();
+    const pathname = new URL(rawUrl, 'http://mock.local').pathname;
+    const path = pathname.startsWith(prefix)
+      ? pathname.slice(prefix.length) || '/'
+      : pathname;
+
+    requests.push({ method, path });
+
+    for (const handler of handlers) {
+      if (handler.method !== method) continue;
+      const match = handler.pattern.exec(path);
+      if (!match) continue;
+      const params = Object.fromEntries(
+        handler.keys.map((key, i) => [key, decodeURIComponent(match[i + 1])])
+      );
+      return handler.handle({ method, params, body: init?.body });
+    }
+
+    return notFound();
+  };
+
+  return {
+    fetch: mockFetch,
+    requests,
+    reset: () => {
+      videos.clear();
+      captions.clear();
+      captionStyles.clear();
+      videoBlobs.clear();
+      thumbnails.clear();
+      requests.length = 0;
+      sequence = 0;
+    },
+  };
+}
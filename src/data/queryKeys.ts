@@ -17,3 +17,7 @@ export function thumbnailBlobKey(id: VideoId) {
 export function captionsKey(id: VideoId) {
   return ['captions', id] as const;
 }
+
+export function captionStyleKey(id: VideoId) {
+  return ['caption-style', id] as const;
+}
@@ -14,10 +14,29 @@ export type Video = {
   durationMs?: number;
   width?: number;
   height?: number;
+  frameRate?: number;
+  videoCodec?: string;
+  audioCodec?: string;
+  bitrate?: number;
+  rotation?: number;
+  audioChannels?: number;
+  audioSampleRate?: number;
 };
 
 export type VideoMetadataPatch = Partial<
-  Pick<Video, 'durationMs' | 'width' | 'height'>
+  Pick<
+    Video,
+    | 'durationMs'
+    | 'width'
+    | 'height'
+    | 'frameRate'
+    | 'videoCodec'
+    | 'audioCodec'
+    | 'bitrate'
+    | 'rotation'
+    | 'audioChannels'
+    | 'audioSampleRate'
+  >
 >;
 
 export type CaptionWord = {
@@ -26,12 +45,52 @@ export type CaptionWord = {
   endMs: number;
 };
 
+export type CaptionAlignment = 'left' | 'center' | 'right';
+
+export type CaptionVerticalPosition = 'top' | 'middle' | 'bottom';
+
+/**
+ * 자막 표시 스타일. 크기/여백/두께는 720px 높이 기준 픽셀 값이며
+ * 미리보기와 ASS(PlayResY 720) 모두 같은 기준으로 환산한다.
+ */
+export type CaptionStyle = {
+  fontFamily: string;
+  fontSize: number;
+  bold: boolean;
+  /** `#rrggbb` */
+  color: string;
+  /** 현재 단어 강조 색 (`#rrggbb`). ASS 카라오케의 PrimaryColour로도 쓰인다. */
+  highlightColor: string;
+  /** `#rrggbb` */
+  outlineColor: string;
+  outlineWidth: number;
+  backgroundEnabled: boolean;
+  /** `#rrggbb` */
+  backgroundColor: string;
+  /** 0(투명)~1(불투명) */
+  backgroundOpacity: number;
+  alignment: CaptionAlignment;
+  verticalPosition: CaptionVerticalPosition;
+  marginV: number;
+  marginH: number;
+};
+
+export type CaptionStyleOverride = Partial<CaptionStyle>;
+
 export type Caption = {
   id: CaptionId;
   startMs: number;
   endMs: number;
   text: string;
   words?: CaptionWord[];
+  /** 비디오 기본 스타일에서 이 자막만 다르게 적용할 항목 */
+  style?: CaptionStyleOverride;
+  /** WebVTT에서 가져온 큐 식별자 (다시 VTT로 내보낼 때 유지) */
+  cueId?: string;
+  /** WebVTT 큐 설정 (`line:0 align:start` 등) */
+  cueSettings?: string;
+  /** 강제 정렬로 `words` 타이밍을 계산했을 때의 신뢰도 (0~1) */
+  alignmentConfidence?: number;
 };
 
 export type CreateVideoInput = {
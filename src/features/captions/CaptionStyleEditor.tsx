@@ -0,0 +1,188 @@
+import type { ReactNode } from 'react';
+
+import type {
+  CaptionAlignment,
+  CaptionStyle,
+  CaptionVerticalPosition,
+} from '@/data/types';
+import NumberInput from '@/components/NumberInput';
+import { CAPTION_FONT_OPTIONS } from './captionStyle';
+import styles from './CaptionStyleEditor.module.css';
+
+type Props = {
+  value: CaptionStyle;
+  onChange: (next: CaptionStyle) => void;
+  legend?: string;
+  disabled?: boolean;
+  /** 범례 옆에 표시할 추가 동작 (예: 기본값으로 되돌리기) */
+  actions?: ReactNode;
+};
+
+type NumberKey = 'fontSize' | 'outlineWidth' | 'marginV' | 'marginH';
+
+const ALIGNMENT_OPTIONS: { value: CaptionAlignment; label: string }[] = [
+  { value: 'left', label: '왼쪽' },
+  { value: 'center', label: '가운데' },
+  { value: 'right', label: '오른쪽' },
+];
+
+const POSITION_OPTIONS: { value: CaptionVerticalPosition; label: string }[] = [
+  { value: 'bottom', label: '아래' },
+  { value: 'middle', label: '가운데' },
+  { value: 'top', label: '위' },
+];
+
+function CaptionStyleEditor({
+  value,
+  onChange,
+  legend = '자막 스타일',
+  disabled,
+  actions,
+}: Props) {
+  const update = <K extends keyof CaptionStyle>(
+    key: K,
+    next: CaptionStyle[K]
+  ) => {
+    onChange({ ...value, [key]: next });
+  };
+
+  const numberField = (
+    key: NumberKey,
+    label: string,
+    min: number,
+    max: number
+  ) => (
+    <label className={styles.field}>
+      <span>{label}</span>
+      <NumberInput
+        className={styles.numberInput}
+        min={min}
+        max={max}
+        value={value[key]}
+        onCommit={(next) => update(key, next)}
+      />
+    </label>
+  );
+
+  return (
+    <fieldset className={styles.group} disabled={disabled}>
+      <legend className={styles.legend}>
+        {legend}
+        {actions}
+      </legend>
+      <label className={styles.field}>
+        <span>글꼴</span>
+        <select
+          value={value.fontFamily}
+          onChange={(e) => update('fontFamily', e.target.value)}
+        >
+          {CAPTION_FONT_OPTIONS.map((font) => (
+            <option key={font} value={font}>
+              {font}
+            </option>
+          ))}
+        </select>
+      </label>
+      {numberField('fontSize', '글자 크기', 8, 120)}
+      <label className={styles.field}>
+        <span>굵게</span>
+        <input
+          type="checkbox"
+          checked={value.bold}
+          onChange={(e) => update('bold', e.target.checked)}
+        />
+      </label>
+      <label className={styles.field}>
+        <span>글자 색</span>
+        <input
+          type="color"
+          value={value.color}
+          onChange={(e) => update('color', e.target.value)}
+        />
+      </label>
+      <label className={styles.field}>
+        <span>강조 색</span>
+        <input
+          type="color"
+          value={value.highlightColor}
+          onChange={(e) => update('highlightColor', e.target.value)}
+        />
+      </label>
+      <label className={styles.field}>
+        <span>외곽선 색</span>
+        <input
+          type="color"
+          value={value.outlineColor}
+          onChange={(e) => update('outlineColor', e.target.value)}
+        />
+      </label>
+      {numberField('outlineWidth', '외곽선 두께', 0, 10)}
+      <label className={styles.field}>
+        <span>배경 상자</span>
+        <input
+          type="checkbox"
+          checked={value.backgroundEnabled}
+          onChange={(e) => update('backgroundEnabled', e.target.checked)}
+        />
+      </label>
+      <label className={styles.field}>
+        <span>배경 색</span>
+        <input
+          type="color"
+          value={value.backgroundColor}
+          disabled={!value.backgroundEnabled}
+          onChange={(e) => update('backgroundColor', e.target.value)}
+        />
+      </label>
+      <label className={styles.field}>
+        <span>배경 불투명도</span>
+        <input
+          type="range"
+          min={0}
+          max={1}
+          step={0.05}
+          value={value.backgroundOpacity}
+          disabled={!value.backgroundEnabled}
+          onChange={(e) => update('backgroundOpacity', Number(e.target.value))}
+        />
+      </label>
+      <label className={styles.field}>
+        <span>정렬</span>
+        <select
+          value={value.alignment}
+          onChange={(e) =>
+            update('alignment', e.target.value as CaptionAlignment)
+          }
+        >
+          {ALIGNMENT_OPTIONS.map((opt) => (
+            <option key={opt.value} value={opt.value}>
+              {opt.label}
+            </option>
+          ))}
+        </select>
+      </label>
+      <label className={styles.field}>
+        <span>세로 위치</span>
+        <select
+          value={value.verticalPosition}
+          onChange={(e) =>
+            update(
+              'verticalPosition',
+              e.target.value as CaptionVerticalPosition
+            )
+          }
+        >
+          {POSITION_OPTIONS.map((opt) => (
+            <option key={opt.value} value={opt.value}>
+              {opt.label}
+            </option>
+          ))}
+        </select>
+      </label>
+      {numberField('marginV', '세로 여백', 0, 360)}
+      {numberField('marginH', '가로 여백', 0, 640)}
+    </fieldset>
+  );
+}
+
+export default CaptionStyleEditor;
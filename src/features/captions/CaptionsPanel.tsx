@@ -1,12 +1,47 @@
-import type { ChangeEvent, KeyboardEvent } from 'react';
+import type { ChangeEvent } from 'react';
 import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
 
-import type { Caption, VideoId } from '@/data/types';
+import type { Caption, CaptionStyle, VideoId } from '@/data/types';
 import { createCaptionId } from '@/data/types';
-import { parseCaptions, sortCaptions, toSrt } from './format';
-import { useCaptionsQuery, useSaveCaptionsMutation } from './queries';
+import type { HistoryCommand } from '@/features/history';
+import {
+  SNAP_KIND_LABELS,
+  captionEdgeId,
+  type SnapTargetKind,
+  type Snapper,
+} from '@/features/snapping';
+import { useTranscription } from '@/features/transcription';
+import {
+  parseCaptionFile,
+  sortCaptions,
+  toSrt,
+  toVtt,
+  toWordTimelineJson,
+  type ParsedCaptionFile,
+} from './format';
+import { captionsToAss } from '@/features/export/srtUtils';
+import {
+  retimeCaptionsForCuts,
+  stripCutWords,
+} from '@/features/export/cutRanges';
+import type { CutRange } from '@/features/export/ffmpegTypes';
+import {
+  useCaptionStyleQuery,
+  useCaptionsQuery,
+  useSaveCaptionStyle,
+  useSaveCaptionsMutation,
+} from './queries';
+import CaptionStyleEditor from './CaptionStyleEditor';
+import {
+  DEFAULT_CAPTION_STYLE,
+  diffCaptionStyle,
+  resolveCaptionStyle,
+} from './captionStyle';
 import styles from './CaptionsPanel.module.css';
 import { formatTimecode, parseTimecode } from './time';
+import { isValidFrameRate, parseSmpte } from '@/features/playback/timecode';
+import { useScopedShortcuts } from '@/features/shortcuts';
+import { useCommandPaletteCommands } from '@/features/commandPalette';
 import WordEditor from './WordEditor';
 import {
   applySplitCaption,
@@ -21,6 +56,35 @@ function getPlaybackTimeMs(): number | null {
   return Math.round(videoEl.currentTime * 1000);
 }
 
+type CaptionExportFormat = 'srt' | 'vtt' | 'vtt-words' | 'ass-karaoke' | 'json';
+
+const EXPORT_FORMATS: Record<
+  CaptionExportFormat,
+  { label: string; extension: string; mime: string }
+> = {
+  srt: { label: 'SRT', extension: 'srt', mime: 'application/x-subrip' },
+  vtt: { label: 'WebVTT', extension: 'vtt', mime: 'text/vtt' },
+  'vtt-words': {
+    label: 'WebVTT (단어 타임스탬프)',
+    extension: 'vtt',
+    mime: 'text/vtt',
+  },
+  'ass-karaoke': {
+    label: 'ASS (카라오케)',
+    extension: 'ass',
+    mime: 'text/x-ssa',
+  },
+  json: {
+    label: 'JSON (단어 타임라인)',
+    extension: 'json',
+    mime: 'application/json',
+  },
+};
+
+function isSameDrafts(a: Caption[], b: Caption[]): boolean {
+  return a.length === b.length && a.every((caption, i) => caption === b[i]);
+}
+
 function sanitizeCaptions(
   captions: Caption[],
   minDurationMs: number
@@ -45,9 +109,36 @@ type Props = {
   videoTitle: string;
   currentTimeMs: number;
   onSeek?: (timeMs: number) => void;
+  /** 자막 편집을 공유 실행 취소 기록에 남긴다. */
+  onRecordHistory?: (command: HistoryCommand) => void;
+  /** 자동 자막 생성에 쓰는 원본 미디어 */
+  mediaBlob?: Blob | null;
+  /** 텍스트 편집으로 잘라낸 구간을 포함한 제거 목록 */
+  cutRanges?: CutRange[];
+  durationMs?: number | null;
+  onToggleCut?: (range: CutRange, target: 'word' | 'caption') => void;
+  /** 있으면 방향키로 시간을 옮길 때와 단어 경계를 끌 때 스냅 대상에 붙인다. */
+  snap?: Snapper | null;
+  /** 프로브한 프레임 레이트. 있으면 시간 칸에 HH:MM:SS:FF 타임코드도 받는다. */
+  frameRate?: number | null;
 };
 
-function CaptionsPanel({ videoId, videoTitle, currentTimeMs, onSeek }: Props) {
+/** 방향키 한 번에 옮기는 시간 */
+const TIME_STEP_MS = 100;
+
+function CaptionsPanel({
+  videoId,
+  videoTitle,
+  currentTimeMs,
+  onSeek,
+  onRecordHistory,
+  mediaBlob,
+  cutRanges = [],
+  durationMs,
+  onToggleCut,
+  snap,
+  frameRate,
+}: Props) {
   const [defaultDurationMs, setDefaultDurationMs] = useState(2000);
   const [drafts, setDrafts] = useState<Caption[]>([
     {
@@ -64,13 +155,39 @@ function CaptionsPanel({ videoId, videoTitle, currentTimeMs, onSeek }: Props) {
     Map<string, { start?: string; end?: string }>
   >(new Map());
   const [focusTextareaId, setFocusTextareaId] = useState<string | null>(null);
+  const [isDefaultStyleOpen, setIsDefaultStyleOpen] = useState(false);
+  const [styleEditingId, setStyleEditingId] = useState<string | null>(null);
+  // 방향키 이동이 스냅 대상에 붙었을 때 해당 입력칸을 강조한다.
+  const [snappedField, setSnappedField] = useState<{
+    captionId: string;
+    field: 'start' | 'end';
+    kind: SnapTargetKind;
+  } | null>(null);
+  const [exportFormat, setExportFormat] = useState<CaptionExportFormat>('srt');
+  const [applyCutsOnExport, setApplyCutsOnExport] = useState(true);
+  // 마지막으로 불러온 파일 정보. VTT였다면 STYLE/NOTE를 유지한 채 VTT로 내보낸다.
+  const [importedFile, setImportedFile] = useState<Omit<
+    ParsedCaptionFile,
+    'captions'
+  > | null>(null);
   const fileInputRef = useRef<HTMLInputElement | null>(null);
+  // 같은 이벤트 안에서 이어지는 편집(텍스트 반영 후 새 자막 추가 등)이 서로를 덮어쓰지 않도록
+  // 최신 초안을 ref로도 들고 있는다.
+  const draftsRef = useRef(drafts);
 
   const captionsQuery = useCaptionsQuery(videoId);
   const { data, isPending, isError } = captionsQuery;
   const saveMutation = useSaveCaptionsMutation(videoId);
   const saving = saveMutation.isPending;
+  const { data: defaultStyle = DEFAULT_CAPTION_STYLE } =
+    useCaptionStyleQuery(videoId);
+  const saveDefaultStyle = useSaveCaptionStyle(videoId);
   const canUseWordEditor = (data?.length ?? 0) > 0;
+  const transcription = useTranscription();
+  const isTranscribing =
+    transcription.isBusy && transcription.state.job === 'transcribe';
+  const isAligning =
+    transcription.isBusy && transcription.state.job === 'align';
 
   const [rawDuration, setRawDuration] = useState<string | undefined>(undefined);
 
@@ -129,26 +246,59 @@ function CaptionsPanel({ videoId, videoTitle, currentTimeMs, onSeek }: Props) {
     }
   }, [focusTextareaId]);
 
+  useEffect(() => {
+    draftsRef.current = drafts;
+  }, [drafts]);
+
+  const commitDrafts = useCallback(
+    (
+      label: string,
+      update: (prev: Caption[]) => Caption[],
+      groupKey?: string
+    ) => {
+      const prev = draftsRef.current;
+      const next = update(prev);
+      if (isSameDrafts(prev, next)) return;
+      const apply = (value: Caption[]) => {
+        draftsRef.current = value;
+        setDrafts(value);
+      };
+      apply(next);
+      onRecordHistory?.({
+        label,
+        groupKey,
+        undo: () => apply(prev),
+        redo: () => apply(next),
+      });
+    },
+    [onRecordHistory]
+  );
+
   const heading = useMemo(
     () => (drafts.length ? `자막 ${drafts.length}개` : '자막 없음'),
     [drafts.length]
   );
 
   const updateField = (id: string, field: keyof Caption, raw: string) => {
-    setDrafts((prev) =>
-      prev.map((caption) => {
-        if (caption.id !== id) return caption;
-        if (field === 'text') return { ...caption, text: raw };
-        const parsed = parseTimecode(raw);
-        if (parsed === null) return caption;
-        return {
-          ...caption,
-          [field]: parsed,
-          ...(field === 'startMs' && caption.startMs === 0
-            ? { endMs: parsed + defaultDurationMs }
-            : {}),
-        };
-      })
+    commitDrafts(
+      field === 'text' ? '자막 텍스트 수정' : '자막 시간 수정',
+      (prev) =>
+        prev.map((caption) => {
+          if (caption.id !== id) return caption;
+          if (field === 'text') return { ...caption, text: raw };
+          const parsed =
+            parseTimecode(raw) ??
+            (isValidFrameRate(frameRate) ? parseSmpte(raw, frameRate) : null);
+          if (parsed === null) return caption;
+          return {
+            ...caption,
+            [field]: parsed,
+            ...(field === 'startMs' && caption.startMs === 0
+              ? { endMs: parsed + defaultDurationMs }
+              : {}),
+          };
+        }),
+      `${field}:${id}`
     );
   };
 
@@ -157,6 +307,7 @@ function CaptionsPanel({ videoId, videoTitle, currentTimeMs, onSeek }: Props) {
     field: 'start' | 'end',
     value: string
   ) => {
+    setSnappedField(null);
     setInputValues((prev) => {
       const newMap = new Map(prev);
       const current = newMap.get(captionId) || {};
@@ -202,40 +353,55 @@ function CaptionsPanel({ videoId, videoTitle, currentTimeMs, onSeek }: Props) {
     }
   };
 
-  const handleTimeKeyDown = (
-    event: KeyboardEvent<HTMLInputElement>,
+  const nudgeTime = (
     captionId: string,
-    field: 'start' | 'end'
+    field: 'start' | 'end',
+    delta: number,
+    bypassSnap: boolean
   ) => {
-    if (event.key === 'ArrowUp' || event.key === 'ArrowDown') {
-      event.preventDefault();
-      const caption = drafts.find((c) => c.id === captionId);
-      if (!caption) return;
-      const currentMs = field === 'start' ? caption.startMs : caption.endMs;
-      const delta = event.key === 'ArrowUp' ? 100 : -100;
-      const newMs = Math.max(0, currentMs + delta);
-      const newValue = formatTimecode(newMs);
-      handleTimeChange(captionId, field, newValue);
-      updateField(captionId, field === 'start' ? 'startMs' : 'endMs', newValue);
-      if (field === 'start') {
-        setInputValues((prev) => {
-          const newMap = new Map(prev);
-          const current = newMap.get(captionId);
-          if (current) {
-            const newCurrent = { ...current };
-            delete newCurrent.end;
-            if (Object.keys(newCurrent).length === 0) {
-              newMap.delete(captionId);
-            } else {
-              newMap.set(captionId, newCurrent);
-            }
+    const caption = drafts.find((c) => c.id === captionId);
+    if (!caption) return;
+    const currentMs = field === 'start' ? caption.startMs : caption.endMs;
+    let newMs = Math.max(0, currentMs + delta);
+    let snapKind: SnapTargetKind | null = null;
+    if (snap && !bypassSnap) {
+      const result = snap(newMs, {
+        thresholdMs: TIME_STEP_MS / 2,
+        excludeIds: [captionEdgeId(captionId, field)],
+      });
+      newMs = Math.max(0, result.ms);
+      snapKind = result.target?.kind ?? null;
+    }
+    const newValue = formatTimecode(newMs);
+    handleTimeChange(captionId, field, newValue);
+    if (snapKind) setSnappedField({ captionId, field, kind: snapKind });
+    updateField(captionId, field === 'start' ? 'startMs' : 'endMs', newValue);
+    if (field === 'start') {
+      setInputValues((prev) => {
+        const newMap = new Map(prev);
+        const current = newMap.get(captionId);
+        if (current) {
+          const newCurrent = { ...current };
+          delete newCurrent.end;
+          if (Object.keys(newCurrent).length === 0) {
+            newMap.delete(captionId);
+          } else {
+            newMap.set(captionId, newCurrent);
           }
-          return newMap;
-        });
-      }
+        }
+        return newMap;
+      });
     }
   };
 
+  const isSnapped = (captionId: string, field: 'start' | 'end') =>
+    snappedField?.captionId === captionId && snappedField.field === field;
+
+  const snappedTitle = (captionId: string, field: 'start' | 'end') =>
+    snappedField && isSnapped(captionId, field)
+      ? `${SNAP_KIND_LABELS[snappedField.kind]}에 맞춤`
+      : undefined;
+
   const handleTimeDoubleClick = (captionId: string, field: 'start' | 'end') => {
     const playhead = getPlaybackTimeMs();
     if (playhead !== null) {
@@ -261,28 +427,39 @@ function CaptionsPanel({ videoId, videoTitle, currentTimeMs, onSeek }: Props) {
     }
   };
 
-  const onUpdateCaption = useCallback((caption: Caption) => {
-    setDrafts((prev) => prev.map((c) => (c.id === caption.id ? caption : c)));
-  }, []);
+  const onUpdateCaption = useCallback(
+    (caption: Caption) => {
+      commitDrafts(
+        '단어 편집',
+        (prev) => prev.map((c) => (c.id === caption.id ? caption : c)),
+        `words:${caption.id}`
+      );
+    },
+    [commitDrafts]
+  );
 
   const onSplitCaption = useCallback(
     (captionId: string, wordIndex: number, mode: 'newline' | 'next') => {
-      const updated = applySplitCaption(drafts, captionId, wordIndex, mode);
-      if (updated) setDrafts(updated);
+      commitDrafts(
+        mode === 'newline' ? '줄바꿈 삽입' : '자막 분리',
+        (prev) => applySplitCaption(prev, captionId, wordIndex, mode) ?? prev
+      );
     },
-    [drafts]
+    [commitDrafts]
   );
 
   const onMergeCaption = useCallback(
     (captionId: string, direction: 'up' | 'down') => {
-      const updated = applyMergeCaption(drafts, captionId, direction);
-      if (updated) setDrafts(updated);
+      commitDrafts(
+        '자막 합치기',
+        (prev) => applyMergeCaption(prev, captionId, direction) ?? prev
+      );
     },
-    [drafts]
+    [commitDrafts]
   );
 
   const handleAdd = (anchorMs?: number | null) => {
-    const last = sortCaptions(drafts).at(-1);
+    const last = sortCaptions(draftsRef.current).at(-1);
     const playhead = anchorMs ?? getPlaybackTimeMs();
     const startMs = Number.isFinite(playhead)
       ? Math.max(0, playhead as number)
@@ -291,12 +468,15 @@ function CaptionsPanel({ videoId, videoTitle, currentTimeMs, onSeek }: Props) {
         : 0;
     const endMs = startMs + defaultDurationMs;
     const id = makeCaptionId();
-    setDrafts([...drafts, { id, startMs, endMs, text: '' }]);
+    commitDrafts('자막 추가', (prev) => [
+      ...prev,
+      { id, startMs, endMs, text: '' },
+    ]);
     return id;
   };
 
   const handleDelete = (id: string) => {
-    setDrafts((prev) => {
+    commitDrafts('자막 삭제', (prev) => {
       if (prev.length === 1) {
         return prev.map((caption) =>
           caption.id === id
@@ -326,35 +506,122 @@ function CaptionsPanel({ videoId, videoTitle, currentTimeMs, onSeek }: Props) {
     const reader = new FileReader();
     reader.onload = () => {
       const text = String(reader.result ?? '');
-      const parsed = parseCaptions(text);
+      const { captions: parsed, ...info } = parseCaptionFile(text, file.name);
       if (!parsed.length) {
         setError(
           '유효한 자막을 찾지 못했습니다. 올바른 형식인지 확인해주세요.'
         );
       } else {
-        setDrafts(
+        commitDrafts('자막 불러오기', () =>
           parsed.map((caption) => ({ ...caption, id: makeCaptionId() }))
         );
-        setMessage(`자막 ${parsed.length}개를 불러왔습니다.`);
+        setImportedFile(info);
+        if (info.format === 'vtt') setExportFormat('vtt');
+        setMessage(
+          `${info.format.toUpperCase()} 자막 ${parsed.length}개를 불러왔습니다.`
+        );
       }
     };
     reader.readAsText(file, 'utf-8');
     event.target.value = '';
   };
 
+  const handleTranscribe = async () => {
+    if (!mediaBlob) return;
+    setMessage(null);
+    setError(null);
+    const result = await transcription.start(mediaBlob);
+    if (!result) return;
+    if (result.length === 0) {
+      setError('인식된 음성이 없습니다.');
+      return;
+    }
+    // 기존 초안을 대체하지만 편집 기록으로 되돌릴 수 있다.
+    commitDrafts('자동 자막 생성', () => result);
+    setMessage(
+      `자동 자막 ${result.length}개를 만들었습니다. 확인 후 저장하세요.`
+    );
+  };
+
+  const handleAlign = async () => {
+    if (!mediaBlob) return;
+    const targets = draftsRef.current.filter((c) => c.text.trim());
+    if (targets.length === 0) return;
+    setMessage(null);
+    setError(null);
+    const result = await transcription.align(mediaBlob, targets);
+    if (!result) return;
+
+    // 정렬하는 동안 바뀐 자막은 건너뛴다.
+    const aligned = new Map(result.map((c) => [c.id, c]));
+    commitDrafts('단어 타이밍 정렬', (prev) =>
+      prev.map((caption) => {
+        const next = aligned.get(caption.id);
+        return next &&
+          next.text === caption.text &&
+          next.startMs === caption.startMs &&
+          next.endMs === caption.endMs
+          ? {
+              ...caption,
+              words: next.words,
+              alignmentConfidence: next.alignmentConfidence,
+            }
+          : caption;
+      })
+    );
+    const lowCount = result.filter(
+      (c) => (c.alignmentConfidence ?? 0) < 0.4
+    ).length;
+    setMessage(
+      lowCount > 0
+        ? `자막 ${result.length}개의 단어 타이밍을 맞췄습니다. 신뢰도가 낮은 ${lowCount}개는 단어 편집기에서 확인하세요.`
+        : `자막 ${result.length}개의 단어 타이밍을 맞췄습니다.`
+    );
+  };
+
   const handleExport = () => {
-    const safe = sanitizeCaptions(drafts, defaultDurationMs);
-    setDrafts(safe);
+    const sanitized = sanitizeCaptions(drafts, defaultDurationMs);
+    setDrafts(sanitized);
+    // 잘라낸 영상과 함께 쓰도록 지운 단어를 빼고 남은 자막을 출력 시간으로 옮긴다.
+    const safe =
+      applyCutsOnExport && cutRanges.length > 0
+        ? retimeCaptionsForCuts(
+            stripCutWords(sanitized, cutRanges, durationMs ?? 0),
+            cutRanges,
+            durationMs ?? 0
+          )
+        : sanitized;
     if (!safe.length) {
       setError('내보낼 자막이 없습니다.');
       return;
     }
-    const srt = toSrt(safe);
-    const blob = new Blob([srt], { type: 'text/plain;charset=utf-8' });
+    const vttOptions = {
+      styles: importedFile?.vttStyles,
+      notes: importedFile?.vttNotes,
+    };
+    let content: string;
+    switch (exportFormat) {
+      case 'vtt':
+        content = toVtt(safe, vttOptions);
+        break;
+      case 'vtt-words':
+        content = toVtt(safe, { ...vttOptions, wordTimestamps: true });
+        break;
+      case 'ass-karaoke':
+        content = captionsToAss(safe, { defaultStyle, karaoke: 'kf' });
+        break;
+      case 'json':
+        content = toWordTimelineJson(safe);
+        break;
+      default:
+        content = toSrt(safe);
+    }
+    const { extension, mime } = EXPORT_FORMATS[exportFormat];
+    const blob = new Blob([content], { type: `${mime};charset=utf-8` });
     const url = URL.createObjectURL(blob);
     const anchor = document.createElement('a');
     anchor.href = url;
-    anchor.download = `${videoTitle || 'captions'}.srt`;
+    anchor.download = `${videoTitle || 'captions'}.${extension}`;
     anchor.click();
     URL.revokeObjectURL(url);
   };
@@ -381,7 +648,7 @@ function CaptionsPanel({ videoId, videoTitle, currentTimeMs, onSeek }: Props) {
   };
 
   const handleReset = () => {
-    setDrafts(
+    commitDrafts('저장된 자막으로 되돌리기', () =>
       data && data.length
         ? data.map((caption) => ({ ...caption }))
         : [
@@ -397,19 +664,98 @@ function CaptionsPanel({ videoId, videoTitle, currentTimeMs, onSeek }: Props) {
     setError(null);
   };
 
-  const handleTextareaKeyDown = (
-    event: KeyboardEvent<HTMLTextAreaElement>,
-    captionId: string
-  ) => {
-    if (event.key !== 'Enter') return;
-    if (event.nativeEvent.isComposing) return;
-    if (event.shiftKey) return;
-    event.preventDefault();
-    updateField(captionId, 'text', event.currentTarget.value);
-    const newId = handleAdd(getPlaybackTimeMs());
-    setFocusTextareaId(newId);
+  // 기본 스타일과 다른 항목만 자막에 저장해 이후 기본값 변경이 나머지 항목에 반영되게 한다.
+  const handleCaptionStyleChange = (id: string, next: CaptionStyle) => {
+    commitDrafts(
+      '자막 스타일 변경',
+      (prev) =>
+        prev.map((caption) =>
+          caption.id === id
+            ? { ...caption, style: diffCaptionStyle(defaultStyle, next) }
+            : caption
+        ),
+      `style:${id}`
+    );
+  };
+
+  // 시간 입력칸과 자막 textarea는 data 속성으로 어느 자막의 어느 칸인지 알린다.
+  const timeFieldOf = (target: EventTarget | null) => {
+    if (!(target instanceof HTMLInputElement)) return null;
+    const { captionId, timeField } = target.dataset;
+    if (!captionId || (timeField !== 'start' && timeField !== 'end')) {
+      return null;
+    }
+    return { captionId, field: timeField } as const;
   };
 
+  const handleListKeyDown = useScopedShortcuts('captionList', {
+    'captions.nudgeLater': (event) => {
+      const target = timeFieldOf(event.target);
+      if (!target) return false;
+      nudgeTime(target.captionId, target.field, TIME_STEP_MS, event.altKey);
+    },
+    'captions.nudgeEarlier': (event) => {
+      const target = timeFieldOf(event.target);
+      if (!target) return false;
+      nudgeTime(target.captionId, target.field, -TIME_STEP_MS, event.altKey);
+    },
+    'captions.addAfter': (event) => {
+      const textarea = event.target;
+      if (!(textarea instanceof HTMLTextAreaElement)) return false;
+      const captionId = textarea.dataset.captionId;
+      if (!captionId) return false;
+      updateField(captionId, 'text', textarea.value);
+      const newId = handleAdd(getPlaybackTimeMs());
+      setFocusTextareaId(newId);
+    },
+  });
+
+  // 핸들러가 렌더마다 새로 만들어지므로 명령 목록도 렌더마다 다시 올린다.
+  useCommandPaletteCommands([
+    {
+      id: 'captions.add',
+      label: '자막 추가',
+      group: '자막',
+      keywords: ['caption', 'add'],
+      enabled: !isPending && !saving,
+      run: () => handleAdd(),
+    },
+    {
+      id: 'captions.import',
+      label: '자막 파일 불러오기',
+      group: '자막',
+      keywords: ['caption', 'import', 'srt', 'vtt'],
+      enabled: !isPending && !saving,
+      run: handleImportClick,
+    },
+    {
+      id: 'captions.export',
+      label: '자막 파일 내보내기',
+      group: '자막',
+      keywords: ['caption', 'export', 'srt', 'vtt'],
+      enabled: !isPending && !saving,
+      run: handleExport,
+    },
+    {
+      id: 'captions.transcribe',
+      label: '자동 자막 만들기',
+      group: '자막',
+      keywords: ['transcribe', 'speech'],
+      enabled: !saving && Boolean(mediaBlob) && !transcription.isBusy,
+      disabledReason: transcription.isBusy ? '인식 중' : undefined,
+      run: () => void handleTranscribe(),
+    },
+    {
+      id: 'captions.toggleWordEditor',
+      label: isWordEditorMode ? '기본 편집기로 전환' : '단어 편집기로 전환',
+      group: '자막',
+      keywords: ['word', 'editor'],
+      enabled: canUseWordEditor,
+      disabledReason: '자막을 저장한 뒤에 사용할 수 있습니다',
+      run: () => setIsWordEditorMode(!isWordEditorMode),
+    },
+  ]);
+
   if (isPending) {
     return <p className={styles.status}>자막을 불러오는 중...</p>;
   }
@@ -464,6 +810,29 @@ function CaptionsPanel({ videoId, videoTitle, currentTimeMs, onSeek }: Props) {
           >
             불러오기
           </button>
+          <button
+            className={styles.button}
+            type="button"
+            onClick={isTranscribing ? transcription.cancel : handleTranscribe}
+            disabled={saving || !mediaBlob || isAligning}
+            title="로컬 음성 인식 서버로 자막을 만듭니다."
+          >
+            {isTranscribing ? '인식 취소' : '자동 자막'}
+          </button>
+          <button
+            className={styles.button}
+            type="button"
+            onClick={isAligning ? transcription.cancel : handleAlign}
+            disabled={
+              saving ||
+              !mediaBlob ||
+              isTranscribing ||
+              !drafts.some((c) => c.text.trim())
+            }
+            title="자막 텍스트에 맞춰 단어별 타이밍을 오디오에서 찾습니다."
+          >
+            {isAligning ? '정렬 취소' : '타이밍 정렬'}
+          </button>
           <button
             className={styles.button}
             type="button"
@@ -489,6 +858,37 @@ function CaptionsPanel({ videoId, videoTitle, currentTimeMs, onSeek }: Props) {
             되돌리기
           </button>
         </div>
+        <label className={styles.durationControl}>
+          <span>내보내기 형식</span>
+          <select
+            className={styles.formatSelect}
+            value={exportFormat}
+            onChange={(event) =>
+              setExportFormat(event.target.value as CaptionExportFormat)
+            }
+          >
+            {(Object.keys(EXPORT_FORMATS) as CaptionExportFormat[]).map(
+              (format) => (
+                <option key={format} value={format}>
+                  {EXPORT_FORMATS[format].label}
+                </option>
+              )
+            )}
+          </select>
+        </label>
+        {cutRanges.length > 0 && (
+          <label
+            className={styles.exportOption}
+            title="지운 단어를 빼고 잘라낸 영상의 시간에 맞춰 내보냅니다."
+          >
+            <input
+              type="checkbox"
+              checked={applyCutsOnExport}
+              onChange={(event) => setApplyCutsOnExport(event.target.checked)}
+            />
+            제거 구간 반영
+          </label>
+        )}
         <label className={styles.durationControl}>
           <span>기본 자막 길이(초)</span>
           <div className={styles.durationInputGroup}>
@@ -529,14 +929,32 @@ function CaptionsPanel({ videoId, videoTitle, currentTimeMs, onSeek }: Props) {
         <input
           ref={fileInputRef}
           type="file"
-          accept=".srt,.vtt,.txt"
+          accept=".srt,.vtt,.ass,.ssa,.txt"
           onChange={handleFileChange}
           style={{ display: 'none' }}
         />
       </div>
 
+      <button
+        className={styles.linkButton}
+        type="button"
+        onClick={() => setIsDefaultStyleOpen((prev) => !prev)}
+        aria-expanded={isDefaultStyleOpen}
+      >
+        {isDefaultStyleOpen ? '기본 자막 스타일 닫기' : '기본 자막 스타일 편집'}
+      </button>
+      {isDefaultStyleOpen && (
+        <CaptionStyleEditor
+          legend="기본 자막 스타일"
+          value={defaultStyle}
+          onChange={saveDefaultStyle}
+        />
+      )}
+
       <p className={styles.hint}>
         시간은 HH:MM:SS,mmm 또는 HH:MM:SS.mmm 형식을 지원합니다.
+        {isValidFrameRate(frameRate) &&
+          ' 프레임 단위 타임코드(HH:MM:SS:FF)도 입력할 수 있습니다.'}
       </p>
 
       {isWordEditorMode && canUseWordEditor ? (
@@ -548,9 +966,12 @@ function CaptionsPanel({ videoId, videoTitle, currentTimeMs, onSeek }: Props) {
           onMergeCaption={onMergeCaption}
           onDeleteCaption={handleDelete}
           onSeek={onSeek}
+          cutRanges={cutRanges}
+          onToggleCut={onToggleCut}
+          snap={snap}
         />
       ) : (
-        <div className={styles.list}>
+        <div className={styles.list} onKeyDown={handleListKeyDown}>
           {drafts.map((caption) => {
             const isActive =
               currentTimeMs >= caption.startMs && currentTimeMs < caption.endMs;
@@ -561,7 +982,10 @@ function CaptionsPanel({ videoId, videoTitle, currentTimeMs, onSeek }: Props) {
               >
                 <input
                   key={`${caption.id}-start`}
-                  className={styles.input}
+                  className={`${styles.input} ${
+                    isSnapped(caption.id, 'start') ? styles.inputSnapped : ''
+                  }`}
+                  title={snappedTitle(caption.id, 'start')}
                   type="text"
                   value={
                     inputValues.get(caption.id)?.start ??
@@ -572,14 +996,18 @@ function CaptionsPanel({ videoId, videoTitle, currentTimeMs, onSeek }: Props) {
                     handleTimeChange(caption.id, 'start', e.target.value)
                   }
                   onBlur={() => handleTimeBlur(caption.id, 'start')}
-                  onKeyDown={(e) => handleTimeKeyDown(e, caption.id, 'start')}
+                  data-caption-id={caption.id}
+                  data-time-field="start"
                   onDoubleClick={() =>
                     handleTimeDoubleClick(caption.id, 'start')
                   }
                 />
                 <input
                   key={`${caption.id}-end`}
-                  className={styles.input}
+                  className={`${styles.input} ${
+                    isSnapped(caption.id, 'end') ? styles.inputSnapped : ''
+                  }`}
+                  title={snappedTitle(caption.id, 'end')}
                   type="text"
                   value={
                     inputValues.get(caption.id)?.end ??
@@ -590,7 +1018,8 @@ function CaptionsPanel({ videoId, videoTitle, currentTimeMs, onSeek }: Props) {
                     handleTimeChange(caption.id, 'end', e.target.value)
                   }
                   onBlur={() => handleTimeBlur(caption.id, 'end')}
-                  onKeyDown={(e) => handleTimeKeyDown(e, caption.id, 'end')}
+                  data-caption-id={caption.id}
+                  data-time-field="end"
                   onDoubleClick={() => handleTimeDoubleClick(caption.id, 'end')}
                 />
                 <button
@@ -610,14 +1039,68 @@ function CaptionsPanel({ videoId, videoTitle, currentTimeMs, onSeek }: Props) {
                   onChange={(e) =>
                     updateField(caption.id, 'text', e.target.value)
                   }
-                  onKeyDown={(e) => handleTextareaKeyDown(e, caption.id)}
                 />
+                <button
+                  className={styles.linkButton}
+                  type="button"
+                  onClick={() =>
+                    setStyleEditingId((prev) =>
+                      prev === caption.id ? null : caption.id
+                    )
+                  }
+                  aria-expanded={styleEditingId === caption.id}
+                >
+                  {caption.style ? '개별 스타일 적용됨' : '개별 스타일'}
+                </button>
+                {styleEditingId === caption.id && (
+                  <div className={styles.styleEditor}>
+                    <CaptionStyleEditor
+                      legend="이 자막 스타일"
+                      value={resolveCaptionStyle(defaultStyle, caption.style)}
+                      onChange={(next) =>
+                        handleCaptionStyleChange(caption.id, next)
+                      }
+                      actions={
+                        caption.style && (
+                          <button
+                            className={styles.linkButton}
+                            type="button"
+                            onClick={() =>
+                              handleCaptionStyleChange(caption.id, defaultStyle)
+                            }
+                          >
+                            기본값으로
+                          </button>
+                        )
+                      }
+                    />
+                  </div>
+                )}
               </div>
             );
           })}
         </div>
       )}
 
+      {transcription.isBusy && (
+        <div className={styles.status}>
+          {transcription.state.status === 'decoding'
+            ? '오디오 준비 중...'
+            : `${isAligning ? '단어 타이밍 정렬 중' : '음성 인식 중'}... ${Math.round(transcription.state.progress * 100)}%`}
+          <progress
+            className={styles.progress}
+            max={1}
+            value={
+              transcription.state.status === 'decoding'
+                ? undefined
+                : transcription.state.progress
+            }
+          />
+        </div>
+      )}
+      {transcription.state.status === 'error' && (
+        <p className={styles.error}>{transcription.state.error}</p>
+      )}
       {message && <p className={styles.status}>{message}</p>}
       {error && <p className={styles.error}>{error}</p>}
     </div>
@@ -1,16 +1,47 @@
+import type { CSSProperties } from 'react';
 import { useMemo } from 'react';
 
-import type { Caption } from '@/data/types';
+import type { Caption, CaptionStyle } from '@/data/types';
+import {
+  CAPTION_BOX_PADDING,
+  CAPTION_STYLE_REFERENCE_HEIGHT,
+  DEFAULT_CAPTION_STYLE,
+  hexToRgba,
+  resolveCaptionStyle,
+} from './captionStyle';
 import { findActiveCaptionAndWord } from './wordHighlight';
 import styles from './SubtitleOverlay.module.css';
 
 type Props = {
   captions: Caption[];
   currentTimeMs: number;
+  defaultStyle?: CaptionStyle;
   onWordClick?: (timeMs: number) => void;
 };
 
-function SubtitleOverlay({ captions, currentTimeMs, onWordClick }: Props) {
+const JUSTIFY: Record<CaptionStyle['verticalPosition'], string> = {
+  top: 'flex-start',
+  middle: 'center',
+  bottom: 'flex-end',
+};
+
+const ALIGN: Record<CaptionStyle['alignment'], string> = {
+  left: 'flex-start',
+  center: 'center',
+  right: 'flex-end',
+};
+
+// 스타일 수치는 720px 기준이므로 플레이어 높이에 비례하도록 환산한다.
+function scaled(value: number): string {
+  return `calc(${value} * 100cqh / ${CAPTION_STYLE_REFERENCE_HEIGHT})`;
+}
+
+function SubtitleOverlay({
+  captions,
+  currentTimeMs,
+  defaultStyle = DEFAULT_CAPTION_STYLE,
+  onWordClick,
+}: Props) {
   const active = useMemo(
     () => findActiveCaptionAndWord(captions, currentTimeMs),
     [captions, currentTimeMs]
@@ -18,28 +49,62 @@ function SubtitleOverlay({ captions, currentTimeMs, onWordClick }: Props) {
 
   if (!active) return null;
 
-  const { words, activeWordIndex } = active;
+  const { caption, words, activeWordIndex } = active;
+  const style = resolveCaptionStyle(defaultStyle, caption.style);
+
+  const frameStyle: CSSProperties = {
+    justifyContent: JUSTIFY[style.verticalPosition],
+    alignItems: ALIGN[style.alignment],
+    padding: `${scaled(style.marginV)} ${scaled(style.marginH)}`,
+  };
+
+  // 배경 상자를 켜면 ASS BorderStyle 3처럼 외곽선 대신 상자만 그린다.
+  const boxStyle: CSSProperties = {
+    fontFamily: `'${style.fontFamily}', sans-serif`,
+    fontSize: scaled(style.fontSize),
+    fontWeight: style.bold ? 700 : 400,
+    color: style.color,
+    textAlign: style.alignment,
+    ...(style.backgroundEnabled
+      ? {
+          background: hexToRgba(style.backgroundColor, style.backgroundOpacity),
+          padding: scaled(CAPTION_BOX_PADDING),
+        }
+      : style.outlineWidth > 0
+        ? {
+            WebkitTextStroke: `${scaled(style.outlineWidth * 2)} ${style.outlineColor}`,
+            paintOrder: 'stroke fill',
+          }
+        : {}),
+  };
 
   return (
     <div className={styles.overlay} aria-live="polite">
-      <div className={styles.captionBox}>
-        {words.map((word, index) => (
-          <span
-            key={`${word.startMs}-${index}`}
-            className={`${styles.word} ${index === activeWordIndex ? styles.activeWord : ''}`}
-            onClick={() => onWordClick?.(word.startMs)}
-            onKeyDown={(e) => {
-              if (e.key === 'Enter' || e.key === ' ') {
-                e.preventDefault();
-                onWordClick?.(word.startMs);
+      <div className={styles.frame} style={frameStyle}>
+        <div className={styles.captionBox} style={boxStyle}>
+          {words.map((word, index) => (
+            <span
+              key={`${word.startMs}-${index}`}
+              className={`${styles.word} ${index === activeWordIndex ? styles.activeWord : ''}`}
+              style={
+                index === activeWordIndex
+                  ? { color: style.highlightColor }
+                  : undefined
               }
-            }}
-            role="button"
-            tabIndex={0}
-          >
-            {word.text}
-          </span>
-        ))}
+              onClick={() => onWordClick?.(word.startMs)}
+              onKeyDown={(e) => {
+                if (e.key === 'Enter' || e.key === ' ') {
+                  e.preventDefault();
+                  onWordClick?.(word.startMs);
+                }
+              }}
+              role="button"
+              tabIndex={0}
+            >
+              {word.text}
+            </span>
+          ))}
+        </div>
       </div>
     </div>
   );
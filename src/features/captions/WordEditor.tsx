@@ -1,6 +1,20 @@
 import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
 
 import type { Caption, CaptionWord } from '@/data/types';
+import {
+  isRangeCut,
+  normalizeCutRanges,
+  wordCutRange,
+} from '@/features/export/cutRanges';
+import type { CutRange } from '@/features/export/ffmpegTypes';
+import {
+  SNAP_KIND_LABELS,
+  SNAP_THRESHOLD_PX,
+  wordEdgeId,
+  type SnapTargetKind,
+  type Snapper,
+} from '@/features/snapping';
+import { useScopedShortcuts } from '@/features/shortcuts';
 import { computeFallbackWordTimings } from './wordHighlight';
 import styles from './WordEditor.module.css';
 
@@ -16,6 +30,12 @@ type Props = {
   onMergeCaption?: (captionId: string, direction: 'up' | 'down') => void;
   onDeleteCaption?: (captionId: string) => void;
   onSeek?: (timeMs: number) => void;
+  /** 제거(컷) 구간. 덮인 단어와 자막은 취소선으로 표시한다. */
+  cutRanges?: CutRange[];
+  /** 있으면 컷 편집 모드를 켤 수 있다. 단어/자막 구간을 자르거나 되살린다. */
+  onToggleCut?: (range: CutRange, target: 'word' | 'caption') => void;
+  /** 있으면 단어 경계를 끌 때 가까운 스냅 대상에 붙인다. Alt로 끈다. */
+  snap?: Snapper | null;
   className?: string;
 };
 
@@ -23,6 +43,12 @@ function getCaptionWords(caption: Caption): CaptionWord[] {
   return computeFallbackWordTimings(caption);
 }
 
+function confidenceClassName(confidence: number): string {
+  if (confidence < 0.4) return styles.confidenceLow;
+  if (confidence < 0.7) return styles.confidenceMid;
+  return styles.confidenceHigh;
+}
+
 function WordEditor({
   captions,
   currentTimeMs,
@@ -31,6 +57,9 @@ function WordEditor({
   onMergeCaption,
   onDeleteCaption,
   onSeek,
+  cutRanges,
+  onToggleCut,
+  snap,
   className,
 }: Props) {
   const [selectedCaptionId, setSelectedCaptionId] = useState<string | null>(
@@ -45,6 +74,17 @@ function WordEditor({
   } | null>(null);
   const [editText, setEditText] = useState('');
   const [dragging, setDragging] = useState(false);
+  const [isCutMode, setIsCutMode] = useState(false);
+  const [snapIndicator, setSnapIndicator] = useState<{
+    captionId: string;
+    ms: number;
+    kind: SnapTargetKind;
+  } | null>(null);
+  const canCut = Boolean(onToggleCut);
+  const cuts = useMemo(
+    () => normalizeCutRanges(cutRanges ?? [], 0),
+    [cutRanges]
+  );
 
   const editInputRef = useRef<HTMLInputElement>(null);
   const timelineRef = useRef<HTMLDivElement | null>(null);
@@ -78,17 +118,43 @@ function WordEditor({
     }
   }, [editingWord]);
 
+  const toggleWordCut = useCallback(
+    (caption: Caption, wordIndex: number) => {
+      const words = getCaptionWords(caption);
+      if (!words[wordIndex]) return;
+      onToggleCut?.(wordCutRange(caption, words, wordIndex), 'word');
+    },
+    [onToggleCut]
+  );
+
+  const toggleCaptionCut = useCallback(
+    (caption: Caption) => {
+      onToggleCut?.(
+        { startMs: caption.startMs, endMs: caption.endMs },
+        'caption'
+      );
+    },
+    [onToggleCut]
+  );
+
   const handleWordClick = useCallback(
     (captionId: string, wordIndex: number, word: CaptionWord) => {
       if (dragging) return;
       setSelectedCaptionId(captionId);
       setSelectedWordIndex(wordIndex);
 
+      // 컷 편집 중에는 잘린 구간으로 이동하지 않고 단어를 자르거나 되살린다.
+      if (isCutMode && canCut) {
+        const caption = captions.find((c) => c.id === captionId);
+        if (caption) toggleWordCut(caption, wordIndex);
+        return;
+      }
+
       if (onSeek) {
         onSeek(word.startMs);
       }
     },
-    [onSeek, dragging]
+    [onSeek, dragging, isCutMode, canCut, captions, toggleWordCut]
   );
 
   const handleWordDoubleClick = useCallback(
@@ -153,96 +219,63 @@ function WordEditor({
     [onMergeCaption]
   );
 
-  const handleKeyDown = useCallback(
-    (e: React.KeyboardEvent) => {
-      if (editingWord) return;
+  // 단어를 고치는 중이거나 고른 자막이 없으면 단축키를 처리하지 않는다.
+  const getSelection = () => {
+    if (editingWord) return null;
+    const caption = captions.find((c) => c.id === effectiveSelectedCaptionId);
+    if (!caption) return null;
+    return {
+      caption,
+      words: getCaptionWords(caption),
+      currentIndex: selectedWordIndex ?? -1,
+    };
+  };
 
-      const caption = captions.find((c) => c.id === effectiveSelectedCaptionId);
-      if (!caption) return;
+  const selectWord = (delta: number) => {
+    const selection = getSelection();
+    if (!selection) return false;
+    const { words, currentIndex } = selection;
+    const newIndex = currentIndex + delta;
+    if (newIndex < 0 || newIndex >= words.length) return;
+    setSelectedWordIndex(newIndex);
+    onSeek?.(words[newIndex].startMs);
+  };
 
-      const words = getCaptionWords(caption);
-      const currentIndex = selectedWordIndex ?? -1;
-
-      switch (e.key) {
-        case 'ArrowLeft':
-          e.preventDefault();
-          if (currentIndex > 0) {
-            const newIndex = currentIndex - 1;
-            setSelectedWordIndex(newIndex);
-            if (onSeek) {
-              onSeek(words[newIndex].startMs);
-            }
-          }
-          break;
-        case 'ArrowRight':
-          e.preventDefault();
-          if (currentIndex < words.length - 1) {
-            const newIndex = currentIndex + 1;
-            setSelectedWordIndex(newIndex);
-            if (onSeek) {
-              onSeek(words[newIndex].startMs);
-            }
-          }
-          break;
-        case 'ArrowUp':
-          e.preventDefault();
-          {
-            const currentCaptionIdx = captions.findIndex(
-              (c) => c.id === effectiveSelectedCaptionId
-            );
-            if (currentCaptionIdx > 0) {
-              const prevCaption = captions[currentCaptionIdx - 1];
-              setSelectedCaptionId(prevCaption.id);
-              setSelectedWordIndex(0);
-              if (onSeek) {
-                onSeek(prevCaption.startMs);
-              }
-            }
-          }
-          break;
-        case 'ArrowDown':
-          e.preventDefault();
-          {
-            const currentCaptionIdx = captions.findIndex(
-              (c) => c.id === effectiveSelectedCaptionId
-            );
-            if (currentCaptionIdx < captions.length - 1) {
-              const nextCaption = captions[currentCaptionIdx + 1];
-              setSelectedCaptionId(nextCaption.id);
-              setSelectedWordIndex(0);
-              if (onSeek) {
-                onSeek(nextCaption.startMs);
-              }
-            }
-          }
-          break;
-        case 'Enter':
-          e.preventDefault();
-          if (
-            currentIndex >= 0 &&
-            currentIndex < words.length &&
-            effectiveSelectedCaptionId
-          ) {
-            handleWordDoubleClick(
-              effectiveSelectedCaptionId,
-              currentIndex,
-              words[currentIndex]
-            );
-          }
-          break;
-        default:
-          break;
+  const selectCaption = (delta: number) => {
+    const selection = getSelection();
+    if (!selection) return false;
+    const index = captions.findIndex((c) => c.id === selection.caption.id);
+    const next = captions[index + delta];
+    if (!next) return;
+    setSelectedCaptionId(next.id);
+    setSelectedWordIndex(0);
+    onSeek?.(next.startMs);
+  };
+
+  const handleKeyDown = useScopedShortcuts('wordEditor', {
+    'wordEditor.prevWord': () => selectWord(-1),
+    'wordEditor.nextWord': () => selectWord(1),
+    'wordEditor.prevCaption': () => selectCaption(-1),
+    'wordEditor.nextCaption': () => selectCaption(1),
+    'wordEditor.toggleCut': () => {
+      const selection = getSelection();
+      if (!selection || !isCutMode || !canCut) return false;
+      const { caption, words, currentIndex } = selection;
+      if (currentIndex >= 0 && currentIndex < words.length) {
+        toggleWordCut(caption, currentIndex);
+      } else {
+        toggleCaptionCut(caption);
       }
     },
-    [
-      editingWord,
-      captions,
-      effectiveSelectedCaptionId,
-      selectedWordIndex,
-      onSeek,
-      handleWordDoubleClick,
-    ]
-  );
+    'wordEditor.editWord': () => {
+      const selection = getSelection();
+      if (!selection) return false;
+      const { caption, words, currentIndex } = selection;
+      if (currentIndex >= 0 && currentIndex < words.length) {
+        handleWordDoubleClick(caption.id, currentIndex, words[currentIndex]);
+      }
+    },
+  });
 
   const formatTime = (ms: number) => {
     const s = Math.floor(ms / 1000);
@@ -273,26 +306,68 @@ function WordEditor({
       <div className={styles.header}>
         <h4 className={styles.title}>단어 편집</h4>
         <p className={styles.keyboardHint}>
-          방향키: 이동 | Enter: 편집 | 클릭: 해당 위치로 이동
+          {isCutMode && canCut
+            ? '방향키: 이동 | 클릭·Delete: 잘라내기/되살리기'
+            : '방향키: 이동 | Enter: 편집 | 클릭: 해당 위치로 이동'}
         </p>
+        {canCut && (
+          <div className={styles.actions}>
+            <button
+              type="button"
+              className={`${styles.button} ${isCutMode ? styles.buttonActive : ''}`}
+              onClick={() => setIsCutMode((prev) => !prev)}
+              aria-pressed={isCutMode}
+              title="단어나 자막을 지워 해당 구간을 영상에서 잘라냅니다."
+            >
+              {isCutMode ? '컷 편집 끝내기' : '컷 편집'}
+            </button>
+          </div>
+        )}
       </div>
 
       {captions.map((caption) => {
         const words = getCaptionWords(caption);
         const isActive = caption.id === activeCaptionId;
         const isSelected = caption.id === effectiveSelectedCaptionId;
+        const isCaptionCut = isRangeCut(caption, cuts);
 
         return (
           <div
             key={caption.id}
-            className={`${styles.captionRow} ${isActive ? styles.captionRowActive : ''}`}
+            className={`${styles.captionRow} ${isActive ? styles.captionRowActive : ''} ${isCaptionCut ? styles.captionRowCut : ''}`}
             onClick={() => setSelectedCaptionId(caption.id)}
           >
             <div className={styles.captionHeader}>
               <span className={styles.captionTime}>
                 {formatTime(caption.startMs)} → {formatTime(caption.endMs)}
               </span>
+              {caption.alignmentConfidence !== undefined && (
+                <span
+                  className={`${styles.confidence} ${confidenceClassName(caption.alignmentConfidence)}`}
+                  title="단어 타이밍 자동 정렬 신뢰도"
+                >
+                  정렬 {Math.round(caption.alignmentConfidence * 100)}%
+                </span>
+              )}
               <div className={styles.captionActions}>
+                {isCutMode && canCut && (
+                  <button
+                    type="button"
+                    className={`${styles.iconButton} ${isCaptionCut ? '' : styles.iconButtonDanger}`}
+                    onClick={(e) => {
+                      e.stopPropagation();
+                      toggleCaptionCut(caption);
+                    }}
+                    title={
+                      isCaptionCut
+                        ? '자막 구간 되살리기'
+                        : '자막 구간 전체 잘라내기'
+                    }
+                  >
+                    {isCaptionCut ? '↺' : '⊘'}
+                  </button>
+                )}
+
                 {onMergeCaption && (
                   <>
                     <button
@@ -370,6 +445,7 @@ function WordEditor({
                   editingWord?.index === idx;
                 const isWordActive =
                   currentTimeMs >= word.startMs && currentTimeMs < word.endMs;
+                const isWordCut = isCaptionCut || isRangeCut(word, cuts);
 
                 if (isEditing) {
                   return (
@@ -394,15 +470,17 @@ function WordEditor({
                   <button
                     key={`${caption.id}-word-${idx}`}
                     type="button"
-                    className={`${styles.word} ${isWordActive ? styles.wordActive : ''} ${isWordSelected ? styles.wordSelected : ''}`}
+                    className={`${styles.word} ${isWordActive ? styles.wordActive : ''} ${isWordSelected ? styles.wordSelected : ''} ${isWordCut ? styles.wordCut : ''}`}
                     onClick={(e) => {
                       e.stopPropagation();
                       handleWordClick(caption.id, idx, word);
                     }}
                     onDoubleClick={(e) => {
                       e.stopPropagation();
+                      if (isCutMode) return;
                       handleWordDoubleClick(caption.id, idx, word);
                     }}
+                    aria-pressed={isCutMode ? isWordCut : undefined}
                     title={`${formatTime(word.startMs)} - ${formatTime(word.endMs)}`}
                   >
                     {word.text}
@@ -444,11 +522,36 @@ function WordEditor({
                         d.rect.right
                       );
                       const pct = (x - d.rect.left) / d.rect.width;
-                      const time = Math.round(
+                      let time = Math.round(
                         d.captionStartMs +
                           pct * (d.captionEndMs - d.captionStartMs)
                       );
 
+                      if (snap && !moveEvent.altKey) {
+                        const result = snap(time, {
+                          thresholdMs:
+                            (SNAP_THRESHOLD_PX / d.rect.width) *
+                            (d.captionEndMs - d.captionStartMs),
+                          // 끌고 있는 경계 자신에는 붙지 않는다.
+                          excludeIds: [
+                            wordEdgeId(d.captionId, idx, 'end'),
+                            wordEdgeId(d.captionId, idx + 1, 'start'),
+                          ],
+                        });
+                        time = result.ms;
+                        setSnapIndicator(
+                          result.target
+                            ? {
+                                captionId: d.captionId,
+                                ms: result.ms,
+                                kind: result.target.kind,
+                              }
+                            : null
+                        );
+                      } else {
+                        setSnapIndicator(null);
+                      }
+
                       const wordsCopy = d.initialWords.map((w) => ({ ...w }));
 
                       const leftMin =
@@ -469,12 +572,18 @@ function WordEditor({
                       if (wordsCopy[idx + 1])
                         wordsCopy[idx + 1].startMs = clamped;
 
-                      onUpdateCaption({ ...caption, words: wordsCopy });
+                      // 직접 고친 타이밍에는 자동 정렬 신뢰도가 더 이상 의미가 없다.
+                      onUpdateCaption({
+                        ...caption,
+                        words: wordsCopy,
+                        alignmentConfidence: undefined,
+                      });
                     };
 
                     const onUp = () => {
                       draggingRef.current = null;
                       setDragging(false);
+                      setSnapIndicator(null);
                       window.removeEventListener('mousemove', onMove);
                       window.removeEventListener('mouseup', onUp);
                     };
@@ -510,6 +619,21 @@ function WordEditor({
                     </div>
                   );
                 })}
+                {snapIndicator?.captionId === caption.id &&
+                  caption.endMs > caption.startMs && (
+                    <div
+                      data-testid="snap-indicator"
+                      className={styles.snapIndicator}
+                      style={{
+                        left: `${
+                          ((snapIndicator.ms - caption.startMs) /
+                            (caption.endMs - caption.startMs)) *
+                          100
+                        }%`,
+                      }}
+                      title={SNAP_KIND_LABELS[snapIndicator.kind]}
+                    />
+                  )}
               </div>
             )}
           </div>
@@ -0,0 +1,128 @@
+import type { CaptionWord } from '@/data/types';
+import { parseTimecode } from './time';
+import type { ParsedCue } from './vttFormat';
+
+const KARAOKE_RE = /\\(?:kf|ko|k|K)(\d+)/;
+
+/** 오버라이드 블록을 지우고 ASS 줄바꿈/공백 이스케이프를 일반 문자로 바꾼다. */
+function plainText(value: string): string {
+  return value
+    .replace(/\{[^}]*\}/g, '')
+    .replace(/\\[Nn]/g, '\n')
+    .replace(/\\h/g, ' ')
+    .replace(/\\([{}])/g, '$1');
+}
+
+/**
+ * `{\k20}` 계열 태그(센티초)로 단어 타이밍을 만든다.
+ * 공백 없이 이어진 음절(`{\k20}Hel{\k30}lo`)은 한 단어로 합치고,
+ * 공백만 있는 음절은 시간만 소비한다.
+ */
+function parseKaraoke(
+  text: string,
+  startMs: number,
+  endMs: number
+): CaptionWord[] | undefined {
+  if (!KARAOKE_RE.test(text)) return undefined;
+
+  const words: CaptionWord[] = [];
+  let current: CaptionWord | null = null;
+  let cursor = startMs;
+  let durationMs = 0;
+
+  for (const part of text.split(/(\{[^}]*\})/)) {
+    if (part.startsWith('{') && part.endsWith('}')) {
+      const k = KARAOKE_RE.exec(part);
+      if (k) durationMs = Number(k[1]) * 10;
+      continue;
+    }
+
+    const raw = plainText(part);
+    const syllableEnd = Math.min(cursor + durationMs, endMs);
+    durationMs = 0;
+
+    for (const [i, token] of raw.split(/(\s+)/).entries()) {
+      if (!token) continue;
+      if (/^\s+$/.test(token)) {
+        current = null;
+        continue;
+      }
+      if (current && i === 0) {
+        current.text += token;
+        current.endMs = syllableEnd;
+      } else {
+        current = { text: token, startMs: cursor, endMs: syllableEnd };
+        words.push(current);
+      }
+    }
+    cursor = syllableEnd;
+  }
+
+  return words.length > 0 ? words : undefined;
+}
+
+/**
+ * ASS/SSA의 `[Events]` 섹션에서 Dialogue 줄을 읽는다.
+ * 필드 순서는 Format 줄을 따르고, 마지막 Text 필드는 쉼표를 포함할 수 있다.
+ */
+export function parseAss(text: string): ParsedCue[] {
+  const lines = text
+    .replace(/^\uFEFF/, '')
+    .replace(/\r\n?/g, '\n')
+    .split('\n');
+
+  let inEvents = false;
+  let format = [
+    'layer',
+    'start',
+    'end',
+    'style',
+    'name',
+    'marginl',
+    'marginr',
+    'marginv',
+    'effect',
+    'text',
+  ];
+  const cues: ParsedCue[] = [];
+
+  for (const rawLine of lines) {
+    const line = rawLine.trim();
+    if (/^\[.*\]$/.test(line)) {
+      inEvents = line.toLowerCase() === '[events]';
+      continue;
+    }
+    if (!inEvents) continue;
+
+    const sep = line.indexOf(':');
+    if (sep < 0) continue;
+    const key = line.slice(0, sep).trim().toLowerCase();
+    const value = line.slice(sep + 1).trimStart();
+
+    if (key === 'format') {
+      format = value.split(',').map((f) => f.trim().toLowerCase());
+      continue;
+    }
+    if (key !== 'dialogue') continue;
+
+    const fields = value.split(',');
+    const textIndex = format.indexOf('text');
+    const head = fields.slice(0, textIndex);
+    const body = fields.slice(textIndex).join(',');
+    const field = (name: string) => head[format.indexOf(name)]?.trim() ?? '';
+
+    const startMs = parseTimecode(field('start'));
+    const endMs = parseTimecode(field('end'));
+    if (startMs === null || endMs === null || endMs <= startMs) continue;
+
+    const cueText = plainText(body)
+      .replace(/[ \t]+/g, ' ')
+      .trim();
+    if (!cueText) continue;
+    const words = parseKaraoke(body, startMs, endMs);
+
+    cues.push({ startMs, endMs, text: cueText, ...(words ? { words } : {}) });
+  }
+
+  return cues;
+}
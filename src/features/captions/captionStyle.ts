@@ -0,0 +1,92 @@
+import type { CaptionStyle, CaptionStyleOverride } from '@/data/types';
+
+/** 스타일 수치(크기/여백/두께)의 기준 높이. ASS PlayResY와 같다. */
+export const CAPTION_STYLE_REFERENCE_HEIGHT = 720;
+
+/** 배경 상자의 안쪽 여백 (기준 높이 픽셀). ASS BorderStyle 3의 Outline 값으로 쓰인다. */
+export const CAPTION_BOX_PADDING = 6;
+
+// public/fonts에 번들된 글꼴만 내보내기에서 그대로 렌더링된다.
+export const CAPTION_FONT_OPTIONS = ['DejaVu Sans'] as const;
+
+export const DEFAULT_CAPTION_STYLE: CaptionStyle = {
+  fontFamily: CAPTION_FONT_OPTIONS[0],
+  fontSize: 36,
+  bold: false,
+  color: '#ffffff',
+  highlightColor: '#ffd400',
+  outlineColor: '#000000',
+  outlineWidth: 2,
+  backgroundEnabled: false,
+  backgroundColor: '#000000',
+  backgroundOpacity: 0.6,
+  alignment: 'center',
+  verticalPosition: 'bottom',
+  marginV: 40,
+  marginH: 20,
+};
+
+const STYLE_KEYS = Object.keys(DEFAULT_CAPTION_STYLE) as (keyof CaptionStyle)[];
+
+/**
+ * 저장소에서 읽은 값처럼 일부 필드가 빠졌거나 타입이 다른 객체를
+ * 기본값으로 채운 완전한 스타일로 만든다.
+ */
+export function normalizeCaptionStyle(
+  value: Partial<CaptionStyle> | null | undefined
+): CaptionStyle {
+  const result: CaptionStyle = { ...DEFAULT_CAPTION_STYLE };
+  if (!value) return result;
+
+  for (const key of STYLE_KEYS) {
+    const next = value[key];
+    if (typeof next === typeof DEFAULT_CAPTION_STYLE[key]) {
+      (result as Record<keyof CaptionStyle, unknown>)[key] = next;
+    }
+  }
+  return result;
+}
+
+export function resolveCaptionStyle(
+  base: CaptionStyle,
+  override?: CaptionStyleOverride
+): CaptionStyle {
+  if (!override) return base;
+  return { ...base, ...override };
+}
+
+/**
+ * `style`에서 `base`와 다른 항목만 골라 자막별 오버라이드로 만든다.
+ * 다른 항목이 없으면 `undefined`를 반환한다.
+ */
+export function diffCaptionStyle(
+  base: CaptionStyle,
+  style: CaptionStyle
+): CaptionStyleOverride | undefined {
+  const override: CaptionStyleOverride = {};
+  for (const key of STYLE_KEYS) {
+    if (style[key] !== base[key]) {
+      (override as Record<keyof CaptionStyle, unknown>)[key] = style[key];
+    }
+  }
+  return Object.keys(override).length > 0 ? override : undefined;
+}
+
+export function hexToRgba(hex: string, opacity: number): string {
+  const value = hex.replace(/^#/, '');
+  const full =
+    value.length === 3
+      ? value
+          .split('')
+          .map((c) => c + c)
+          .join('')
+      : value;
+  const num = Number.parseInt(full, 16);
+  if (full.length !== 6 || Number.isNaN(num)) {
+    return `rgba(0, 0, 0, ${opacity})`;
+  }
+  const r = (num >> 16) & 0xff;
+  const g = (num >> 8) & 0xff;
+  const b = num & 0xff;
+  return `rgba(${r}, ${g}, ${b}, ${opacity})`;
+}
@@ -1,6 +1,20 @@
 import type { Caption, CaptionId } from '@/data/types';
 import { createCaptionId } from '@/data/types';
+import { parseAss } from './assFormat';
 import { formatTimecode, parseTimecode } from './time';
+import { computeFallbackWordTimings } from './wordHighlight';
+import { parseVtt, type ParsedCue } from './vttFormat';
+
+export type CaptionFileFormat = 'srt' | 'vtt' | 'ass';
+
+export type ParsedCaptionFile = {
+  format: CaptionFileFormat;
+  captions: Caption[];
+  /** WebVTT `STYLE` 블록. VTT로 다시 내보낼 때 그대로 쓴다. */
+  vttStyles: string[];
+  /** WebVTT `NOTE` 블록 */
+  vttNotes: string[];
+};
 
 export function sortCaptions(captions: Caption[]): Caption[] {
   return [...captions].sort(
@@ -16,6 +30,60 @@ function makeId(index: number): CaptionId {
   return createCaptionId(`cap_${String(index).padStart(4, '0')}`);
 }
 
+function withIds(cues: ParsedCue[]): Caption[] {
+  return sortCaptions(cues as Caption[]).map((cue, i) => ({
+    ...cue,
+    id: makeId(i + 1),
+  }));
+}
+
+/**
+ * 내용으로 형식을 먼저 판단하고, 애매하면 파일 확장자를 참고한다.
+ */
+export function detectCaptionFormat(
+  text: string,
+  fileName?: string
+): CaptionFileFormat {
+  const head = text.replace(/^\uFEFF/, '').trimStart();
+  if (/^WEBVTT\b/.test(head)) return 'vtt';
+  if (/^\[Script Info\]/im.test(head) || /^Dialogue:/m.test(head)) {
+    return 'ass';
+  }
+
+  const ext = fileName?.split('.').pop()?.toLowerCase();
+  if (ext === 'vtt') return 'vtt';
+  if (ext === 'ass' || ext === 'ssa') return 'ass';
+  return 'srt';
+}
+
+export function parseCaptionFile(
+  text: string,
+  fileName?: string
+): ParsedCaptionFile {
+  const format = detectCaptionFormat(text, fileName);
+
+  if (format === 'vtt') {
+    const doc = parseVtt(text);
+    return {
+      format,
+      captions: withIds(doc.cues),
+      vttStyles: doc.styles,
+      vttNotes: doc.notes,
+    };
+  }
+
+  if (format === 'ass') {
+    return {
+      format,
+      captions: withIds(parseAss(text)),
+      vttStyles: [],
+      vttNotes: [],
+    };
+  }
+
+  return { format, captions: parseCaptions(text), vttStyles: [], vttNotes: [] };
+}
+
 export function parseCaptions(text: string): Caption[] {
   const normalized = normalizeText(text);
   if (!normalized) return [];
@@ -74,14 +142,76 @@ export function toSrt(captions: Caption[]): string {
     .join('\n\n');
 }
 
-export function toVtt(captions: Caption[]): string {
-  const ordered = sortCaptions(captions);
-  const body = ordered
-    .map((caption) => {
-      const start = formatTimecode(caption.startMs, '.');
-      const end = formatTimecode(caption.endMs, '.');
-      return `${start} --> ${end}\n${caption.text || ''}`;
+export type VttExportOptions = {
+  styles?: string[];
+  notes?: string[];
+  /** 단어 시작 시각을 `<00:00:01.200>` 인라인 타임스탬프로 넣는다. */
+  wordTimestamps?: boolean;
+};
+
+function escapeVttText(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;');
+}
+
+function vttCueTextWithWords(caption: Caption): string {
+  const words = computeFallbackWordTimings(caption);
+  if (words.length === 0) return caption.text || '';
+
+  let lastMs = caption.startMs;
+  return words
+    .map((word) => {
+      const at = Math.round(
+        Math.min(Math.max(word.startMs, lastMs), caption.endMs)
+      );
+      const text = escapeVttText(word.text);
+      // 큐 시작과 같은 시각의 타임스탬프는 생략한다.
+      if (at <= caption.startMs) return text;
+      lastMs = at;
+      return `<${formatTimecode(at, '.')}>${text}`;
     })
-    .join('\n\n');
-  return `WEBVTT\n\n${body}`.trimEnd();
+    .join(' ');
+}
+
+export function toVtt(
+  captions: Caption[],
+  options: VttExportOptions = {}
+): string {
+  const ordered = sortCaptions(captions);
+  const header = [
+    ...(options.styles ?? []).map((style) => `STYLE\n${style}`),
+    ...(options.notes ?? []).map((note) => `NOTE\n${note}`),
+  ];
+  const body = ordered.map((caption) => {
+    const start = formatTimecode(caption.startMs, '.');
+    const end = formatTimecode(caption.endMs, '.');
+    const settings = caption.cueSettings ? ` ${caption.cueSettings}` : '';
+    const id = caption.cueId ? `${caption.cueId}\n` : '';
+    const text = options.wordTimestamps
+      ? vttCueTextWithWords(caption)
+      : caption.text || '';
+    return `${id}${start} --> ${end}${settings}\n${text}`;
+  });
+  return ['WEBVTT', ...header, ...body].join('\n\n').trimEnd();
+}
+
+/**
+ * 단어 단위 타임라인을 JSON으로 내보낸다. 단어 타이밍이 없는 자막은
+ * 미리보기와 같은 균등 분배 타이밍을 채워 넣는다.
+ */
+export function toWordTimelineJson(captions: Caption[]): string {
+  const timeline = sortCaptions(captions).map((caption) => ({
+    id: caption.id,
+    startMs: caption.startMs,
+    endMs: caption.endMs,
+    text: caption.text,
+    words: computeFallbackWordTimings(caption).map((word) => ({
+      text: word.text,
+      startMs: Math.round(word.startMs),
+      endMs: Math.round(word.endMs),
+    })),
+  }));
+  return JSON.stringify({ version: 1, captions: timeline }, null, 2);
 }
@@ -1,8 +1,10 @@
 import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { useCallback, useEffect, useRef } from 'react';
 
 import { appApi } from '@/data/createAppApi';
-import { captionsKey } from '@/data/queryKeys';
-import type { Caption, VideoId } from '@/data/types';
+import { captionStyleKey, captionsKey } from '@/data/queryKeys';
+import type { Caption, CaptionStyle, VideoId } from '@/data/types';
+import { normalizeCaptionStyle } from './captionStyle';
 import { sortCaptions } from './format';
 
 export function useCaptionsQuery(videoId: VideoId) {
@@ -23,3 +25,67 @@ export function useSaveCaptionsMutation(videoId: VideoId) {
     },
   });
 }
+
+export function useCaptionStyleQuery(videoId: VideoId) {
+  return useQuery<CaptionStyle, Error>({
+    queryKey: captionStyleKey(videoId),
+    queryFn: async () =>
+      appApi.getCaptionStyle(videoId).then(normalizeCaptionStyle),
+    enabled: Boolean(videoId),
+  });
+}
+
+type PendingCaptionStyle = { videoId: VideoId; style: CaptionStyle };
+
+/** 스타일 입력(슬라이더·색상)이 멈춘 뒤에 저장을 보낸다. */
+const CAPTION_STYLE_SAVE_DEBOUNCE_MS = 400;
+
+/**
+ * 기본 자막 스타일을 바꾼다. 미리보기가 바로 바뀌도록 캐시는 즉시 갱신하고,
+ * 서버 저장은 입력이 멈춘 뒤 마지막 값으로 한 번만 보낸다.
+ */
+export function useSaveCaptionStyle(videoId: VideoId) {
+  const queryClient = useQueryClient();
+  const timerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+  // 영상이 바뀐 뒤에 저장되더라도 편집한 영상에 쓰도록 id를 함께 들고 있는다.
+  const pendingRef = useRef<PendingCaptionStyle | null>(null);
+  const { mutate } = useMutation({
+    mutationKey: captionStyleKey(videoId),
+    mutationFn: ({ videoId, style }: PendingCaptionStyle) =>
+      appApi.saveCaptionStyle(videoId, style),
+    onSettled: (_data, _error, { videoId }) => {
+      // 뒤따르는 저장이 남아 있을 때 다시 읽으면 이전 값이 최신 편집을 덮어쓴다.
+      if (
+        pendingRef.current === null &&
+        queryClient.isMutating({ mutationKey: captionStyleKey(videoId) }) === 1
+      ) {
+        queryClient.invalidateQueries({ queryKey: captionStyleKey(videoId) });
+      }
+    },
+  });
+
+  const flush = useCallback(() => {
+    if (timerRef.current !== null) {
+      clearTimeout(timerRef.current);
+      timerRef.current = null;
+    }
+    const pending = pendingRef.current;
+    pendingRef.current = null;
+    if (pending) mutate(pending);
+  }, [mutate]);
+
+  // 패널이 닫히거나 영상이 바뀌어도 마지막 편집은 저장한다.
+  useEffect(() => flush, [flush]);
+
+  return useCallback(
+    (style: CaptionStyle) => {
+      // 진행 중인 조회가 늦게 끝나 방금 넣은 값을 덮어쓰지 않도록 먼저 취소한다.
+      void queryClient.cancelQueries({ queryKey: captionStyleKey(videoId) });
+      queryClient.setQueryData(captionStyleKey(videoId), style);
+      pendingRef.current = { videoId, style };
+      if (timerRef.current !== null) clearTimeout(timerRef.current);
+      timerRef.current = setTimeout(flush, CAPTION_STYLE_SAVE_DEBOUNCE_MS);
+    },
+    [queryClient, videoId, flush]
+  );
+}
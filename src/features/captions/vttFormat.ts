@@ -0,0 +1,137 @@
+import type { Caption, CaptionWord } from '@/data/types';
+import { parseTimecode } from './time';
+
+export type ParsedCue = Omit<Caption, 'id'>;
+
+export type VttDocument = {
+  cues: ParsedCue[];
+  /** `STYLE` 블록 본문 (CSS) */
+  styles: string[];
+  /** `NOTE` 블록 본문 */
+  notes: string[];
+};
+
+const TIMING_RE = /^(\S+)\s+-->\s+(\S+)(?:\s+(.*))?$/;
+const INLINE_TIMESTAMP_RE = /<((?:\d+:)?\d{1,2}:\d{2}\.\d{3})>/g;
+
+const ENTITIES: Record<string, string> = {
+  '&amp;': '&',
+  '&lt;': '<',
+  '&gt;': '>',
+  '&nbsp;': ' ',
+  '&lrm;': '\u200E',
+  '&rlm;': '\u200F',
+};
+
+function decodeEntities(value: string): string {
+  return value.replace(/&(?:amp|lt|gt|nbsp|lrm|rlm);/g, (m) => ENTITIES[m]);
+}
+
+/** `<c.yellow>`, `<v Bob>`, `<b>` 같은 태그를 걷어내고 엔티티를 풀어준다. */
+function stripCueTags(value: string): string {
+  return decodeEntities(value.replace(/<[^>]*>/g, ''));
+}
+
+function splitWords(
+  segment: string,
+  startMs: number,
+  endMs: number
+): CaptionWord[] {
+  const tokens = stripCueTags(segment).split(/\s+/).filter(Boolean);
+  if (tokens.length === 0 || endMs <= startMs) return [];
+  const step = (endMs - startMs) / tokens.length;
+  return tokens.map((text, i) => ({
+    text,
+    startMs: Math.round(startMs + step * i),
+    endMs: Math.round(startMs + step * (i + 1)),
+  }));
+}
+
+/**
+ * 큐 본문의 인라인 타임스탬프(`<00:00:01.200>`)를 단어 타이밍으로 바꾼다.
+ * 타임스탬프 하나가 다음 조각의 시작이며, 조각 안의 여러 단어는 균등 분배한다.
+ */
+function parseInlineTimestamps(
+  body: string,
+  cueStartMs: number,
+  cueEndMs: number
+): CaptionWord[] | undefined {
+  const marks = [...body.matchAll(INLINE_TIMESTAMP_RE)];
+  if (marks.length === 0) return undefined;
+
+  const segments: { text: string; startMs: number }[] = [];
+  let cursor = 0;
+  let segmentStart = cueStartMs;
+  for (const mark of marks) {
+    const at = parseTimecode(mark[1]);
+    if (at === null) continue;
+    segments.push({
+      text: body.slice(cursor, mark.index),
+      startMs: segmentStart,
+    });
+    cursor = (mark.index ?? 0) + mark[0].length;
+    segmentStart = Math.min(Math.max(at, segmentStart), cueEndMs);
+  }
+  segments.push({ text: body.slice(cursor), startMs: segmentStart });
+
+  const words = segments.flatMap((seg, i) => {
+    const end = segments[i + 1]?.startMs ?? cueEndMs;
+    return splitWords(seg.text, seg.startMs, end);
+  });
+  return words.length > 0 ? words : undefined;
+}
+
+export function parseVtt(text: string): VttDocument {
+  const normalized = text.replace(/^\uFEFF/, '').replace(/\r\n?/g, '\n');
+  const blocks = normalized
+    .split(/\n[ \t]*\n/)
+    .map((block) => block.replace(/^\n+|\s+$/g, ''))
+    .filter(Boolean);
+
+  const doc: VttDocument = { cues: [], styles: [], notes: [] };
+
+  blocks.forEach((block, index) => {
+    if (index === 0 && /^WEBVTT\b/.test(block)) return;
+
+    const lines = block.split('\n');
+    const head = lines[0];
+
+    if (/^NOTE(\s|$)/.test(head)) {
+      doc.notes.push(block.replace(/^NOTE[ \t]?\n?/, ''));
+      return;
+    }
+    if (/^STYLE\s*$/.test(head)) {
+      doc.styles.push(lines.slice(1).join('\n'));
+      return;
+    }
+    if (/^REGION\s*$/.test(head)) return;
+
+    let cueId: string | undefined;
+    if (!head.includes('-->')) {
+      cueId = head.trim();
+      lines.shift();
+    }
+
+    const timing = TIMING_RE.exec(lines.shift()?.trim() ?? '');
+    if (!timing) return;
+
+    const startMs = parseTimecode(timing[1]);
+    const endMs = parseTimecode(timing[2]);
+    if (startMs === null || endMs === null || endMs <= startMs) return;
+
+    const body = lines.join('\n');
+    const words = parseInlineTimestamps(body, startMs, endMs);
+    const cueText = stripCueTags(body.replace(INLINE_TIMESTAMP_RE, '')).trim();
+
+    doc.cues.push({
+      startMs,
+      endMs,
+      text: cueText,
+      ...(words ? { words } : {}),
+      ...(cueId ? { cueId } : {}),
+      ...(timing[3]?.trim() ? { cueSettings: timing[3].trim() } : {}),
+    });
+  });
+
+  return doc;
+}
@@ -0,0 +1,145 @@
+import { useId, useMemo, useState, type KeyboardEvent } from 'react';
+
+import { comboFromEvent, formatBinding, useKeymap } from '@/features/shortcuts';
+import { rankCommands, type PaletteCommand } from './commandSearch';
+import styles from './CommandPalette.module.css';
+
+type Props = {
+  commands: readonly PaletteCommand[];
+  recentIds: readonly string[];
+  onRun: (command: PaletteCommand) => void;
+  onClose: () => void;
+};
+
+function highlight(label: string, indices: readonly number[]) {
+  if (indices.length === 0) return label;
+  const marked = new Set(indices);
+  return Array.from(label).map((char, index) =>
+    marked.has(index) ? (
+      <mark key={index} className={styles.match}>
+        {char}
+      </mark>
+    ) : (
+      char
+    )
+  );
+}
+
+const isEnabled = (command: PaletteCommand) => command.enabled !== false;
+
+/** 검색어로 명령을 좁히고 ↑/↓로 고른 뒤 Enter로 실행한다. */
+function CommandPalette({ commands, recentIds, onRun, onClose }: Props) {
+  const keymap = useKeymap();
+  const listId = useId();
+  const [query, setQuery] = useState('');
+  const [activeIndex, setActiveIndex] = useState(0);
+
+  const ranked = useMemo(
+    () => rankCommands(commands, query, recentIds),
+    [commands, query, recentIds]
+  );
+  const active = ranked[Math.min(activeIndex, ranked.length - 1)];
+
+  const run = (command: PaletteCommand | undefined) => {
+    if (command && isEnabled(command)) onRun(command);
+  };
+
+  const handleKeyDown = (event: KeyboardEvent<HTMLDivElement>) => {
+    // 열려 있는 동안에는 페이지 단축키가 동작하지 않게 한다.
+    event.stopPropagation();
+    if (event.nativeEvent.isComposing) return;
+
+    const combo = comboFromEvent(event);
+    if (
+      combo === 'Escape' ||
+      (combo && keymap['commandPalette.open']?.includes(combo))
+    ) {
+      event.preventDefault();
+      onClose();
+    } else if (combo === 'ArrowDown' || combo === 'ArrowUp') {
+      event.preventDefault();
+      if (ranked.length === 0) return;
+      const step = combo === 'ArrowDown' ? 1 : -1;
+      const current = Math.min(activeIndex, ranked.length - 1);
+      setActiveIndex((current + step + ranked.length) % ranked.length);
+    } else if (combo === 'Enter') {
+      event.preventDefault();
+      run(active?.command);
+    }
+  };
+
+  const optionId = (index: number) => `${listId}-${index}`;
+
+  return (
+    <div className={styles.backdrop} onClick={onClose}>
+      <div
+        className={styles.dialog}
+        role="dialog"
+        aria-modal="true"
+        aria-label="명령 팔레트"
+        onClick={(e) => e.stopPropagation()}
+        onKeyDown={handleKeyDown}
+      >
+        <input
+          className={styles.input}
+          type="text"
+          role="combobox"
+          aria-expanded="true"
+          aria-controls={listId}
+          aria-activedescendant={
+            active ? optionId(ranked.indexOf(active)) : undefined
+          }
+          aria-label="명령 검색"
+          placeholder="명령 검색..."
+          value={query}
+          onChange={(e) => {
+            setQuery(e.target.value);
+            setActiveIndex(0);
+          }}
+          autoFocus
+        />
+        {ranked.length === 0 ? (
+          <p className={styles.empty}>일치하는 명령이 없습니다.</p>
+        ) : (
+          <ul id={listId} className={styles.list} role="listbox">
+            {ranked.map(({ command, indices, isRecent }, index) => {
+              const enabled = isEnabled(command);
+              const shortcut = command.shortcutId
+                ? formatBinding(keymap, command.shortcutId)
+                : '';
+              return (
+                <li
+                  key={command.id}
+                  id={optionId(index)}
+                  role="option"
+                  aria-selected={active === ranked[index]}
+                  aria-disabled={!enabled}
+                  className={`${styles.item} ${
+                    active === ranked[index] ? styles.itemActive : ''
+                  } ${enabled ? '' : styles.itemDisabled}`}
+                  onMouseMove={() => setActiveIndex(index)}
+                  onClick={() => run(command)}
+                >
+                  <span className={styles.group}>{command.group}</span>
+                  <span className={styles.label}>
+                    {highlight(command.label, indices)}
+                  </span>
+                  {isRecent && <span className={styles.recent}>최근</span>}
+                  {!enabled && command.disabledReason ? (
+                    <span className={styles.reason}>
+                      {command.disabledReason}
+                    </span>
+                  ) : (
+                    shortcut && <kbd className={styles.kbd}>{shortcut}</kbd>
+                  )}
+                </li>
+              );
+            })}
+          </ul>
+        )}
+      </div>
+    </div>
+  );
+}
+
+export default CommandPalette;
@@ -0,0 +1,134 @@
+import {
+  useCallback,
+  useEffect,
+  useMemo,
+  useRef,
+  useState,
+  type PropsWithChildren,
+} from 'react';
+
+import {
+  dispatchShortcut,
+  useKeymap,
+  useShortcutSettings,
+} from '@/features/shortcuts';
+import {
+  CommandPaletteContext,
+  type CommandPaletteRegistry,
+} from './commandPaletteContext';
+import {
+  loadRecentCommandIds,
+  pushRecentCommandId,
+  saveRecentCommandIds,
+} from './commandRecents';
+import type { PaletteCommand } from './commandSearch';
+import CommandPalette from './CommandPalette';
+
+/**
+ * 화면마다 올린 명령을 모아 Ctrl+K(⌘K)로 여는 명령 팔레트에 보여 준다.
+ * 명령은 재생 중에도 자주 바뀌므로 ref에 두고, 팔레트가 열려 있을 때만 다시 그린다.
+ */
+function CommandPaletteProvider({ children }: PropsWithChildren) {
+  const keymap = useKeymap();
+  const shortcutSettings = useShortcutSettings();
+  const sourcesRef = useRef(new Map<string, readonly PaletteCommand[]>());
+  const isOpenRef = useRef(false);
+  const [isOpen, setIsOpen] = useState(false);
+  const [registered, setRegistered] = useState<PaletteCommand[]>([]);
+  const [recentIds, setRecentIds] = useState<string[]>(loadRecentCommandIds);
+
+  const collect = useCallback(
+    () => [...sourcesRef.current.values()].flat(),
+    []
+  );
+
+  const register = useCallback(
+    (sourceId: string, commands: readonly PaletteCommand[]) => {
+      sourcesRef.current.set(sourceId, commands);
+      if (isOpenRef.current) setRegistered(collect());
+    },
+    [collect]
+  );
+
+  const unregister = useCallback(
+    (sourceId: string) => {
+      sourcesRef.current.delete(sourceId);
+      if (isOpenRef.current) setRegistered(collect());
+    },
+    [collect]
+  );
+
+  const setOpen = useCallback(
+    (open: boolean) => {
+      isOpenRef.current = open;
+      if (open) setRegistered(collect());
+      setIsOpen(open);
+    },
+    [collect]
+  );
+
+  const open = useCallback(() => setOpen(true), [setOpen]);
+  const close = useCallback(() => setOpen(false), [setOpen]);
+
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      dispatchShortcut(event, ['global'], keymap, {
+        'commandPalette.open': () => setOpen(!isOpenRef.current),
+      });
+    };
+
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [keymap, setOpen]);
+
+  const openCheatSheet = shortcutSettings?.openCheatSheet;
+  const commands = useMemo<PaletteCommand[]>(
+    () =>
+      openCheatSheet
+        ? [
+            ...registered,
+            {
+              id: 'shortcuts.cheatSheet',
+              label: '단축키 보기 / 바꾸기',
+              group: '도움말',
+              keywords: ['shortcut', 'keymap'],
+              shortcutId: 'shortcuts.cheatSheet',
+              run: openCheatSheet,
+            },
+          ]
+        : registered,
+    [registered, openCheatSheet]
+  );
+
+  const handleRun = useCallback(
+    (command: PaletteCommand) => {
+      close();
+      const next = pushRecentCommandId(recentIds, command.id);
+      setRecentIds(next);
+      saveRecentCommandIds(next);
+      command.run();
+    },
+    [close, recentIds]
+  );
+
+  const value = useMemo<CommandPaletteRegistry>(
+    () => ({ register, unregister, open }),
+    [register, unregister, open]
+  );
+
+  return (
+    <CommandPaletteContext.Provider value={value}>
+      {children}
+      {isOpen && (
+        <CommandPalette
+          commands={commands}
+          recentIds={recentIds}
+          onRun={handleRun}
+          onClose={close}
+        />
+      )}
+    </CommandPaletteContext.Provider>
+  );
+}
+
+export default CommandPaletteProvider;
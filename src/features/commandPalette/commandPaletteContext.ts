@@ -0,0 +1,36 @@
+import { createContext, useContext, useEffect, useId } from 'react';
+
+import type { PaletteCommand } from './commandSearch';
+
+export type CommandPaletteRegistry = {
+  register: (sourceId: string, commands: readonly PaletteCommand[]) => void;
+  unregister: (sourceId: string) => void;
+  open: () => void;
+};
+
+export const CommandPaletteContext =
+  createContext<CommandPaletteRegistry | null>(null);
+
+/** 프로바이더 밖(테스트 등)에서는 null */
+export function useCommandPalette() {
+  return useContext(CommandPaletteContext);
+}
+
+/**
+ * 명령 팔레트에 명령을 올린다. 상태가 바뀌면 실행 가능 여부와 실행 함수가 함께
+ * 바뀌도록 `commands`는 그 상태를 의존성으로 둔 `useMemo`로 만든다.
+ * 컴포넌트가 사라지면 명령도 내린다.
+ */
+export function useCommandPaletteCommands(commands: readonly PaletteCommand[]) {
+  const registry = useCommandPalette();
+  const sourceId = useId();
+
+  useEffect(() => {
+    registry?.register(sourceId, commands);
+  }, [registry, sourceId, commands]);
+
+  useEffect(() => {
+    if (!registry) return;
+    return () => registry.unregister(sourceId);
+  }, [registry, sourceId]);
+}
@@ -0,0 +1,46 @@
+const STORAGE_KEY = 'vrew-command-recents';
+
+/** 최근 사용 목록에 남기는 명령 수 */
+export const MAX_RECENT_COMMANDS = 5;
+
+function getStorage(): Storage | null {
+  try {
+    return typeof localStorage !== 'undefined' ? localStorage : null;
+  } catch {
+    return null;
+  }
+}
+
+export function loadRecentCommandIds(): string[] {
+  try {
+    const parsed: unknown = JSON.parse(
+      getStorage()?.getItem(STORAGE_KEY) ?? '[]'
+    );
+    return Array.isArray(parsed)
+      ? parsed
+          .filter((id): id is string => typeof id === 'string')
+          .slice(0, MAX_RECENT_COMMANDS)
+      : [];
+  } catch {
+    return [];
+  }
+}
+
+export function saveRecentCommandIds(ids: readonly string[]): void {
+  try {
+    getStorage()?.setItem(STORAGE_KEY, JSON.stringify(ids));
+  } catch {
+    // 저장하지 못해도 이번 세션의 최근 목록은 그대로 쓴다.
+  }
+}
+
+/** 실행한 명령을 맨 앞으로 옮긴다. */
+export function pushRecentCommandId(
+  ids: readonly string[],
+  id: string
+): string[] {
+  return [id, ...ids.filter((other) => other !== id)].slice(
+    0,
+    MAX_RECENT_COMMANDS
+  );
+}
@@ -0,0 +1,133 @@
+import type { ShortcutCommandId } from '@/features/shortcuts';
+
+export type PaletteCommand = {
+  id: string;
+  label: string;
+  /** 기능 묶음. 목록에서 라벨 앞에 보이고 검색에도 쓴다. */
+  group: string;
+  /** 검색에만 쓰는 다른 이름 (예: 영문 이름) */
+  keywords?: readonly string[];
+  /** 묶인 단축키를 함께 보여 준다. */
+  shortcutId?: ShortcutCommandId;
+  /** false면 흐리게 보이고 실행할 수 없다. 생략하면 실행할 수 있다. */
+  enabled?: boolean;
+  /** 실행할 수 없는 이유. 흐린 항목 옆에 보인다. */
+  disabledReason?: string;
+  run: () => void;
+};
+
+export type FuzzyMatch = {
+  score: number;
+  /** 라벨에서 일치한 글자 위치 */
+  indices: number[];
+};
+
+export type RankedCommand = {
+  command: PaletteCommand;
+  indices: number[];
+  isRecent: boolean;
+};
+
+const WORD_SEPARATOR = /[\s/·()\-_:]/;
+
+/**
+ * `query`의 글자가 `text`에 순서대로 모두 나오면 일치로 본다. 붙어 있는 글자와
+ * 단어 첫 글자에 가산점을 주고, 떨어진 거리만큼 조금씩 뺀다. 대소문자와 query의
+ * 공백은 무시한다.
+ */
+export function fuzzyMatch(query: string, text: string): FuzzyMatch | null {
+  const needle = query.toLowerCase().replace(/\s+/g, '');
+  if (!needle) return { score: 0, indices: [] };
+  const haystack = text.toLowerCase();
+
+  // 그대로 들어 있으면 그 자리를 쓴다. 흩어진 일치보다 항상 앞선다.
+  const substring = haystack.indexOf(needle);
+  if (substring >= 0) {
+    const atWordStart =
+      substring === 0 || WORD_SEPARATOR.test(haystack[substring - 1]);
+    return {
+      score: needle.length * 4 + (atWordStart ? 4 : 0) - substring * 0.01,
+      indices: Array.from({ length: needle.length }, (_, i) => substring + i),
+    };
+  }
+
+  const indices: number[] = [];
+  let score = 0;
+  let from = 0;
+  for (const char of needle) {
+    const index = haystack.indexOf(char, from);
+    if (index < 0) return null;
+    const previous = indices.at(-1);
+    score += 1;
+    if (previous !== undefined && index === previous + 1) score += 2;
+    if (index === 0 || WORD_SEPARATOR.test(haystack[index - 1])) score += 1.5;
+    if (previous !== undefined) score -= Math.min(1, (index - previous) * 0.05);
+    indices.push(index);
+    from = index + 1;
+  }
+  return { score, indices };
+}
+
+function matchCommand(query: string, command: PaletteCommand) {
+  const label = fuzzyMatch(query, command.label);
+  const others = [command.group, ...(command.keywords ?? [])]
+    .map((text) => fuzzyMatch(query, text))
+    .filter((match): match is FuzzyMatch => match !== null);
+  // 묶음 이름이나 키워드로 찾은 경우는 라벨 일치보다 조금 뒤에 둔다.
+  const otherScore = Math.max(-Infinity, ...others.map((m) => m.score * 0.8));
+  if (!label && others.length === 0) return null;
+  if (label && label.score >= otherScore) return label;
+  return { score: otherScore, indices: [] };
+}
+
+/**
+ * 검색어가 없으면 최근 사용한 명령을 먼저, 나머지는 등록 순서대로 둔다.
+ * 검색어가 있으면 일치한 명령만 점수순으로, 같은 점수면 최근 사용한 것을 먼저 둔다.
+ */
+export function rankCommands(
+  commands: readonly PaletteCommand[],
+  query: string,
+  recentIds: readonly string[]
+): RankedCommand[] {
+  const recentRank = (id: string) => {
+    const index = recentIds.indexOf(id);
+    return index < 0 ? Infinity : index;
+  };
+
+  if (!query.trim()) {
+    return commands
+      .map((command, order) => ({ command, order }))
+      .sort(
+        (a, b) =>
+          recentRank(a.command.id) - recentRank(b.command.id) ||
+          a.order - b.order
+      )
+      .map(({ command }) => ({
+        command,
+        indices: [],
+        isRecent: recentIds.includes(command.id),
+      }));
+  }
+
+  return commands
+    .map((command, order) => ({
+      command,
+      order,
+      match: matchCommand(query, command),
+    }))
+    .filter(
+      (entry): entry is typeof entry & { match: FuzzyMatch } =>
+        entry.match !== null
+    )
+    .sort(
+      (a, b) =>
+        b.match.score - a.match.score ||
+        recentRank(a.command.id) - recentRank(b.command.id) ||
+        a.order - b.order
+    )
+    .map(({ command, match }) => ({
+      command,
+      indices: match.indices,
+      isRecent: recentIds.includes(command.id),
+    }));
+}
@@ -0,0 +1,17 @@
+export {
+  useCommandPalette,
+  useCommandPaletteCommands,
+} from './commandPaletteContext';
+export type { CommandPaletteRegistry } from './commandPaletteContext';
+export { fuzzyMatch, rankCommands } from './commandSearch';
+export type {
+  FuzzyMatch,
+  PaletteCommand,
+  RankedCommand,
+} from './commandSearch';
+export {
+  MAX_RECENT_COMMANDS,
+  loadRecentCommandIds,
+  pushRecentCommandId,
+  saveRecentCommandIds,
+} from './commandRecents';
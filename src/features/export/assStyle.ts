@@ -0,0 +1,96 @@
+import type {
+  CaptionAlignment,
+  CaptionStyle,
+  CaptionVerticalPosition,
+} from '@/data/types';
+import { CAPTION_BOX_PADDING } from '@/features/captions/captionStyle';
+
+// ASS Alignment는 숫자 키패드 배치를 따른다 (1~3 아래, 4~6 가운데, 7~9 위).
+const ROW_BASE: Record<CaptionVerticalPosition, number> = {
+  bottom: 1,
+  middle: 4,
+  top: 7,
+};
+
+const COLUMN_OFFSET: Record<CaptionAlignment, number> = {
+  left: 0,
+  center: 1,
+  right: 2,
+};
+
+/**
+ * `#rrggbb`(또는 `#rgb`)를 ASS의 `&HAABBGGRR`로 변환한다.
+ * @param opacity 0(투명)~1(불투명)
+ */
+export function toAssColor(hex: string, opacity = 1): string {
+  let value = hex.trim().replace(/^#/, '');
+  if (value.length === 3) {
+    value = value
+      .split('')
+      .map((c) => c + c)
+      .join('');
+  }
+  if (!/^[0-9a-fA-F]{6}$/.test(value)) {
+    value = 'ffffff';
+  }
+
+  const [r, g, b] = [0, 2, 4].map((i) => value.slice(i, i + 2));
+  const alpha = Math.round((1 - Math.max(0, Math.min(1, opacity))) * 255);
+  const aa = alpha.toString(16).padStart(2, '0');
+
+  return `&H${aa}${b}${g}${r}`.toUpperCase();
+}
+
+/**
+ * 자막 텍스트를 Dialogue Text 필드에 안전하게 넣을 수 있도록 변환한다.
+ * 줄바꿈은 `\N`으로, 중괄호는 오버라이드 태그로 해석되지 않도록 이스케이프한다.
+ */
+export function escapeAssText(text: string): string {
+  return text
+    .trim()
+    .replace(/\{/g, '\\{')
+    .replace(/\}/g, '\\}')
+    .replace(/\r?\n/g, '\\N');
+}
+
+/**
+ * 배경 상자를 켜면 BorderStyle 3(불투명 상자)을 쓴다.
+ * 이때 libass는 OutlineColour로 상자를 칠하고 Outline 값을 상자 여백으로 쓰므로
+ * 글자 외곽선은 그려지지 않는다 (미리보기도 같은 규칙을 따른다).
+ */
+export function buildAssStyleLine(
+  name: string,
+  style: CaptionStyle,
+  karaoke = false
+): string {
+  const boxed = style.backgroundEnabled;
+  // 카라오케(\k)는 지나간 음절을 Primary, 아직 오지 않은 음절을 Secondary로 칠한다.
+  const fields = [
+    name,
+    style.fontFamily.replace(/,/g, ' '),
+    Math.round(style.fontSize),
+    toAssColor(karaoke ? style.highlightColor : style.color),
+    toAssColor(style.color),
+    boxed
+      ? toAssColor(style.backgroundColor, style.backgroundOpacity)
+      : toAssColor(style.outlineColor),
+    '&H80000000',
+    style.bold ? -1 : 0,
+    0,
+    0,
+    0,
+    100,
+    100,
+    0,
+    0,
+    boxed ? 3 : 1,
+    boxed ? CAPTION_BOX_PADDING : style.outlineWidth,
+    0,
+    ROW_BASE[style.verticalPosition] + COLUMN_OFFSET[style.alignment],
+    Math.round(style.marginH),
+    Math.round(style.marginH),
+    Math.round(style.marginV),
+    1,
+  ];
+  return `Style: ${fields.join(',')}`;
+}
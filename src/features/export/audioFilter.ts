@@ -0,0 +1,10 @@
+import type { AudioChannelSelection } from './ffmpegTypes';
+
+/**
+ * 고른 채널을 양쪽으로 복제하는 `pan` 필터. 한쪽 마이크만 살아 있는 녹음을
+ * 양쪽에서 들리게 만든다.
+ */
+export function buildChannelPanFilter(channel: AudioChannelSelection): string {
+  const source = channel === 'left' ? 'c0' : 'c1';
+  return `pan=stereo|c0=${source}|c1=${source}`;
+}
@@ -0,0 +1,189 @@
+import type { Caption, CaptionWord } from '@/data/types';
+import { computeFallbackWordTimings } from '@/features/captions/wordHighlight';
+
+import type { CutRange } from './ffmpegTypes';
+
+/**
+ * 제거 구간을 [0, durationMs]로 자르고 정렬한 뒤 겹치거나 맞닿은 구간을 합친다.
+ */
+export function normalizeCutRanges(
+  ranges: CutRange[],
+  durationMs: number
+): CutRange[] {
+  const limit = durationMs > 0 ? durationMs : Number.POSITIVE_INFINITY;
+  const clamped = ranges
+    .map((r) => ({
+      startMs: Math.max(0, Math.min(r.startMs, r.endMs)),
+      endMs: Math.min(limit, Math.max(r.startMs, r.endMs)),
+    }))
+    .filter((r) => r.endMs > r.startMs)
+    .sort((a, b) => a.startMs - b.startMs);
+
+  const merged: CutRange[] = [];
+  for (const range of clamped) {
+    const last = merged[merged.length - 1];
+    if (last && range.startMs <= last.endMs) {
+      last.endMs = Math.max(last.endMs, range.endMs);
+    } else {
+      merged.push({ ...range });
+    }
+  }
+  return merged;
+}
+
+/**
+ * 제거 구간 목록에서 주어진 구간을 빼낸다. 걸쳐 있는 구간은 앞뒤로 쪼개진다.
+ */
+export function subtractCutRange(
+  ranges: CutRange[],
+  range: CutRange,
+  durationMs: number
+): CutRange[] {
+  const result: CutRange[] = [];
+  for (const cut of normalizeCutRanges(ranges, durationMs)) {
+    if (cut.endMs <= range.startMs || cut.startMs >= range.endMs) {
+      result.push(cut);
+      continue;
+    }
+    if (cut.startMs < range.startMs) {
+      result.push({ startMs: cut.startMs, endMs: range.startMs });
+    }
+    if (cut.endMs > range.endMs) {
+      result.push({ startMs: range.endMs, endMs: cut.endMs });
+    }
+  }
+  return result;
+}
+
+/**
+ * 구간 전체가 제거 구간 하나에 덮여 있는지 확인한다.
+ *
+ * @param cuts normalizeCutRanges로 정리된 구간
+ */
+export function isRangeCut(range: CutRange, cuts: CutRange[]): boolean {
+  if (range.endMs <= range.startMs) return false;
+  return cuts.some(
+    (cut) => cut.startMs <= range.startMs && cut.endMs >= range.endMs
+  );
+}
+
+/**
+ * 텍스트 편집에서 단어 하나를 지울 때 잘라낼 구간. 다음 단어 앞까지의 쉼을 함께
+ * 잘라 연속한 단어를 지우면 구간이 하나로 이어지게 한다.
+ */
+export function wordCutRange(
+  caption: Caption,
+  words: CaptionWord[],
+  index: number
+): CutRange {
+  const word = words[index];
+  const next = words[index + 1];
+  return {
+    startMs: word.startMs,
+    endMs: Math.max(word.endMs, next ? next.startMs : caption.endMs),
+  };
+}
+
+/**
+ * 제거 구간에 덮인 단어를 자막 텍스트에서 뺀다. 시간은 원본 기준 그대로 두며,
+ * 자막 전체가 덮이거나 남은 단어가 없으면 자막을 뺀다.
+ */
+export function stripCutWords(
+  captions: Caption[],
+  ranges: CutRange[],
+  durationMs: number
+): Caption[] {
+  const cuts = normalizeCutRanges(ranges, durationMs);
+  if (cuts.length === 0) return captions;
+
+  const result: Caption[] = [];
+  for (const caption of captions) {
+    if (isRangeCut(caption, cuts)) continue;
+
+    const words = computeFallbackWordTimings(caption);
+    const kept = words.filter((w) => !isRangeCut(w, cuts));
+    if (kept.length === words.length) {
+      result.push(caption);
+      continue;
+    }
+    if (kept.length === 0) continue;
+    result.push({
+      ...caption,
+      text: kept.map((w) => w.text).join(' '),
+      words: kept,
+    });
+  }
+  return result;
+}
+
+/**
+ * 제거 구간 사이에 남는(유지할) 구간 목록을 원본 시간 기준으로 반환한다.
+ */
+export function computeKeepSegments(
+  ranges: CutRange[],
+  durationMs: number
+): CutRange[] {
+  const cuts = normalizeCutRanges(ranges, durationMs);
+  const segments: CutRange[] = [];
+  let cursor = 0;
+
+  for (const cut of cuts) {
+    if (cut.startMs > cursor) {
+      segments.push({ startMs: cursor, endMs: cut.startMs });
+    }
+    cursor = cut.endMs;
+  }
+  if (durationMs > cursor) {
+    segments.push({ startMs: cursor, endMs: durationMs });
+  }
+  return segments;
+}
+
+/**
+ * 원본 시간을 제거 구간이 빠진 출력 시간으로 변환한다.
+ * 제거 구간 내부의 시간은 해당 구간의 시작 지점으로 접힌다.
+ *
+ * @param cuts normalizeCutRanges로 정리된 구간
+ */
+export function mapTimeThroughCuts(ms: number, cuts: CutRange[]): number {
+  let removed = 0;
+  for (const cut of cuts) {
+    if (ms <= cut.startMs) break;
+    removed += Math.min(ms, cut.endMs) - cut.startMs;
+  }
+  return ms - removed;
+}
+
+/**
+ * 자막과 단어 타이밍을 출력 타임라인으로 옮긴다.
+ * 제거 구간에 완전히 포함된 자막/단어는 빠진다.
+ */
+export function retimeCaptionsForCuts(
+  captions: Caption[],
+  ranges: CutRange[],
+  durationMs: number
+): Caption[] {
+  const cuts = normalizeCutRanges(ranges, durationMs);
+  if (cuts.length === 0) return captions;
+
+  const result: Caption[] = [];
+  for (const caption of captions) {
+    const startMs = mapTimeThroughCuts(caption.startMs, cuts);
+    const endMs = mapTimeThroughCuts(caption.endMs, cuts);
+    if (endMs <= startMs) continue;
+
+    let words: CaptionWord[] | undefined;
+    if (caption.words) {
+      words = caption.words
+        .map((w) => ({
+          ...w,
+          startMs: mapTimeThroughCuts(w.startMs, cuts),
+          endMs: mapTimeThroughCuts(w.endMs, cuts),
+        }))
+        .filter((w) => w.endMs > w.startMs);
+    }
+
+    result.push({ ...caption, startMs, endMs, ...(words ? { words } : {}) });
+  }
+  return result;
+}
@@ -0,0 +1,72 @@
+import { buildChannelPanFilter } from './audioFilter';
+import type { AudioChannelSelection, TrimPayload } from './ffmpegTypes';
+
+export type OutputFormat = NonNullable<TrimPayload['outputFormat']>;
+
+/** 출력 형식에 맞는 영상 인코더 인자. WebM은 VP9, MP4는 H.264로 빠르게 인코딩한다. */
+export function videoEncodeArgs(outputFormat: OutputFormat): string[] {
+  return outputFormat === 'webm'
+    ? [
+        '-c:v',
+        'libvpx-vp9',
+        '-deadline',
+        'realtime',
+        '-cpu-used',
+        '8',
+        '-crf',
+        '30',
+        '-b:v',
+        '0',
+      ]
+    : ['-c:v', 'libx264', '-preset', 'ultrafast', '-crf', '23'];
+}
+
+/** 출력 형식에 맞는 오디오 인코더 인자 */
+export function audioEncodeArgs(outputFormat: OutputFormat): string[] {
+  return [
+    '-c:a',
+    outputFormat === 'webm' ? 'libvorbis' : 'aac',
+    '-b:a',
+    '128k',
+  ];
+}
+
+type TrimCodecOptions = {
+  outputFormat: OutputFormat;
+  videoFilter?: string;
+  audioChannel?: AudioChannelSelection;
+};
+
+/**
+ * 트림 출력의 필터·코덱 인자. MP4는 필터가 없으면 스트림을 그대로 복사하고,
+ * 오디오 필터만 있으면 영상만 복사한다. WebM 컨테이너에는 원본 H.264/AAC를
+ * 담을 수 없으므로 필터와 상관없이 항상 VP9/Vorbis로 다시 인코딩한다.
+ */
+export function buildTrimCodecArgs({
+  outputFormat,
+  videoFilter,
+  audioChannel,
+}: TrimCodecOptions): string[] {
+  const videoFilterArgs = videoFilter ? ['-vf', videoFilter] : [];
+  const audioFilterArgs = audioChannel
+    ? ['-af', buildChannelPanFilter(audioChannel)]
+    : [];
+
+  if (videoFilter || outputFormat === 'webm') {
+    return [
+      ...videoFilterArgs,
+      ...videoEncodeArgs(outputFormat),
+      ...audioFilterArgs,
+      ...audioEncodeArgs(outputFormat),
+    ];
+  }
+  if (audioChannel) {
+    return [
+      '-c:v',
+      'copy',
+      ...audioFilterArgs,
+      ...audioEncodeArgs(outputFormat),
+    ];
+  }
+  return ['-c', 'copy'];
+}
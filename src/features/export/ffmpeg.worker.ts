@@ -11,16 +11,41 @@ import type {
   CutoutPayload,
   BurninPayload,
   ProbePayload,
+  PeaksPayload,
+  PeaksData,
+  SpectrogramPayload,
   WorkerRequest,
   WorkerResponse,
   FFmpegErrorCode,
 } from './ffmpegTypes';
+import { computeKeepSegments } from './cutRanges';
+import { parseProbeLog } from './probeParser';
+import { buildChannelPanFilter } from './audioFilter';
+import {
+  audioEncodeArgs,
+  buildTrimCodecArgs,
+  videoEncodeArgs,
+} from './encodeArgs';
+import { createChannelPeakAccumulator } from '@/lib/waveformPeaks';
+import { createSpectrogramAccumulator } from '@/lib/spectrogram';
 
 declare const self: Worker & typeof globalThis;
 
 let ffmpeg: FFmpeg | null = null;
 let currentJobId: JobId | null = null;
 let cancelRequested = false;
+let logCollector: string[] | null = null;
+// 조각마다 exec를 여러 번 돌리는 작업은 FFmpeg의 exec 단위 진행률 대신 자체 진행률을 보낸다.
+let execProgressMuted = false;
+// 여러 단계로 나뉜 작업에서 exec 하나의 진행률을 전체 진행률의 일부 구간으로 옮겨 보낸다.
+let execProgressRange: { from: number; to: number; stage: string } | null =
+  null;
+// 확대 보기에서 구간 피크를 여러 번 요청하므로 마지막 분석 입력은 FS에 남겨 둔다.
+let pcmInputKey: string | null = null;
+// 작업은 FS와 작업 상태를 함께 쓰므로 받은 순서대로 하나씩 처리한다.
+let jobChain: Promise<void> = Promise.resolve();
+// 차례를 기다리는 작업. 시작 전에 취소되면 여기서 빠지고, 차례가 와도 실행하지 않는다.
+const queuedJobIds = new Set<JobId>();
 
 const CORE_JS_URL = coreJsUrl;
 const CORE_WASM_URL = coreWasmUrl;
@@ -28,8 +53,17 @@ const DEFAULT_FONT_URL = new URL(
   '/fonts/DejaVuSans.ttf',
   self.location.origin
 ).toString();
-const DEFAULT_FONT_PATH = '/fonts/DejaVuSans.ttf';
+const FONTS_DIR = '/fonts';
+const DEFAULT_FONT_PATH = `${FONTS_DIR}/DejaVuSans.ttf`;
+const SUBTITLE_FILE_NAME = 'subtitles.ass';
 const LOAD_TIMEOUT_MS = 60 * 1000;
+// 파형에는 음성 대역이면 충분하므로 낮은 샘플레이트로 뽑아 조각 크기를 줄인다.
+const PEAKS_SAMPLE_RATE = 8000;
+// 치찰음(5~10kHz)까지 보이도록 스펙트로그램은 더 높은 샘플레이트로 뽑는다.
+const SPECTROGRAM_SAMPLE_RATE = 22050;
+const PCM_CHUNK_MS = 30 * 1000;
+// 채널별 피크는 이 수까지만 나눠 계산한다.
+const MAX_PEAK_CHANNELS = 8;
 let cachedCoreUrls: { coreURL: string; wasmURL: string } | null = null;
 let fontLoaded = false;
 
@@ -60,6 +94,20 @@ function sendProbe(jobId: JobId, data: ProbeData) {
   post({ type: 'probe-completed', jobId, data });
 }
 
+function sendPeaks(jobId: JobId, data: PeaksData) {
+  post({ type: 'peaks-completed', jobId, data }, [
+    data.peaks.buffer as ArrayBuffer,
+    ...(data.pyramid ?? [])
+      .filter((level) => level !== data.peaks)
+      .map((level) => level.buffer as ArrayBuffer),
+    ...(data.channels ?? []).flatMap((channel) =>
+      (channel.pyramid ?? [channel.peaks]).map(
+        (level) => level.buffer as ArrayBuffer
+      )
+    ),
+  ]);
+}
+
 function sendError(
   jobId: JobId,
   code: FFmpegErrorCode,
@@ -83,28 +131,6 @@ function msToFFmpegTime(ms: number): string {
     .padStart(6, '0')}`;
 }
 
-function timeToSeconds(time: string): number {
-  const [h, m, s] = time.split(':');
-  return parseInt(h) * 3600 + parseInt(m) * 60 + parseFloat(s);
-}
-
-function parseAssForDrawtext(assContent: string): string {
-  const lines = assContent.split('\n');
-  const dialogues = lines.filter((line) => line.startsWith('Dialogue:'));
-  const filters = dialogues.map((dialogue) => {
-    const parts = dialogue.split(',');
-    const start = parts[1];
-    const end = parts[2];
-    const text = parts
-      .slice(9)
-      .join(',')
-      .replace(/\{[^}]*\}/g, '');
-    const escapedText = text.replace(/'/g, "\\'");
-    return `drawtext=text='${escapedText}':fontfile=/fonts/DejaVuSans.ttf:fontsize=24:fontcolor=white:x=(w-text_w)/2:y=h-100:enable='between(t,${timeToSeconds(start)},${timeToSeconds(end)})'`;
-  });
-  return filters.join(',');
-}
-
 async function resolveCoreUrls() {
   if (cachedCoreUrls) return cachedCoreUrls;
 
@@ -156,7 +182,7 @@ async function ensureFontAvailable(): Promise<string | null> {
     if (!res.ok) throw new Error(`Font fetch failed with status ${res.status}`);
     const buffer = new Uint8Array(await res.arrayBuffer());
     try {
-      await ffmpeg.createDir?.('/fonts');
+      await ffmpeg.createDir?.(FONTS_DIR);
     } catch {
       // ignore
     }
@@ -180,6 +206,22 @@ async function ensureFontAvailable(): Promise<string | null> {
   }
 }
 
+/**
+ * ASS 내용을 가상 FS에 쓰고 libass `ass` 필터 문자열을 반환한다.
+ * 파일 경로로 넘기므로 자막 텍스트의 쉼표/콜론/퍼센트가 필터 구문을 깨뜨리지 않는다.
+ */
+async function prepareSubtitleFilter(assContent: string): Promise<string> {
+  const fontPath = await ensureFontAvailable();
+  if (!fontPath) {
+    throw new Error('Font not available for subtitles');
+  }
+  await ffmpeg!.writeFile(
+    SUBTITLE_FILE_NAME,
+    new TextEncoder().encode(assContent)
+  );
+  return `ass=${SUBTITLE_FILE_NAME}:fontsdir=${FONTS_DIR}`;
+}
+
 function buildTrimArgs(startMs: number, endMs?: number | null): string[] {
   const args: string[] = [];
 
@@ -212,12 +254,24 @@ async function ensureFFmpegLoaded(): Promise<void> {
 
   console.log('[ffmpeg.worker] Setting up FFmpeg event listeners');
   ffmpeg.on('log', ({ message }: { message: string }) => {
+    logCollector?.push(message);
     console.log('[ffmpeg.worker] FFmpeg log:', message);
   });
 
   ffmpeg.on('progress', ({ progress }: { progress: number }) => {
     console.log('[ffmpeg.worker] FFmpeg progress event:', progress);
-    if (!currentJobId || typeof progress !== 'number') return;
+    if (!currentJobId || execProgressMuted || typeof progress !== 'number') {
+      return;
+    }
+    if (execProgressRange) {
+      const { from, to, stage } = execProgressRange;
+      const clamped = Math.max(0, Math.min(1, progress));
+      sendProgress(currentJobId, {
+        progress: from + (to - from) * clamped,
+        stage,
+      });
+      return;
+    }
     sendProgress(currentJobId, { progress, stage: 'encoding' });
   });
 
@@ -273,7 +327,14 @@ async function cleanup(files: string[]) {
 }
 
 async function handleTrim(jobId: JobId, payload: TrimPayload) {
-  const { inputBlob, startMs, endMs, outputFormat = 'mp4' } = payload;
+  const {
+    inputBlob,
+    startMs,
+    endMs,
+    outputFormat = 'mp4',
+    videoFilter,
+    audioChannel,
+  } = payload;
 
   console.log(
     '[ffmpeg.worker] handleTrim called with jobId:',
@@ -319,12 +380,16 @@ async function handleTrim(jobId: JobId, payload: TrimPayload) {
     sendProgress(jobId, { progress: 0.2, stage: 'encoding' });
 
     const trimArgs = buildTrimArgs(startMs, endMs);
+    const codecArgs = buildTrimCodecArgs({
+      outputFormat,
+      videoFilter,
+      audioChannel,
+    });
     await ffmpeg!.exec([
       ...trimArgs,
       '-i',
       inputFileName,
-      '-c',
-      'copy',
+      ...codecArgs,
       '-movflags',
       '+faststart',
       '-avoid_negative_ts',
@@ -386,10 +451,12 @@ async function handleTrim(jobId: JobId, payload: TrimPayload) {
 async function handleCutout(jobId: JobId, payload: CutoutPayload) {
   const {
     inputBlob,
-    cutStartMs,
-    cutEndMs,
+    cutRanges,
     durationMs,
     outputFormat = 'mp4',
+    videoFilter,
+    assContent,
+    audioChannel,
   } = payload;
 
   console.log(
@@ -402,19 +469,27 @@ async function handleCutout(jobId: JobId, payload: CutoutPayload) {
   currentJobId = jobId;
   cancelRequested = false;
 
+  const segments = computeKeepSegments(cutRanges, durationMs);
   const inputFileName = 'input.mp4';
-  const part1FileName = 'part1.mp4';
-  const part2FileName = 'part2.mp4';
+  const partFileNames = segments.map(
+    (_, index) => `part${index + 1}.${outputFormat}`
+  );
   const concatFileName = 'concat.txt';
   const outputFileName = `output.${outputFormat}`;
   const allFiles = [
     inputFileName,
-    part1FileName,
-    part2FileName,
+    ...partFileNames,
     concatFileName,
+    SUBTITLE_FILE_NAME,
     outputFileName,
   ];
 
+  if (segments.length === 0) {
+    sendError(jobId, 'INVALID_ARGS', '잘라낼 구간이 전체 영상입니다.');
+    currentJobId = null;
+    return;
+  }
+
   try {
     sendProgress(jobId, { progress: 0.05, stage: 'initializing' });
     await ensureFFmpegLoaded();
@@ -432,88 +507,59 @@ async function handleCutout(jobId: JobId, payload: CutoutPayload) {
       return;
     }
 
-    const videoCodec = outputFormat === 'webm' ? 'libvpx-vp9' : 'libx264';
-    const audioCodec = outputFormat === 'webm' ? 'libvorbis' : 'aac';
-
-    if (cutStartMs > 0) {
-      sendProgress(jobId, { progress: 0.2, stage: 'encoding part A' });
-      await ffmpeg!.exec([
-        '-i',
-        inputFileName,
-        '-ss',
-        msToFFmpegTime(0),
-        '-to',
-        msToFFmpegTime(cutStartMs),
-        '-c:v',
-        videoCodec,
-        '-preset',
-        'ultrafast',
-        '-crf',
-        outputFormat === 'webm' ? '30' : '23',
-        '-c:a',
-        audioCodec,
-        '-b:a',
-        '128k',
-        '-y',
-        part1FileName,
-      ]);
-    }
-
-    if (cancelRequested) {
-      await cleanup(allFiles);
-      sendCancelled(jobId);
-      return;
-    }
+    const encodeArgs = [
+      ...videoEncodeArgs(outputFormat),
+      ...audioEncodeArgs(outputFormat),
+    ];
+    const filterArgs = [
+      ...(videoFilter ? ['-vf', videoFilter] : []),
+      ...(audioChannel ? ['-af', buildChannelPanFilter(audioChannel)] : []),
+    ];
 
-    if (cutEndMs < durationMs) {
-      sendProgress(jobId, { progress: 0.4, stage: 'encoding part C' });
+    // 구간마다 exec의 0→1 진행률이 구간 진행률을 덮어쓰지 않게 한다.
+    execProgressMuted = true;
+    for (let i = 0; i < segments.length; i++) {
+      const segment = segments[i];
+      sendProgress(jobId, {
+        progress: 0.15 + (0.6 * i) / segments.length,
+        stage: `encoding segment ${i + 1}/${segments.length}`,
+      });
+      // 입력 앞에 -ss를 두어 구간 시작점으로 바로 찾아간다. 다시 인코딩하므로
+      // 프레임 단위로 정확하다.
       await ffmpeg!.exec([
+        ...buildTrimArgs(segment.startMs, segment.endMs),
         '-i',
         inputFileName,
-        '-ss',
-        msToFFmpegTime(cutEndMs),
-        '-to',
-        msToFFmpegTime(durationMs),
-        '-c:v',
-        videoCodec,
-        '-preset',
-        'ultrafast',
-        '-crf',
-        outputFormat === 'webm' ? '30' : '23',
-        '-c:a',
-        audioCodec,
-        '-b:a',
-        '128k',
+        ...filterArgs,
+        ...encodeArgs,
         '-y',
-        part2FileName,
+        partFileNames[i],
       ]);
-    }
 
-    if (cancelRequested) {
-      await cleanup(allFiles);
-      sendCancelled(jobId);
-      return;
+      if (cancelRequested) {
+        await cleanup(allFiles);
+        sendCancelled(jobId);
+        return;
+      }
     }
+    execProgressMuted = false;
+    execProgressRange = { from: 0.75, to: 0.9, stage: 'concatenating' };
 
-    sendProgress(jobId, { progress: 0.6, stage: 'concatenating' });
-
-    let concatContent = '';
-    if (cutStartMs > 0) {
-      concatContent += `file '${part1FileName}'\n`;
-    }
-    if (cutEndMs < durationMs) {
-      concatContent += `file '${part2FileName}'\n`;
-    }
-
-    if (!concatContent) {
-      sendError(jobId, 'INVALID_ARGS', '잘라낼 구간이 전체 영상입니다.');
-      await cleanup(allFiles);
-      return;
-    }
+    sendProgress(jobId, { progress: 0.75, stage: 'concatenating' });
 
+    const concatContent = partFileNames
+      .map((name) => `file '${name}'\n`)
+      .join('');
     const concatData = new TextEncoder().encode(concatContent);
     await ffmpeg!.writeFile(concatFileName, concatData);
 
+    // 자막은 출력 타임라인 기준이므로 이어 붙인 결과에 한 번에 입힌다.
+    let outputArgs = ['-c', 'copy'];
+    if (assContent) {
+      const subtitleFilter = await prepareSubtitleFilter(assContent);
+      outputArgs = ['-vf', subtitleFilter, ...encodeArgs];
+    }
+
     await ffmpeg!.exec([
       '-f',
       'concat',
@@ -521,8 +567,7 @@ async function handleCutout(jobId: JobId, payload: CutoutPayload) {
       '0',
       '-i',
       concatFileName,
-      '-c',
-      'copy',
+      ...outputArgs,
       '-movflags',
       '+faststart',
       '-y',
@@ -566,6 +611,8 @@ async function handleCutout(jobId: JobId, payload: CutoutPayload) {
       message
     );
   } finally {
+    execProgressMuted = false;
+    execProgressRange = null;
     currentJobId = null;
   }
 }
@@ -575,9 +622,10 @@ async function handleBurnin(jobId: JobId, payload: BurninPayload) {
     inputBlob,
     startMs,
     endMs,
-    srtContent,
+    assContent,
     outputFormat = 'mp4',
     videoFilter,
+    audioChannel,
   } = payload;
 
   const startTime = performance.now();
@@ -604,18 +652,11 @@ async function handleBurnin(jobId: JobId, payload: BurninPayload) {
       return;
     }
 
-    const fontPath = await ensureFontAvailable();
-    if (!fontPath) {
-      throw new Error('Font not available for subtitles');
-    }
+    const subtitleFilter = await prepareSubtitleFilter(assContent);
 
     sendProgress(jobId, { progress: 0.2, stage: 'encoding' });
 
     const trimArgs = buildTrimArgs(startMs, endMs);
-    const videoCodec = outputFormat === 'webm' ? 'libvpx-vp9' : 'libx264';
-    const audioCodec = outputFormat === 'webm' ? 'libvorbis' : 'aac';
-
-    const subtitleFilter = parseAssForDrawtext(srtContent);
 
     const filterComplex = videoFilter
       ? `${videoFilter},${subtitleFilter}`
@@ -624,8 +665,8 @@ async function handleBurnin(jobId: JobId, payload: BurninPayload) {
     console.log('[ffmpeg.worker] Subtitle filter:', subtitleFilter);
     console.log('[ffmpeg.worker] Filter complex:', filterComplex);
     console.log(
-      '[ffmpeg.worker] SRT content preview:',
-      srtContent.substring(0, 200)
+      '[ffmpeg.worker] ASS content preview:',
+      assContent.substring(0, 200)
     );
 
     const ffmpegArgs = [
@@ -634,16 +675,9 @@ async function handleBurnin(jobId: JobId, payload: BurninPayload) {
       inputFileName,
       '-vf',
       filterComplex,
-      '-c:v',
-      videoCodec,
-      '-preset',
-      'ultrafast',
-      '-crf',
-      outputFormat === 'webm' ? '30' : '23',
-      '-c:a',
-      audioCodec,
-      '-b:a',
-      '128k',
+      ...(audioChannel ? ['-af', buildChannelPanFilter(audioChannel)] : []),
+      ...videoEncodeArgs(outputFormat),
+      ...audioEncodeArgs(outputFormat),
       '-movflags',
       '+faststart',
       '-y',
@@ -654,7 +688,7 @@ async function handleBurnin(jobId: JobId, payload: BurninPayload) {
     await ffmpeg!.exec(ffmpegArgs);
 
     if (cancelRequested) {
-      await cleanup([inputFileName, outputFileName]);
+      await cleanup([inputFileName, SUBTITLE_FILE_NAME, outputFileName]);
       sendCancelled(jobId);
       return;
     }
@@ -672,12 +706,12 @@ async function handleBurnin(jobId: JobId, payload: BurninPayload) {
         : outputData.slice().buffer;
     const elapsedMs = Math.round(performance.now() - startTime);
 
-    await cleanup([inputFileName, outputFileName]);
+    await cleanup([inputFileName, SUBTITLE_FILE_NAME, outputFileName]);
 
     sendProgress(jobId, { progress: 1, stage: 'complete' });
     sendCompleted(jobId, outputBuffer, mime, elapsedMs);
   } catch (error) {
-    await cleanup([inputFileName, outputFileName]);
+    await cleanup([inputFileName, SUBTITLE_FILE_NAME, outputFileName]);
     if (cancelRequested) {
       sendCancelled(jobId);
       return;
@@ -706,15 +740,24 @@ async function handleProbe(jobId: JobId, payload: ProbePayload) {
     const inputData = await fetchFile(inputBlob);
     await ffmpeg!.writeFile(inputFileName, inputData);
 
+    // 출력 파일 없이 입력만 열면 FFmpeg가 스트림 정보를 로그로 남기고 종료한다.
+    logCollector = [];
+    await ffmpeg!.exec(['-hide_banner', '-i', inputFileName]);
+    const lines = logCollector;
+    logCollector = null;
+
     await cleanup([inputFileName]);
 
-    sendProbe(jobId, {
-      durationMs: 0,
-      width: 0,
-      height: 0,
-      codec: 'unknown',
-    });
+    const probe = parseProbeLog(lines);
+    if (!probe.durationMs && !probe.width && !probe.audioCodec) {
+      throw new Error(
+        lines.slice(-3).join('\n') || 'No stream information found'
+      );
+    }
+
+    sendProbe(jobId, probe);
   } catch (error) {
+    logCollector = null;
     await cleanup([inputFileName]);
     const message = error instanceof Error ? error.message : 'unknown error';
     sendError(jobId, 'INPUT_ERROR', '파일 분석 실패', message);
@@ -723,11 +766,262 @@ async function handleProbe(jobId: JobId, payload: ProbePayload) {
   }
 }
 
+const PCM_INPUT_FILE = 'pcm_input';
+const PCM_CHUNK_FILE = 'pcm_chunk.f32';
+
+/** 다른 작업이 메모리를 쓰기 전에 남겨 둔 분석 입력을 지운다. */
+async function releasePcmInput() {
+  if (pcmInputKey === null) return;
+  pcmInputKey = null;
+  await cleanup([PCM_INPUT_FILE]);
+}
+
+async function readInputInfo(inputFileName: string): Promise<ProbeData> {
+  logCollector = [];
+  await ffmpeg!.exec(['-hide_banner', '-i', inputFileName]);
+  const lines = logCollector;
+  logCollector = null;
+  return parseProbeLog(lines);
+}
+
+type PcmStreamRequest = Pick<
+  PeaksPayload,
+  | 'inputBlob'
+  | 'inputKey'
+  | 'durationMs'
+  | 'startMs'
+  | 'endMs'
+  | 'splitChannels'
+>;
+
+/**
+ * 입력(또는 `startMs`~`endMs` 구간)을 PCM_CHUNK_MS 단위로 잘라 f32le PCM으로
+ * 뽑고 조각마다 `createSink`로 만든 누적기에 넘긴다. 전체 PCM을 한 번에 들고 있지
+ * 않는다. `splitChannels`이면 입력 채널 수만큼 교차 배치된 PCM을, 아니면 모노를
+ * 넘긴다. 취소되면 null을 돌려준다.
+ */
+async function streamPcmChunks<
+  T extends { push: (chunk: Float32Array) => void },
+>(
+  jobId: JobId,
+  request: PcmStreamRequest,
+  sampleRate: number,
+  stage: string,
+  createSink: (totalSamples: number, channelCount: number) => T
+): Promise<T | null> {
+  const { inputBlob, inputKey } = request;
+
+  sendProgress(jobId, { progress: 0, stage: 'loading input' });
+  if (!inputKey || inputKey !== pcmInputKey) {
+    await releasePcmInput();
+    await ffmpeg!.writeFile(PCM_INPUT_FILE, await fetchFile(inputBlob));
+    pcmInputKey = inputKey ?? null;
+  }
+
+  const needsInfo =
+    request.splitChannels || !request.durationMs || request.durationMs <= 0;
+  const info = needsInfo ? await readInputInfo(PCM_INPUT_FILE) : null;
+  const durationMs =
+    request.durationMs && request.durationMs > 0
+      ? request.durationMs
+      : (info?.durationMs ?? 0);
+  const channelCount = request.splitChannels
+    ? Math.max(1, Math.min(MAX_PEAK_CHANNELS, info?.audioChannels ?? 1))
+    : 1;
+  if (!durationMs) {
+    throw new Error('Unable to determine media duration');
+  }
+  const windowStartMs = Math.max(0, Math.min(request.startMs ?? 0, durationMs));
+  const windowEndMs = Math.max(
+    windowStartMs,
+    Math.min(request.endMs ?? durationMs, durationMs)
+  );
+  const totalMs = windowEndMs - windowStartMs;
+  if (totalMs <= 0) {
+    throw new Error('Empty analysis window');
+  }
+
+  const sink = createSink(
+    Math.round((totalMs / 1000) * sampleRate),
+    channelCount
+  );
+
+  for (let offsetMs = 0; offsetMs < totalMs; offsetMs += PCM_CHUNK_MS) {
+    if (cancelRequested) return null;
+
+    const chunkMs = Math.min(PCM_CHUNK_MS, totalMs - offsetMs);
+    await ffmpeg!.exec([
+      '-ss',
+      msToFFmpegTime(windowStartMs + offsetMs),
+      '-t',
+      msToFFmpegTime(chunkMs),
+      '-i',
+      PCM_INPUT_FILE,
+      '-vn',
+      '-ac',
+      String(channelCount),
+      '-ar',
+      String(sampleRate),
+      '-f',
+      'f32le',
+      '-y',
+      PCM_CHUNK_FILE,
+    ]);
+    const bytes = (await ffmpeg!.readFile(PCM_CHUNK_FILE)) as Uint8Array;
+    // Float32Array 뷰는 4바이트 정렬이 필요하다.
+    const aligned = bytes.byteOffset % 4 === 0 ? bytes : bytes.slice();
+    sink.push(
+      new Float32Array(
+        aligned.buffer,
+        aligned.byteOffset,
+        Math.floor(aligned.byteLength / 4)
+      )
+    );
+    await cleanup([PCM_CHUNK_FILE]);
+
+    const processedMs = offsetMs + chunkMs;
+    sendProgress(jobId, {
+      progress: processedMs / totalMs,
+      processedMs,
+      totalMs,
+      stage,
+    });
+  }
+
+  if (!inputKey) await releasePcmInput();
+  return sink;
+}
+
+/** PCM 분석 작업 공통 처리: 작업 상태, 진행률 억제, 취소·오류 응답과 파일 정리 */
+async function runPcmJob(
+  jobId: JobId,
+  errorMessage: string,
+  body: () => Promise<boolean>
+) {
+  currentJobId = jobId;
+  cancelRequested = false;
+  execProgressMuted = true;
+
+  try {
+    await ensureFFmpegLoaded();
+    if (!(await body())) {
+      await cleanup([PCM_CHUNK_FILE]);
+      sendCancelled(jobId);
+    }
+  } catch (error) {
+    logCollector = null;
+    await cleanup([PCM_CHUNK_FILE]);
+    await releasePcmInput();
+    await cleanup([PCM_INPUT_FILE]);
+    if (cancelRequested) {
+      sendCancelled(jobId);
+      return;
+    }
+    const message = error instanceof Error ? error.message : 'unknown error';
+    sendError(jobId, 'INPUT_ERROR', errorMessage, message);
+  } finally {
+    execProgressMuted = false;
+    currentJobId = null;
+  }
+}
+
+/** 조각마다 피크를 누적하고 완료 시 Int16Array만 돌려보낸다. */
+function handlePeaks(jobId: JobId, payload: PeaksPayload) {
+  const { bucketCount, mode, pyramidLevels } = payload;
+  const options = {
+    mode,
+    pyramidLevels,
+    returnPyramid: (pyramidLevels ?? 1) > 1,
+  };
+  const startTime = performance.now();
+
+  return runPcmJob(jobId, '오디오 파형 추출 실패', async () => {
+    const accumulator = await streamPcmChunks(
+      jobId,
+      payload,
+      PEAKS_SAMPLE_RATE,
+      'waveform',
+      (totalSamples, channelCount) =>
+        createChannelPeakAccumulator(
+          totalSamples,
+          channelCount,
+          bucketCount,
+          options
+        )
+    );
+    if (!accumulator) return false;
+
+    const { peaks, pyramid, channels } = accumulator.finish();
+    sendPeaks(jobId, {
+      peaks,
+      pyramid,
+      channels,
+      elapsedMs: Math.round(performance.now() - startTime),
+    });
+    return true;
+  });
+}
+
+/** 조각마다 STFT를 누적하고 완료 시 양자화한 세기 배열만 돌려보낸다. */
+function handleSpectrogram(jobId: JobId, payload: SpectrogramPayload) {
+  const { columns, fftSize } = payload;
+  const startTime = performance.now();
+
+  return runPcmJob(jobId, '스펙트로그램 계산 실패', async () => {
+    const accumulator = await streamPcmChunks(
+      jobId,
+      payload,
+      SPECTROGRAM_SAMPLE_RATE,
+      'spectrogram',
+      (totalSamples) =>
+        createSpectrogramAccumulator(
+          totalSamples,
+          SPECTROGRAM_SAMPLE_RATE,
+          columns,
+          { fftSize }
+        )
+    );
+    if (!accumulator) return false;
+
+    const data = accumulator.finish();
+    post(
+      {
+        type: 'spectrogram-completed',
+        jobId,
+        data: {
+          ...data,
+          elapsedMs: Math.round(performance.now() - startTime),
+        },
+      },
+      [data.magnitudes.buffer as ArrayBuffer]
+    );
+    return true;
+  });
+}
+
 function handleCancel(jobId: JobId) {
+  if (queuedJobIds.delete(jobId)) return;
   if (currentJobId !== jobId) return;
   cancelRequested = true;
 }
 
+/** 앞선 작업이 모두 끝난 뒤에 `run`을 실행한다. */
+function enqueueJob(jobId: JobId, run: () => Promise<void>) {
+  queuedJobIds.add(jobId);
+  jobChain = jobChain
+    .then(async () => {
+      if (!queuedJobIds.delete(jobId)) {
+        sendCancelled(jobId);
+        return;
+      }
+      await run();
+    })
+    .catch((error: unknown) => {
+      console.error('[ffmpeg.worker] Job failed unexpectedly:', error);
+      sendError(jobId, 'UNKNOWN', '작업 중 오류가 발생했습니다.');
+    });
+}
+
 self.onmessage = async (event: MessageEvent<WorkerRequest>) => {
   const msg = event.data;
 
@@ -760,22 +1054,55 @@ self.onmessage = async (event: MessageEvent<WorkerRequest>) => {
       break;
     }
 
-    case 'trim':
-      await handleTrim(msg.jobId, msg.payload);
+    case 'trim': {
+      const { jobId, payload } = msg;
+      enqueueJob(jobId, async () => {
+        await releasePcmInput();
+        await handleTrim(jobId, payload);
+      });
+      break;
+    }
+
+    case 'cutout': {
+      const { jobId, payload } = msg;
+      enqueueJob(jobId, async () => {
+        await releasePcmInput();
+        await handleCutout(jobId, payload);
+      });
       break;
+    }
 
-    case 'cutout':
-      await handleCutout(msg.jobId, msg.payload);
+    case 'burnin': {
+      const { jobId, payload } = msg;
+      enqueueJob(jobId, async () => {
+        await releasePcmInput();
+        await handleBurnin(jobId, payload);
+      });
       break;
+    }
 
-    case 'burnin':
-      await handleBurnin(msg.jobId, msg.payload);
+    case 'probe': {
+      const { jobId, payload } = msg;
+      enqueueJob(jobId, async () => {
+        await releasePcmInput();
+        await handleProbe(jobId, payload);
+      });
       break;
+    }
 
-    case 'probe':
-      await handleProbe(msg.jobId, msg.payload);
+    case 'peaks': {
+      const { jobId, payload } = msg;
+      enqueueJob(jobId, () => handlePeaks(jobId, payload));
       break;
+    }
+
+    case 'spectrogram': {
+      const { jobId, payload } = msg;
+      enqueueJob(jobId, () => handleSpectrogram(jobId, payload));
+      break;
+    }
 
+    // 취소는 줄을 서지 않고 바로 반영해야 돌고 있는 작업을 멈출 수 있다.
     case 'cancel':
       handleCancel(msg.jobId);
       break;
@@ -10,6 +10,10 @@ import type {
   CutoutPayload,
   BurninPayload,
   ProbePayload,
+  PeaksPayload,
+  PeaksData,
+  SpectrogramPayload,
+  SpectrogramResult,
   WorkerRequest,
   WorkerResponse,
   JobHandle,
@@ -17,27 +21,62 @@ import type {
 
 const DEFAULT_TIMEOUT_MS = 5 * 60 * 1000;
 const INIT_TIMEOUT_MS = 60 * 1000;
+// 분석 작업은 입력 전체를 조각마다 디코딩하므로 영상 길이(실시간)만큼은 기다린다.
+const ANALYSIS_TIMEOUT_PER_MEDIA_MS = 1;
 
-type ClientState = {
-  isInitialized: boolean;
-  currentJobId: JobId | null;
-  worker: Worker | null;
-};
+type JobResult = CompletedData | ProbeData | PeaksData | SpectrogramResult;
+
+type JobType = 'trim' | 'cutout' | 'burnin' | 'probe' | 'peaks' | 'spectrogram';
+
+type JobPayload =
+  | TrimPayload
+  | CutoutPayload
+  | BurninPayload
+  | ProbePayload
+  | PeaksPayload
+  | SpectrogramPayload;
 
 type JobCallbacks = {
-  resolve: (data: CompletedData | ProbeData) => void;
+  resolve: (data: JobResult) => void;
   reject: (error: ErrorData) => void;
   onProgress?: (progress: ProgressData) => void;
   timeoutId?: ReturnType<typeof setTimeout>;
 };
 
+type QueuedJob = {
+  jobId: JobId;
+  type: JobType;
+  payload: JobPayload;
+  options: JobOptions;
+  callbacks: JobCallbacks;
+  /** 다른 작업에 자리를 내주려고 취소를 보냈다. 취소되면 다시 줄을 선다. */
+  preempted: boolean;
+};
+
+type ClientState = {
+  isInitialized: boolean;
+  currentJob: QueuedJob | null;
+  worker: Worker | null;
+};
+
 const state: ClientState = {
   isInitialized: false,
-  currentJobId: null,
+  currentJob: null,
   worker: null,
 };
 
+// 파형·스펙트로그램 같은 분석 작업은 내보내기 등 다른 작업이 오면 자리를 내준다.
+const ANALYSIS_JOB_TYPES: ReadonlySet<JobType> = new Set([
+  'peaks',
+  'spectrogram',
+]);
+
 const jobCallbacks = new Map<JobId, JobCallbacks>();
+// 워커는 한 번에 한 작업만 돌린다. 나머지는 여기서 차례를 기다린다.
+const jobQueue: QueuedJob[] = [];
+let initPromise: Promise<void> | null = null;
+// 같은 Blob으로 파형·스펙트로그램을 다시 요청하면 워커가 입력 파일을 재사용하도록 키를 붙인다.
+const analysisInputKeys = new WeakMap<Blob, string>();
 
 function generateJobId(): JobId {
   return crypto.randomUUID();
@@ -57,9 +96,124 @@ function cleanupJob(jobId: JobId) {
     clearTimeout(cb.timeoutId);
   }
   jobCallbacks.delete(jobId);
-  if (state.currentJobId === jobId) {
-    state.currentJobId = null;
+}
+
+/**
+ * 워커가 작업에 답(완료·오류·취소)했을 때만 자리를 비운다. 시간 초과로 호출자에게
+ * 먼저 실패를 알렸더라도 워커는 그 작업을 계속 돌리고 있을 수 있다.
+ */
+function releaseJob(jobId: JobId) {
+  if (state.currentJob?.jobId !== jobId) return;
+  state.currentJob = null;
+  runNextJob();
+}
+
+/** 자리를 내주려고 취소한 분석 작업이면 줄 끝에 다시 세우고 true를 돌려준다. */
+function requeuePreemptedJob(jobId: JobId): boolean {
+  const job = state.currentJob;
+  if (job?.jobId !== jobId || !job.preempted) return false;
+  // 그 사이 호출자가 시간 초과됐거나 직접 취소했으면 다시 돌리지 않는다.
+  if (!jobCallbacks.has(jobId) || job.options.signal?.aborted) return false;
+
+  cleanupJob(jobId);
+  jobQueue.push({ ...job, preempted: false });
+  releaseJob(jobId);
+  return true;
+}
+
+function isAnalysisJob(job: QueuedJob) {
+  return ANALYSIS_JOB_TYPES.has(job.type);
+}
+
+function runJob(job: QueuedJob) {
+  const { jobId, options, callbacks } = job;
+  const timeoutMs = options.timeoutMs ?? DEFAULT_TIMEOUT_MS;
+
+  callbacks.timeoutId = setTimeout(() => {
+    // 호출자에게는 바로 알리고, 자리는 워커가 취소에 답한 뒤에 비운다.
+    cleanupJob(jobId);
+    callbacks.reject(
+      createError('TIMEOUT', `Job timed out after ${timeoutMs / 1000} seconds.`)
+    );
+    postMessage({ type: 'cancel', jobId });
+  }, timeoutMs);
+
+  jobCallbacks.set(jobId, callbacks);
+  state.currentJob = job;
+
+  postMessage({
+    type: job.type,
+    jobId,
+    payload: job.payload,
+  } as WorkerRequest);
+}
+
+function runNextJob() {
+  if (state.currentJob || !state.worker) return;
+  const next = jobQueue.shift();
+  if (next) runJob(next);
+}
+
+/**
+ * 작업을 줄에 세운다. 분석이 아닌 작업은 기다리는 분석 작업보다 앞에 서고,
+ * 돌고 있는 분석 작업이 있으면 취소해 자리를 넘겨받는다.
+ */
+function enqueueJob(job: QueuedJob) {
+  if (isAnalysisJob(job)) {
+    jobQueue.push(job);
+  } else {
+    const firstAnalysis = jobQueue.findIndex(isAnalysisJob);
+    jobQueue.splice(
+      firstAnalysis < 0 ? jobQueue.length : firstAnalysis,
+      0,
+      job
+    );
+    const running = state.currentJob;
+    if (running && isAnalysisJob(running) && !running.preempted) {
+      running.preempted = true;
+      postMessage({ type: 'cancel', jobId: running.jobId });
+    }
   }
+  runNextJob();
+}
+
+/** 기다리는 작업은 줄에서 빼고, 돌고 있는 작업은 워커에 취소를 보낸다. */
+function cancelJob(jobId: JobId) {
+  const queued = jobQueue.findIndex((job) => job.jobId === jobId);
+  if (queued >= 0) {
+    const [job] = jobQueue.splice(queued, 1);
+    job.callbacks.reject(createError('CANCELLED', 'Job was cancelled'));
+    return;
+  }
+  if (state.currentJob?.jobId === jobId && jobCallbacks.has(jobId)) {
+    postMessage({ type: 'cancel', jobId });
+  }
+}
+
+function createJob<T extends JobResult>(
+  type: JobType,
+  payload: JobPayload,
+  options: JobOptions
+): { job: QueuedJob; promise: Promise<T> } {
+  let callbacks!: JobCallbacks;
+  const promise = new Promise<T>((resolve, reject) => {
+    callbacks = {
+      resolve: resolve as (data: JobResult) => void,
+      reject,
+      onProgress: options.onProgress,
+    };
+  });
+  return {
+    job: {
+      jobId: generateJobId(),
+      type,
+      payload,
+      options,
+      callbacks,
+      preempted: false,
+    },
+    promise,
+  };
 }
 
 function postMessage(msg: WorkerRequest) {
@@ -96,14 +250,18 @@ function handleWorkerMessage(event: MessageEvent<WorkerResponse>) {
         cb.resolve(completedData);
         cleanupJob(msg.jobId);
       }
+      releaseJob(msg.jobId);
       break;
     }
-    case 'probe-completed': {
+    case 'probe-completed':
+    case 'peaks-completed':
+    case 'spectrogram-completed': {
       const cb = jobCallbacks.get(msg.jobId);
       if (cb) {
         cb.resolve(msg.data);
         cleanupJob(msg.jobId);
       }
+      releaseJob(msg.jobId);
       break;
     }
     case 'error': {
@@ -112,14 +270,17 @@ function handleWorkerMessage(event: MessageEvent<WorkerResponse>) {
         cb.reject(msg.data);
         cleanupJob(msg.jobId);
       }
+      releaseJob(msg.jobId);
       break;
     }
     case 'cancelled': {
+      if (requeuePreemptedJob(msg.jobId)) break;
       const cb = jobCallbacks.get(msg.jobId);
       if (cb) {
         cb.reject(createError('CANCELLED', 'Job was cancelled'));
         cleanupJob(msg.jobId);
       }
+      releaseJob(msg.jobId);
       break;
     }
   }
@@ -131,8 +292,16 @@ function handleWorkerError(event: ErrorEvent) {
     cb.reject(createError('UNKNOWN', 'Worker crashed', event.message));
     cleanupJob(jobId);
   }
+  rejectQueuedJobs(createError('UNKNOWN', 'Worker crashed', event.message));
   state.isInitialized = false;
   state.worker = null;
+  state.currentJob = null;
+}
+
+function rejectQueuedJobs(error: ErrorData) {
+  for (const job of jobQueue.splice(0)) {
+    job.callbacks.reject(error);
+  }
 }
 
 export async function initFFmpegWorker(): Promise<void> {
@@ -142,6 +311,14 @@ export async function initFFmpegWorker(): Promise<void> {
     return;
   }
 
+  // 업로드, 내보내기, 파형 추출이 동시에 초기화를 요청해도 워커는 하나만 띄운다.
+  initPromise ??= createFFmpegWorker().finally(() => {
+    initPromise = null;
+  });
+  return initPromise;
+}
+
+function createFFmpegWorker(): Promise<void> {
   if (state.worker) {
     console.log('[ffmpeg.client] Terminating existing worker');
     state.worker.terminate();
@@ -249,6 +426,7 @@ export function terminateFFmpegWorker(): void {
     cb.reject(createError('CANCELLED', 'Worker terminated'));
     cleanupJob(jobId);
   }
+  rejectQueuedJobs(createError('CANCELLED', 'Worker terminated'));
 
   if (state.worker) {
     state.worker.terminate();
@@ -256,7 +434,7 @@ export function terminateFFmpegWorker(): void {
   }
 
   state.isInitialized = false;
-  state.currentJobId = null;
+  state.currentJob = null;
 }
 
 export function isFFmpegReady(): boolean {
@@ -264,12 +442,16 @@ export function isFFmpegReady(): boolean {
 }
 
 export function isJobRunning(): boolean {
-  return state.currentJobId !== null;
+  return state.currentJob !== null;
 }
 
-async function startJob<T extends CompletedData | ProbeData>(
-  type: 'trim' | 'cutout' | 'burnin' | 'probe',
-  payload: TrimPayload | CutoutPayload | BurninPayload | ProbePayload,
+/**
+ * 작업을 줄에 세우고 결과를 기다린다. 다른 작업이 돌고 있으면 끝날 때까지 기다리며,
+ * 제한 시간은 실제로 시작한 뒤부터 센다.
+ */
+async function startJob<T extends JobResult>(
+  type: JobType,
+  payload: JobPayload,
   options: JobOptions = {}
 ): Promise<T> {
   if (!state.isInitialized || !state.worker) {
@@ -279,43 +461,16 @@ async function startJob<T extends CompletedData | ProbeData>(
     );
   }
 
-  if (state.currentJobId !== null) {
-    throw createError(
-      'INVALID_ARGS',
-      'Another job is running. Wait or cancel first.'
-    );
+  if (options.signal?.aborted) {
+    throw createError('CANCELLED', 'Job was cancelled');
   }
 
-  const jobId = generateJobId();
-  const timeoutMs = options.timeoutMs ?? DEFAULT_TIMEOUT_MS;
-
-  return new Promise<T>((resolve, reject) => {
-    const timeoutId = setTimeout(() => {
-      cleanupJob(jobId);
-      reject(
-        createError(
-          'TIMEOUT',
-          `Job timed out after ${timeoutMs / 1000} seconds.`
-        )
-      );
-      postMessage({ type: 'cancel', jobId });
-    }, timeoutMs);
-
-    jobCallbacks.set(jobId, {
-      resolve: resolve as (data: CompletedData | ProbeData) => void,
-      reject,
-      onProgress: options.onProgress,
-      timeoutId,
-    });
-
-    state.currentJobId = jobId;
-
-    postMessage({
-      type,
-      jobId,
-      payload,
-    } as WorkerRequest);
+  const { job, promise } = createJob<T>(type, payload, options);
+  options.signal?.addEventListener('abort', () => cancelJob(job.jobId), {
+    once: true,
   });
+  enqueueJob(job);
+  return promise;
 }
 
 export async function trimVideo(
@@ -349,56 +504,86 @@ export async function probeVideo(
   return startJob<ProbeData>('probe', payload, options);
 }
 
-export function cancelCurrentJob(): void {
-  if (state.currentJobId && state.worker) {
-    postMessage({ type: 'cancel', jobId: state.currentJobId });
+/** 영상 길이에 비례한 분석 작업 제한 시간. 길이를 모르면 기본값을 쓴다. */
+export function analysisTimeoutMs(durationMs?: number | null): number {
+  if (!durationMs || !Number.isFinite(durationMs) || durationMs <= 0) {
+    return DEFAULT_TIMEOUT_MS;
   }
+  return Math.max(
+    DEFAULT_TIMEOUT_MS,
+    Math.ceil(durationMs * ANALYSIS_TIMEOUT_PER_MEDIA_MS)
+  );
 }
 
-export function startExportWithHandle(
-  payload: BurninPayload,
-  options: JobOptions = {}
-): JobHandle & { promise: Promise<CompletedData> } {
-  const jobId = generateJobId();
+function analysisInputKey(blob: Blob): string {
+  let key = analysisInputKeys.get(blob);
+  if (!key) {
+    key = generateJobId();
+    analysisInputKeys.set(blob, key);
+  }
+  return key;
+}
 
-  const promise = new Promise<CompletedData>((resolve, reject) => {
-    if (!state.isInitialized || !state.worker) {
-      reject(createError('NOT_READY', 'FFmpeg worker not initialized.'));
-      return;
-    }
-    if (state.currentJobId !== null) {
-      reject(createError('INVALID_ARGS', 'Another job is running.'));
-      return;
-    }
+/**
+ * 오디오를 조각 단위로 디코딩해 파형 피크를 계산한다. PCM은 워커 밖으로 나오지 않고
+ * 피크(와 피라미드)만 전달된다.
+ */
+export async function extractWaveformPeaks(
+  payload: PeaksPayload,
+  options: JobOptions = {}
+): Promise<PeaksData> {
+  return startJob<PeaksData>(
+    'peaks',
+    { ...payload, inputKey: analysisInputKey(payload.inputBlob) },
+    options
+  );
+}
 
-    const timeoutMs = options.timeoutMs ?? DEFAULT_TIMEOUT_MS;
-    const timeoutId = setTimeout(() => {
-      cleanupJob(jobId);
-      reject(createError('TIMEOUT', `Job timed out.`));
-      postMessage({ type: 'cancel', jobId });
-    }, timeoutMs);
+/**
+ * 오디오를 조각 단위로 디코딩해 STFT 스펙트로그램을 계산한다. 파형 추출과 같은
+ * 입력 파일을 재사용한다.
+ */
+export async function extractSpectrogram(
+  payload: SpectrogramPayload,
+  options: JobOptions = {}
+): Promise<SpectrogramResult> {
+  return startJob<SpectrogramResult>(
+    'spectrogram',
+    { ...payload, inputKey: analysisInputKey(payload.inputBlob) },
+    options
+  );
+}
 
-    jobCallbacks.set(jobId, {
-      resolve: resolve as (data: CompletedData | ProbeData) => void,
-      reject,
-      onProgress: options.onProgress,
-      timeoutId,
-    });
+/**
+ * 돌고 있는 작업을 취소한다. 돌고 있는 작업이 자리를 내주는 중인 분석 작업이면
+ * 그 자리를 기다리는 작업을 대신 취소한다.
+ */
+export function cancelCurrentJob(): void {
+  const current = state.currentJob;
+  if (!current || !state.worker) return;
+  const target = current.preempted ? jobQueue[0] : current;
+  if (target) cancelJob(target.jobId);
+}
 
-    state.currentJobId = jobId;
+export function startExportWithHandle(
+  payload: BurninPayload,
+  options: JobOptions = {}
+): JobHandle & { promise: Promise<CompletedData> } {
+  const { job, promise } = createJob<CompletedData>('burnin', payload, options);
 
-    postMessage({
-      type: 'burnin',
-      jobId,
-      payload,
-    });
-  });
+  if (!state.isInitialized || !state.worker) {
+    job.callbacks.reject(
+      createError('NOT_READY', 'FFmpeg worker not initialized.')
+    );
+  } else {
+    enqueueJob(job);
+  }
 
   return {
-    jobId,
+    jobId: job.jobId,
     cancel: () => {
       if (state.worker) {
-        postMessage({ type: 'cancel', jobId });
+        cancelJob(job.jobId);
       }
     },
     promise,
@@ -1,36 +1,84 @@
+import type { SpectrogramData } from '@/lib/spectrogram';
+import type { ChannelPeaks } from '@/lib/waveformPeaks';
+
 export type JobId = string;
 
+/** 한쪽 채널만 살려 양쪽으로 복제할 때 쓸 채널 */
+export type AudioChannelSelection = 'left' | 'right';
+
 export type TrimPayload = {
   inputBlob: Blob;
   startMs: number;
   endMs?: number | null;
   outputFormat?: 'mp4' | 'webm';
+  /** FFmpeg -vf filter chain; forces re-encoding instead of stream copy */
+  videoFilter?: string;
+  /** Keep only this channel (duplicated to both sides); re-encodes audio */
+  audioChannel?: AudioChannelSelection;
+};
+
+export type CutRange = {
+  startMs: number;
+  endMs: number;
 };
 
 export type CutoutPayload = {
   inputBlob: Blob;
-  /** Start of the section to remove (ms) */
-  cutStartMs: number;
-  /** End of the section to remove (ms) */
-  cutEndMs: number;
+  /** Sections to remove (ms); may be unsorted or overlapping */
+  cutRanges: CutRange[];
   /** Total duration of the video (ms) */
   durationMs: number;
   outputFormat?: 'mp4' | 'webm';
+  /** FFmpeg -vf filter chain applied to every kept segment */
+  videoFilter?: string;
+  /** ASS content already re-timed to the output timeline */
+  assContent?: string;
+  audioChannel?: AudioChannelSelection;
 };
 
 export type BurninPayload = {
   inputBlob: Blob;
   startMs: number;
   endMs?: number | null;
-  srtContent: string;
+  assContent: string;
   outputFormat?: 'mp4' | 'webm';
   videoFilter?: string;
+  audioChannel?: AudioChannelSelection;
 };
 
 export type ProbePayload = {
   inputBlob: Blob;
 };
 
+export type PeaksPayload = {
+  inputBlob: Blob;
+  bucketCount: number;
+  mode?: 'peaks' | 'rms';
+  pyramidLevels?: number;
+  /** 알고 있으면 길이 분석 단계를 건너뛴다 */
+  durationMs?: number;
+  /** 지정하면 이 구간만 계산한다. 확대 보기에서 촘촘한 피크를 얻을 때 쓴다. */
+  startMs?: number;
+  endMs?: number;
+  /**
+   * 같은 입력이면 워커가 FS에 써 둔 파일을 다시 쓴다. `extractWaveformPeaks`가
+   * Blob마다 채운다.
+   */
+  inputKey?: string;
+  /** 채널별 피크도 함께 계산한다. 구간(`startMs`/`endMs`) 계산에는 쓰지 않는다. */
+  splitChannels?: boolean;
+};
+
+export type SpectrogramPayload = Pick<
+  PeaksPayload,
+  'inputBlob' | 'durationMs' | 'inputKey'
+> & {
+  /** 시간축 열 수 */
+  columns: number;
+  /** 2의 거듭제곱. 기본 1024 */
+  fftSize?: number;
+};
+
 export type ProgressData = {
   progress: number;
   processedMs?: number;
@@ -45,12 +93,34 @@ export type CompletedData = {
 
 export type ProbeData = {
   durationMs: number;
+  /** Display width after applying rotation */
   width: number;
+  /** Display height after applying rotation */
   height: number;
+  /** Video codec (kept for backwards compatibility, same as videoCodec) */
   codec?: string;
+  /** Overall container bitrate (bits per second) */
   bitrate?: number;
+  frameRate?: number;
+  videoCodec?: string;
+  audioCodec?: string;
+  /** Clockwise rotation in degrees (0, 90, 180, 270) */
+  rotation?: number;
+  audioChannels?: number;
+  audioSampleRate?: number;
 };
 
+export type PeaksData = {
+  peaks: Int16Array;
+  /** `pyramidLevels`가 2 이상일 때만 채워진다. 0번 레벨은 `peaks`와 같다. */
+  pyramid: Int16Array[] | null;
+  /** `splitChannels`이고 입력이 2채널 이상일 때만 채워진다. */
+  channels: ChannelPeaks[] | null;
+  elapsedMs: number;
+};
+
+export type SpectrogramResult = SpectrogramData & { elapsedMs: number };
+
 export type FFmpegErrorCode =
   | 'INIT_FAILED'
   | 'INPUT_ERROR'
@@ -71,6 +141,8 @@ export type ErrorData = {
 export type JobOptions = {
   onProgress?: (progress: ProgressData) => void;
   timeoutMs?: number;
+  /** 중단되면 워커에 취소를 요청한다. 결과는 CANCELLED 오류로 끝난다. */
+  signal?: AbortSignal;
 };
 
 export type JobHandle = {
@@ -84,6 +156,8 @@ export type WorkerRequest =
   | { type: 'cutout'; jobId: JobId; payload: CutoutPayload }
   | { type: 'burnin'; jobId: JobId; payload: BurninPayload }
   | { type: 'probe'; jobId: JobId; payload: ProbePayload }
+  | { type: 'peaks'; jobId: JobId; payload: PeaksPayload }
+  | { type: 'spectrogram'; jobId: JobId; payload: SpectrogramPayload }
   | { type: 'cancel'; jobId: JobId };
 
 export type WorkerResponse =
@@ -97,5 +171,7 @@ export type WorkerResponse =
       data: { outputBuffer: ArrayBuffer; mime: string; elapsedMs: number };
     }
   | { type: 'probe-completed'; jobId: JobId; data: ProbeData }
+  | { type: 'peaks-completed'; jobId: JobId; data: PeaksData }
+  | { type: 'spectrogram-completed'; jobId: JobId; data: SpectrogramResult }
   | { type: 'error'; jobId: JobId; data: ErrorData }
   | { type: 'cancelled'; jobId: JobId };
@@ -14,19 +14,48 @@ export {
   cutoutVideo,
   exportWithSubtitles,
   probeVideo,
+  extractWaveformPeaks,
+  extractSpectrogram,
+  analysisTimeoutMs,
   cancelCurrentJob,
 } from './ffmpegClient';
 
-export { captionsToSrt, adjustSrtForTrim, formatSrtTimecode } from './srtUtils';
+export {
+  captionsToSrt,
+  adjustSrtForTrim,
+  captionsToAss,
+  adjustAssForCutout,
+  formatSrtTimecode,
+} from './srtUtils';
+export type { AssExportOptions } from './srtUtils';
+export { toAssColor, escapeAssText } from './assStyle';
+export {
+  normalizeCutRanges,
+  computeKeepSegments,
+  mapTimeThroughCuts,
+  retimeCaptionsForCuts,
+  subtractCutRange,
+  isRangeCut,
+  wordCutRange,
+  stripCutWords,
+} from './cutRanges';
+export { parseProbeLog, normalizeFrameRate } from './probeParser';
+export { buildChannelPanFilter } from './audioFilter';
 
 export type {
   JobId,
+  AudioChannelSelection,
   ProgressData,
   CompletedData,
   ProbeData,
   ErrorData,
   JobOptions,
   TrimPayload,
+  CutRange,
   CutoutPayload,
   BurninPayload,
+  PeaksPayload,
+  PeaksData,
+  SpectrogramPayload,
+  SpectrogramResult,
 } from './ffmpegTypes';
@@ -0,0 +1,165 @@
+import type { ProbeData } from './ffmpegTypes';
+
+/**
+ * `ffmpeg -i <file>` 실행 시 출력되는 로그에서 미디어 정보를 추출한다.
+ *
+ * 예시 로그:
+ *   Duration: 00:00:10.05, start: 0.000000, bitrate: 1234 kb/s
+ *   Stream #0:0(und): Video: h264 (High) (avc1 / 0x31637661), yuv420p, 1920x1080 [SAR 1:1 DAR 16:9], 29.97 fps, ...
+ *       displaymatrix: rotation of -90.00 degrees
+ *   Stream #0:1(und): Audio: aac (LC) (mp4a / 0x6134706D), 48000 Hz, stereo, fltp, 128 kb/s
+ */
+
+const DURATION_RE = /Duration:\s*(\d+):(\d{2}):(\d{2}(?:\.\d+)?)/;
+const BITRATE_RE = /bitrate:\s*(\d+)\s*kb\/s/;
+const STREAM_RE =
+  /^\s*Stream #\d+:\d+.*?:\s*(Video|Audio|Subtitle|Data):\s*(.*)$/;
+const RESOLUTION_RE = /(?:^|[\s,])(\d{2,5})x(\d{2,5})(?=[\s,[]|$)/;
+const FPS_RE = /([\d.]+)\s*fps/;
+const TBR_RE = /([\d.]+)(k?)\s*tbr/;
+const SAMPLE_RATE_RE = /(\d+)\s*Hz/;
+const DISPLAY_MATRIX_RE = /rotation of\s*(-?[\d.]+)\s*degrees/;
+const ROTATE_TAG_RE = /^\s*rotate\s*:\s*(-?\d+)/;
+
+const CHANNEL_LAYOUTS: Record<string, number> = {
+  mono: 1,
+  stereo: 2,
+  '2.1': 3,
+  '3.0': 3,
+  quad: 4,
+  '4.0': 4,
+  '5.0': 5,
+  '5.1': 6,
+  '6.1': 7,
+  '7.1': 8,
+};
+
+// 흔히 쓰이는 NTSC 계열 프레임레이트는 로그에 반올림되어 찍히므로 정확한 분수로 복원한다.
+const NTSC_FRAME_RATES = [24000 / 1001, 30000 / 1001, 60000 / 1001];
+
+export function normalizeFrameRate(fps: number): number {
+  if (!Number.isFinite(fps) || fps <= 0) return 0;
+  for (const exact of NTSC_FRAME_RATES) {
+    if (Math.abs(fps - exact) < 0.01) return exact;
+  }
+  return fps;
+}
+
+function normalizeRotation(clockwiseDegrees: number): number {
+  const snapped = Math.round(clockwiseDegrees / 90) * 90;
+  return ((snapped % 360) + 360) % 360;
+}
+
+function parseChannels(detail: string): number | undefined {
+  const parts = detail.split(',').map((p) => p.trim());
+  const hzIndex = parts.findIndex((p) => SAMPLE_RATE_RE.test(p));
+  const layout = hzIndex >= 0 ? parts[hzIndex + 1] : undefined;
+  if (!layout) return undefined;
+
+  const explicit = /^(\d+)\s*channels?/.exec(layout);
+  if (explicit) return Number(explicit[1]);
+
+  const base = layout.replace(/\(.*\)$/, '');
+  return CHANNEL_LAYOUTS[base];
+}
+
+function parseCodec(detail: string): string {
+  const token = detail.split(/[\s,]/)[0];
+  return token || 'unknown';
+}
+
+function parseVideoFrameRate(detail: string): number | undefined {
+  const fps = FPS_RE.exec(detail);
+  if (fps) return normalizeFrameRate(Number(fps[1]));
+
+  const tbr = TBR_RE.exec(detail);
+  if (tbr) {
+    const value = Number(tbr[1]) * (tbr[2] === 'k' ? 1000 : 1);
+    return normalizeFrameRate(value);
+  }
+  return undefined;
+}
+
+/**
+ * `width`/`height`는 회전을 반영한 화면 표시 기준 크기이고,
+ * `rotation`은 시계 방향 0/90/180/270 값이다.
+ */
+export function parseProbeLog(lines: string[]): ProbeData {
+  const result: ProbeData = {
+    durationMs: 0,
+    width: 0,
+    height: 0,
+    codec: 'unknown',
+  };
+
+  let currentStream: 'video' | 'audio' | 'other' | null = null;
+  let seenVideo = false;
+  let seenAudio = false;
+  let codedWidth = 0;
+  let codedHeight = 0;
+  let rotation: number | undefined;
+
+  for (const line of lines) {
+    const duration = DURATION_RE.exec(line);
+    if (duration) {
+      const [, h, m, s] = duration;
+      result.durationMs = Math.round(
+        (Number(h) * 3600 + Number(m) * 60 + Number(s)) * 1000
+      );
+      const bitrate = BITRATE_RE.exec(line);
+      if (bitrate) result.bitrate = Number(bitrate[1]) * 1000;
+      continue;
+    }
+
+    const stream = STREAM_RE.exec(line);
+    if (stream) {
+      const [, kind, detail] = stream;
+
+      if (kind === 'Video' && !seenVideo) {
+        seenVideo = true;
+        currentStream = 'video';
+        result.videoCodec = parseCodec(detail);
+        result.codec = result.videoCodec;
+        const size = RESOLUTION_RE.exec(detail);
+        if (size) {
+          codedWidth = Number(size[1]);
+          codedHeight = Number(size[2]);
+        }
+        const fps = parseVideoFrameRate(detail);
+        if (fps) result.frameRate = fps;
+      } else if (kind === 'Audio' && !seenAudio) {
+        seenAudio = true;
+        currentStream = 'audio';
+        result.audioCodec = parseCodec(detail);
+        const sampleRate = SAMPLE_RATE_RE.exec(detail);
+        if (sampleRate) result.audioSampleRate = Number(sampleRate[1]);
+        const channels = parseChannels(detail);
+        if (channels) result.audioChannels = channels;
+      } else {
+        currentStream = 'other';
+      }
+      continue;
+    }
+
+    if (currentStream !== 'video' || rotation !== undefined) continue;
+
+    // displaymatrix는 반시계 방향 각도를 출력한다.
+    const matrix = DISPLAY_MATRIX_RE.exec(line);
+    if (matrix) {
+      rotation = normalizeRotation(-Number(matrix[1]));
+      continue;
+    }
+
+    const rotateTag = ROTATE_TAG_RE.exec(line);
+    if (rotateTag) {
+      rotation = normalizeRotation(Number(rotateTag[1]));
+    }
+  }
+
+  const quarterTurn = rotation === 90 || rotation === 270;
+  result.width = quarterTurn ? codedHeight : codedWidth;
+  result.height = quarterTurn ? codedWidth : codedHeight;
+  if (seenVideo) result.rotation = rotation ?? 0;
+
+  return result;
+}
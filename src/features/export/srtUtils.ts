@@ -1,4 +1,14 @@
-import type { Caption } from '@/data/types';
+import type { Caption, CaptionStyle } from '@/data/types';
+import {
+  CAPTION_STYLE_REFERENCE_HEIGHT,
+  DEFAULT_CAPTION_STYLE,
+  resolveCaptionStyle,
+} from '@/features/captions/captionStyle';
+import { computeFallbackWordTimings } from '@/features/captions/wordHighlight';
+
+import { buildAssStyleLine, escapeAssText } from './assStyle';
+import { retimeCaptionsForCuts } from './cutRanges';
+import type { CutRange } from './ffmpegTypes';
 
 export function formatSrtTimecode(ms: number): string {
   const hours = Math.floor(ms / 3600000);
@@ -30,39 +40,112 @@ export function captionsToSrt(captions: Caption[]): string {
     .join('\n\n');
 }
 
-export function captionsToAss(captions: Caption[]): string {
+export type AssExportOptions = {
+  /** 비디오 기본 스타일. 자막별 `style` 오버라이드는 이 값 위에 덮어쓴다. */
+  defaultStyle?: CaptionStyle;
+  /** 스크립트 좌표계 너비. 영상 비율에 맞추지 않으면 libass가 가로로 늘린다. */
+  playResX?: number;
+  playResY?: number;
+  /**
+   * 단어 타이밍을 카라오케 태그로 내보낸다.
+   * `k`는 단어가 시작될 때 한 번에, `kf`는 단어 길이 동안 채우듯 강조색으로 바뀐다.
+   */
+  karaoke?: 'k' | 'kf' | null;
+};
+
+const DEFAULT_PLAY_RES_X = 1280;
+
+export function captionsToAss(
+  captions: Caption[],
+  options: AssExportOptions = {}
+): string {
   if (captions.length === 0) return '';
 
   const sorted = [...captions].sort((a, b) => a.startMs - b.startMs);
+  const defaultStyle = options.defaultStyle ?? DEFAULT_CAPTION_STYLE;
+  const playResX = Math.round(options.playResX ?? DEFAULT_PLAY_RES_X);
+  const playResY = Math.round(
+    options.playResY ?? CAPTION_STYLE_REFERENCE_HEIGHT
+  );
+
+  // 같은 모양의 오버라이드는 하나의 이름 있는 스타일로 묶는다.
+  const karaoke = options.karaoke ?? null;
+  const styleLines = [
+    buildAssStyleLine('Default', defaultStyle, Boolean(karaoke)),
+  ];
+  const styleNames = new Map<string, string>();
+  const styleNameFor = (caption: Caption): string => {
+    if (!caption.style || Object.keys(caption.style).length === 0) {
+      return 'Default';
+    }
+    const resolved = resolveCaptionStyle(defaultStyle, caption.style);
+    const key = JSON.stringify(resolved);
+    let name = styleNames.get(key);
+    if (!name) {
+      name = `Custom${styleNames.size + 1}`;
+      styleNames.set(key, name);
+      styleLines.push(buildAssStyleLine(name, resolved, Boolean(karaoke)));
+    }
+    return name;
+  };
+
+  const events = sorted
+    .map((caption) => {
+      const startTime = formatAssTimecode(caption.startMs);
+      const endTime = formatAssTimecode(caption.endMs);
+      const text = karaoke
+        ? buildKaraokeText(caption, karaoke)
+        : escapeAssText(caption.text);
+      const styleName = styleNameFor(caption);
+
+      return `Dialogue: 0,${startTime},${endTime},${styleName},,0,0,0,,${text}`;
+    })
+    .join('\n');
 
   const header = `[Script Info]
 Title: Generated by VREW
 ScriptType: v4.00+
 WrapStyle: 0
 ScaledBorderAndShadow: yes
-PlayResX: 1280
-PlayResY: 720
+PlayResX: ${playResX}
+PlayResY: ${playResY}
 YCbCr Matrix: None
 
 [V4+ Styles]
 Format: Name, Fontname, Fontsize, PrimaryColour, SecondaryColour, OutlineColour, BackColour, Bold, Italic, Underline, StrikeOut, ScaleX, ScaleY, Spacing, Angle, BorderStyle, Outline, Shadow, Alignment, MarginL, MarginR, MarginV, Encoding
-Style: Default,DejaVuSans,24,&H00FFFFFF,&H000000FF,&H00000000,&H00000000,0,0,0,0,100,100,0,0,1,2,0,2,10,10,10,1
+${styleLines.join('\n')}
 
 [Events]
 Format: Layer, Start, End, Style, Name, MarginL, MarginR, MarginV, Effect, Text
 `;
 
-  const events = sorted
-    .map((caption) => {
-      const startTime = formatAssTimecode(caption.startMs);
-      const endTime = formatAssTimecode(caption.endMs);
-      const text = caption.text.trim();
+  return header + events;
+}
 
-      return `Dialogue: 0,${startTime},${endTime},Default,,0,0,0,,${text}`;
-    })
-    .join('\n');
+function toCentiseconds(ms: number): number {
+  return Math.max(0, Math.round(ms / 10));
+}
 
-  return header + events;
+/**
+ * 단어마다 `{\k<센티초>}`를 붙이고, 단어 사이의 빈 시간은 빈 음절로 채워
+ * 강조 시점이 단어 타이밍과 어긋나지 않게 한다.
+ */
+function buildKaraokeText(caption: Caption, tag: 'k' | 'kf'): string {
+  const words = computeFallbackWordTimings(caption);
+  if (words.length === 0) return escapeAssText(caption.text);
+
+  let cursor = caption.startMs;
+  const parts = words.map((word, index) => {
+    const gap = toCentiseconds(word.startMs - cursor);
+    const start = Math.max(word.startMs, cursor);
+    const duration = toCentiseconds(word.endMs - start);
+    cursor = Math.max(cursor, word.endMs);
+
+    const spacer = index < words.length - 1 ? ' ' : '';
+    const lead = gap > 0 ? `{\\k${gap}}` : '';
+    return `${lead}{\\${tag}${duration}}${escapeAssText(word.text)}${spacer}`;
+  });
+  return parts.join('');
 }
 
 function formatAssTimecode(ms: number): string {
@@ -74,38 +157,62 @@ function formatAssTimecode(ms: number): string {
   return `${hours.toString().padStart(1, '0')}:${minutes.toString().padStart(2, '0')}:${seconds.toString().padStart(2, '0')}.${centiseconds.toString().padStart(2, '0')}`;
 }
 
+/**
+ * 트림 구간에 걸친 자막만 남기고 자막/단어 시간을 구간 시작 기준으로 옮긴다.
+ */
+function trimCaptions(
+  captions: Caption[],
+  trimStartMs: number,
+  trimEndMs: number
+): Caption[] {
+  const lengthMs = trimEndMs - trimStartMs;
+  const shift = (ms: number) =>
+    Math.min(lengthMs, Math.max(0, ms - trimStartMs));
+
+  return captions
+    .filter((c) => c.startMs < trimEndMs && c.endMs > trimStartMs)
+    .map((c) => {
+      const words = c.words
+        ?.map((w) => ({
+          ...w,
+          startMs: shift(w.startMs),
+          endMs: shift(w.endMs),
+        }))
+        .filter((w) => w.endMs > w.startMs);
+      return {
+        ...c,
+        startMs: shift(c.startMs),
+        endMs: shift(c.endMs),
+        ...(words ? { words } : {}),
+      };
+    });
+}
+
 export function adjustSrtForTrim(
   captions: Caption[],
   trimStartMs: number,
   trimEndMs: number
 ): string {
-  const filtered = captions.filter((c) => {
-    return c.startMs < trimEndMs && c.endMs > trimStartMs;
-  });
-
-  const adjusted = filtered.map((c) => ({
-    ...c,
-    startMs: Math.max(0, c.startMs - trimStartMs),
-    endMs: Math.min(trimEndMs - trimStartMs, c.endMs - trimStartMs),
-  }));
-
-  return captionsToSrt(adjusted);
+  return captionsToSrt(trimCaptions(captions, trimStartMs, trimEndMs));
 }
 
 export function adjustAssForTrim(
   captions: Caption[],
   trimStartMs: number,
-  trimEndMs: number
+  trimEndMs: number,
+  options?: AssExportOptions
 ): string {
-  const filtered = captions.filter((c) => {
-    return c.startMs < trimEndMs && c.endMs > trimStartMs;
-  });
-
-  const adjusted = filtered.map((c) => ({
-    ...c,
-    startMs: Math.max(0, c.startMs - trimStartMs),
-    endMs: Math.min(trimEndMs - trimStartMs, c.endMs - trimStartMs),
-  }));
+  return captionsToAss(trimCaptions(captions, trimStartMs, trimEndMs), options);
+}
 
-  return captionsToAss(adjusted);
+export function adjustAssForCutout(
+  captions: Caption[],
+  cutRanges: CutRange[],
+  durationMs: number,
+  options?: AssExportOptions
+): string {
+  return captionsToAss(
+    retimeCaptionsForCuts(captions, cutRanges, durationMs),
+    options
+  );
 }
@@ -1,7 +1,14 @@
 import { useCallback, useEffect, useRef, useState } from 'react';
 
-import type { Caption } from '@/data/types';
-import type { ProgressData, CompletedData, ErrorData } from './ffmpegTypes';
+import type { Caption, CaptionStyle } from '@/data/types';
+import type { EditDecisionList } from '@/features/playback/editDecisionList';
+import type {
+  AudioChannelSelection,
+  ProgressData,
+  CompletedData,
+  CutRange,
+  ErrorData,
+} from './ffmpegTypes';
 import {
   initFFmpegWorker,
   isFFmpegReady,
@@ -10,7 +17,11 @@ import {
   cutoutVideo,
   cancelCurrentJob,
 } from './ffmpegClient';
-import { adjustAssForTrim } from './srtUtils';
+import {
+  adjustAssForCutout,
+  adjustAssForTrim,
+  type AssExportOptions,
+} from './srtUtils';
 
 export type ExportState = {
   status: 'idle' | 'initializing' | 'exporting' | 'completed' | 'error';
@@ -29,7 +40,19 @@ export type ExportOptions = {
   videoFilter?: string;
   outputFormat?: 'mp4' | 'webm';
   exportMode?: 'trim' | 'cutout';
+  /** Per-video default caption style (`[V4+ Styles]` Default) */
+  captionStyle?: CaptionStyle;
+  /** Display size of the source video, used to match the ASS PlayRes aspect */
+  videoSize?: { width: number; height: number } | null;
+  /** Sections to remove in cutout mode; falls back to trimRange when empty */
+  cutRanges?: CutRange[];
   durationMs?: number | null;
+  /** Edit decision list shared with the preview; used when cutRanges/durationMs are omitted */
+  edl?: EditDecisionList | null;
+  /** Burn word timings in as ASS karaoke (`\kf`) so the active word is highlighted */
+  wordHighlight?: boolean;
+  /** Keep only one channel of a one-sided recording, duplicated to both sides */
+  audioChannel?: AudioChannelSelection | null;
 };
 
 export type UseVideoExportReturn = {
@@ -108,8 +131,14 @@ export function useVideoExport(): UseVideoExportReturn {
         videoFilter,
         outputFormat = 'mp4',
         exportMode = 'trim',
-        durationMs = 0,
+        edl,
+        cutRanges = edl?.removed ?? [],
+        durationMs = edl?.sourceDurationMs ?? 0,
+        captionStyle,
+        videoSize,
+        wordHighlight = false,
       } = options;
+      const audioChannel = options.audioChannel ?? undefined;
 
       if (!isFFmpegReady()) {
         console.error('[export] FFmpeg not ready');
@@ -131,32 +160,103 @@ export function useVideoExport(): UseVideoExportReturn {
         const hasTrim = trimRange && endMs > startMs;
         console.log('[export] Trim range:', { startMs, endMs, hasTrim });
 
+        const assOptions: AssExportOptions = {
+          defaultStyle: captionStyle,
+          playResX:
+            videoSize && videoSize.width > 0 && videoSize.height > 0
+              ? (720 * videoSize.width) / videoSize.height
+              : undefined,
+          playResY: 720,
+          karaoke: wordHighlight ? 'kf' : null,
+        };
+
+        // 제거 구간 목록이 없으면 현재 트림 구간 하나를 제거한다.
+        const removeRanges =
+          cutRanges.length > 0
+            ? cutRanges
+            : hasTrim
+              ? [{ startMs, endMs }]
+              : [];
+
         let result: CompletedData;
 
-        if (!hasTrim) {
+        if (exportMode === 'cutout' && removeRanges.length > 0) {
+          // 길이를 모르면 마지막 제거 구간 뒤를 남길 수 없으므로 시작하지 않는다.
+          const totalMs = durationMs ?? 0;
+          if (totalMs <= 0) {
+            setState({
+              status: 'error',
+              progress: 0,
+              error:
+                '영상 길이를 아직 알 수 없어 구간을 제거할 수 없습니다. 영상을 불러온 뒤 다시 시도하세요.',
+            });
+            return;
+          }
+          const assContent =
+            includeSubtitles && captions.length > 0
+              ? adjustAssForCutout(captions, removeRanges, totalMs, assOptions)
+              : '';
+
+          result = await cutoutVideo(
+            {
+              inputBlob: videoBlob,
+              cutRanges: removeRanges,
+              durationMs: totalMs,
+              outputFormat,
+              videoFilter,
+              assContent: assContent || undefined,
+              audioChannel,
+            },
+            { onProgress: handleProgress }
+          );
           setState({
             status: 'completed',
             progress: 1,
-            outputBlob: videoBlob,
-            elapsedMs: 0,
+            outputBlob: result.outputBlob,
+            elapsedMs: result.elapsedMs,
           });
           return;
         }
 
-        if (exportMode === 'cutout') {
-          // Cutout does not support subtitles
-          result = await cutoutVideo(
+        if (!hasTrim && (videoFilter || audioChannel)) {
+          // 구간 지정 없이 필터만 적용하는 경우 전체 영상을 재인코딩한다.
+          result = await trimVideo(
             {
               inputBlob: videoBlob,
-              cutStartMs: startMs,
-              cutEndMs: endMs,
-              durationMs: durationMs || 0,
+              startMs: 0,
+              endMs: null,
               outputFormat,
+              videoFilter,
+              audioChannel,
             },
             { onProgress: handleProgress }
           );
-        } else if (includeSubtitles && captions.length > 0) {
-          const assContent = adjustAssForTrim(captions, startMs, endMs);
+          setState({
+            status: 'completed',
+            progress: 1,
+            outputBlob: result.outputBlob,
+            elapsedMs: result.elapsedMs,
+          });
+          return;
+        }
+
+        if (!hasTrim) {
+          setState({
+            status: 'completed',
+            progress: 1,
+            outputBlob: videoBlob,
+            elapsedMs: 0,
+          });
+          return;
+        }
+
+        if (includeSubtitles && captions.length > 0) {
+          const assContent = adjustAssForTrim(
+            captions,
+            startMs,
+            endMs,
+            assOptions
+          );
           console.log('[export] ASS content:', assContent);
 
           result = await exportWithSubtitles(
@@ -164,9 +264,10 @@ export function useVideoExport(): UseVideoExportReturn {
               inputBlob: videoBlob,
               startMs,
               endMs,
-              srtContent: assContent,
+              assContent,
               outputFormat,
               videoFilter,
+              audioChannel,
             },
             { onProgress: handleProgress }
           );
@@ -177,6 +278,8 @@ export function useVideoExport(): UseVideoExportReturn {
               startMs,
               endMs,
               outputFormat,
+              videoFilter,
+              audioChannel,
             },
             { onProgress: handleProgress }
           );
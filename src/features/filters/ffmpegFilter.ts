@@ -0,0 +1,87 @@
+import type { FilterState } from './useFilterState';
+
+/**
+ * `useWebGLPreview`의 프래그먼트 셰이더와 같은 수식을 FFmpeg 필터 체인으로 옮긴다.
+ *
+ * - 흑백: mix(rgb, luma, amount) → colorchannelmixer 계수
+ * - 밝기: clamp(rgb + b) → lutrgb
+ * - 대비: clamp((rgb - 0.5) * (1 + c) + 0.5) → lutrgb
+ *
+ * `eq`/`hue`는 YUV 공간에서 동작해 미리보기와 결과가 어긋나므로 RGB 필터만 사용한다.
+ */
+
+// 셰이더의 dot(color.rgb, vec3(0.299, 0.587, 0.114))와 동일한 가중치
+const LUMA_R = 0.299;
+const LUMA_G = 0.587;
+const LUMA_B = 0.114;
+
+function formatCoefficient(value: number): string {
+  return Number(value.toFixed(6)).toString();
+}
+
+function buildGrayscaleFilter(amount: number): string | null {
+  const a = Math.max(0, Math.min(1, amount));
+  if (a <= 0) return null;
+
+  const keep = 1 - a;
+  const row = (channelWeight: number, self: boolean) =>
+    formatCoefficient(a * channelWeight + (self ? keep : 0));
+
+  const coefficients = {
+    rr: row(LUMA_R, true),
+    rg: row(LUMA_G, false),
+    rb: row(LUMA_B, false),
+    gr: row(LUMA_R, false),
+    gg: row(LUMA_G, true),
+    gb: row(LUMA_B, false),
+    br: row(LUMA_R, false),
+    bg: row(LUMA_G, false),
+    bb: row(LUMA_B, true),
+  };
+
+  return `colorchannelmixer=${Object.entries(coefficients)
+    .map(([key, value]) => `${key}=${value}`)
+    .join(':')}`;
+}
+
+function buildToneCurveFilter(
+  brightness: number,
+  contrast: number
+): string | null {
+  const b = Math.max(-1, Math.min(1, brightness));
+  const c = Math.max(-1, Math.min(1, contrast));
+  if (b === 0 && c === 0) return null;
+
+  // lutrgb의 val은 0~255 범위이므로 셰이더의 0~1 값을 255배 한다.
+  let expr = 'val';
+  if (b !== 0) {
+    expr = `clip(${expr}+${formatCoefficient(b * 255)},0,255)`;
+  }
+  if (c !== 0) {
+    expr = `clip((${expr}-127.5)*${formatCoefficient(1 + c)}+127.5,0,255)`;
+  }
+
+  return `lutrgb=r='${expr}':g='${expr}':b='${expr}'`;
+}
+
+/**
+ * 활성화된 필터가 없으면 `undefined`를 반환해 스트림 복사 경로를 유지할 수 있게 한다.
+ */
+export function buildFFmpegVideoFilter(
+  filters: FilterState['filters']
+): string | undefined {
+  const chain = [
+    filters.grayscale.enabled
+      ? buildGrayscaleFilter(filters.grayscale.amount)
+      : null,
+    buildToneCurveFilter(
+      filters.brightness.enabled ? filters.brightness.amount : 0,
+      filters.contrast.enabled ? filters.contrast.amount : 0
+    ),
+  ].filter((f): f is string => Boolean(f));
+
+  if (chain.length === 0) return undefined;
+
+  // RGB 필터 이후 인코더 호환을 위해 yuv420p로 되돌린다.
+  return [...chain, 'format=yuv420p'].join(',');
+}
@@ -4,3 +4,4 @@ export {
   type FilterActions,
 } from './useFilterState';
 export { useWebGLPreview, type WebGLPreviewResult } from './useWebGLPreview';
+export { buildFFmpegVideoFilter } from './ffmpegFilter';
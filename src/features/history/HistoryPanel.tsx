@@ -0,0 +1,87 @@
+import { formatBinding, useKeymap } from '@/features/shortcuts';
+import type { HistoryEntry } from './editHistory';
+import type { EditHistory } from './useEditHistory';
+import styles from './HistoryPanel.module.css';
+
+type Props = {
+  history: EditHistory;
+  className?: string;
+};
+
+function formatClock(timestamp: number): string {
+  const date = new Date(timestamp);
+  return [date.getHours(), date.getMinutes(), date.getSeconds()]
+    .map((part) => part.toString().padStart(2, '0'))
+    .join(':');
+}
+
+function HistoryPanel({ history, className }: Props) {
+  const { past, future, canUndo, canRedo, undo, redo, jumpTo } = history;
+  const currentId = past.at(-1)?.id ?? null;
+  const keymap = useKeymap();
+
+  const renderItem = (entry: HistoryEntry, undone: boolean) => (
+    <li key={entry.id}>
+      <button
+        type="button"
+        className={`${styles.item} ${entry.id === currentId ? styles.itemCurrent : ''} ${undone ? styles.itemUndone : ''}`}
+        onClick={() => jumpTo(entry.id)}
+        aria-current={entry.id === currentId ? 'step' : undefined}
+      >
+        <span>{entry.label}</span>
+        <span className={styles.time}>{formatClock(entry.timestamp)}</span>
+      </button>
+    </li>
+  );
+
+  return (
+    <section
+      className={`${styles.panel} ${className ?? ''}`}
+      aria-label="편집 기록"
+    >
+      <div className={styles.header}>
+        <h2 className={styles.title}>편집 기록</h2>
+        <div className={styles.actions}>
+          <button
+            type="button"
+            className={styles.button}
+            onClick={undo}
+            disabled={!canUndo}
+            title={`실행 취소 (${formatBinding(keymap, 'history.undo')})`}
+          >
+            ↶ 실행 취소
+          </button>
+          <button
+            type="button"
+            className={styles.button}
+            onClick={redo}
+            disabled={!canRedo}
+            title={`다시 실행 (${formatBinding(keymap, 'history.redo')})`}
+          >
+            ↷ 다시 실행
+          </button>
+        </div>
+      </div>
+      {past.length === 0 && future.length === 0 ? (
+        <p className={styles.hint}>자막이나 트림 구간을 편집하면 기록됩니다.</p>
+      ) : (
+        <ul className={styles.list}>
+          <li>
+            <button
+              type="button"
+              className={`${styles.item} ${currentId === null ? styles.itemCurrent : ''}`}
+              onClick={() => jumpTo(null)}
+              aria-current={currentId === null ? 'step' : undefined}
+            >
+              <span>처음 상태</span>
+            </button>
+          </li>
+          {past.map((entry) => renderItem(entry, false))}
+          {future.map((entry) => renderItem(entry, true))}
+        </ul>
+      )}
+    </section>
+  );
+}
+
+export default HistoryPanel;
@@ -0,0 +1,89 @@
+/**
+ * 자막/트림 편집에서 공유하는 실행 취소 스택.
+ *
+ * 각 명령은 변경 전/후 상태를 되돌려 적용하는 `undo`/`redo`를 가진다.
+ * 같은 `groupKey`의 명령이 `HISTORY_GROUP_WINDOW_MS` 안에 이어지면(타이핑, 드래그)
+ * 하나로 묶어 첫 명령의 `undo`와 마지막 명령의 `redo`만 남긴다.
+ */
+
+export type HistoryCommand = {
+  label: string;
+  /** 같은 키의 연속된 명령은 하나의 기록으로 묶인다. */
+  groupKey?: string;
+  undo: () => void;
+  redo: () => void;
+};
+
+export type HistoryEntry = HistoryCommand & {
+  id: number;
+  timestamp: number;
+};
+
+export type HistoryState = {
+  /** 오래된 순서. 마지막 항목이 다음 실행 취소 대상이다. */
+  past: HistoryEntry[];
+  /** 가까운 순서. 첫 항목이 다음 다시 실행 대상이다. */
+  future: HistoryEntry[];
+};
+
+export const HISTORY_GROUP_WINDOW_MS = 1000;
+export const HISTORY_LIMIT = 100;
+
+export const EMPTY_HISTORY: HistoryState = { past: [], future: [] };
+
+let nextEntryId = 1;
+
+export function pushHistory(
+  state: HistoryState,
+  command: HistoryCommand,
+  now: number
+): HistoryState {
+  const last = state.past.at(-1);
+  const canGroup =
+    last !== undefined &&
+    state.future.length === 0 &&
+    command.groupKey !== undefined &&
+    last.groupKey === command.groupKey &&
+    now - last.timestamp <= HISTORY_GROUP_WINDOW_MS;
+
+  if (canGroup) {
+    const merged: HistoryEntry = {
+      ...last,
+      label: command.label,
+      redo: command.redo,
+      timestamp: now,
+    };
+    return { past: [...state.past.slice(0, -1), merged], future: [] };
+  }
+
+  const entry: HistoryEntry = { ...command, id: nextEntryId++, timestamp: now };
+  return { past: [...state.past, entry].slice(-HISTORY_LIMIT), future: [] };
+}
+
+/**
+ * 실행 취소할 항목과 다음 상태를 돌려준다. 항목의 `undo` 호출은 호출자의 몫이다.
+ */
+export function undoHistory(
+  state: HistoryState
+): { entry: HistoryEntry; state: HistoryState } | null {
+  const entry = state.past.at(-1);
+  if (!entry) return null;
+  return {
+    entry,
+    state: {
+      past: state.past.slice(0, -1),
+      future: [entry, ...state.future],
+    },
+  };
+}
+
+export function redoHistory(
+  state: HistoryState
+): { entry: HistoryEntry; state: HistoryState } | null {
+  const [entry, ...rest] = state.future;
+  if (!entry) return null;
+  return {
+    entry,
+    state: { past: [...state.past, entry], future: rest },
+  };
+}
@@ -0,0 +1,12 @@
+export { useEditHistory } from './useEditHistory';
+export type { EditHistory } from './useEditHistory';
+export { useHistoryShortcuts } from './useHistoryShortcuts';
+export {
+  EMPTY_HISTORY,
+  HISTORY_GROUP_WINDOW_MS,
+  HISTORY_LIMIT,
+  pushHistory,
+  undoHistory,
+  redoHistory,
+} from './editHistory';
+export type { HistoryCommand, HistoryEntry, HistoryState } from './editHistory';
@@ -0,0 +1,99 @@
+import { useCallback, useMemo, useRef, useState } from 'react';
+
+import {
+  EMPTY_HISTORY,
+  pushHistory,
+  redoHistory,
+  undoHistory,
+  type HistoryCommand,
+  type HistoryEntry,
+  type HistoryState,
+} from './editHistory';
+
+export type EditHistory = {
+  past: HistoryEntry[];
+  future: HistoryEntry[];
+  canUndo: boolean;
+  canRedo: boolean;
+  record: (command: HistoryCommand) => void;
+  undo: () => void;
+  redo: () => void;
+  /** 해당 항목까지 적용된 상태로 이동한다. `null`이면 모든 기록을 실행 취소한다. */
+  jumpTo: (entryId: number | null) => void;
+  clear: () => void;
+};
+
+export function useEditHistory(): EditHistory {
+  // undo/redo 콜백이 같은 틱에 여러 번 불려도 최신 스택을 보도록 ref를 기준으로 삼는다.
+  const stateRef = useRef<HistoryState>(EMPTY_HISTORY);
+  const [state, setState] = useState<HistoryState>(EMPTY_HISTORY);
+
+  const commit = useCallback((next: HistoryState) => {
+    stateRef.current = next;
+    setState(next);
+  }, []);
+
+  const record = useCallback(
+    (command: HistoryCommand) => {
+      commit(pushHistory(stateRef.current, command, Date.now()));
+    },
+    [commit]
+  );
+
+  const undo = useCallback(() => {
+    const step = undoHistory(stateRef.current);
+    if (!step) return;
+    step.entry.undo();
+    commit(step.state);
+  }, [commit]);
+
+  const redo = useCallback(() => {
+    const step = redoHistory(stateRef.current);
+    if (!step) return;
+    step.entry.redo();
+    commit(step.state);
+  }, [commit]);
+
+  const jumpTo = useCallback(
+    (entryId: number | null) => {
+      let current = stateRef.current;
+      const inPast = (id: number | null) =>
+        id === null || current.past.some((entry) => entry.id === id);
+
+      if (inPast(entryId)) {
+        while (current.past.length > 0 && current.past.at(-1)?.id !== entryId) {
+          const step = undoHistory(current);
+          if (!step) break;
+          step.entry.undo();
+          current = step.state;
+        }
+      } else if (current.future.some((entry) => entry.id === entryId)) {
+        while (current.past.at(-1)?.id !== entryId) {
+          const step = redoHistory(current);
+          if (!step) break;
+          step.entry.redo();
+          current = step.state;
+        }
+      }
+      commit(current);
+    },
+    [commit]
+  );
+
+  const clear = useCallback(() => commit(EMPTY_HISTORY), [commit]);
+
+  return useMemo(
+    () => ({
+      past: state.past,
+      future: state.future,
+      canUndo: state.past.length > 0,
+      canRedo: state.future.length > 0,
+      record,
+      undo,
+      redo,
+      jumpTo,
+      clear,
+    }),
+    [state, record, undo, redo, jumpTo, clear]
+  );
+}
@@ -0,0 +1,35 @@
+import { usePageShortcuts } from '@/features/shortcuts';
+
+type Args = {
+  undo: () => void;
+  redo: () => void;
+  enabled?: boolean;
+};
+
+// 시간 입력칸과 단어 편집칸은 blur/Enter 때 반영되므로 입력 중에는 브라우저 기본
+// 실행 취소를 그대로 쓴다. 자막 textarea는 입력마다 반영되어 편집 기록이 대신 처리한다.
+function prefersNativeUndo(target: EventTarget | null): boolean {
+  return (
+    target instanceof HTMLInputElement || target instanceof HTMLSelectElement
+  );
+}
+
+/**
+ * 실행 취소 / 다시 실행. 기본 조합은 Ctrl+Z(⌘Z)와 Ctrl+Shift+Z / Ctrl+Y이고
+ * 키맵에서 바꿀 수 있다.
+ */
+export function useHistoryShortcuts({ undo, redo, enabled = true }: Args) {
+  usePageShortcuts(
+    {
+      'history.undo': (event) => {
+        if (prefersNativeUndo(event.target)) return false;
+        undo();
+      },
+      'history.redo': (event) => {
+        if (prefersNativeUndo(event.target)) return false;
+        redo();
+      },
+    },
+    enabled
+  );
+}
@@ -0,0 +1,71 @@
+import { useState, type KeyboardEvent } from 'react';
+
+import { formatSmpte, isDropFrameRate, parseSmpte } from './timecode';
+import styles from './TimecodeField.module.css';
+
+type Props = {
+  valueMs: number;
+  frameRate: number;
+  /** 올바른 타임코드를 입력하고 Enter를 누르면 그 프레임의 시작 시각으로 부른다. */
+  onCommit: (ms: number) => void;
+  className?: string;
+};
+
+function formatFrameRate(frameRate: number) {
+  return `${Number(frameRate.toFixed(2))}fps${
+    isDropFrameRate(frameRate) ? ' DF' : ''
+  }`;
+}
+
+/** 현재 위치를 SMPTE 타임코드로 보여 주고, 고쳐 쓰면 그 프레임으로 이동한다. */
+function TimecodeField({ valueMs, frameRate, onCommit, className }: Props) {
+  const [draft, setDraft] = useState<string | null>(null);
+  const [invalid, setInvalid] = useState(false);
+  const formatted = formatSmpte(valueMs, frameRate);
+
+  const reset = () => {
+    setDraft(null);
+    setInvalid(false);
+  };
+
+  const handleKeyDown = (event: KeyboardEvent<HTMLInputElement>) => {
+    if (event.key === 'Enter') {
+      event.preventDefault();
+      const ms = parseSmpte(draft ?? formatted, frameRate);
+      if (ms === null) {
+        setInvalid(true);
+        return;
+      }
+      onCommit(ms);
+      reset();
+      event.currentTarget.blur();
+    } else if (event.key === 'Escape') {
+      reset();
+      event.currentTarget.blur();
+    }
+  };
+
+  return (
+    <span className={`${styles.field} ${className ?? ''}`}>
+      <input
+        type="text"
+        className={`${styles.input} ${invalid ? styles.invalid : ''}`}
+        value={draft ?? formatted}
+        aria-label="타임코드"
+        aria-invalid={invalid}
+        title="HH:MM:SS:FF 형식으로 입력하고 Enter. `,` `.` 키로 한 프레임씩 이동"
+        spellCheck={false}
+        onFocus={() => setDraft(formatted)}
+        onChange={(e) => {
+          setDraft(e.target.value);
+          setInvalid(false);
+        }}
+        onKeyDown={handleKeyDown}
+        onBlur={reset}
+      />
+      <span className={styles.rate}>{formatFrameRate(frameRate)}</span>
+    </span>
+  );
+}
+
+export default TimecodeField;
@@ -0,0 +1,145 @@
+import type { Caption } from '@/data/types';
+import {
+  computeKeepSegments,
+  normalizeCutRanges,
+  retimeCaptionsForCuts,
+} from '@/features/export/cutRanges';
+import type { CutRange } from '@/features/export/ffmpegTypes';
+
+/**
+ * 편집 결정 목록(EDL). 원본에서 남길 구간을 순서대로 이어 붙인 출력 타임라인을
+ * 표현하고, 원본 시간 ↔ 출력 시간 변환을 제공한다.
+ *
+ * 미리보기(건너뛰기 재생), 파형, 자막, 내보내기가 모두 같은 EDL을 본다.
+ */
+
+export type EdlSegment = {
+  sourceStartMs: number;
+  sourceEndMs: number;
+  outputStartMs: number;
+};
+
+export type EditDecisionList = {
+  sourceDurationMs: number;
+  outputDurationMs: number;
+  /** 남길 구간 (원본 시간 오름차순) */
+  segments: EdlSegment[];
+  /** 제거 구간 (normalizeCutRanges로 정리됨) */
+  removed: CutRange[];
+};
+
+export function createEditDecisionList(
+  cutRanges: CutRange[],
+  sourceDurationMs: number
+): EditDecisionList {
+  const duration = Math.max(0, sourceDurationMs);
+  const removed = normalizeCutRanges(cutRanges, duration);
+  const segments: EdlSegment[] = [];
+  let outputMs = 0;
+  for (const keep of computeKeepSegments(removed, duration)) {
+    segments.push({
+      sourceStartMs: keep.startMs,
+      sourceEndMs: keep.endMs,
+      outputStartMs: outputMs,
+    });
+    outputMs += keep.endMs - keep.startMs;
+  }
+  return {
+    sourceDurationMs: duration,
+    outputDurationMs: outputMs,
+    segments,
+    removed,
+  };
+}
+
+export function isIdentityEdl(edl: EditDecisionList | null): boolean {
+  return !edl || edl.removed.length === 0;
+}
+
+/** 원본 시간을 출력 시간으로 바꾼다. 제거 구간 안의 시간은 다음 남길 구간의 시작으로 접힌다. */
+export function sourceToOutputMs(
+  edl: EditDecisionList,
+  sourceMs: number
+): number {
+  for (const segment of edl.segments) {
+    if (sourceMs < segment.sourceStartMs) return segment.outputStartMs;
+    if (sourceMs <= segment.sourceEndMs) {
+      return segment.outputStartMs + (sourceMs - segment.sourceStartMs);
+    }
+  }
+  return edl.outputDurationMs;
+}
+
+/**
+ * 출력 시간을 원본 시간으로 바꾼다. 구간 경계에서는 뒤 구간의 시작을 돌려줘
+ * 탐색한 위치가 곧바로 재생 가능한 프레임이 되게 한다.
+ */
+export function outputToSourceMs(
+  edl: EditDecisionList,
+  outputMs: number
+): number {
+  const { segments } = edl;
+  if (segments.length === 0) return 0;
+  const clamped = Math.max(0, Math.min(outputMs, edl.outputDurationMs));
+  for (const segment of segments) {
+    const length = segment.sourceEndMs - segment.sourceStartMs;
+    if (clamped < segment.outputStartMs + length) {
+      return segment.sourceStartMs + (clamped - segment.outputStartMs);
+    }
+  }
+  return segments[segments.length - 1].sourceEndMs;
+}
+
+/**
+ * 재생 위치가 제거 구간 안이면 다음 남길 구간의 시작을, 더 남은 구간이 없으면
+ * 원본 끝을 돌려준다. 재생 가능한 위치면 `null`.
+ */
+export function resolvePlayableSourceMs(
+  edl: EditDecisionList,
+  sourceMs: number
+): number | null {
+  for (const cut of edl.removed) {
+    if (sourceMs < cut.startMs) return null;
+    if (sourceMs < cut.endMs) return cut.endMs;
+  }
+  return null;
+}
+
+/**
+ * `[fromMs, toMs]` 안에서 시작하는 첫 제거 구간의 시작을 돌려준다. 빠르게 재생할 때
+ * 다음 프레임 전에 통째로 지나칠 수 있는 짧은 구간을 찾는 데 쓴다. 없으면 `null`.
+ */
+export function findCutStartWithin(
+  edl: EditDecisionList,
+  fromMs: number,
+  toMs: number
+): number | null {
+  for (const cut of edl.removed) {
+    if (cut.startMs > toMs) return null;
+    if (cut.startMs >= fromMs) return cut.startMs;
+  }
+  return null;
+}
+
+/**
+ * 거꾸로 재생할 때 쓴다. 재생 위치가 제거 구간 안이면 그 구간의 시작(앞 남길 구간의 끝)을
+ * 돌려준다. 재생 가능한 위치면 `null`.
+ */
+export function resolvePlayableSourceMsBackward(
+  edl: EditDecisionList,
+  sourceMs: number
+): number | null {
+  for (const cut of edl.removed) {
+    if (sourceMs < cut.startMs) return null;
+    if (sourceMs < cut.endMs) return cut.startMs;
+  }
+  return null;
+}
+
+/** 자막과 단어 타이밍을 출력 타임라인으로 옮긴다. 제거 구간에 덮인 자막은 빠진다. */
+export function mapCaptionsToOutput(
+  captions: Caption[],
+  edl: EditDecisionList
+): Caption[] {
+  return retimeCaptionsForCuts(captions, edl.removed, edl.sourceDurationMs);
+}
@@ -0,0 +1,109 @@
+/**
+ * 프레임 단위 시간 계산과 SMPTE 타임코드(HH:MM:SS:FF) 변환.
+ *
+ * 시간은 정수 ms로 다루므로 프레임 시작 시각은 반올림된다. 그래서 ms → 프레임 변환은
+ * 반 ms 여유를 두고 내림해, `frameToMs`로 만든 시각이 항상 같은 프레임으로 돌아오게 한다.
+ */
+
+/** 프레임 레이트를 모를 때 프레임 이동에 쓰는 값 */
+export const FALLBACK_FRAME_RATE = 30;
+
+export function isValidFrameRate(
+  frameRate: number | null | undefined
+): frameRate is number {
+  return (
+    typeof frameRate === 'number' && Number.isFinite(frameRate) && frameRate > 0
+  );
+}
+
+/** `ms`가 속한 프레임 번호 */
+export function msToFrame(ms: number, frameRate: number): number {
+  return Math.max(0, Math.floor(((ms + 0.5) * frameRate) / 1000));
+}
+
+/** 프레임 시작 시각 (ms, 반올림) */
+export function frameToMs(frame: number, frameRate: number): number {
+  return Math.round((frame * 1000) / frameRate);
+}
+
+/** 가장 가까운 프레임 경계 */
+export function snapToFrame(ms: number, frameRate: number): number {
+  return frameToMs(Math.round((ms * frameRate) / 1000), frameRate);
+}
+
+/** 29.97 / 59.94처럼 NTSC 드롭 프레임 타임코드를 쓰는 레이트인지 */
+export function isDropFrameRate(frameRate: number): boolean {
+  const nominal = Math.round(frameRate);
+  return (
+    nominal % 30 === 0 && Math.abs(frameRate - (nominal * 1000) / 1001) < 0.01
+  );
+}
+
+function dropFramesPerMinute(frameRate: number): number {
+  return isDropFrameRate(frameRate) ? (Math.round(frameRate) / 30) * 2 : 0;
+}
+
+const pad = (value: number) => value.toString().padStart(2, '0');
+
+/**
+ * 프레임 번호를 타임코드로 바꾼다. 드롭 프레임 레이트는 10분마다를 뺀 매 분 처음
+ * 프레임 번호를 건너뛰어 벽시계와 맞추고, 구분자로 `;`를 쓴다.
+ */
+export function formatFrameTimecode(frame: number, frameRate: number): string {
+  const nominal = Math.round(frameRate);
+  const drop = dropFramesPerMinute(frameRate);
+  let label = Math.max(0, Math.floor(frame));
+
+  if (drop > 0) {
+    const framesPer10Min = nominal * 600 - drop * 9;
+    const framesPerMin = nominal * 60 - drop;
+    const tens = Math.floor(label / framesPer10Min);
+    const rest = label % framesPer10Min;
+    label +=
+      drop * 9 * tens +
+      (rest > drop ? drop * Math.floor((rest - drop) / framesPerMin) : 0);
+  }
+
+  const ff = label % nominal;
+  const totalSeconds = Math.floor(label / nominal);
+  const ss = totalSeconds % 60;
+  const mm = Math.floor(totalSeconds / 60) % 60;
+  const hh = Math.floor(totalSeconds / 3600);
+  return `${pad(hh)}:${pad(mm)}:${pad(ss)}${drop > 0 ? ';' : ':'}${pad(ff)}`;
+}
+
+export function formatSmpte(ms: number, frameRate: number): string {
+  return formatFrameTimecode(msToFrame(ms, frameRate), frameRate);
+}
+
+const SMPTE_RE = /^(\d{1,2}):(\d{1,2}):(\d{1,2})[:;.](\d{1,3})$/;
+
+/**
+ * `HH:MM:SS:FF`(드롭 프레임은 `;`도 허용)를 프레임 번호로 바꾼다.
+ * 범위를 벗어나거나 드롭 프레임에서 건너뛴 번호면 null.
+ */
+export function parseFrameTimecode(
+  text: string,
+  frameRate: number
+): number | null {
+  const match = SMPTE_RE.exec(text.trim());
+  if (!match) return null;
+  const [hh, mm, ss, ff] = match.slice(1).map(Number);
+  const nominal = Math.round(frameRate);
+  if (mm >= 60 || ss >= 60 || ff >= nominal) return null;
+
+  const drop = dropFramesPerMinute(frameRate);
+  const totalMinutes = hh * 60 + mm;
+  if (drop > 0 && ss === 0 && ff < drop && mm % 10 !== 0) return null;
+
+  return (
+    (hh * 3600 + mm * 60 + ss) * nominal +
+    ff -
+    drop * (totalMinutes - Math.floor(totalMinutes / 10))
+  );
+}
+
+export function parseSmpte(text: string, frameRate: number): number | null {
+  const frame = parseFrameTimecode(text, frameRate);
+  return frame === null ? null : frameToMs(frame, frameRate);
+}
@@ -0,0 +1,103 @@
+import { useCallback, useRef, useState } from 'react';
+
+import {
+  isRangeCut,
+  normalizeCutRanges,
+  subtractCutRange,
+  type CutRange,
+} from '@/features/export';
+import type { HistoryCommand } from '@/features/history';
+
+type Options = {
+  /** 제거 목록이 바뀔 때마다 실행 취소 기록을 남긴다. */
+  record?: (command: HistoryCommand) => void;
+};
+
+function isSameRanges(a: CutRange[], b: CutRange[]): boolean {
+  return (
+    a.length === b.length &&
+    a.every((r, i) => r.startMs === b[i].startMs && r.endMs === b[i].endMs)
+  );
+}
+
+/**
+ * 제거(컷) 구간 목록. 파형의 트림 구간과 텍스트 편집에서 지운 단어/자막이 모두
+ * 이 목록으로 모이며, 미리보기 건너뛰기와 컷아웃 내보내기가 같은 목록을 쓴다.
+ */
+export function useCutRanges(durationMs: number | null, options: Options = {}) {
+  const { record } = options;
+  const [ranges, setRanges] = useState<CutRange[]>([]);
+  const rangesRef = useRef<CutRange[]>([]);
+  const limit = durationMs ?? 0;
+
+  const apply = useCallback((next: CutRange[]) => {
+    rangesRef.current = next;
+    setRanges(next);
+  }, []);
+
+  const commit = useCallback(
+    (next: CutRange[], label: string) => {
+      const prev = rangesRef.current;
+      if (isSameRanges(prev, next)) return;
+      apply(next);
+      record?.({
+        label,
+        undo: () => apply(prev),
+        redo: () => apply(next),
+      });
+    },
+    [apply, record]
+  );
+
+  const add = useCallback(
+    (range: CutRange, label = '제거 구간 추가') =>
+      commit(normalizeCutRanges([...rangesRef.current, range], limit), label),
+    [commit, limit]
+  );
+
+  /** 여러 구간을 한 번에 추가한다. 실행 취소도 한 번에 된다. */
+  const addMany = useCallback(
+    (next: CutRange[], label = '제거 구간 추가') =>
+      commit(normalizeCutRanges([...rangesRef.current, ...next], limit), label),
+    [commit, limit]
+  );
+
+  const restore = useCallback(
+    (range: CutRange, label = '제거 구간 복원') =>
+      commit(subtractCutRange(rangesRef.current, range, limit), label),
+    [commit, limit]
+  );
+
+  /** 구간이 이미 잘려 있으면 되살리고, 아니면 잘라낸다. 잘라냈으면 `true`. */
+  const toggle = useCallback(
+    (range: CutRange, labels: { cut: string; restore: string }) => {
+      const cuts = normalizeCutRanges(rangesRef.current, limit);
+      if (isRangeCut(range, cuts)) {
+        restore(range, labels.restore);
+        return false;
+      }
+      add(range, labels.cut);
+      return true;
+    },
+    [add, restore, limit]
+  );
+
+  const removeAt = useCallback(
+    (index: number) =>
+      commit(
+        rangesRef.current.filter((_, i) => i !== index),
+        '제거 구간 삭제'
+      ),
+    [commit]
+  );
+
+  const clear = useCallback(
+    () => commit([], '제거 구간 모두 지우기'),
+    [commit]
+  );
+
+  return {
+    ranges,
+    actions: { add, addMany, restore, toggle, removeAt, clear },
+  } as const;
+}
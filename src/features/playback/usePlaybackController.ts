@@ -1,10 +1,32 @@
-import { useCallback, useEffect, useRef, useState } from 'react';
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+
+import {
+  findCutStartWithin,
+  isIdentityEdl,
+  outputToSourceMs,
+  resolvePlayableSourceMs,
+  resolvePlayableSourceMsBackward,
+  sourceToOutputMs,
+  type EditDecisionList,
+} from './editDecisionList';
+import {
+  FALLBACK_FRAME_RATE,
+  frameToMs,
+  isValidFrameRate,
+  msToFrame,
+} from './timecode';
 
 export type PlaybackView = {
   isReady: boolean;
   isPlaying: boolean;
+  /** 원본 시간 */
   currentTimeMs: number;
   durationMs: number | null;
+  /** 편집 결정 목록을 적용한 출력 타임라인 기준 시간. EDL이 없으면 원본과 같다. */
+  outputTimeMs: number;
+  outputDurationMs: number | null;
+  /** 재생 속도. 음수면 J 셔틀로 거꾸로 재생 중이다. */
+  playbackRate: number;
 };
 
 export type PlaybackActions = {
@@ -15,6 +37,20 @@ export type PlaybackActions = {
   setLoopRange: (range: { startMs: number; endMs: number } | null) => void;
   setLoopEnabled: (enabled: boolean) => void;
   setSeekGuardsEnabled: (enabled: boolean) => void;
+  /** 출력 타임라인 기준으로 이동한다. */
+  seekOutput: (outputMs: number) => void;
+  /** 재생 중 제거 구간에 들어서면 다음 남길 구간으로 건너뛴다. */
+  setEditDecisionList: (edl: EditDecisionList | null) => void;
+  /** 일시정지하고 `delta` 프레임만큼 이동한다. 프레임 레이트를 모르면 30fps로 본다. */
+  stepFrame: (delta: number) => void;
+  /** 앞으로 재생할 때의 기본 속도. 음높이는 유지한다. */
+  setPlaybackRate: (rate: number) => void;
+  /** L: 앞으로 재생하고, 이미 앞으로 재생 중이면 더 빠르게 */
+  shuttleForward: () => void;
+  /** J: 거꾸로 재생하고, 이미 거꾸로 재생 중이면 더 빠르게 */
+  shuttleReverse: () => void;
+  /** K: 멈추고 기본 속도로 되돌린다. */
+  shuttleStop: () => void;
 };
 
 export type PlaybackController = {
@@ -26,13 +62,54 @@ export type PlaybackController = {
 type Args = {
   resetKey: string;
   onLoadedMetadata?: (el: HTMLVideoElement) => void;
+  /** 프로브한 프레임 레이트. 있으면 재생 위치를 프레임 시작 시각에 맞춘다. */
+  frameRate?: number | null;
 };
 
+// 프레임 레이트를 모를 때 재생 중 재생 위치를 갱신하는 간격
 const PLAYHEAD_STEP_MS = 33;
+// 60Hz 화면에서 requestAnimationFrame 한 번 사이의 시간
+const RAF_INTERVAL_MS = 1000 / 60;
+
+type LoopRange = { startMs: number; endMs: number };
+
+export const MIN_PLAYBACK_RATE = 0.25;
+export const MAX_PLAYBACK_RATE = 8;
+/** J/L을 누를 때마다 올라가는 셔틀 속도 */
+export const SHUTTLE_RATES = [1, 2, 4, 8];
+
+function nextShuttleRate(current: number) {
+  return (
+    SHUTTLE_RATES.find((rate) => rate > current) ??
+    SHUTTLE_RATES[SHUTTLE_RATES.length - 1]
+  );
+}
+
+function applyElementRate(el: HTMLVideoElement, rate: number) {
+  // src가 바뀌면 playbackRate는 defaultPlaybackRate로 돌아가므로 둘 다 맞춘다.
+  el.defaultPlaybackRate = rate;
+  el.playbackRate = rate;
+  el.preservesPitch = true;
+}
+
+function clampSeekMs(
+  timeMs: number,
+  durationMs: number | null,
+  guardRange: LoopRange | null
+) {
+  const clampedByDuration =
+    durationMs != null ? Math.max(0, Math.min(timeMs, durationMs)) : timeMs;
+  if (!guardRange) return clampedByDuration;
+  return Math.max(
+    guardRange.startMs,
+    Math.min(clampedByDuration, guardRange.endMs)
+  );
+}
 
 export function usePlaybackController({
   resetKey,
   onLoadedMetadata,
+  frameRate,
 }: Args): PlaybackController {
   const videoElRef = useRef<HTMLVideoElement | null>(null);
   const [isReady, setIsReady] = useState(false);
@@ -41,35 +118,140 @@ export function usePlaybackController({
   const [durationMs, setDurationMs] = useState<number | null>(null);
 
   const playheadRafIdRef = useRef<number | null>(null);
-  const loopRangeRef = useRef<{ startMs: number; endMs: number } | null>(null);
+  // 다음 프레임 전에 지나칠 경계에서 넘기도록 걸어 둔 타이머
+  const boundaryTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+  const loopRangeRef = useRef<LoopRange | null>(null);
   const loopEnabledRef = useRef(true);
   const seekGuardsEnabledRef = useRef(true);
+  const [edl, setEdl] = useState<EditDecisionList | null>(null);
+  const edlRef = useRef<EditDecisionList | null>(null);
+  const frameRateRef = useRef<number | null>(frameRate ?? null);
+  const [playbackRate, setPlaybackRateState] = useState(1);
+  const playbackRateRef = useRef(1);
+  // 셔틀을 멈추면 돌아갈 앞으로 재생 속도
+  const baseRateRef = useRef(1);
+  const reverseRafIdRef = useRef<number | null>(null);
+  // 거꾸로 재생 중의 위치. 탐색이 끝나기 전에도 다음 위치를 계산할 수 있게 따로 둔다.
+  const reversePositionMsRef = useRef(0);
+
+  useEffect(() => {
+    frameRateRef.current = frameRate ?? null;
+  }, [frameRate]);
+
+  const updateRate = useCallback((rate: number) => {
+    playbackRateRef.current = rate;
+    setPlaybackRateState(rate);
+  }, []);
+
+  const quantizeMs = useCallback((ms: number, quantize: boolean) => {
+    const fps = frameRateRef.current;
+    // 프레임 레이트를 알면 재생 중이든 멈춰 있든 화면에 보이는 프레임의 시작 시각을 쓴다.
+    if (isValidFrameRate(fps)) return frameToMs(msToFrame(ms, fps), fps);
+    return quantize ? Math.round(ms / PLAYHEAD_STEP_MS) * PLAYHEAD_STEP_MS : ms;
+  }, []);
 
   const updateCurrentTimeMs = useCallback(
     (el: HTMLVideoElement, quantize = true) => {
+      // 거꾸로 재생하는 동안에는 셔틀 루프가 재생 위치를 직접 관리한다.
+      if (reverseRafIdRef.current !== null) return;
       const t = el.currentTime;
       if (!Number.isFinite(t)) return;
 
-      const ms = Math.round(t * 1000);
-      const next = quantize
-        ? Math.round(ms / PLAYHEAD_STEP_MS) * PLAYHEAD_STEP_MS
-        : ms;
+      const next = quantizeMs(Math.round(t * 1000), quantize);
       setCurrentTimeMs((prev) => (prev !== next ? next : prev));
     },
-    []
+    [quantizeMs]
   );
 
+  const stopReverse = useCallback(() => {
+    if (reverseRafIdRef.current !== null) {
+      cancelAnimationFrame(reverseRafIdRef.current);
+      reverseRafIdRef.current = null;
+    }
+  }, []);
+
   const stopPlayheadTick = useCallback(() => {
     if (playheadRafIdRef.current !== null) {
       cancelAnimationFrame(playheadRafIdRef.current);
       playheadRafIdRef.current = null;
     }
+    if (boundaryTimerRef.current !== null) {
+      clearTimeout(boundaryTimerRef.current);
+      boundaryTimerRef.current = null;
+    }
   }, []);
 
   const startPlayheadTick = useCallback(
     (el: HTMLVideoElement) => {
       if (playheadRafIdRef.current !== null) return;
 
+      /**
+       * 루프 끝이나 제거 구간에 닿았으면 넘기고 `true`를 돌려준다. 더 재생할 구간이
+       * 없으면 멈춘다.
+       */
+      const crossBoundary = (ms: number) => {
+        if (loopEnabledRef.current && loopRangeRef.current) {
+          const { startMs, endMs } = loopRangeRef.current;
+          if (ms >= endMs) {
+            el.currentTime = startMs / 1000;
+            setCurrentTimeMs(startMs);
+            return true;
+          }
+        }
+
+        const edlNow = edlRef.current;
+        const skipTo = edlNow ? resolvePlayableSourceMs(edlNow, ms) : null;
+        if (!edlNow || skipTo === null) return false;
+        el.currentTime = skipTo / 1000;
+        setCurrentTimeMs(skipTo);
+        // 끝까지 잘린 경우 더 재생할 구간이 없다.
+        if (skipTo >= edlNow.sourceDurationMs) {
+          el.pause();
+          stopPlayheadTick();
+        }
+        return true;
+      };
+
+      // 빠르게 재생하면 한 프레임에 여러 프레임 분량이 지나가므로, 다음 프레임 전에
+      // 닿을 첫 경계(제거 구간 시작·루프 끝)를 찾아 그 시각에 맞춰 넘긴다.
+      // 짧은 제거 구간을 통째로 지나치거나 남길 구간 끝을 미리 잘라 먹지 않는다.
+      const scheduleBoundary = (ms: number) => {
+        if (boundaryTimerRef.current !== null) return;
+        const rate = el.playbackRate;
+        const aheadMs = ms + Math.max(0, rate - 1) * RAF_INTERVAL_MS;
+        if (aheadMs <= ms) return;
+
+        let boundaryMs: number | null = null;
+        if (loopEnabledRef.current && loopRangeRef.current) {
+          const { endMs } = loopRangeRef.current;
+          if (endMs > ms && endMs <= aheadMs) boundaryMs = endMs;
+        }
+        const edlNow = edlRef.current;
+        const cutStartMs = edlNow
+          ? findCutStartWithin(edlNow, ms, aheadMs)
+          : null;
+        if (
+          cutStartMs !== null &&
+          (boundaryMs === null || cutStartMs < boundaryMs)
+        ) {
+          boundaryMs = cutStartMs;
+        }
+        if (boundaryMs === null) return;
+
+        const targetMs = boundaryMs;
+        boundaryTimerRef.current = setTimeout(
+          () => {
+            boundaryTimerRef.current = null;
+            if (el.paused) return;
+            const nowMs = Math.round(el.currentTime * 1000);
+            // 그 사이 다른 곳으로 이동했으면 걸어 둔 경계는 더 이상 유효하지 않다.
+            if (nowMs < ms || nowMs > aheadMs + rate * RAF_INTERVAL_MS) return;
+            crossBoundary(Math.max(nowMs, targetMs));
+          },
+          (targetMs - ms) / rate
+        );
+      };
+
       const tick = () => {
         if (el.paused) {
           stopPlayheadTick();
@@ -79,18 +261,12 @@ export function usePlaybackController({
         const t = el.currentTime;
         if (Number.isFinite(t)) {
           const ms = Math.round(t * 1000);
-
-          if (loopEnabledRef.current && loopRangeRef.current) {
-            const { startMs, endMs } = loopRangeRef.current;
-            if (ms >= endMs) {
-              el.currentTime = startMs / 1000;
-              setCurrentTimeMs(startMs);
-              playheadRafIdRef.current = requestAnimationFrame(tick);
-              return;
-            }
+          if (crossBoundary(ms)) {
+            if (el.paused) return;
+          } else {
+            scheduleBoundary(ms);
+            updateCurrentTimeMs(el, true);
           }
-
-          updateCurrentTimeMs(el, true);
         }
 
         playheadRafIdRef.current = requestAnimationFrame(tick);
@@ -107,8 +283,10 @@ export function usePlaybackController({
     setCurrentTimeMs(0);
     setIsPlaying(false);
     stopPlayheadTick();
+    stopReverse();
+    updateRate(baseRateRef.current);
     videoElRef.current?.pause();
-  }, [stopPlayheadTick]);
+  }, [stopPlayheadTick, stopReverse, updateRate]);
 
   useEffect(() => {
     resetState();
@@ -122,9 +300,12 @@ export function usePlaybackController({
       if (prev && prev !== el) {
         prev.pause();
         stopPlayheadTick();
+        stopReverse();
       }
 
       if (!el) return;
+      // 콜백만 바뀌어 같은 요소로 다시 불릴 때는 셔틀 속도를 덮어쓰지 않는다.
+      if (prev !== el) applyElementRate(el, baseRateRef.current);
 
       const handleLoadedMetadata = () => {
         const duration = el.duration;
@@ -136,15 +317,29 @@ export function usePlaybackController({
       };
 
       const handlePlay = () => {
+        // 브라우저 기본 컨트롤로 재생하면 거꾸로 재생을 끝낸다.
+        if (reverseRafIdRef.current !== null) {
+          stopReverse();
+          updateRate(el.playbackRate);
+        }
         setIsPlaying(true);
         startPlayheadTick(el);
       };
 
       const handlePause = () => {
+        // 거꾸로 재생은 요소를 멈춘 채 위치만 옮기므로 이 pause는 무시한다.
+        if (reverseRafIdRef.current !== null) return;
         setIsPlaying(false);
         stopPlayheadTick();
       };
 
+      const handleRateChange = () => {
+        if (reverseRafIdRef.current !== null) return;
+        if (el.playbackRate !== playbackRateRef.current) {
+          updateRate(el.playbackRate);
+        }
+      };
+
       const handleEnded = () => {
         setIsPlaying(false);
         stopPlayheadTick();
@@ -172,6 +367,7 @@ export function usePlaybackController({
       el.addEventListener('timeupdate', handleTimeUpdate);
       el.addEventListener('seeking', handleSeeking);
       el.addEventListener('seeked', handleSeeked);
+      el.addEventListener('ratechange', handleRateChange);
 
       if (el.readyState >= 1) {
         handleLoadedMetadata();
@@ -185,15 +381,29 @@ export function usePlaybackController({
         el.removeEventListener('timeupdate', handleTimeUpdate);
         el.removeEventListener('seeking', handleSeeking);
         el.removeEventListener('seeked', handleSeeked);
+        el.removeEventListener('ratechange', handleRateChange);
       };
     },
-    [onLoadedMetadata, startPlayheadTick, stopPlayheadTick, updateCurrentTimeMs]
+    [
+      onLoadedMetadata,
+      startPlayheadTick,
+      stopPlayheadTick,
+      stopReverse,
+      updateCurrentTimeMs,
+      updateRate,
+    ]
   );
 
   const play = useCallback(() => {
     const el = videoElRef.current;
     if (!el || !isReady) return;
 
+    if (reverseRafIdRef.current !== null || playbackRateRef.current < 0) {
+      stopReverse();
+      applyElementRate(el, baseRateRef.current);
+      updateRate(baseRateRef.current);
+    }
+
     if (seekGuardsEnabledRef.current && loopRangeRef.current) {
       const ms = Math.round(el.currentTime * 1000);
       const { startMs, endMs } = loopRangeRef.current;
@@ -202,6 +412,16 @@ export function usePlaybackController({
       }
     }
 
+    const skipTo = edlRef.current
+      ? resolvePlayableSourceMs(
+          edlRef.current,
+          Math.round(el.currentTime * 1000)
+        )
+      : null;
+    if (skipTo !== null) {
+      el.currentTime = skipTo / 1000;
+    }
+
     setIsPlaying(true);
     startPlayheadTick(el);
 
@@ -212,13 +432,14 @@ export function usePlaybackController({
         stopPlayheadTick();
       });
     }
-  }, [isReady, startPlayheadTick, stopPlayheadTick]);
+  }, [isReady, startPlayheadTick, stopPlayheadTick, stopReverse, updateRate]);
 
   const pause = useCallback(() => {
     setIsPlaying(false);
     stopPlayheadTick();
+    stopReverse();
     videoElRef.current?.pause();
-  }, [stopPlayheadTick]);
+  }, [stopPlayheadTick, stopReverse]);
 
   const toggle = useCallback(() => {
     if (isPlaying) {
@@ -233,29 +454,153 @@ export function usePlaybackController({
       const el = videoElRef.current;
       if (!el) return;
 
-      const clampedByDuration =
-        durationMs != null ? Math.max(0, Math.min(timeMs, durationMs)) : timeMs;
-      const guarded = (() => {
-        if (seekGuardsEnabledRef.current && loopRangeRef.current) {
-          const { startMs, endMs } = loopRangeRef.current;
-          return Math.max(startMs, Math.min(clampedByDuration, endMs));
-        }
-        return clampedByDuration;
-      })();
+      const guarded = clampSeekMs(
+        timeMs,
+        durationMs,
+        seekGuardsEnabledRef.current ? loopRangeRef.current : null
+      );
 
       el.currentTime = guarded / 1000;
+      reversePositionMsRef.current = guarded;
       setCurrentTimeMs(guarded);
     },
     [durationMs]
   );
 
-  const setLoopRange = useCallback(
-    (range: { startMs: number; endMs: number } | null) => {
-      loopRangeRef.current = range;
+  const stepFrame = useCallback(
+    (delta: number) => {
+      const el = videoElRef.current;
+      if (!el) return;
+      if (!el.paused || reverseRafIdRef.current !== null) pause();
+
+      const fps = isValidFrameRate(frameRateRef.current)
+        ? frameRateRef.current
+        : FALLBACK_FRAME_RATE;
+      const current = msToFrame(Math.round(el.currentTime * 1000), fps);
+      const lastFrame =
+        durationMs != null
+          ? Math.max(0, Math.ceil((durationMs * fps) / 1000) - 1)
+          : Infinity;
+      let target = Math.max(0, Math.min(current + delta, lastFrame));
+
+      const guard = seekGuardsEnabledRef.current ? loopRangeRef.current : null;
+      if (guard) {
+        target = Math.max(
+          msToFrame(guard.startMs, fps),
+          Math.min(target, msToFrame(guard.endMs, fps))
+        );
+      }
+
+      // 프레임 시작 시각은 반올림된 ms라 그대로 넣으면 앞 프레임이 보일 수 있어
+      // 프레임 한가운데로 이동한다.
+      const middle = (target + 0.5) / fps;
+      el.currentTime =
+        durationMs != null ? Math.min(middle, durationMs / 1000) : middle;
+      setCurrentTimeMs(frameToMs(target, fps));
+    },
+    [durationMs, pause]
+  );
+
+  const setPlaybackRate = useCallback(
+    (rate: number) => {
+      if (!Number.isFinite(rate)) return;
+      const next = Math.max(
+        MIN_PLAYBACK_RATE,
+        Math.min(rate, MAX_PLAYBACK_RATE)
+      );
+      baseRateRef.current = next;
+      // 거꾸로 재생 중에는 기본 속도만 바꿔 두고 K나 재생으로 돌아올 때 쓴다.
+      if (reverseRafIdRef.current !== null) return;
+      const el = videoElRef.current;
+      if (el) applyElementRate(el, next);
+      updateRate(next);
+    },
+    [updateRate]
+  );
+
+  /**
+   * 브라우저는 음수 재생 속도를 지원하지 않으므로 요소를 멈춘 채 매 프레임
+   * 경과 시간 × 속도만큼 뒤로 탐색한다. 이전 탐색이 끝나지 않았으면 위치만
+   * 계산해 두고 다음 프레임에 반영한다.
+   */
+  const startReverse = useCallback(
+    (el: HTMLVideoElement, speed: number) => {
+      stopReverse();
+      stopPlayheadTick();
+      el.pause();
+      updateRate(-speed);
+      setIsPlaying(true);
+
+      reversePositionMsRef.current = el.currentTime * 1000;
+      let lastTimestamp: number | null = null;
+
+      const tick = (timestamp: number) => {
+        const elapsed = lastTimestamp === null ? 0 : timestamp - lastTimestamp;
+        lastTimestamp = timestamp;
+
+        let next =
+          reversePositionMsRef.current + elapsed * playbackRateRef.current;
+        const loop = loopEnabledRef.current ? loopRangeRef.current : null;
+        const edlNow = edlRef.current;
+        if (loop && next <= loop.startMs) {
+          next = loop.endMs;
+        } else if (edlNow) {
+          next = resolvePlayableSourceMsBackward(edlNow, next) ?? next;
+        }
+
+        if (next <= 0) {
+          el.currentTime = 0;
+          setCurrentTimeMs(0);
+          reverseRafIdRef.current = null;
+          setIsPlaying(false);
+          updateRate(baseRateRef.current);
+          return;
+        }
+
+        reversePositionMsRef.current = next;
+        if (!el.seeking) el.currentTime = next / 1000;
+        setCurrentTimeMs(quantizeMs(Math.round(next), true));
+        reverseRafIdRef.current = requestAnimationFrame(tick);
+      };
+
+      reverseRafIdRef.current = requestAnimationFrame(tick);
     },
-    []
+    [quantizeMs, stopPlayheadTick, stopReverse, updateRate]
   );
 
+  const shuttleForward = useCallback(() => {
+    const el = videoElRef.current;
+    if (!el || !isReady) return;
+    if (el.paused || reverseRafIdRef.current !== null) {
+      play();
+      return;
+    }
+    const next = nextShuttleRate(playbackRateRef.current);
+    applyElementRate(el, next);
+    updateRate(next);
+  }, [isReady, play, updateRate]);
+
+  const shuttleReverse = useCallback(() => {
+    const el = videoElRef.current;
+    if (!el || !isReady) return;
+    const current = playbackRateRef.current;
+    startReverse(
+      el,
+      reverseRafIdRef.current !== null ? nextShuttleRate(-current) : 1
+    );
+  }, [isReady, startReverse]);
+
+  const shuttleStop = useCallback(() => {
+    pause();
+    const el = videoElRef.current;
+    if (el) applyElementRate(el, baseRateRef.current);
+    updateRate(baseRateRef.current);
+  }, [pause, updateRate]);
+
+  const setLoopRange = useCallback((range: LoopRange | null) => {
+    loopRangeRef.current = range;
+  }, []);
+
   const setLoopEnabled = useCallback((enabled: boolean) => {
     loopEnabledRef.current = enabled;
   }, []);
@@ -264,6 +609,31 @@ export function usePlaybackController({
     seekGuardsEnabledRef.current = enabled;
   }, []);
 
+  const seekOutput = useCallback(
+    (outputMs: number) => {
+      const current = edlRef.current;
+      seek(current ? outputToSourceMs(current, outputMs) : outputMs);
+    },
+    [seek]
+  );
+
+  const setEditDecisionList = useCallback((next: EditDecisionList | null) => {
+    const value = isIdentityEdl(next) ? null : next;
+    edlRef.current = value;
+    setEdl(value);
+  }, []);
+
+  const output = useMemo(
+    () =>
+      edl
+        ? {
+            outputTimeMs: sourceToOutputMs(edl, currentTimeMs),
+            outputDurationMs: edl.outputDurationMs,
+          }
+        : { outputTimeMs: currentTimeMs, outputDurationMs: durationMs },
+    [edl, currentTimeMs, durationMs]
+  );
+
   return {
     videoRef,
     view: {
@@ -271,6 +641,8 @@ export function usePlaybackController({
       isPlaying,
       currentTimeMs,
       durationMs,
+      ...output,
+      playbackRate,
     },
     actions: {
       play,
@@ -280,6 +652,13 @@ export function usePlaybackController({
       setLoopRange,
       setLoopEnabled,
       setSeekGuardsEnabled,
+      seekOutput,
+      setEditDecisionList,
+      stepFrame,
+      setPlaybackRate,
+      shuttleForward,
+      shuttleReverse,
+      shuttleStop,
     },
   };
 }
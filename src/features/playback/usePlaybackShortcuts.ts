@@ -0,0 +1,54 @@
+import { usePageShortcuts } from '@/features/shortcuts';
+
+type Args = {
+  toggle: () => void;
+  /** 현재 위치에서 `deltaMs`만큼 이동 */
+  seekBy: (deltaMs: number) => void;
+  stepFrame: (delta: number) => void;
+  shuttleReverse: () => void;
+  shuttleStop: () => void;
+  shuttleForward: () => void;
+  toggleMute: () => void;
+  toggleFullscreen: () => void;
+  enabled?: boolean;
+};
+
+const SEEK_STEP_MS = 5000;
+
+/**
+ * 플레이어 범위 단축키. 기본 조합은 Space 재생, ←/→ 5초 이동, `,`/`.` 프레임 이동,
+ * J/K/L 셔틀, M 음소거, F 전체 화면이고 키맵에서 바꿀 수 있다. 입력칸에 타이핑
+ * 중이거나 파형·단어 편집기처럼 같은 키를 쓰는 영역에 포커스가 있으면 그쪽이 먼저다.
+ */
+export function usePlaybackShortcuts({
+  toggle,
+  seekBy,
+  stepFrame,
+  shuttleReverse,
+  shuttleStop,
+  shuttleForward,
+  toggleMute,
+  toggleFullscreen,
+  enabled = true,
+}: Args) {
+  usePageShortcuts(
+    {
+      'player.togglePlay': () => toggle(),
+      'player.seekBackward': () => seekBy(-SEEK_STEP_MS),
+      'player.seekForward': () => seekBy(SEEK_STEP_MS),
+      'player.prevFrame': () => stepFrame(-1),
+      'player.nextFrame': () => stepFrame(1),
+      // 키를 누르고 있을 때의 자동 반복으로 속도가 계속 오르지 않게 한다.
+      'player.shuttleReverse': (event) => {
+        if (!event.repeat) shuttleReverse();
+      },
+      'player.shuttleStop': () => shuttleStop(),
+      'player.shuttleForward': (event) => {
+        if (!event.repeat) shuttleForward();
+      },
+      'player.toggleMute': () => toggleMute(),
+      'player.toggleFullscreen': () => toggleFullscreen(),
+    },
+    enabled
+  );
+}
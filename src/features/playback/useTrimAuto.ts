@@ -1,5 +1,7 @@
 import { useCallback, useMemo, useState } from 'react';
 
+import type { Caption } from '@/data/types';
+import { type WeightedFeature } from '@/features/waveform/recommendationFeatures';
 import {
   computeTrimRecommendations,
   type RecommendationMode,
@@ -13,6 +15,10 @@ export type UseTrimAutoOptions = {
   mode: RecommendationMode;
   count: number;
   targetSegmentMs?: number;
+  /** 주면 진폭 합 대신 이 특성들의 가중 점수로 고른다. */
+  features?: WeightedFeature[];
+  captions?: Caption[];
+  keywords?: string[];
   onApply?: (
     range: TrimRecommendation,
     meta: { autoEnableGuard: boolean }
@@ -25,6 +31,9 @@ export function useTrimAuto({
   mode,
   count,
   targetSegmentMs,
+  features,
+  captions,
+  keywords,
   onApply,
 }: UseTrimAutoOptions) {
   const [recommendations, setRecommendations] = useState<TrimRecommendation[]>(
@@ -52,6 +61,9 @@ export function useTrimAuto({
       mode,
       count,
       segmentMs: targetSegmentMs,
+      features,
+      captions,
+      keywords,
     });
     setIsGenerating(false);
 
@@ -66,7 +78,17 @@ export function useTrimAuto({
     setActiveIndex(0);
     setMessage(`${recs.length}개 구간을 추천했어요. 원하는 구간을 적용하세요.`);
     onApply?.(recs[0], { autoEnableGuard: true });
-  }, [count, durationMs, mode, onApply, peaks, targetSegmentMs]);
+  }, [
+    captions,
+    count,
+    durationMs,
+    features,
+    keywords,
+    mode,
+    onApply,
+    peaks,
+    targetSegmentMs,
+  ]);
 
   const apply = useCallback(
     (index: number) => {
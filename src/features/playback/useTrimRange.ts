@@ -1,4 +1,6 @@
-import { useCallback, useEffect, useState } from 'react';
+import { useCallback, useEffect, useRef, useState } from 'react';
+
+import type { HistoryCommand } from '@/features/history';
 
 export type TrimRange = {
   startMs: number;
@@ -16,8 +18,41 @@ function isValidDuration(durationMs: number | null): durationMs is number {
   );
 }
 
-export function useTrimRange(durationMs: number | null) {
+function isSameRange(a: TrimRange | null, b: TrimRange | null): boolean {
+  if (a === null || b === null) return a === b;
+  return a.startMs === b.startMs && a.endMs === b.endMs;
+}
+
+type Options = {
+  /** 사용자 조작으로 구간이 바뀔 때마다 실행 취소 기록을 남긴다. */
+  record?: (command: HistoryCommand) => void;
+};
+
+export function useTrimRange(durationMs: number | null, options: Options = {}) {
+  const { record } = options;
   const [range, setRange] = useState<TrimRange | null>(null);
+  // 기록된 undo/redo가 최신 구간을 기준으로 동작하도록 상태와 함께 ref에도 보관한다.
+  const rangeRef = useRef<TrimRange | null>(null);
+
+  const apply = useCallback((next: TrimRange | null) => {
+    rangeRef.current = next;
+    setRange(next);
+  }, []);
+
+  const commit = useCallback(
+    (next: TrimRange | null, label: string, groupKey?: string) => {
+      const prev = rangeRef.current;
+      if (isSameRange(prev, next)) return;
+      apply(next);
+      record?.({
+        label,
+        groupKey,
+        undo: () => apply(prev),
+        redo: () => apply(next),
+      });
+    },
+    [apply, record]
+  );
 
   const normalize = useCallback(
     (next: TrimRange | null): TrimRange | null => {
@@ -35,53 +70,45 @@ export function useTrimRange(durationMs: number | null) {
     [durationMs]
   );
 
+  // 길이 변경에 따른 보정은 사용자 조작이 아니므로 기록하지 않는다.
   useEffect(() => {
-    setRange((prev) => {
-      if (!isValidDuration(durationMs) || !prev) return null;
-
-      const clamp = (value: number) => Math.max(0, Math.min(value, durationMs));
-      const start = clamp(prev.startMs);
-      const end = clamp(prev.endMs);
-
-      if (!Number.isFinite(start) || !Number.isFinite(end)) return null;
-      if (end - start < MIN_TRIM_GAP_MS) return null;
-
-      return { startMs: start, endMs: end };
-    });
-  }, [durationMs]);
+    apply(normalize(rangeRef.current));
+  }, [normalize, apply]);
 
   const setRangeSafe = useCallback(
     (startMs: number, endMs: number) => {
-      setRange((prev) => normalize({ startMs, endMs }) ?? prev ?? null);
+      const prev = rangeRef.current;
+      const next = normalize({ startMs, endMs }) ?? prev ?? null;
+      commit(next, '트림 구간 변경', 'trim:range');
     },
-    [normalize]
+    [normalize, commit]
   );
 
   const setStart = useCallback(
     (startMs: number) => {
-      setRange((prev) => {
-        const fallbackEnd = isValidDuration(durationMs)
-          ? Math.min(startMs + DEFAULT_TRIM_LENGTH_MS, durationMs)
-          : startMs + DEFAULT_TRIM_LENGTH_MS;
-        const end = prev?.endMs ?? fallbackEnd;
-        return normalize({ startMs, endMs: end }) ?? prev ?? null;
-      });
+      const prev = rangeRef.current;
+      const fallbackEnd = isValidDuration(durationMs)
+        ? Math.min(startMs + DEFAULT_TRIM_LENGTH_MS, durationMs)
+        : startMs + DEFAULT_TRIM_LENGTH_MS;
+      const end = prev?.endMs ?? fallbackEnd;
+      const next = normalize({ startMs, endMs: end }) ?? prev ?? null;
+      commit(next, '트림 시작 변경', 'trim:start');
     },
-    [durationMs, normalize]
+    [durationMs, normalize, commit]
   );
 
   const setEnd = useCallback(
     (endMs: number) => {
-      setRange((prev) => {
-        const fallbackStart = Math.max(0, endMs - DEFAULT_TRIM_LENGTH_MS);
-        const start = prev?.startMs ?? fallbackStart;
-        return normalize({ startMs: start, endMs }) ?? prev ?? null;
-      });
+      const prev = rangeRef.current;
+      const fallbackStart = Math.max(0, endMs - DEFAULT_TRIM_LENGTH_MS);
+      const start = prev?.startMs ?? fallbackStart;
+      const next = normalize({ startMs: start, endMs }) ?? prev ?? null;
+      commit(next, '트림 끝 변경', 'trim:end');
     },
-    [normalize]
+    [normalize, commit]
   );
 
-  const clear = useCallback(() => setRange(null), []);
+  const clear = useCallback(() => commit(null, '트림 구간 해제'), [commit]);
 
   return {
     range,
@@ -0,0 +1,195 @@
+import { useEffect, useRef, useState, type KeyboardEvent } from 'react';
+
+import { SHORTCUT_COMMANDS } from './commands';
+import {
+  SHORTCUT_SCOPES,
+  SHORTCUT_SCOPE_LABELS,
+  comboFromEvent,
+  findBindingConflicts,
+  formatCombo,
+} from './keymap';
+import type { ShortcutSettings } from './shortcutContext';
+import styles from './ShortcutCheatSheet.module.css';
+
+type Props = {
+  settings: ShortcutSettings;
+};
+
+const labelOf = (commandId: string) =>
+  SHORTCUT_COMMANDS.find((command) => command.id === commandId)?.label ??
+  commandId;
+
+/**
+ * 모든 명령과 묶인 키를 범위별로 보여 준다. "변경"을 누른 뒤 누르는 조합으로
+ * 바꾸며, 같이 동작하는 범위의 다른 명령과 겹치면 바꾸지 않고 알려 준다.
+ */
+function ShortcutCheatSheet({ settings }: Props) {
+  const {
+    keymap,
+    overrides,
+    conflicts,
+    setBinding,
+    resetBinding,
+    resetAll,
+    closeCheatSheet,
+  } = settings;
+  const dialogRef = useRef<HTMLDivElement>(null);
+  const [recordingId, setRecordingId] = useState<string | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+
+  useEffect(() => {
+    dialogRef.current?.focus();
+  }, []);
+
+  const handleKeyDown = (event: KeyboardEvent<HTMLDivElement>) => {
+    // 열려 있는 동안에는 페이지 단축키가 동작하지 않게 한다.
+    event.stopPropagation();
+    const combo = comboFromEvent(event);
+
+    if (!recordingId) {
+      if (
+        combo === 'Escape' ||
+        (combo && keymap['shortcuts.cheatSheet']?.includes(combo))
+      ) {
+        event.preventDefault();
+        closeCheatSheet();
+      }
+      return;
+    }
+
+    event.preventDefault();
+    if (!combo) return;
+    if (combo === 'Escape') {
+      setRecordingId(null);
+      setMessage(null);
+      return;
+    }
+
+    const clashes = findBindingConflicts(
+      SHORTCUT_COMMANDS,
+      keymap,
+      recordingId,
+      combo
+    );
+    if (clashes.length > 0) {
+      setMessage(
+        `${formatCombo(combo)}은(는) 이미 '${clashes
+          .map((command) => command.label)
+          .join(', ')}'에 쓰이고 있습니다.`
+      );
+      return;
+    }
+    setBinding(recordingId, [combo]);
+    setRecordingId(null);
+    setMessage(null);
+  };
+
+  return (
+    <div className={styles.backdrop} onClick={closeCheatSheet}>
+      <div
+        ref={dialogRef}
+        className={styles.dialog}
+        role="dialog"
+        aria-modal="true"
+        aria-label="단축키"
+        tabIndex={-1}
+        onClick={(e) => e.stopPropagation()}
+        onKeyDown={handleKeyDown}
+      >
+        <div className={styles.header}>
+          <h2 className={styles.title}>단축키</h2>
+          <div className={styles.actions}>
+            <button
+              type="button"
+              className={styles.button}
+              onClick={resetAll}
+              disabled={Object.keys(overrides).length === 0}
+            >
+              모두 기본값으로
+            </button>
+            <button
+              type="button"
+              className={styles.button}
+              onClick={closeCheatSheet}
+              aria-label="닫기"
+            >
+              ✕
+            </button>
+          </div>
+        </div>
+
+        {conflicts.length > 0 && (
+          <ul className={styles.conflicts} role="alert">
+            {conflicts.map((conflict) => (
+              <li key={`${conflict.combo}-${conflict.commandIds.join()}`}>
+                {formatCombo(conflict.combo)} 키가 겹칩니다:{' '}
+                {conflict.commandIds.map(labelOf).join(', ')}
+              </li>
+            ))}
+          </ul>
+        )}
+        {message && (
+          <p className={styles.message} role="status">
+            {message}
+          </p>
+        )}
+
+        {SHORTCUT_SCOPES.map((scope) => (
+          <section key={scope} className={styles.group}>
+            <h3 className={styles.groupTitle}>
+              {SHORTCUT_SCOPE_LABELS[scope]}
+            </h3>
+            <ul className={styles.list}>
+              {SHORTCUT_COMMANDS.filter(
+                (command) => command.scope === scope
+              ).map((command) => {
+                const isRecording = recordingId === command.id;
+                return (
+                  <li key={command.id} className={styles.row}>
+                    <span className={styles.label}>{command.label}</span>
+                    <span className={styles.keys}>
+                      {isRecording ? (
+                        <span className={styles.recording}>
+                          키를 누르세요 (Esc 취소)
+                        </span>
+                      ) : (keymap[command.id] ?? []).length > 0 ? (
+                        keymap[command.id].map((combo) => (
+                          <kbd key={combo} className={styles.kbd}>
+                            {formatCombo(combo)}
+                          </kbd>
+                        ))
+                      ) : (
+                        <span className={styles.unbound}>없음</span>
+                      )}
+                    </span>
+                    <button
+                      type="button"
+                      className={styles.linkButton}
+                      onClick={() => {
+                        setRecordingId(isRecording ? null : command.id);
+                        setMessage(null);
+                        dialogRef.current?.focus();
+                      }}
+                    >
+                      {isRecording ? '취소' : '변경'}
+                    </button>
+                    <button
+                      type="button"
+                      className={styles.linkButton}
+                      onClick={() => resetBinding(command.id)}
+                      disabled={!(command.id in overrides)}
+                    >
+                      기본값
+                    </button>
+                  </li>
+                );
+              })}
+            </ul>
+          </section>
+        ))}
+      </div>
+    </div>
+  );
+}
+
+export default ShortcutCheatSheet;
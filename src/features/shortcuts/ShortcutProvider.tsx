@@ -0,0 +1,110 @@
+import {
+  useCallback,
+  useEffect,
+  useMemo,
+  useState,
+  type PropsWithChildren,
+} from 'react';
+
+import { SHORTCUT_COMMANDS } from './commands';
+import { findConflicts, resolveKeymap, type Keymap } from './keymap';
+import { loadKeymapOverrides, saveKeymapOverrides } from './keymapStorage';
+import { ShortcutContext, type ShortcutSettings } from './shortcutContext';
+import { dispatchShortcut } from './useShortcuts';
+import ShortcutCheatSheet from './ShortcutCheatSheet';
+
+function withoutCommand(keymap: Keymap, commandId: string): Keymap {
+  const next = { ...keymap };
+  delete next[commandId];
+  return next;
+}
+
+function sameKeys(a: readonly string[], b: readonly string[]) {
+  return a.length === b.length && a.every((key, i) => key === b[i]);
+}
+
+/** 키맵을 불러와 저장하고, `?`로 여는 단축키 도움말을 띄운다. */
+function ShortcutProvider({ children }: PropsWithChildren) {
+  const [overrides, setOverrides] = useState<Keymap>(loadKeymapOverrides);
+  const [isCheatSheetOpen, setIsCheatSheetOpen] = useState(false);
+
+  useEffect(() => {
+    saveKeymapOverrides(overrides);
+  }, [overrides]);
+
+  const keymap = useMemo(
+    () => resolveKeymap(SHORTCUT_COMMANDS, overrides),
+    [overrides]
+  );
+  const conflicts = useMemo(
+    () => findConflicts(SHORTCUT_COMMANDS, keymap),
+    [keymap]
+  );
+
+  const setBinding = useCallback((commandId: string, keys: string[]) => {
+    const command = SHORTCUT_COMMANDS.find((c) => c.id === commandId);
+    if (!command) return;
+    setOverrides((prev) => {
+      const rest = withoutCommand(prev, commandId);
+      // 기본값으로 되돌린 명령은 저장하지 않아, 나중에 기본값이 바뀌면 따라간다.
+      return sameKeys(keys, command.defaultKeys)
+        ? rest
+        : { ...rest, [commandId]: keys };
+    });
+  }, []);
+
+  const resetBinding = useCallback((commandId: string) => {
+    setOverrides((prev) =>
+      commandId in prev ? withoutCommand(prev, commandId) : prev
+    );
+  }, []);
+
+  const resetAll = useCallback(() => setOverrides({}), []);
+  const openCheatSheet = useCallback(() => setIsCheatSheetOpen(true), []);
+  const closeCheatSheet = useCallback(() => setIsCheatSheetOpen(false), []);
+
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      dispatchShortcut(event, ['global'], keymap, {
+        'shortcuts.cheatSheet': () => setIsCheatSheetOpen((open) => !open),
+      });
+    };
+
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [keymap]);
+
+  const value = useMemo<ShortcutSettings>(
+    () => ({
+      keymap,
+      overrides,
+      conflicts,
+      setBinding,
+      resetBinding,
+      resetAll,
+      isCheatSheetOpen,
+      openCheatSheet,
+      closeCheatSheet,
+    }),
+    [
+      keymap,
+      overrides,
+      conflicts,
+      setBinding,
+      resetBinding,
+      resetAll,
+      isCheatSheetOpen,
+      openCheatSheet,
+      closeCheatSheet,
+    ]
+  );
+
+  return (
+    <ShortcutContext.Provider value={value}>
+      {children}
+      {isCheatSheetOpen && <ShortcutCheatSheet settings={value} />}
+    </ShortcutContext.Provider>
+  );
+}
+
+export default ShortcutProvider;
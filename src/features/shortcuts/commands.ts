@@ -0,0 +1,184 @@
+import type { ShortcutCommand } from './keymap';
+
+/**
+ * 앱에서 쓰는 모든 단축키 명령. 조합은 여기서만 정하고, 각 화면은 명령 id에
+ * 처리 함수를 붙인다. 같은 범위 안에서는 위에 있는 명령이 먼저 처리된다.
+ */
+export const SHORTCUT_COMMANDS = [
+  {
+    id: 'history.undo',
+    label: '실행 취소',
+    scope: 'global',
+    defaultKeys: ['Mod+Z'],
+    allowInInputs: true,
+  },
+  {
+    id: 'history.redo',
+    label: '다시 실행',
+    scope: 'global',
+    defaultKeys: ['Mod+Shift+Z', 'Mod+Y'],
+    allowInInputs: true,
+  },
+  {
+    id: 'shortcuts.cheatSheet',
+    label: '단축키 도움말',
+    scope: 'global',
+    defaultKeys: ['?'],
+  },
+  {
+    id: 'commandPalette.open',
+    label: '명령 팔레트',
+    scope: 'global',
+    defaultKeys: ['Mod+K'],
+    allowInInputs: true,
+  },
+  {
+    id: 'player.togglePlay',
+    label: '재생 / 일시정지',
+    scope: 'player',
+    defaultKeys: ['Space'],
+  },
+  {
+    id: 'player.seekBackward',
+    label: '5초 뒤로',
+    scope: 'player',
+    defaultKeys: ['ArrowLeft'],
+  },
+  {
+    id: 'player.seekForward',
+    label: '5초 앞으로',
+    scope: 'player',
+    defaultKeys: ['ArrowRight'],
+  },
+  {
+    id: 'player.prevFrame',
+    label: '이전 프레임',
+    scope: 'player',
+    defaultKeys: [','],
+  },
+  {
+    id: 'player.nextFrame',
+    label: '다음 프레임',
+    scope: 'player',
+    defaultKeys: ['.'],
+  },
+  {
+    id: 'player.shuttleReverse',
+    label: '거꾸로 재생 (반복하면 빨라짐)',
+    scope: 'player',
+    defaultKeys: ['J'],
+  },
+  {
+    id: 'player.shuttleStop',
+    label: '셔틀 정지',
+    scope: 'player',
+    defaultKeys: ['K'],
+  },
+  {
+    id: 'player.shuttleForward',
+    label: '앞으로 재생 (반복하면 빨라짐)',
+    scope: 'player',
+    defaultKeys: ['L'],
+  },
+  {
+    id: 'player.toggleMute',
+    label: '음소거',
+    scope: 'player',
+    defaultKeys: ['M'],
+  },
+  {
+    id: 'player.toggleFullscreen',
+    label: '전체 화면',
+    scope: 'player',
+    defaultKeys: ['F'],
+  },
+  {
+    id: 'waveform.zoomIn',
+    label: '확대',
+    scope: 'waveform',
+    defaultKeys: ['='],
+  },
+  {
+    id: 'waveform.zoomOut',
+    label: '축소',
+    scope: 'waveform',
+    defaultKeys: ['-'],
+  },
+  {
+    id: 'waveform.zoomReset',
+    label: '전체 보기',
+    scope: 'waveform',
+    defaultKeys: ['0'],
+  },
+  {
+    id: 'waveform.panLeft',
+    label: '왼쪽으로 이동',
+    scope: 'waveform',
+    defaultKeys: ['Shift+ArrowLeft'],
+  },
+  {
+    id: 'waveform.panRight',
+    label: '오른쪽으로 이동',
+    scope: 'waveform',
+    defaultKeys: ['Shift+ArrowRight'],
+  },
+  {
+    id: 'captions.nudgeLater',
+    label: '시간 0.1초 늘리기 (Alt: 스냅 없이)',
+    scope: 'captionList',
+    defaultKeys: ['ArrowUp', 'Alt+ArrowUp'],
+    allowInInputs: true,
+  },
+  {
+    id: 'captions.nudgeEarlier',
+    label: '시간 0.1초 줄이기 (Alt: 스냅 없이)',
+    scope: 'captionList',
+    defaultKeys: ['ArrowDown', 'Alt+ArrowDown'],
+    allowInInputs: true,
+  },
+  {
+    id: 'captions.addAfter',
+    label: '다음 자막 추가',
+    scope: 'captionList',
+    defaultKeys: ['Enter'],
+    allowInInputs: true,
+  },
+  {
+    id: 'wordEditor.prevWord',
+    label: '이전 단어',
+    scope: 'wordEditor',
+    defaultKeys: ['ArrowLeft'],
+  },
+  {
+    id: 'wordEditor.nextWord',
+    label: '다음 단어',
+    scope: 'wordEditor',
+    defaultKeys: ['ArrowRight'],
+  },
+  {
+    id: 'wordEditor.prevCaption',
+    label: '이전 자막',
+    scope: 'wordEditor',
+    defaultKeys: ['ArrowUp'],
+  },
+  {
+    id: 'wordEditor.nextCaption',
+    label: '다음 자막',
+    scope: 'wordEditor',
+    defaultKeys: ['ArrowDown'],
+  },
+  {
+    id: 'wordEditor.toggleCut',
+    label: '단어 잘라내기 / 되살리기',
+    scope: 'wordEditor',
+    defaultKeys: ['Delete', 'Backspace'],
+  },
+  {
+    id: 'wordEditor.editWord',
+    label: '단어 고치기',
+    scope: 'wordEditor',
+    defaultKeys: ['Enter'],
+  },
+] as const satisfies readonly ShortcutCommand[];
+
+export type ShortcutCommandId = (typeof SHORTCUT_COMMANDS)[number]['id'];
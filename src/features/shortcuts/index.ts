@@ -0,0 +1,38 @@
+export {
+  dispatchShortcut,
+  usePageShortcuts,
+  useScopedShortcuts,
+} from './useShortcuts';
+export type {
+  ShortcutEvent,
+  ShortcutHandler,
+  ShortcutHandlers,
+} from './useShortcuts';
+export {
+  DEFAULT_KEYMAP,
+  useKeymap,
+  useShortcutSettings,
+} from './shortcutContext';
+export type { ShortcutSettings } from './shortcutContext';
+export { SHORTCUT_COMMANDS } from './commands';
+export type { ShortcutCommandId } from './commands';
+export {
+  PAGE_SCOPES,
+  SHORTCUT_SCOPES,
+  SHORTCUT_SCOPE_LABELS,
+  comboFromEvent,
+  findBindingConflicts,
+  findConflicts,
+  formatBinding,
+  formatCombo,
+  resolveKeymap,
+  scopesOverlap,
+  splitCombo,
+} from './keymap';
+export type {
+  Keymap,
+  ShortcutCommand,
+  ShortcutConflict,
+  ShortcutScope,
+} from './keymap';
+export { loadKeymapOverrides, saveKeymapOverrides } from './keymapStorage';
@@ -0,0 +1,196 @@
+/**
+ * 단축키 조합 문자열과 키맵 계산.
+ *
+ * 조합은 `Mod+Shift+Z`처럼 수식키(Mod, Alt, Shift 순)와 키 이름을 `+`로 잇는다.
+ * Mod는 Ctrl과 ⌘를 함께 가리킨다. 글자 키는 `event.code`로 읽어 한글 입력 상태나
+ * 다른 자판 배열에서도 같은 조합이 되고, 문장 부호는 Shift가 이미 글자에 반영되어
+ * 있으므로(`?`) Shift를 따로 적지 않는다.
+ */
+
+export type ShortcutScope =
+  | 'global'
+  | 'player'
+  | 'waveform'
+  | 'captionList'
+  | 'wordEditor';
+
+export const SHORTCUT_SCOPE_LABELS: Record<ShortcutScope, string> = {
+  global: '전체',
+  player: '플레이어',
+  waveform: '파형',
+  captionList: '자막 목록',
+  wordEditor: '단어 편집기',
+};
+
+export const SHORTCUT_SCOPES = Object.keys(
+  SHORTCUT_SCOPE_LABELS
+) as ShortcutScope[];
+
+/** 페이지 어디서든 동작하는 범위. 나머지는 그 영역에 포커스가 있을 때만 동작한다. */
+export const PAGE_SCOPES: ShortcutScope[] = ['global', 'player'];
+
+export type ShortcutCommand = {
+  id: string;
+  label: string;
+  scope: ShortcutScope;
+  defaultKeys: readonly string[];
+  /** 입력칸에 포커스가 있어도 실행한다. */
+  allowInInputs?: boolean;
+};
+
+/** 명령 id별로 묶인 조합 목록 */
+export type Keymap = Record<string, readonly string[]>;
+
+export type ShortcutConflict = {
+  combo: string;
+  commandIds: string[];
+};
+
+type KeyInput = Pick<
+  KeyboardEvent,
+  'key' | 'code' | 'ctrlKey' | 'metaKey' | 'altKey' | 'shiftKey'
+>;
+
+const MODIFIER_KEYS = new Set(['Control', 'Meta', 'Alt', 'Shift', 'AltGraph']);
+
+function keyName(event: KeyInput): string | null {
+  const { key, code } = event;
+  if (MODIFIER_KEYS.has(key) || key === 'Dead' || key === 'Process') {
+    return null;
+  }
+  if (/^Key[A-Z]$/.test(code)) return code.slice(3);
+  if (/^Digit\d$/.test(code) && !event.shiftKey) return code.slice(5);
+  if (key === ' ') return 'Space';
+  if (key.length === 1) return key.toUpperCase();
+  return key;
+}
+
+function isPunctuation(key: string) {
+  return key.length === 1 && !/[A-Z0-9]/.test(key);
+}
+
+/** 키 입력을 조합 문자열로 바꾼다. 수식키만 눌렀으면 null. */
+export function comboFromEvent(event: KeyInput): string | null {
+  const key = keyName(event);
+  if (!key) return null;
+
+  const parts: string[] = [];
+  if (event.ctrlKey || event.metaKey) parts.push('Mod');
+  if (event.altKey) parts.push('Alt');
+  if (event.shiftKey && !isPunctuation(key)) parts.push('Shift');
+  parts.push(key);
+  return parts.join('+');
+}
+
+/** `+` 키 자체가 들어간 조합(`Mod++`)도 나눈다. */
+export function splitCombo(combo: string): string[] {
+  if (combo === '+') return ['+'];
+  if (combo.endsWith('++')) return [...combo.slice(0, -2).split('+'), '+'];
+  return combo.split('+');
+}
+
+const KEY_LABELS: Record<string, string> = {
+  ArrowLeft: '←',
+  ArrowRight: '→',
+  ArrowUp: '↑',
+  ArrowDown: '↓',
+  Escape: 'Esc',
+  Delete: 'Del',
+};
+
+const MAC_MODIFIER_LABELS: Record<string, string> = {
+  Mod: '⌘',
+  Alt: '⌥',
+  Shift: '⇧',
+};
+
+export function isMacPlatform(): boolean {
+  return typeof navigator !== 'undefined' && /Mac|iP/.test(navigator.platform);
+}
+
+/** 화면에 보여 줄 조합. 맥에서는 ⌘⇧Z처럼, 그 밖에서는 Ctrl+Shift+Z처럼 쓴다. */
+export function formatCombo(combo: string, mac = isMacPlatform()): string {
+  const parts = splitCombo(combo).map((part, index, all) => {
+    if (index === all.length - 1) return KEY_LABELS[part] ?? part;
+    if (mac) return MAC_MODIFIER_LABELS[part] ?? part;
+    return part === 'Mod' ? 'Ctrl' : part;
+  });
+  return parts.join(mac ? '' : '+');
+}
+
+/** 명령에 묶인 조합들을 `Ctrl+Shift+Z / Ctrl+Y`처럼 보여 준다. 없으면 빈 문자열. */
+export function formatBinding(keymap: Keymap, commandId: string): string {
+  return (keymap[commandId] ?? [])
+    .map((combo) => formatCombo(combo))
+    .join(' / ');
+}
+
+/** 기본 조합에 사용자가 바꾼 조합을 덮어쓴다. */
+export function resolveKeymap(
+  commands: readonly ShortcutCommand[],
+  overrides: Keymap
+): Keymap {
+  const keymap: Keymap = {};
+  for (const command of commands) {
+    keymap[command.id] = overrides[command.id] ?? command.defaultKeys;
+  }
+  return keymap;
+}
+
+/**
+ * 두 범위에서 같은 조합이 함께 동작할 수 있는지. 포커스 범위가 플레이어 조합을
+ * 가리는 것(단어 편집기의 ←)은 의도한 것이라 겹침으로 보지 않지만, 전체 범위
+ * 조합은 어디서든 동작해야 하므로 다른 모든 범위와 겹친다.
+ */
+export function scopesOverlap(a: ShortcutScope, b: ShortcutScope): boolean {
+  if (a === b || a === 'global' || b === 'global') return true;
+  return PAGE_SCOPES.includes(a) && PAGE_SCOPES.includes(b);
+}
+
+/** `commandId`에 `combo`를 묶으면 겹치는 다른 명령들 */
+export function findBindingConflicts(
+  commands: readonly ShortcutCommand[],
+  keymap: Keymap,
+  commandId: string,
+  combo: string
+): ShortcutCommand[] {
+  const target = commands.find((command) => command.id === commandId);
+  if (!target) return [];
+  return commands.filter(
+    (command) =>
+      command.id !== commandId &&
+      scopesOverlap(command.scope, target.scope) &&
+      (keymap[command.id] ?? []).includes(combo)
+  );
+}
+
+/** 키맵 전체에서 겹치는 조합을 찾는다. */
+export function findConflicts(
+  commands: readonly ShortcutCommand[],
+  keymap: Keymap
+): ShortcutConflict[] {
+  const conflicts: ShortcutConflict[] = [];
+  const seen = new Set<string>();
+
+  commands.forEach((command, index) => {
+    for (const combo of keymap[command.id] ?? []) {
+      const key = `${command.id}\n${combo}`;
+      if (seen.has(key)) continue;
+      const others = commands
+        .slice(index + 1)
+        .filter(
+          (other) =>
+            scopesOverlap(command.scope, other.scope) &&
+            (keymap[other.id] ?? []).includes(combo)
+        );
+      if (others.length === 0) continue;
+      for (const other of others) seen.add(`${other.id}\n${combo}`);
+      conflicts.push({
+        combo,
+        commandIds: [command.id, ...others.map((other) => other.id)],
+      });
+    }
+  });
+
+  return conflicts;
+}
@@ -0,0 +1,46 @@
+import type { Keymap } from './keymap';
+
+const STORAGE_KEY = 'vrew-keymap';
+
+function getStorage(): Storage | null {
+  try {
+    return typeof localStorage !== 'undefined' ? localStorage : null;
+  } catch {
+    // 사생활 보호 모드 등에서는 접근만으로도 예외가 난다.
+    return null;
+  }
+}
+
+/** 사용자가 바꾼 조합만 읽는다. 형식이 맞지 않는 항목은 버린다. */
+export function loadKeymapOverrides(): Keymap {
+  const raw = getStorage()?.getItem(STORAGE_KEY);
+  if (!raw) return {};
+
+  try {
+    const parsed: unknown = JSON.parse(raw);
+    if (!parsed || typeof parsed !== 'object') return {};
+    const overrides: Keymap = {};
+    for (const [id, keys] of Object.entries(parsed)) {
+      if (Array.isArray(keys) && keys.every((key) => typeof key === 'string')) {
+        overrides[id] = keys;
+      }
+    }
+    return overrides;
+  } catch {
+    return {};
+  }
+}
+
+export function saveKeymapOverrides(overrides: Keymap): void {
+  const storage = getStorage();
+  if (!storage) return;
+  try {
+    if (Object.keys(overrides).length === 0) {
+      storage.removeItem(STORAGE_KEY);
+    } else {
+      storage.setItem(STORAGE_KEY, JSON.stringify(overrides));
+    }
+  } catch {
+    // 저장 공간이 가득 차도 이번 세션에서는 바뀐 키맵을 그대로 쓴다.
+  }
+}
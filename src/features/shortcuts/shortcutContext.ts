@@ -0,0 +1,31 @@
+import { createContext, useContext } from 'react';
+
+import { SHORTCUT_COMMANDS } from './commands';
+import { resolveKeymap, type Keymap, type ShortcutConflict } from './keymap';
+
+export type ShortcutSettings = {
+  keymap: Keymap;
+  /** 기본값과 다르게 바꾼 조합. 로컬에 저장된다. */
+  overrides: Keymap;
+  conflicts: ShortcutConflict[];
+  setBinding: (commandId: string, keys: string[]) => void;
+  resetBinding: (commandId: string) => void;
+  resetAll: () => void;
+  isCheatSheetOpen: boolean;
+  openCheatSheet: () => void;
+  closeCheatSheet: () => void;
+};
+
+export const DEFAULT_KEYMAP = resolveKeymap(SHORTCUT_COMMANDS, {});
+
+export const ShortcutContext = createContext<ShortcutSettings | null>(null);
+
+/** 프로바이더 밖(테스트 등)에서는 null */
+export function useShortcutSettings() {
+  return useContext(ShortcutContext);
+}
+
+/** 프로바이더 밖에서는 기본 키맵을 쓴다. */
+export function useKeymap(): Keymap {
+  return useContext(ShortcutContext)?.keymap ?? DEFAULT_KEYMAP;
+}
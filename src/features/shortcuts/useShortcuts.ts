@@ -0,0 +1,123 @@
+import {
+  useCallback,
+  useEffect,
+  useRef,
+  type KeyboardEvent as ReactKeyboardEvent,
+} from 'react';
+
+import { SHORTCUT_COMMANDS, type ShortcutCommandId } from './commands';
+import {
+  PAGE_SCOPES,
+  comboFromEvent,
+  type Keymap,
+  type ShortcutScope,
+} from './keymap';
+import { useKeymap } from './shortcutContext';
+
+export type ShortcutEvent = KeyboardEvent | ReactKeyboardEvent<Element>;
+
+/** `false`를 돌려주면 처리하지 않은 것으로 보고 기본 동작을 막지 않는다. */
+export type ShortcutHandler = (event: ShortcutEvent) => boolean | void;
+
+export type ShortcutHandlers = Partial<
+  Record<ShortcutCommandId, ShortcutHandler>
+>;
+
+function isEditableTarget(target: EventTarget | null): boolean {
+  return (
+    target instanceof HTMLInputElement ||
+    target instanceof HTMLTextAreaElement ||
+    target instanceof HTMLSelectElement ||
+    (target instanceof HTMLElement && target.isContentEditable)
+  );
+}
+
+// 버튼·링크·비디오 기본 컨트롤은 Space/Enter를 스스로 처리한다.
+function handlesActivationKeys(target: EventTarget | null): boolean {
+  return (
+    target instanceof HTMLButtonElement ||
+    target instanceof HTMLAnchorElement ||
+    target instanceof HTMLMediaElement
+  );
+}
+
+/**
+ * 키 입력을 `scopes` 안의 명령에 맞춰 처리한다. 이미 다른 범위가 처리한
+ * (`defaultPrevented`) 입력과 IME 조합 중인 입력은 건너뛴다.
+ */
+export function dispatchShortcut(
+  event: ShortcutEvent,
+  scopes: readonly ShortcutScope[],
+  keymap: Keymap,
+  handlers: ShortcutHandlers
+): boolean {
+  const native = 'nativeEvent' in event ? event.nativeEvent : event;
+  if (event.defaultPrevented || native.isComposing) return false;
+
+  const combo = comboFromEvent(event);
+  if (!combo) return false;
+  const editable = isEditableTarget(event.target);
+  if (
+    (combo === 'Space' || combo === 'Enter') &&
+    handlesActivationKeys(event.target)
+  ) {
+    return false;
+  }
+
+  for (const command of SHORTCUT_COMMANDS) {
+    if (!scopes.includes(command.scope)) continue;
+    if (!keymap[command.id]?.includes(combo)) continue;
+    if (editable && !('allowInInputs' in command && command.allowInInputs)) {
+      continue;
+    }
+    const handler = handlers[command.id];
+    if (!handler || handler(event) === false) continue;
+    event.preventDefault();
+    return true;
+  }
+  return false;
+}
+
+/**
+ * 포커스 범위(파형, 자막 목록, 단어 편집기)의 단축키. 돌려준 함수를 그 영역의
+ * `onKeyDown`에 붙이면, 처리한 입력은 페이지 단축키로 넘어가지 않는다.
+ */
+export function useScopedShortcuts(
+  scope: ShortcutScope,
+  handlers: ShortcutHandlers
+) {
+  const keymap = useKeymap();
+  const handlersRef = useRef(handlers);
+
+  useEffect(() => {
+    handlersRef.current = handlers;
+  }, [handlers]);
+
+  return useCallback(
+    (event: ReactKeyboardEvent<Element>) => {
+      dispatchShortcut(event, [scope], keymap, handlersRef.current);
+    },
+    [scope, keymap]
+  );
+}
+
+/** 페이지 어디서든 동작하는 전체·플레이어 범위의 단축키 */
+export function usePageShortcuts(handlers: ShortcutHandlers, enabled = true) {
+  const keymap = useKeymap();
+  const handlersRef = useRef(handlers);
+
+  useEffect(() => {
+    handlersRef.current = handlers;
+  }, [handlers]);
+
+  useEffect(() => {
+    if (!enabled) return;
+
+    const handleKeyDown = (event: KeyboardEvent) => {
+      dispatchShortcut(event, PAGE_SCOPES, keymap, handlersRef.current);
+    };
+
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [keymap, enabled]);
+}
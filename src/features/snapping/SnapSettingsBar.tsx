@@ -0,0 +1,53 @@
+import {
+  SNAP_KIND_LABELS,
+  SNAP_TARGET_KINDS,
+  type SnapSettings,
+  type SnapTargetKind,
+} from './snapping';
+import styles from './SnapSettingsBar.module.css';
+
+type Props = {
+  settings: SnapSettings;
+  /** 대상이 하나도 없는 종류는 끄지 않고 비활성으로 보여 준다. */
+  availableKinds: Record<SnapTargetKind, boolean>;
+  onEnabledChange: (enabled: boolean) => void;
+  onKindChange: (kind: SnapTargetKind, enabled: boolean) => void;
+  className?: string;
+};
+
+function SnapSettingsBar({
+  settings,
+  availableKinds,
+  onEnabledChange,
+  onKindChange,
+  className,
+}: Props) {
+  return (
+    <div className={`${styles.bar} ${className ?? ''}`} aria-label="스냅 설정">
+      <label className={styles.toggle}>
+        <input
+          type="checkbox"
+          checked={settings.enabled}
+          onChange={(e) => onEnabledChange(e.target.checked)}
+        />
+        스냅
+      </label>
+      {SNAP_TARGET_KINDS.map((kind) => (
+        <label key={kind} className={styles.kind}>
+          <input
+            type="checkbox"
+            checked={settings.kinds[kind]}
+            disabled={!settings.enabled || !availableKinds[kind]}
+            onChange={(e) => onKindChange(kind, e.target.checked)}
+          />
+          {SNAP_KIND_LABELS[kind]}
+        </label>
+      ))}
+      <span className={styles.hint}>
+        Alt를 누른 채 옮기면 스냅하지 않습니다
+      </span>
+    </div>
+  );
+}
+
+export default SnapSettingsBar;
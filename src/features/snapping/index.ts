@@ -0,0 +1,20 @@
+export { useSnapping } from './useSnapping';
+export {
+  DEFAULT_SNAP_SETTINGS,
+  SNAP_KIND_LABELS,
+  SNAP_TARGET_KINDS,
+  SNAP_THRESHOLD_PX,
+  captionEdgeId,
+  collectSnapTargets,
+  snapTime,
+  wordEdgeId,
+} from './snapping';
+export type {
+  SnapOptions,
+  SnapResult,
+  SnapSettings,
+  SnapSources,
+  SnapTarget,
+  SnapTargetKind,
+  Snapper,
+} from './snapping';
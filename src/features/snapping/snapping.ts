@@ -0,0 +1,199 @@
+import type { Caption } from '@/data/types';
+import type { TimeRange } from '@/features/waveform/channelAnalysis';
+import { computeFallbackWordTimings } from '@/features/captions/wordHighlight';
+import { snapToFrame } from '@/features/playback/timecode';
+
+export type SnapTargetKind =
+  | 'caption'
+  | 'word'
+  | 'silence'
+  | 'playhead'
+  | 'frame';
+
+export type SnapTarget = {
+  ms: number;
+  kind: SnapTargetKind;
+  /** 드래그 중인 자기 자신을 빼는 데 쓴다. 예: `caption:<id>:start` */
+  id?: string;
+};
+
+export type SnapSources = {
+  captions?: Caption[];
+  silences?: TimeRange[];
+  playheadMs?: number | null;
+  /** 프로브한 프레임 레이트. 있으면 프레임 경계에 맞출 수 있다. */
+  frameRate?: number | null;
+};
+
+export type SnapSettings = {
+  enabled: boolean;
+  kinds: Record<SnapTargetKind, boolean>;
+};
+
+export type SnapOptions = {
+  /** 이 거리 안의 대상에만 붙는다. */
+  thresholdMs: number;
+  excludeIds?: string[];
+};
+
+export type SnapResult = {
+  ms: number;
+  /** 붙은 대상. 없으면 입력 시간을 그대로 돌려준 것이다. */
+  target: SnapTarget | null;
+};
+
+export type Snapper = (ms: number, options: SnapOptions) => SnapResult;
+
+export const SNAP_KIND_LABELS: Record<SnapTargetKind, string> = {
+  caption: '자막 경계',
+  word: '단어 경계',
+  silence: '무음 경계',
+  playhead: '재생 위치',
+  frame: '프레임',
+};
+
+export const SNAP_TARGET_KINDS = Object.keys(
+  SNAP_KIND_LABELS
+) as SnapTargetKind[];
+
+export const DEFAULT_SNAP_SETTINGS: SnapSettings = {
+  enabled: true,
+  kinds: {
+    caption: true,
+    word: true,
+    silence: true,
+    playhead: true,
+    frame: false,
+  },
+};
+
+/** 드래그에서 이 화면 거리(px) 안에 있으면 붙는다. */
+export const SNAP_THRESHOLD_PX = 8;
+
+export function captionEdgeId(captionId: string, edge: 'start' | 'end') {
+  return `caption:${captionId}:${edge}`;
+}
+
+export function wordEdgeId(
+  captionId: string,
+  wordIndex: number,
+  edge: 'start' | 'end'
+) {
+  return `word:${captionId}:${wordIndex}:${edge}`;
+}
+
+/**
+ * 켜진 종류의 스냅 대상을 시간순으로 모은다. 프레임 경계는 개수가 많아
+ * 목록에 넣지 않고 `snapTime`에서 계산한다.
+ */
+export function collectSnapTargets(
+  sources: SnapSources,
+  kinds: SnapSettings['kinds']
+): SnapTarget[] {
+  const targets: SnapTarget[] = [];
+  const captions = sources.captions ?? [];
+
+  if (kinds.caption) {
+    for (const caption of captions) {
+      targets.push(
+        {
+          ms: caption.startMs,
+          kind: 'caption',
+          id: captionEdgeId(caption.id, 'start'),
+        },
+        {
+          ms: caption.endMs,
+          kind: 'caption',
+          id: captionEdgeId(caption.id, 'end'),
+        }
+      );
+    }
+  }
+  if (kinds.word) {
+    for (const caption of captions) {
+      // 단어 타이밍이 없으면 추정치라 맞춰 봐야 의미가 없다.
+      if (!caption.words?.length) continue;
+      computeFallbackWordTimings(caption).forEach((word, index) => {
+        targets.push(
+          {
+            ms: word.startMs,
+            kind: 'word',
+            id: wordEdgeId(caption.id, index, 'start'),
+          },
+          {
+            ms: word.endMs,
+            kind: 'word',
+            id: wordEdgeId(caption.id, index, 'end'),
+          }
+        );
+      });
+    }
+  }
+  if (kinds.silence) {
+    for (const range of sources.silences ?? []) {
+      targets.push(
+        { ms: range.startMs, kind: 'silence' },
+        { ms: range.endMs, kind: 'silence' }
+      );
+    }
+  }
+  if (kinds.playhead && sources.playheadMs != null) {
+    targets.push({ ms: sources.playheadMs, kind: 'playhead' });
+  }
+
+  return targets.sort((a, b) => a.ms - b.ms);
+}
+
+/** `ms` 이상인 첫 대상의 위치 */
+function lowerBound(targets: SnapTarget[], ms: number): number {
+  let lo = 0;
+  let hi = targets.length;
+  while (lo < hi) {
+    const mid = (lo + hi) >> 1;
+    if (targets[mid].ms < ms) lo = mid + 1;
+    else hi = mid;
+  }
+  return lo;
+}
+
+/**
+ * 가장 가까운 대상에 붙인다. 문턱 안에 대상이 없으면 프레임 경계(켜져 있을 때)에
+ * 맞추고, 그것도 없으면 입력을 그대로 둔다.
+ */
+export function snapTime(
+  ms: number,
+  targets: SnapTarget[],
+  options: SnapOptions & { frameRate?: number | null }
+): SnapResult {
+  const { thresholdMs, excludeIds, frameRate } = options;
+  const excluded = new Set(excludeIds ?? []);
+  const isExcluded = (target: SnapTarget) =>
+    target.id !== undefined && excluded.has(target.id);
+  const center = lowerBound(targets, ms);
+
+  let best: SnapTarget | null = null;
+  // 가까운 쪽부터 양옆으로 넓히다가 문턱을 넘으면 멈춘다.
+  for (let i = center - 1; i >= 0; i--) {
+    if (ms - targets[i].ms > thresholdMs) break;
+    if (isExcluded(targets[i])) continue;
+    best = targets[i];
+    break;
+  }
+  for (let i = center; i < targets.length; i++) {
+    const distance = targets[i].ms - ms;
+    if (distance > thresholdMs) break;
+    if (isExcluded(targets[i])) continue;
+    if (!best || distance < ms - best.ms) best = targets[i];
+    break;
+  }
+  if (best) return { ms: best.ms, target: best };
+
+  if (frameRate && frameRate > 0) {
+    const snapped = snapToFrame(ms, frameRate);
+    if (Math.abs(snapped - ms) <= thresholdMs) {
+      return { ms: snapped, target: { ms: snapped, kind: 'frame' } };
+    }
+  }
+
+  return { ms, target: null };
+}
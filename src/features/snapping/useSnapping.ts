@@ -0,0 +1,93 @@
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+
+import {
+  DEFAULT_SNAP_SETTINGS,
+  collectSnapTargets,
+  snapTime,
+  type SnapSettings,
+  type SnapSources,
+  type SnapTarget,
+  type SnapTargetKind,
+  type Snapper,
+} from './snapping';
+
+function insertTarget(targets: SnapTarget[], target: SnapTarget) {
+  const index = targets.findIndex((t) => t.ms > target.ms);
+  if (index < 0) return [...targets, target];
+  return [...targets.slice(0, index), target, ...targets.slice(index)];
+}
+
+/**
+ * 스냅 설정과 대상을 관리한다. 재생 위치는 매 프레임 바뀌므로 대상 목록에 넣지 않고
+ * 스냅할 때 ref에서 읽어 끼워 넣는다. 꺼져 있으면 `snap`은 null이다.
+ */
+export function useSnapping({
+  captions,
+  silences,
+  playheadMs,
+  frameRate,
+}: SnapSources) {
+  const [settings, setSettings] = useState<SnapSettings>(DEFAULT_SNAP_SETTINGS);
+  const playheadRef = useRef<number | null>(playheadMs ?? null);
+
+  useEffect(() => {
+    playheadRef.current = playheadMs ?? null;
+  }, [playheadMs]);
+
+  const targets = useMemo(
+    () =>
+      collectSnapTargets(
+        { captions, silences, playheadMs: null },
+        settings.kinds
+      ),
+    [captions, silences, settings.kinds]
+  );
+
+  const availableKinds = useMemo<Record<SnapTargetKind, boolean>>(
+    () => ({
+      caption: (captions?.length ?? 0) > 0,
+      word: captions?.some((caption) => caption.words?.length) ?? false,
+      silence: (silences?.length ?? 0) > 0,
+      playhead: true,
+      frame: Boolean(frameRate && frameRate > 0),
+    }),
+    [captions, silences, frameRate]
+  );
+
+  const setEnabled = useCallback((enabled: boolean) => {
+    setSettings((prev) => ({ ...prev, enabled }));
+  }, []);
+
+  const setKindEnabled = useCallback(
+    (kind: SnapTargetKind, enabled: boolean) => {
+      setSettings((prev) => ({
+        ...prev,
+        kinds: { ...prev.kinds, [kind]: enabled },
+      }));
+    },
+    []
+  );
+
+  const snapWithTargets = useCallback<Snapper>(
+    (ms, options) => {
+      const playhead = playheadRef.current;
+      const list =
+        settings.kinds.playhead && playhead != null
+          ? insertTarget(targets, { ms: playhead, kind: 'playhead' })
+          : targets;
+      return snapTime(ms, list, {
+        ...options,
+        frameRate: settings.kinds.frame ? frameRate : null,
+      });
+    },
+    [targets, settings.kinds, frameRate]
+  );
+
+  return {
+    settings,
+    availableKinds,
+    setEnabled,
+    setKindEnabled,
+    snap: settings.enabled ? snapWithTargets : null,
+  } as const;
+}
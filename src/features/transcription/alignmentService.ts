@@ -0,0 +1,180 @@
+import type { Caption, CaptionWord } from '@/data/types';
+import { encodeWav } from './audioPcm';
+import { alignCaptionWords, type WordAlignment } from './forcedAlignment';
+import { TranscriptionError, type PcmAudio } from './transcriptionTypes';
+
+/**
+ * Gentle(`lowerquality/gentle`) 호환 로컬 정렬 서비스 어댑터.
+ *
+ *   POST {baseUrl}/transcriptions?async=false  (multipart/form-data)
+ *     audio=<wav>, transcript=<자막 텍스트>
+ *
+ * 응답 `words[]`의 `start`/`end`(초)와 `phones[].duration`으로 단어 타이밍을 만든다.
+ * 서비스가 찾지 못한 단어(`case !== 'success'`)는 에너지 기반 정렬 결과로 채운다.
+ */
+
+export type AlignmentServiceOptions = {
+  baseUrl: string;
+  fetch?: typeof fetch;
+};
+
+type GentlePhone = { phone?: string; duration?: number };
+
+type GentleWord = {
+  word?: string;
+  case?: string;
+  start?: number;
+  end?: number;
+  phones?: GentlePhone[];
+};
+
+// 자막 경계에 걸친 발음이 잘리지 않도록 앞뒤로 조금 더 보낸다.
+const PADDING_MS = 200;
+
+export type AlignmentService = {
+  alignCaption: (
+    caption: Caption,
+    audio: PcmAudio,
+    energies: Float32Array,
+    signal?: AbortSignal
+  ) => Promise<WordAlignment>;
+};
+
+function gentleWordTiming(
+  word: GentleWord,
+  offsetMs: number
+): { startMs: number; endMs: number } | null {
+  if (word.case !== 'success' || typeof word.start !== 'number') return null;
+  const phoneSeconds = (word.phones ?? []).reduce(
+    (sum, phone) => sum + (phone.duration ?? 0),
+    0
+  );
+  const endSeconds =
+    typeof word.end === 'number' ? word.end : word.start + phoneSeconds;
+  return {
+    startMs: offsetMs + Math.round(word.start * 1000),
+    endMs: offsetMs + Math.round(endSeconds * 1000),
+  };
+}
+
+function normalizeToken(text: string): string {
+  return text.toLowerCase().replace(/[^\p{L}\p{N}']/gu, '');
+}
+
+/**
+ * 서비스 결과를 에너지 정렬 결과와 합친다. 서비스는 구두점을 빼고 단어를 나누므로
+ * 정규화한 텍스트를 순서대로 맞춰 보고, 신뢰도는 서비스가 정렬한 단어 비율을 따른다.
+ */
+export function mergeServiceAlignment(
+  caption: Caption,
+  serviceWords: GentleWord[],
+  offsetMs: number,
+  energyAlignment: WordAlignment
+): WordAlignment {
+  let cursor = 0;
+  let aligned = 0;
+  const words: CaptionWord[] = energyAlignment.words.map((word) => {
+    const token = normalizeToken(word.text);
+    const index = serviceWords.findIndex(
+      (candidate, i) =>
+        i >= cursor && normalizeToken(candidate.word ?? '') === token
+    );
+    if (index < 0) return word;
+    cursor = index + 1;
+
+    const timing = gentleWordTiming(serviceWords[index], offsetMs);
+    if (!timing) return word;
+    aligned += 1;
+    return {
+      text: word.text,
+      startMs: Math.max(caption.startMs, timing.startMs),
+      endMs: Math.min(caption.endMs, Math.max(timing.startMs, timing.endMs)),
+    };
+  });
+
+  const ratio = words.length > 0 ? aligned / words.length : 0;
+  return {
+    words,
+    confidence:
+      Math.round(
+        (ratio * 0.9 + (1 - ratio) * energyAlignment.confidence * 0.5) * 100
+      ) / 100,
+  };
+}
+
+export function createAlignmentService({
+  baseUrl,
+  fetch: fetchImpl = (input, init) => globalThis.fetch(input, init),
+}: AlignmentServiceOptions): AlignmentService {
+  const url = `${baseUrl.replace(/\/+$/, '')}/transcriptions?async=false`;
+
+  return {
+    async alignCaption(caption, audio, energies, signal) {
+      const energyAlignment = alignCaptionWords(caption, energies);
+      const startMs = Math.max(0, caption.startMs - PADDING_MS);
+      const endMs = caption.endMs + PADDING_MS;
+      const from = Math.floor((startMs / 1000) * audio.sampleRate);
+      const to = Math.min(
+        audio.samples.length,
+        Math.ceil((endMs / 1000) * audio.sampleRate)
+      );
+
+      const form = new FormData();
+      form.append(
+        'audio',
+        new Blob(
+          [encodeWav(audio.samples.subarray(from, to), audio.sampleRate)],
+          {
+            type: 'audio/wav',
+          }
+        ),
+        'audio.wav'
+      );
+      form.append(
+        'transcript',
+        energyAlignment.words.map((w) => w.text).join(' ')
+      );
+
+      let res: Response;
+      try {
+        res = await fetchImpl(url, { method: 'POST', body: form, signal });
+      } catch (e) {
+        if (signal?.aborted) {
+          throw new TranscriptionError('CANCELLED', '정렬이 취소되었습니다.');
+        }
+        throw new TranscriptionError(
+          'NETWORK_ERROR',
+          `정렬 서버(${baseUrl})에 연결할 수 없습니다.`,
+          e instanceof Error ? e.message : undefined,
+          e
+        );
+      }
+      if (!res.ok) {
+        throw new TranscriptionError(
+          'SERVER_ERROR',
+          `정렬 서버 오류 (${res.status})`,
+          (await res.text().catch(() => '')).slice(0, 500) || undefined
+        );
+      }
+
+      let body: { words?: GentleWord[] };
+      try {
+        body = (await res.json()) as { words?: GentleWord[] };
+      } catch (e) {
+        throw new TranscriptionError(
+          'INVALID_RESPONSE',
+          '정렬 서버 응답이 JSON이 아닙니다.',
+          undefined,
+          e
+        );
+      }
+
+      return mergeServiceAlignment(
+        caption,
+        Array.isArray(body.words) ? body.words : [],
+        Math.round((from / audio.sampleRate) * 1000),
+        energyAlignment
+      );
+    },
+  };
+}
@@ -0,0 +1,146 @@
+/**
+ * 음성 인식 입력용 PCM 유틸리티. 워커와 메인 스레드 양쪽에서 쓰므로 DOM API에 의존하지 않는다.
+ */
+
+export const TRANSCRIPTION_SAMPLE_RATE = 16000;
+
+export function downmixToMono(channels: Float32Array[]): Float32Array {
+  if (channels.length === 0) return new Float32Array(0);
+  if (channels.length === 1) return channels[0];
+
+  const length = Math.min(...channels.map((c) => c.length));
+  const out = new Float32Array(length);
+  for (const channel of channels) {
+    for (let i = 0; i < length; i++) {
+      out[i] += channel[i] / channels.length;
+    }
+  }
+  return out;
+}
+
+/**
+ * 다운샘플링은 출력 샘플 하나가 덮는 입력 구간의 평균을, 업샘플링은 선형 보간을 쓴다.
+ * 음성 대역(8kHz 이하)만 필요하므로 별도의 저역 통과 필터는 두지 않는다.
+ */
+export function resamplePcm(
+  samples: Float32Array,
+  fromRate: number,
+  toRate: number
+): Float32Array {
+  if (fromRate === toRate || samples.length === 0) return samples;
+
+  const ratio = fromRate / toRate;
+  const outLength = Math.max(1, Math.floor(samples.length / ratio));
+  const out = new Float32Array(outLength);
+
+  if (ratio > 1) {
+    for (let i = 0; i < outLength; i++) {
+      const start = Math.floor(i * ratio);
+      const end = Math.min(samples.length, Math.floor((i + 1) * ratio));
+      let sum = 0;
+      for (let j = start; j < end; j++) sum += samples[j];
+      out[i] = end > start ? sum / (end - start) : (samples[start] ?? 0);
+    }
+    return out;
+  }
+
+  for (let i = 0; i < outLength; i++) {
+    const pos = i * ratio;
+    const index = Math.floor(pos);
+    const next = Math.min(index + 1, samples.length - 1);
+    const frac = pos - index;
+    out[i] = samples[index] * (1 - frac) + samples[next] * frac;
+  }
+  return out;
+}
+
+/** 16비트 PCM 모노 WAV로 인코딩한다. */
+export function encodeWav(
+  samples: Float32Array,
+  sampleRate: number
+): ArrayBuffer {
+  const dataBytes = samples.length * 2;
+  const buffer = new ArrayBuffer(44 + dataBytes);
+  const view = new DataView(buffer);
+
+  const writeAscii = (offset: number, text: string) => {
+    for (let i = 0; i < text.length; i++) {
+      view.setUint8(offset + i, text.charCodeAt(i));
+    }
+  };
+
+  writeAscii(0, 'RIFF');
+  view.setUint32(4, 36 + dataBytes, true);
+  writeAscii(8, 'WAVE');
+  writeAscii(12, 'fmt ');
+  view.setUint32(16, 16, true);
+  view.setUint16(20, 1, true); // PCM
+  view.setUint16(22, 1, true); // mono
+  view.setUint32(24, sampleRate, true);
+  view.setUint32(28, sampleRate * 2, true);
+  view.setUint16(32, 2, true);
+  view.setUint16(34, 16, true);
+  writeAscii(36, 'data');
+  view.setUint32(40, dataBytes, true);
+
+  for (let i = 0; i < samples.length; i++) {
+    const v = Math.max(-1, Math.min(1, samples[i]));
+    view.setInt16(44 + i * 2, v < 0 ? v * 0x8000 : v * 0x7fff, true);
+  }
+  return buffer;
+}
+
+export type PcmChunk = {
+  /** 시작 샘플 (포함) */
+  start: number;
+  /** 끝 샘플 (미포함) */
+  end: number;
+};
+
+const SPLIT_FRAME_MS = 20;
+
+/**
+ * 긴 오디오를 `chunkMs` 이하 조각으로 나눈다. 단어 중간에서 잘리지 않도록
+ * 각 조각 끝에서 `searchMs` 안의 가장 조용한 프레임을 경계로 고른다.
+ */
+export function planPcmChunks(
+  samples: Float32Array,
+  sampleRate: number,
+  chunkMs: number,
+  searchMs = 3000
+): PcmChunk[] {
+  const total = samples.length;
+  const maxChunk = Math.max(1, Math.floor((chunkMs / 1000) * sampleRate));
+  if (total <= maxChunk) return total > 0 ? [{ start: 0, end: total }] : [];
+
+  const frame = Math.max(1, Math.floor((SPLIT_FRAME_MS / 1000) * sampleRate));
+  const search = Math.min(
+    Math.floor(maxChunk / 2),
+    Math.floor((searchMs / 1000) * sampleRate)
+  );
+
+  const chunks: PcmChunk[] = [];
+  let start = 0;
+  while (start < total) {
+    const limit = start + maxChunk;
+    if (limit >= total) {
+      chunks.push({ start, end: total });
+      break;
+    }
+
+    let best = limit;
+    let bestEnergy = Infinity;
+    for (let f = limit - search; f + frame <= limit; f += frame) {
+      let energy = 0;
+      for (let i = f; i < f + frame; i++) energy += samples[i] * samples[i];
+      if (energy < bestEnergy) {
+        bestEnergy = energy;
+        best = f + Math.floor(frame / 2);
+      }
+    }
+
+    chunks.push({ start, end: best });
+    start = best;
+  }
+  return chunks;
+}
@@ -0,0 +1,17 @@
+import type {
+  TranscriptionEngine,
+  TranscriptionEngineConfig,
+} from './transcriptionTypes';
+import { createWhisperServerEngine } from './whisperServerEngine';
+
+export function createTranscriptionEngine(
+  config: TranscriptionEngineConfig
+): TranscriptionEngine {
+  switch (config.kind) {
+    case 'whisper-server':
+      return createWhisperServerEngine({
+        baseUrl: config.baseUrl,
+        chunkMs: config.chunkMs,
+      });
+  }
+}
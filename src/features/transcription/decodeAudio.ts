@@ -0,0 +1,45 @@
+import {
+  TRANSCRIPTION_SAMPLE_RATE,
+  downmixToMono,
+  resamplePcm,
+} from './audioPcm';
+import { TranscriptionError, type PcmAudio } from './transcriptionTypes';
+
+/**
+ * 비디오/오디오 파일을 음성 인식용 16kHz 모노 PCM으로 디코딩한다.
+ *
+ * `OfflineAudioContext`는 디코딩 결과를 컨텍스트 샘플레이트로 리샘플하므로
+ * 보통은 그대로 쓰고, 그렇지 않은 브라우저에서만 직접 리샘플한다.
+ * Web Audio API가 워커에 없어 디코딩은 메인 스레드에서 한다.
+ */
+export async function decodeAudioForTranscription(
+  blob: Blob,
+  targetRate = TRANSCRIPTION_SAMPLE_RATE
+): Promise<PcmAudio> {
+  const arrayBuffer = await blob.arrayBuffer();
+
+  let audioBuffer: AudioBuffer;
+  try {
+    const context = new OfflineAudioContext(1, 1, targetRate);
+    audioBuffer = await context.decodeAudioData(arrayBuffer);
+  } catch (e) {
+    throw new TranscriptionError(
+      'DECODE_FAILED',
+      '오디오를 디코딩할 수 없습니다.',
+      e instanceof Error ? e.message : undefined,
+      e
+    );
+  }
+
+  const channels = Array.from(
+    { length: audioBuffer.numberOfChannels },
+    (_, i) => audioBuffer.getChannelData(i)
+  );
+  const mono = downmixToMono(channels);
+  // 채널이 하나면 AudioBuffer 내부 배열을 그대로 돌려받으므로 워커로 넘기기 전에 복사한다.
+  const samples = resamplePcm(mono, audioBuffer.sampleRate, targetRate);
+  return {
+    samples: samples === channels[0] ? samples.slice() : samples,
+    sampleRate: targetRate,
+  };
+}
@@ -0,0 +1,280 @@
+import type { Caption, CaptionWord } from '@/data/types';
+import {
+  computeFallbackWordTimings,
+  tokenizeText,
+} from '@/features/captions/wordHighlight';
+import type { AlignmentService } from './alignmentService';
+import {
+  TranscriptionError,
+  type PcmAudio,
+  type TranscriptionProgress,
+} from './transcriptionTypes';
+
+/**
+ * 자막 텍스트를 오디오 에너지/온셋에 맞춰 단어 단위로 정렬한다.
+ *
+ * 1. 10ms 프레임 에너지(dB)에서 자막 구간의 잡음/발화 수준을 추정해 앞뒤 무음을 잘라낸다.
+ * 2. 단어 길이는 음절 수에 비례한다고 보고 기대 경계를 잡는다.
+ * 3. 기대 경계 주변에서 "에너지 골 + 다음 프레임 온셋" 점수가 높고 단어 길이가
+ *    기대치와 가까운 경계 조합을 동적 계획법으로 고른다.
+ * 4. 각 단어 끝의 무음 프레임을 잘라 단어 사이 쉼을 살린다.
+ *
+ * 신뢰도는 경계 선명도, 길이 적합도, 발화/잡음 대비를 섞은 0~1 값이다.
+ */
+
+export const ALIGNMENT_FRAME_MS = 10;
+
+export type WordAlignment = {
+  words: CaptionWord[];
+  confidence: number;
+};
+
+export type AlignCaptionsOptions = {
+  /** 있으면 음소 단위 정렬을 먼저 시도하고, 실패한 자막만 에너지 정렬로 처리한다. */
+  service?: AlignmentService;
+  signal?: AbortSignal;
+  onProgress?: (progress: TranscriptionProgress) => void;
+};
+
+const MIN_WORD_FRAMES = 3;
+const MIN_DYNAMIC_DB = 6;
+const SILENCE_DB = -90;
+const DURATION_WEIGHT = 0.5;
+
+export function computeFrameEnergies(
+  samples: Float32Array,
+  sampleRate: number,
+  frameMs = ALIGNMENT_FRAME_MS
+): Float32Array {
+  const frameSize = Math.max(1, Math.round((frameMs / 1000) * sampleRate));
+  const frameCount = Math.ceil(samples.length / frameSize);
+  const out = new Float32Array(frameCount);
+  for (let f = 0; f < frameCount; f++) {
+    const start = f * frameSize;
+    const end = Math.min(samples.length, start + frameSize);
+    let sumSq = 0;
+    for (let i = start; i < end; i++) sumSq += samples[i] * samples[i];
+    const rms = Math.sqrt(sumSq / Math.max(1, end - start));
+    out[f] = rms > 0 ? Math.max(SILENCE_DB, 20 * Math.log10(rms)) : SILENCE_DB;
+  }
+  return out;
+}
+
+/** 단어 발화 길이 가중치. 한글은 글자 하나가 한 음절, 라틴 문자는 모음 묶음 수로 센다. */
+export function estimateSyllables(word: string): number {
+  const hangul = word.match(/[\uac00-\ud7a3]/g)?.length ?? 0;
+  const kana = word.match(/[\u3040-\u30ff\u4e00-\u9fff]/g)?.length ?? 0;
+  const vowelGroups =
+    word.match(/[aeiouyàáâäèéêëìíîïòóôöùúûü]+/gi)?.length ?? 0;
+  const digits = word.match(/\d/g)?.length ?? 0;
+  return Math.max(1, hangul + kana + vowelGroups + digits * 1.5);
+}
+
+function percentile(values: Float32Array, p: number): number {
+  const sorted = Array.from(values).sort((a, b) => a - b);
+  const index = Math.min(
+    sorted.length - 1,
+    Math.max(0, Math.round((sorted.length - 1) * p))
+  );
+  return sorted[index];
+}
+
+function clamp01(value: number): number {
+  return Math.max(0, Math.min(1, value));
+}
+
+function fallback(caption: Caption, confidence: number): WordAlignment {
+  const words = computeFallbackWordTimings({ ...caption, words: undefined });
+  return { words, confidence };
+}
+
+export function alignCaptionWords(
+  caption: Caption,
+  energies: Float32Array,
+  frameMs = ALIGNMENT_FRAME_MS
+): WordAlignment {
+  // 이전에 맞춘 단어 목록은 텍스트를 고친 뒤라면 낡았으므로 현재 텍스트에서 단어를 나눈다.
+  const texts = tokenizeText(caption.text);
+  const n = texts.length;
+  if (n === 0) return { words: [], confidence: 0 };
+
+  const f0 = Math.max(0, Math.floor(caption.startMs / frameMs));
+  const f1 = Math.min(energies.length, Math.ceil(caption.endMs / frameMs));
+  const e = energies.subarray(f0, f1);
+  if (e.length < n * MIN_WORD_FRAMES) return fallback(caption, 0);
+
+  const noise = percentile(e, 0.1);
+  const peak = percentile(e, 0.95);
+  const dynamic = peak - noise;
+  if (dynamic < MIN_DYNAMIC_DB) return fallback(caption, 0.1);
+
+  const threshold = noise + dynamic * 0.35;
+  const isSpeech = (f: number) => e[f] > threshold;
+
+  let speechStart = 0;
+  while (speechStart < e.length && !isSpeech(speechStart)) speechStart++;
+  let speechEnd = e.length;
+  while (speechEnd > speechStart && !isSpeech(speechEnd - 1)) speechEnd--;
+  if (speechEnd - speechStart < n * MIN_WORD_FRAMES) {
+    speechStart = 0;
+    speechEnd = e.length;
+  }
+
+  // 에너지가 낮을수록(골), 바로 뒤에서 에너지가 치솟을수록(온셋) 경계일 가능성이 높다.
+  const boundaryScore = new Float32Array(e.length);
+  for (let f = 0; f < e.length; f++) {
+    const valley = 1 - clamp01((e[f] - noise) / dynamic);
+    let rise = 0;
+    for (let k = 1; k <= 3 && f + k < e.length; k++) {
+      rise = Math.max(rise, e[f + k] - e[f]);
+    }
+    boundaryScore[f] = 0.6 * valley + 0.4 * clamp01(rise / (dynamic * 0.5));
+  }
+
+  const weights = texts.map(estimateSyllables);
+  const totalWeight = weights.reduce((sum, w) => sum + w, 0);
+  const span = speechEnd - speechStart;
+  const expectedLen = weights.map((w) => (w / totalWeight) * span);
+  const expectedBoundary: number[] = [];
+  let acc = speechStart;
+  for (let i = 0; i < n - 1; i++) {
+    acc += expectedLen[i];
+    expectedBoundary.push(acc);
+  }
+
+  const durationFit = (len: number, expected: number) =>
+    Math.exp(-Math.abs(Math.log(Math.max(1, len) / Math.max(1, expected))));
+
+  // dp[k]: k번째 경계 후보 위치 → (누적 점수, 이전 경계 위치)
+  const window = Math.max(5, Math.round((span / n) * 0.6));
+  let prevLayer = new Map<number, { score: number; from: number }>([
+    [speechStart, { score: 0, from: -1 }],
+  ]);
+  const layers: Map<number, { score: number; from: number }>[] = [prevLayer];
+
+  for (let k = 0; k < n - 1; k++) {
+    const layer = new Map<number, { score: number; from: number }>();
+    const center = Math.round(expectedBoundary[k]);
+    const lo = Math.max(
+      speechStart + MIN_WORD_FRAMES * (k + 1),
+      center - window
+    );
+    const hi = Math.min(
+      speechEnd - MIN_WORD_FRAMES * (n - 1 - k),
+      center + window
+    );
+    for (let p = lo; p <= hi; p++) {
+      let best: { score: number; from: number } | null = null;
+      for (const [from, entry] of prevLayer) {
+        const len = p - from;
+        if (len < MIN_WORD_FRAMES) continue;
+        const score =
+          entry.score +
+          boundaryScore[p] +
+          DURATION_WEIGHT * Math.log(durationFit(len, expectedLen[k]));
+        if (!best || score > best.score) best = { score, from };
+      }
+      if (best) layer.set(p, best);
+    }
+    if (layer.size === 0) return fallback(caption, 0.1);
+    layers.push(layer);
+    prevLayer = layer;
+  }
+
+  let lastPos = -1;
+  let lastScore = -Infinity;
+  for (const [pos, entry] of prevLayer) {
+    const score =
+      entry.score +
+      DURATION_WEIGHT *
+        Math.log(durationFit(speechEnd - pos, expectedLen[n - 1]));
+    if (score > lastScore) {
+      lastScore = score;
+      lastPos = pos;
+    }
+  }
+
+  const boundaries = [speechEnd];
+  for (let k = layers.length - 1, pos = lastPos; k >= 0; k--) {
+    boundaries.unshift(pos);
+    pos = layers[k].get(pos)?.from ?? -1;
+  }
+
+  const toMs = (frame: number) =>
+    Math.min(caption.endMs, Math.max(caption.startMs, (f0 + frame) * frameMs));
+
+  const words: CaptionWord[] = texts.map((text, i) => {
+    let start = boundaries[i];
+    let end = boundaries[i + 1];
+    while (end - start > MIN_WORD_FRAMES && !isSpeech(end - 1)) end--;
+    while (end - start > MIN_WORD_FRAMES && !isSpeech(start)) start++;
+    return { text, startMs: toMs(start), endMs: toMs(end) };
+  });
+
+  const clarity =
+    n > 1
+      ? boundaries.slice(1, -1).reduce((sum, b) => sum + boundaryScore[b], 0) /
+        (n - 1)
+      : 1;
+  const fit =
+    texts.reduce(
+      (sum, _, i) =>
+        sum + durationFit(boundaries[i + 1] - boundaries[i], expectedLen[i]),
+      0
+    ) / n;
+  const contrast = clamp01(dynamic / 30);
+  const confidence = clamp01(0.45 * clarity + 0.3 * fit + 0.25 * contrast);
+
+  return { words, confidence: Math.round(confidence * 100) / 100 };
+}
+
+export async function alignCaptionsToAudio(
+  captions: Caption[],
+  audio: PcmAudio,
+  options: AlignCaptionsOptions = {}
+): Promise<Caption[]> {
+  const { service, signal, onProgress } = options;
+  const energies = computeFrameEnergies(audio.samples, audio.sampleRate);
+  const totalMs = Math.round((audio.samples.length / audio.sampleRate) * 1000);
+  const result: Caption[] = [];
+
+  onProgress?.({ progress: 0, processedMs: 0, totalMs, stage: 'aligning' });
+  for (const [index, caption] of captions.entries()) {
+    if (signal?.aborted) {
+      throw new TranscriptionError('CANCELLED', '정렬이 취소되었습니다.');
+    }
+
+    let alignment: WordAlignment | null = null;
+    if (service && caption.text.trim()) {
+      try {
+        alignment = await service.alignCaption(
+          caption,
+          audio,
+          energies,
+          signal
+        );
+      } catch (e) {
+        if (e instanceof TranscriptionError && e.code === 'CANCELLED') throw e;
+        console.warn('[alignment] service failed, using energy alignment:', e);
+      }
+    }
+    alignment ??= alignCaptionWords(caption, energies);
+
+    result.push(
+      alignment.words.length > 0
+        ? {
+            ...caption,
+            words: alignment.words,
+            alignmentConfidence: alignment.confidence,
+          }
+        : caption
+    );
+    onProgress?.({
+      progress: (index + 1) / captions.length,
+      processedMs: Math.min(totalMs, caption.endMs),
+      totalMs,
+      stage: 'aligning',
+    });
+  }
+  return result;
+}
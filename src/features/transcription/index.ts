@@ -0,0 +1,52 @@
+export {
+  useTranscription,
+  getDefaultTranscriptionEngine,
+} from './useTranscription';
+export type {
+  TranscriptionState,
+  UseTranscriptionReturn,
+} from './useTranscription';
+export { createTranscriptionEngine } from './createTranscriptionEngine';
+export {
+  createWhisperServerEngine,
+  parseWhisperResponse,
+} from './whisperServerEngine';
+export type { WhisperServerEngineOptions } from './whisperServerEngine';
+export { alignInWorker, transcribeInWorker } from './transcriptionClient';
+export type { AlignInWorkerOptions } from './transcriptionClient';
+export {
+  ALIGNMENT_FRAME_MS,
+  alignCaptionWords,
+  alignCaptionsToAudio,
+  computeFrameEnergies,
+  estimateSyllables,
+} from './forcedAlignment';
+export type { AlignCaptionsOptions, WordAlignment } from './forcedAlignment';
+export {
+  createAlignmentService,
+  mergeServiceAlignment,
+} from './alignmentService';
+export type {
+  AlignmentService,
+  AlignmentServiceOptions,
+} from './alignmentService';
+export { decodeAudioForTranscription } from './decodeAudio';
+export {
+  TRANSCRIPTION_SAMPLE_RATE,
+  downmixToMono,
+  resamplePcm,
+  encodeWav,
+  planPcmChunks,
+} from './audioPcm';
+export type { PcmChunk } from './audioPcm';
+export { TranscriptionError } from './transcriptionTypes';
+export type {
+  AlignPayload,
+  PcmAudio,
+  TranscribeOptions,
+  TranscriptionEngine,
+  TranscriptionEngineConfig,
+  TranscriptionErrorCode,
+  TranscriptionErrorData,
+  TranscriptionProgress,
+} from './transcriptionTypes';
@@ -0,0 +1,99 @@
+import type { Caption } from '@/data/types';
+import { createAlignmentService } from './alignmentService';
+import { createTranscriptionEngine } from './createTranscriptionEngine';
+import { alignCaptionsToAudio } from './forcedAlignment';
+import {
+  TranscriptionError,
+  type AlignPayload,
+  type JobId,
+  type TranscribePayload,
+  type TranscriptionProgress,
+  type TranscriptionWorkerRequest,
+  type TranscriptionWorkerResponse,
+} from './transcriptionTypes';
+
+declare const self: Worker & typeof globalThis;
+
+const controllers = new Map<JobId, AbortController>();
+
+function post(message: TranscriptionWorkerResponse) {
+  self.postMessage(message);
+}
+
+async function runJob(
+  jobId: JobId,
+  task: (
+    signal: AbortSignal,
+    onProgress: (data: TranscriptionProgress) => void
+  ) => Promise<Caption[]>
+) {
+  const controller = new AbortController();
+  controllers.set(jobId, controller);
+
+  try {
+    const captions = await task(controller.signal, (data) =>
+      post({ type: 'progress', jobId, data })
+    );
+    if (controller.signal.aborted) {
+      post({ type: 'cancelled', jobId });
+      return;
+    }
+    post({ type: 'completed', jobId, data: { captions } });
+  } catch (e) {
+    if (controller.signal.aborted) {
+      post({ type: 'cancelled', jobId });
+      return;
+    }
+    const error =
+      e instanceof TranscriptionError
+        ? e
+        : new TranscriptionError(
+            'UNKNOWN',
+            '음성 처리 중 오류가 발생했습니다.',
+            e instanceof Error ? e.message : String(e)
+          );
+    post({ type: 'error', jobId, data: error.toData() });
+  } finally {
+    controllers.delete(jobId);
+  }
+}
+
+function handleTranscribe(jobId: JobId, payload: TranscribePayload) {
+  return runJob(jobId, (signal, onProgress) =>
+    createTranscriptionEngine(payload.engine).transcribe(
+      { samples: payload.samples, sampleRate: payload.sampleRate },
+      { language: payload.language, signal, onProgress }
+    )
+  );
+}
+
+function handleAlign(jobId: JobId, payload: AlignPayload) {
+  return runJob(jobId, (signal, onProgress) =>
+    alignCaptionsToAudio(
+      payload.captions,
+      { samples: payload.samples, sampleRate: payload.sampleRate },
+      {
+        service: payload.serviceUrl
+          ? createAlignmentService({ baseUrl: payload.serviceUrl })
+          : undefined,
+        signal,
+        onProgress,
+      }
+    )
+  );
+}
+
+self.onmessage = (event: MessageEvent<TranscriptionWorkerRequest>) => {
+  const msg = event.data;
+  switch (msg.type) {
+    case 'transcribe':
+      void handleTranscribe(msg.jobId, msg.payload);
+      break;
+    case 'align':
+      void handleAlign(msg.jobId, msg.payload);
+      break;
+    case 'cancel':
+      controllers.get(msg.jobId)?.abort();
+      break;
+  }
+};
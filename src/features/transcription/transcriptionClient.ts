@@ -0,0 +1,157 @@
+import type { Caption } from '@/data/types';
+import {
+  TranscriptionError,
+  type JobId,
+  type PcmAudio,
+  type TranscribeOptions,
+  type TranscriptionEngineConfig,
+  type TranscriptionProgress,
+  type TranscriptionWorkerRequest,
+  type TranscriptionWorkerResponse,
+} from './transcriptionTypes';
+
+export type AlignInWorkerOptions = {
+  /** Gentle 호환 정렬 서비스 주소 */
+  serviceUrl?: string;
+  signal?: AbortSignal;
+  onProgress?: (progress: TranscriptionProgress) => void;
+};
+
+type JobOptions = {
+  signal?: AbortSignal;
+  onProgress?: (progress: TranscriptionProgress) => void;
+  cancelledMessage: string;
+};
+
+/**
+ * 작업마다 전용 워커를 띄워 실행한다. 취소하면 워커를 종료해 진행 중인 요청까지
+ * 함께 끊는다.
+ */
+function runWorkerJob(
+  makeRequest: (jobId: JobId) => TranscriptionWorkerRequest,
+  transfer: Transferable[],
+  { signal, onProgress, cancelledMessage }: JobOptions
+): Promise<Caption[]> {
+  if (signal?.aborted) {
+    return Promise.reject(
+      new TranscriptionError('CANCELLED', cancelledMessage)
+    );
+  }
+
+  const jobId = crypto.randomUUID();
+  const worker = new Worker(
+    new URL('./transcription.worker.ts', import.meta.url),
+    { type: 'module' }
+  );
+
+  return new Promise<Caption[]>((resolve, reject) => {
+    const finish = () => {
+      signal?.removeEventListener('abort', handleAbort);
+      worker.terminate();
+    };
+
+    const handleAbort = () => {
+      worker.postMessage({
+        type: 'cancel',
+        jobId,
+      } satisfies TranscriptionWorkerRequest);
+      finish();
+      reject(new TranscriptionError('CANCELLED', cancelledMessage));
+    };
+
+    worker.onmessage = (event: MessageEvent<TranscriptionWorkerResponse>) => {
+      const msg = event.data;
+      if (msg.jobId !== jobId) return;
+      switch (msg.type) {
+        case 'progress':
+          onProgress?.(msg.data);
+          break;
+        case 'completed':
+          finish();
+          resolve(msg.data.captions);
+          break;
+        case 'error':
+          finish();
+          reject(
+            new TranscriptionError(
+              msg.data.code,
+              msg.data.message,
+              msg.data.details
+            )
+          );
+          break;
+        case 'cancelled':
+          finish();
+          reject(new TranscriptionError('CANCELLED', cancelledMessage));
+          break;
+      }
+    };
+
+    worker.onerror = (event) => {
+      finish();
+      reject(
+        new TranscriptionError(
+          'UNKNOWN',
+          '음성 처리 워커가 중단되었습니다.',
+          event.message
+        )
+      );
+    };
+
+    signal?.addEventListener('abort', handleAbort, { once: true });
+    worker.postMessage(makeRequest(jobId), transfer);
+  });
+}
+
+/**
+ * 워커에서 음성 인식을 실행한다.
+ *
+ * `audio.samples`의 버퍼는 워커로 이전(transfer)되므로 호출 뒤에는 비어 있다.
+ */
+export function transcribeInWorker(
+  audio: PcmAudio,
+  engine: TranscriptionEngineConfig,
+  options: TranscribeOptions = {}
+): Promise<Caption[]> {
+  return runWorkerJob(
+    (jobId) => ({
+      type: 'transcribe',
+      jobId,
+      payload: {
+        samples: audio.samples,
+        sampleRate: audio.sampleRate,
+        engine,
+        language: options.language,
+      },
+    }),
+    [audio.samples.buffer],
+    { ...options, cancelledMessage: '음성 인식이 취소되었습니다.' }
+  );
+}
+
+/**
+ * 워커에서 기존 자막 텍스트를 오디오에 강제 정렬한다. 단어 타이밍과
+ * `alignmentConfidence`가 채워진 자막을 같은 순서로 돌려준다.
+ *
+ * `audio.samples`의 버퍼는 워커로 이전(transfer)되므로 호출 뒤에는 비어 있다.
+ */
+export function alignInWorker(
+  audio: PcmAudio,
+  captions: Caption[],
+  options: AlignInWorkerOptions = {}
+): Promise<Caption[]> {
+  return runWorkerJob(
+    (jobId) => ({
+      type: 'align',
+      jobId,
+      payload: {
+        samples: audio.samples,
+        sampleRate: audio.sampleRate,
+        captions,
+        serviceUrl: options.serviceUrl,
+      },
+    }),
+    [audio.samples.buffer],
+    { ...options, cancelledMessage: '정렬이 취소되었습니다.' }
+  );
+}
@@ -0,0 +1,106 @@
+import type { Caption } from '@/data/types';
+
+export type JobId = string;
+
+/** 엔진이 받는 오디오. 음성 인식 모델 입력에 맞춰 보통 16kHz 모노다. */
+export type PcmAudio = {
+  samples: Float32Array;
+  sampleRate: number;
+};
+
+export type TranscriptionProgress = {
+  /** 0~1 */
+  progress: number;
+  processedMs?: number;
+  totalMs?: number;
+  stage?: string;
+};
+
+export type TranscribeOptions = {
+  /** ISO 639-1 코드. 지정하지 않으면 엔진이 자동 감지한다. */
+  language?: string;
+  signal?: AbortSignal;
+  onProgress?: (progress: TranscriptionProgress) => void;
+};
+
+export type TranscriptionEngine = {
+  readonly name: string;
+  /** 단어 타이밍(`words`)이 채워진 자막을 시간순으로 돌려준다. */
+  transcribe: (
+    audio: PcmAudio,
+    options?: TranscribeOptions
+  ) => Promise<Caption[]>;
+};
+
+/**
+ * 워커 안에서 엔진을 만들기 위한 직렬화 가능한 설정.
+ * 새 엔진을 추가하면 여기에 종류를 더하고 `createTranscriptionEngine`에서 분기한다.
+ */
+export type TranscriptionEngineConfig = {
+  kind: 'whisper-server';
+  /** whisper.cpp `server`와 호환되는 서비스 주소 (예: http://127.0.0.1:8080) */
+  baseUrl: string;
+  /** 한 번의 요청에 보낼 최대 오디오 길이 */
+  chunkMs?: number;
+};
+
+export type TranscriptionErrorCode =
+  | 'NETWORK_ERROR'
+  | 'SERVER_ERROR'
+  | 'INVALID_RESPONSE'
+  | 'DECODE_FAILED'
+  | 'CANCELLED'
+  | 'UNKNOWN';
+
+export type TranscriptionErrorData = {
+  code: TranscriptionErrorCode;
+  message: string;
+  details?: string;
+};
+
+export class TranscriptionError extends Error {
+  readonly code: TranscriptionErrorCode;
+  readonly details?: string;
+
+  constructor(
+    code: TranscriptionErrorCode,
+    message: string,
+    details?: string,
+    cause?: unknown
+  ) {
+    super(message, { cause });
+    this.name = 'TranscriptionError';
+    this.code = code;
+    this.details = details;
+  }
+
+  toData(): TranscriptionErrorData {
+    return { code: this.code, message: this.message, details: this.details };
+  }
+}
+
+export type TranscribePayload = {
+  samples: Float32Array;
+  sampleRate: number;
+  engine: TranscriptionEngineConfig;
+  language?: string;
+};
+
+export type AlignPayload = {
+  samples: Float32Array;
+  sampleRate: number;
+  captions: Caption[];
+  /** Gentle 호환 정렬 서비스 주소. 없으면 에너지/온셋 정렬만 쓴다. */
+  serviceUrl?: string;
+};
+
+export type TranscriptionWorkerRequest =
+  | { type: 'transcribe'; jobId: JobId; payload: TranscribePayload }
+  | { type: 'align'; jobId: JobId; payload: AlignPayload }
+  | { type: 'cancel'; jobId: JobId };
+
+export type TranscriptionWorkerResponse =
+  | { type: 'progress'; jobId: JobId; data: TranscriptionProgress }
+  | { type: 'completed'; jobId: JobId; data: { captions: Caption[] } }
+  | { type: 'error'; jobId: JobId; data: TranscriptionErrorData }
+  | { type: 'cancelled'; jobId: JobId };
@@ -0,0 +1,180 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+
+import { getAppEnv } from '@/config/env';
+import type { Caption } from '@/data/types';
+import { decodeAudioForTranscription } from './decodeAudio';
+import { alignInWorker, transcribeInWorker } from './transcriptionClient';
+import {
+  TranscriptionError,
+  type PcmAudio,
+  type TranscriptionEngineConfig,
+  type TranscriptionProgress,
+} from './transcriptionTypes';
+
+export type TranscriptionState = {
+  status:
+    | 'idle'
+    | 'decoding'
+    | 'transcribing'
+    | 'aligning'
+    | 'completed'
+    | 'cancelled'
+    | 'error';
+  progress: number;
+  /** 마지막으로 시작한 작업 */
+  job?: 'transcribe' | 'align';
+  processedMs?: number;
+  totalMs?: number;
+  error?: string;
+};
+
+export type UseTranscriptionReturn = {
+  state: TranscriptionState;
+  isBusy: boolean;
+  /** 완료되면 자막을, 취소/실패하면 `null`을 돌려준다. */
+  start: (
+    mediaBlob: Blob,
+    options?: { language?: string }
+  ) => Promise<Caption[] | null>;
+  /** 기존 자막 텍스트에 단어 타이밍을 맞춘다. 취소/실패하면 `null`. */
+  align: (mediaBlob: Blob, captions: Caption[]) => Promise<Caption[] | null>;
+  cancel: () => void;
+  reset: () => void;
+};
+
+const initialState: TranscriptionState = { status: 'idle', progress: 0 };
+
+export function getDefaultTranscriptionEngine(): TranscriptionEngineConfig {
+  return { kind: 'whisper-server', baseUrl: getAppEnv().transcriptionUrl };
+}
+
+export function useTranscription(
+  engine: TranscriptionEngineConfig = getDefaultTranscriptionEngine()
+): UseTranscriptionReturn {
+  const [state, setState] = useState<TranscriptionState>(initialState);
+  const abortRef = useRef<AbortController | null>(null);
+  const engineRef = useRef(engine);
+
+  useEffect(() => {
+    engineRef.current = engine;
+  });
+
+  useEffect(() => {
+    return () => abortRef.current?.abort();
+  }, []);
+
+  const run = useCallback(
+    async (
+      mediaBlob: Blob,
+      stage: 'transcribing' | 'aligning',
+      job: (
+        audio: PcmAudio,
+        signal: AbortSignal,
+        onProgress: (p: TranscriptionProgress) => void
+      ) => Promise<Caption[]>
+    ) => {
+      abortRef.current?.abort();
+      const controller = new AbortController();
+      abortRef.current = controller;
+
+      const jobKind = stage === 'aligning' ? 'align' : 'transcribe';
+      const markCancelled = () => {
+        // 새 작업이 시작됐거나 초기화됐으면 그 상태를 덮어쓰지 않는다.
+        if (abortRef.current === controller) {
+          setState({ status: 'cancelled', progress: 0, job: jobKind });
+        }
+        return null;
+      };
+
+      setState({ status: 'decoding', progress: 0, job: jobKind });
+      try {
+        const audio = await decodeAudioForTranscription(mediaBlob);
+        if (controller.signal.aborted) return markCancelled();
+
+        setState({ status: stage, progress: 0, job: jobKind });
+        const captions = await job(audio, controller.signal, (p) =>
+          setState((s) =>
+            s.status === stage
+              ? {
+                  ...s,
+                  progress: p.progress,
+                  processedMs: p.processedMs,
+                  totalMs: p.totalMs,
+                }
+              : s
+          )
+        );
+
+        setState({ status: 'completed', progress: 1, job: jobKind });
+        return captions;
+      } catch (e) {
+        if (
+          controller.signal.aborted ||
+          (e instanceof TranscriptionError && e.code === 'CANCELLED')
+        ) {
+          return markCancelled();
+        }
+        console.error(`[transcription] ${stage} failed:`, e);
+        setState({
+          status: 'error',
+          progress: 0,
+          job: jobKind,
+          error:
+            e instanceof Error
+              ? e.message
+              : '음성 처리 중 오류가 발생했습니다.',
+        });
+        return null;
+      } finally {
+        if (abortRef.current === controller) abortRef.current = null;
+      }
+    },
+    []
+  );
+
+  const start = useCallback(
+    (mediaBlob: Blob, options: { language?: string } = {}) =>
+      run(mediaBlob, 'transcribing', (audio, signal, onProgress) =>
+        transcribeInWorker(audio, engineRef.current, {
+          language: options.language,
+          signal,
+          onProgress,
+        })
+      ),
+    [run]
+  );
+
+  const align = useCallback(
+    (mediaBlob: Blob, captions: Caption[]) =>
+      run(mediaBlob, 'aligning', (audio, signal, onProgress) =>
+        alignInWorker(audio, captions, {
+          serviceUrl: getAppEnv().alignmentUrl,
+          signal,
+          onProgress,
+        })
+      ),
+    [run]
+  );
+
+  const cancel = useCallback(() => {
+    abortRef.current?.abort();
+  }, []);
+
+  const reset = useCallback(() => {
+    abortRef.current?.abort();
+    abortRef.current = null;
+    setState(initialState);
+  }, []);
+
+  return {
+    state,
+    isBusy:
+      state.status === 'decoding' ||
+      state.status === 'transcribing' ||
+      state.status === 'aligning',
+    start,
+    align,
+    cancel,
+    reset,
+  };
+}
@@ -0,0 +1,239 @@
+import type { Caption, CaptionWord } from '@/data/types';
+import { makeCaptionId } from '@/features/captions/captionOps';
+import { computeFallbackWordTimings } from '@/features/captions/wordHighlight';
+import { encodeWav, planPcmChunks } from './audioPcm';
+import {
+  TranscriptionError,
+  type PcmAudio,
+  type TranscribeOptions,
+  type TranscriptionEngine,
+} from './transcriptionTypes';
+
+/**
+ * whisper.cpp `server` 예제와 호환되는 로컬 HTTP 서비스 어댑터.
+ *
+ *   POST {baseUrl}/inference  (multipart/form-data)
+ *     file=<wav>, response_format=verbose_json, temperature=0, language=<code|auto>
+ *
+ * 응답의 `segments[].words[]`(토큰 단위, 초)를 단어로 합쳐 자막으로 바꾼다.
+ * 단어 정보가 없는 서버는 최상위 `words[]`를, 그것도 없으면 균등 분배 타이밍을 쓴다.
+ */
+
+export type WhisperServerEngineOptions = {
+  baseUrl: string;
+  fetch?: typeof fetch;
+  /** 한 요청에 보낼 최대 오디오 길이. 진행률과 취소 단위가 된다. */
+  chunkMs?: number;
+};
+
+type WhisperWord = {
+  word?: string;
+  start?: number;
+  end?: number;
+};
+
+type WhisperSegment = {
+  text?: string;
+  start?: number;
+  end?: number;
+  words?: WhisperWord[];
+};
+
+type WhisperResponse = {
+  text?: string;
+  segments?: WhisperSegment[];
+  words?: WhisperWord[];
+};
+
+const DEFAULT_CHUNK_MS = 60 * 1000;
+// whisper.cpp가 단어 목록에 섞어 보내는 특수 토큰 ([_BEG_], [_TT_150], <|endoftext|> 등)
+const SPECIAL_TOKEN_RE = /^\s*(\[_[^\]]*_?\]|<\|[^|]*\|>)\s*$/;
+
+function secondsToMs(value: number | undefined): number | null {
+  return typeof value === 'number' && Number.isFinite(value)
+    ? Math.round(value * 1000)
+    : null;
+}
+
+/**
+ * 토큰 조각을 단어로 합친다. 공백으로 시작하지 않는 조각은 앞 단어에 이어 붙인다.
+ */
+function mergeWordPieces(
+  pieces: WhisperWord[],
+  offsetMs: number
+): CaptionWord[] {
+  const words: CaptionWord[] = [];
+  for (const piece of pieces) {
+    const raw = piece.word ?? '';
+    if (!raw.trim() || SPECIAL_TOKEN_RE.test(raw)) continue;
+    const startMs = secondsToMs(piece.start);
+    const endMs = secondsToMs(piece.end);
+    if (startMs === null || endMs === null) continue;
+
+    const last = words.at(-1);
+    if (last && !/^\s/.test(raw)) {
+      last.text += raw.trim();
+      last.endMs = Math.max(last.endMs, offsetMs + endMs);
+      continue;
+    }
+    words.push({
+      text: raw.trim(),
+      startMs: offsetMs + startMs,
+      endMs: Math.max(offsetMs + startMs, offsetMs + endMs),
+    });
+  }
+  return words;
+}
+
+export function parseWhisperResponse(body: unknown, offsetMs = 0): Caption[] {
+  if (!body || typeof body !== 'object') {
+    throw new TranscriptionError(
+      'INVALID_RESPONSE',
+      '음성 인식 결과 형식을 알 수 없습니다.'
+    );
+  }
+  const response = body as WhisperResponse;
+  const segments = Array.isArray(response.segments) ? response.segments : [];
+  const topLevelWords = Array.isArray(response.words) ? response.words : [];
+
+  const captions: Caption[] = [];
+  for (const segment of segments) {
+    const text = (segment.text ?? '').trim().replace(/\s+/g, ' ');
+    const segStart = secondsToMs(segment.start);
+    const segEnd = secondsToMs(segment.end);
+    if (!text || segStart === null || segEnd === null || segEnd <= segStart) {
+      continue;
+    }
+
+    const pieces =
+      segment.words && segment.words.length > 0
+        ? segment.words
+        : topLevelWords.filter((w) => {
+            const start = secondsToMs(w.start);
+            return start !== null && start >= segStart && start < segEnd;
+          });
+
+    const caption: Caption = {
+      id: makeCaptionId(),
+      startMs: offsetMs + segStart,
+      endMs: offsetMs + segEnd,
+      text,
+    };
+    const words = mergeWordPieces(pieces, offsetMs);
+    caption.words =
+      words.length > 0 ? words : computeFallbackWordTimings(caption);
+    caption.text = caption.words.map((w) => w.text).join(' ') || text;
+    captions.push(caption);
+  }
+
+  if (captions.length === 0 && response.text?.trim() && segments.length === 0) {
+    throw new TranscriptionError(
+      'INVALID_RESPONSE',
+      '세그먼트 타이밍이 없는 응답입니다. response_format=verbose_json을 지원하는지 확인하세요.'
+    );
+  }
+  return captions;
+}
+
+function joinUrl(baseUrl: string, path: string): string {
+  return `${baseUrl.replace(/\/+$/, '')}${path}`;
+}
+
+export function createWhisperServerEngine({
+  baseUrl,
+  fetch: fetchImpl = (input, init) => globalThis.fetch(input, init),
+  chunkMs = DEFAULT_CHUNK_MS,
+}: WhisperServerEngineOptions): TranscriptionEngine {
+  const url = joinUrl(baseUrl, '/inference');
+
+  async function transcribeChunk(
+    wav: ArrayBuffer,
+    offsetMs: number,
+    options: TranscribeOptions
+  ): Promise<Caption[]> {
+    const form = new FormData();
+    form.append('file', new Blob([wav], { type: 'audio/wav' }), 'audio.wav');
+    form.append('response_format', 'verbose_json');
+    form.append('temperature', '0.0');
+    form.append('language', options.language ?? 'auto');
+
+    let res: Response;
+    try {
+      res = await fetchImpl(url, {
+        method: 'POST',
+        body: form,
+        signal: options.signal,
+      });
+    } catch (e) {
+      if (options.signal?.aborted) {
+        throw new TranscriptionError(
+          'CANCELLED',
+          '음성 인식이 취소되었습니다.'
+        );
+      }
+      throw new TranscriptionError(
+        'NETWORK_ERROR',
+        `음성 인식 서버(${baseUrl})에 연결할 수 없습니다.`,
+        e instanceof Error ? e.message : undefined,
+        e
+      );
+    }
+
+    if (!res.ok) {
+      const details = await res.text().catch(() => '');
+      throw new TranscriptionError(
+        'SERVER_ERROR',
+        `음성 인식 서버 오류 (${res.status})`,
+        details.slice(0, 500) || undefined
+      );
+    }
+
+    let body: unknown;
+    try {
+      body = await res.json();
+    } catch (e) {
+      throw new TranscriptionError(
+        'INVALID_RESPONSE',
+        '음성 인식 서버 응답이 JSON이 아닙니다.',
+        undefined,
+        e
+      );
+    }
+    return parseWhisperResponse(body, offsetMs);
+  }
+
+  return {
+    name: 'whisper-server',
+    async transcribe(audio: PcmAudio, options: TranscribeOptions = {}) {
+      const { samples, sampleRate } = audio;
+      const totalMs = Math.round((samples.length / sampleRate) * 1000);
+      const chunks = planPcmChunks(samples, sampleRate, chunkMs);
+      const captions: Caption[] = [];
+
+      options.onProgress?.({ progress: 0, processedMs: 0, totalMs });
+      for (const chunk of chunks) {
+        if (options.signal?.aborted) {
+          throw new TranscriptionError(
+            'CANCELLED',
+            '음성 인식이 취소되었습니다.'
+          );
+        }
+        const offsetMs = Math.round((chunk.start / sampleRate) * 1000);
+        const wav = encodeWav(
+          samples.subarray(chunk.start, chunk.end),
+          sampleRate
+        );
+        captions.push(...(await transcribeChunk(wav, offsetMs, options)));
+
+        const processedMs = Math.round((chunk.end / sampleRate) * 1000);
+        options.onProgress?.({
+          progress: samples.length > 0 ? chunk.end / samples.length : 1,
+          processedMs,
+          totalMs,
+          stage: 'transcribing',
+        });
+      }
+      return captions;
+    },
+  };
+}
@@ -1,5 +1,9 @@
+import type { VideoMetadataPatch } from '@/data/types';
+import { initFFmpegWorker, probeVideo } from '../export/ffmpegClient';
 import { captureThumbnailPairFromFile } from '../thumbnails/thumbnailGenerator';
 
+const PROBE_TIMEOUT_MS = 30 * 1000;
+
 async function createThumbnailPlaceholder(file: File): Promise<Blob> {
   const canvas = document.createElement('canvas');
   canvas.width = 320;
@@ -75,3 +79,35 @@ export async function createThumbnailForUpload(
     };
   }
 }
+
+export async function probeVideoForUpload(
+  file: File
+): Promise<VideoMetadataPatch | null> {
+  try {
+    await initFFmpegWorker();
+    const probe = await probeVideo(
+      { inputBlob: file },
+      { timeoutMs: PROBE_TIMEOUT_MS }
+    );
+
+    const patch: VideoMetadataPatch = {
+      durationMs: probe.durationMs || undefined,
+      width: probe.width || undefined,
+      height: probe.height || undefined,
+      frameRate: probe.frameRate,
+      videoCodec: probe.videoCodec,
+      audioCodec: probe.audioCodec,
+      bitrate: probe.bitrate,
+      rotation: probe.rotation,
+      audioChannels: probe.audioChannels,
+      audioSampleRate: probe.audioSampleRate,
+    };
+
+    return Object.fromEntries(
+      Object.entries(patch).filter(([, value]) => value !== undefined)
+    ) as VideoMetadataPatch;
+  } catch (e) {
+    console.warn('[probe] 미디어 정보 분석 실패, 썸네일 크기를 사용합니다.', e);
+    return null;
+  }
+}
@@ -8,7 +8,7 @@ import {
   videosKey,
 } from '@/data/queryKeys';
 import type { CreateVideoInput, VideoId } from '@/data/types';
-import { createThumbnailForUpload } from './uploadService';
+import { createThumbnailForUpload, probeVideoForUpload } from './uploadService';
 
 export type UploadPayload = {
   title: string;
@@ -36,7 +36,16 @@ async function createVideoWithAssets(payload: UploadPayload): Promise<Created> {
   });
   const selectedThumb = payload.thumbChoice === 'png' ? thumb.png : thumb.jpeg;
   await appApi.putThumbnailBlob(video.id, selectedThumb.blob);
-  if (selectedThumb.width || selectedThumb.height) {
+
+  const probed = await probeVideoForUpload(payload.file);
+  if (probed && Object.keys(probed).length > 0) {
+    await appApi.updateVideoMetadata(video.id, {
+      ...(probed.width && probed.height
+        ? {}
+        : { width: selectedThumb.width, height: selectedThumb.height }),
+      ...probed,
+    });
+  } else if (selectedThumb.width || selectedThumb.height) {
     await appApi.updateVideoMetadata(video.id, {
       width: selectedThumb.width,
       height: selectedThumb.height,
@@ -0,0 +1,121 @@
+import NumberInput from '@/components/NumberInput';
+
+import type { TimeRange } from './channelAnalysis';
+import type { SilenceDetectionOptions } from './silenceDetection';
+import styles from './SilencePanel.module.css';
+
+type Props = {
+  options: SilenceDetectionOptions;
+  onOptionsChange: (options: SilenceDetectionOptions) => void;
+  ranges: TimeRange[];
+  showOnWaveform: boolean;
+  onShowOnWaveformChange: (show: boolean) => void;
+  /** 감지한 구간을 한 번에 제거 목록에 넣는다. */
+  onRemoveAll: () => void;
+  disabled?: boolean;
+  className?: string;
+};
+
+type NumberField = {
+  key: keyof SilenceDetectionOptions;
+  label: string;
+  unit: string;
+  min: number;
+  max: number;
+  step: number;
+};
+
+const FIELDS: NumberField[] = [
+  {
+    key: 'thresholdDb',
+    label: '임계값',
+    unit: 'dBFS',
+    min: -90,
+    max: -10,
+    step: 1,
+  },
+  {
+    key: 'minSilenceMs',
+    label: '최소 길이',
+    unit: 'ms',
+    min: 100,
+    max: 10000,
+    step: 50,
+  },
+  {
+    key: 'paddingMs',
+    label: '앞뒤 여유',
+    unit: 'ms',
+    min: 0,
+    max: 2000,
+    step: 10,
+  },
+];
+
+function SilencePanel({
+  options,
+  onOptionsChange,
+  ranges,
+  showOnWaveform,
+  onShowOnWaveformChange,
+  onRemoveAll,
+  disabled,
+  className,
+}: Props) {
+  const totalMs = ranges.reduce(
+    (sum, range) => sum + range.endMs - range.startMs,
+    0
+  );
+
+  return (
+    <section
+      className={`${styles.panel} ${className ?? ''}`}
+      aria-label="무음 감지"
+    >
+      <div className={styles.row}>
+        <span className={styles.title}>무음 감지</span>
+        {FIELDS.map((field) => (
+          <label key={field.key} className={styles.field}>
+            {field.label}
+            <NumberInput
+              min={field.min}
+              max={field.max}
+              step={field.step}
+              value={options[field.key]}
+              disabled={disabled}
+              onCommit={(value) =>
+                onOptionsChange({ ...options, [field.key]: value })
+              }
+            />
+            <span className={styles.unit}>{field.unit}</span>
+          </label>
+        ))}
+      </div>
+      <div className={styles.row}>
+        <label className={styles.field}>
+          <input
+            type="checkbox"
+            checked={showOnWaveform}
+            onChange={(e) => onShowOnWaveformChange(e.target.checked)}
+          />
+          파형에 표시
+        </label>
+        <span className={styles.summary}>
+          {ranges.length > 0
+            ? `무음 ${ranges.length}구간 · 총 ${(totalMs / 1000).toFixed(1)}초`
+            : '감지된 무음 없음'}
+        </span>
+        <button
+          type="button"
+          className={styles.button}
+          onClick={onRemoveAll}
+          disabled={disabled || ranges.length === 0}
+        >
+          무음 모두 제거
+        </button>
+      </div>
+    </section>
+  );
+}
+
+export default SilencePanel;
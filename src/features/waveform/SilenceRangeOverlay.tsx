@@ -0,0 +1,71 @@
+import { memo } from 'react';
+
+import type { TimeRange } from '@/features/waveform/channelAnalysis';
+import { msToFraction } from '@/features/waveform/timeMapping';
+
+type Props = {
+  ranges: TimeRange[];
+  durationMs: number | null;
+  viewStartMs?: number | null;
+  viewEndMs?: number | null;
+};
+
+/** 감지한 무음 구간을 파형 위에 빗금으로 표시한다. 클릭은 파형으로 그대로 넘긴다. */
+function SilenceRangeOverlay({
+  ranges,
+  durationMs,
+  viewStartMs,
+  viewEndMs,
+}: Props) {
+  if (!durationMs || durationMs <= 0 || ranges.length === 0) return null;
+
+  return (
+    <div
+      style={{
+        position: 'absolute',
+        inset: 0,
+        pointerEvents: 'none',
+        overflow: 'hidden',
+      }}
+      aria-hidden
+    >
+      {ranges.map((range) => {
+        const left = Math.max(
+          0,
+          Math.min(
+            1,
+            msToFraction(range.startMs, durationMs, viewStartMs, viewEndMs)
+          )
+        );
+        const right = Math.max(
+          left,
+          Math.min(
+            1,
+            msToFraction(range.endMs, durationMs, viewStartMs, viewEndMs)
+          )
+        );
+        if (right - left <= 0) return null;
+
+        return (
+          <div
+            key={`${range.startMs}-${range.endMs}`}
+            data-testid="silence-range"
+            style={{
+              position: 'absolute',
+              left: `${left * 100}%`,
+              width: `${(right - left) * 100}%`,
+              top: 0,
+              bottom: 0,
+              background:
+                'repeating-linear-gradient(135deg, rgba(100, 116, 139, 0.18) 0 6px, rgba(100, 116, 139, 0.06) 6px 12px)',
+              borderLeft: '1px dashed rgba(100, 116, 139, 0.6)',
+              borderRight: '1px dashed rgba(100, 116, 139, 0.6)',
+            }}
+          />
+        );
+      })}
+    </div>
+  );
+}
+
+export default memo(SilenceRangeOverlay);
@@ -0,0 +1,172 @@
+import { useEffect, useRef } from 'react';
+
+import type { SpectrogramData } from '@/lib/spectrogram';
+import {
+  msToFraction,
+  resolveViewRange,
+} from '@/features/waveform/timeMapping';
+
+type Props = {
+  spectrogram: SpectrogramData | null;
+  width: number;
+  height: number;
+  playheadMs?: number | null;
+  durationMs?: number | null;
+  viewStartMs?: number | null;
+  viewEndMs?: number | null;
+  /** 세로축 최대 주파수. 기본은 나이퀴스트 주파수 */
+  maxFrequencyHz?: number;
+  colorPlayhead?: string;
+  className?: string;
+};
+
+// 검정 → 보라 → 빨강 → 주황 → 노랑 (inferno 계열)
+const COLOR_STOPS: [number, number, number][] = [
+  [0, 0, 4],
+  [87, 16, 110],
+  [188, 55, 84],
+  [249, 142, 9],
+  [252, 255, 164],
+];
+
+function buildPalette(): Uint8ClampedArray {
+  const palette = new Uint8ClampedArray(256 * 3);
+  const segments = COLOR_STOPS.length - 1;
+  for (let i = 0; i < 256; i++) {
+    const pos = (i / 255) * segments;
+    const index = Math.min(segments - 1, Math.floor(pos));
+    const t = pos - index;
+    const from = COLOR_STOPS[index];
+    const to = COLOR_STOPS[index + 1];
+    for (let c = 0; c < 3; c++) {
+      palette[i * 3 + c] = from[c] + (to[c] - from[c]) * t;
+    }
+  }
+  return palette;
+}
+
+const PALETTE = buildPalette();
+
+function SpectrogramCanvas({
+  spectrogram,
+  width,
+  height,
+  playheadMs,
+  durationMs,
+  viewStartMs,
+  viewEndMs,
+  maxFrequencyHz,
+  colorPlayhead,
+  className,
+}: Props) {
+  const canvasRef = useRef<HTMLCanvasElement | null>(null);
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!canvas) return;
+
+    const ctx = canvas.getContext('2d');
+    if (!ctx) return;
+
+    const dpr = window.devicePixelRatio || 1;
+    const w = Math.max(1, Math.floor(width * dpr));
+    const h = Math.max(1, Math.floor(height * dpr));
+
+    canvas.width = w;
+    canvas.height = h;
+    canvas.style.width = `${width}px`;
+    canvas.style.height = `${height}px`;
+
+    ctx.clearRect(0, 0, w, h);
+
+    const {
+      durationMs: fullDuration,
+      viewStartMs: vStart,
+      viewEndMs: vEnd,
+      viewDurationMs,
+    } = resolveViewRange(durationMs, viewStartMs, viewEndMs);
+
+    if (spectrogram && fullDuration > 0 && viewDurationMs > 0) {
+      const { magnitudes, columns, bins, sampleRate } = spectrogram;
+      const nyquist = sampleRate / 2;
+      const visibleBins = Math.max(
+        1,
+        Math.min(
+          bins,
+          Math.round(
+            (Math.min(maxFrequencyHz ?? nyquist, nyquist) / nyquist) * bins
+          )
+        )
+      );
+
+      const image = ctx.createImageData(w, h);
+      const pixels = image.data;
+      // 행마다 같은 bin을 쓰므로 미리 계산한다. 0번 행이 가장 높은 주파수다.
+      const rowBins = new Uint32Array(h);
+      for (let y = 0; y < h; y++) {
+        rowBins[y] = Math.min(
+          visibleBins - 1,
+          Math.floor(((h - 1 - y) / h) * visibleBins)
+        );
+      }
+
+      for (let x = 0; x < w; x++) {
+        const ms = vStart + ((x + 0.5) / w) * viewDurationMs;
+        const column = Math.min(
+          columns - 1,
+          Math.floor((ms / fullDuration) * columns)
+        );
+        const base = column * bins;
+        for (let y = 0; y < h; y++) {
+          const value = magnitudes[base + rowBins[y]];
+          const offset = (y * w + x) * 4;
+          pixels[offset] = PALETTE[value * 3];
+          pixels[offset + 1] = PALETTE[value * 3 + 1];
+          pixels[offset + 2] = PALETTE[value * 3 + 2];
+          pixels[offset + 3] = 255;
+        }
+      }
+      ctx.putImageData(image, 0, 0);
+    }
+
+    if (playheadMs != null && viewDurationMs > 0) {
+      const x = Math.round(
+        msToFraction(playheadMs, fullDuration, vStart, vEnd) * w
+      );
+      if (x >= 0 && x <= w) {
+        const warningRgb =
+          getComputedStyle(document.documentElement)
+            .getPropertyValue('--warning-rgb')
+            .trim() || '255, 193, 7';
+        ctx.strokeStyle =
+          colorPlayhead ?? `rgb(${warningRgb.replace(/\s+/g, '')})`;
+        ctx.lineWidth = 2 * dpr;
+        ctx.beginPath();
+        ctx.moveTo(x, 0);
+        ctx.lineTo(x, h);
+        ctx.stroke();
+      }
+    }
+  }, [
+    spectrogram,
+    width,
+    height,
+    playheadMs,
+    durationMs,
+    viewStartMs,
+    viewEndMs,
+    maxFrequencyHz,
+    colorPlayhead,
+  ]);
+
+  return (
+    <canvas
+      ref={canvasRef}
+      className={className}
+      style={{ display: 'block', width, height }}
+      aria-label="스펙트로그램"
+    />
+  );
+}
+
+export default SpectrogramCanvas;
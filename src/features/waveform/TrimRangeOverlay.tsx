@@ -4,7 +4,17 @@ import {
   MIN_TRIM_GAP_MS,
   type TrimRange,
 } from '@/features/playback/useTrimRange';
-import { fractionToMs, msToFraction } from '@/features/waveform/timeMapping';
+import {
+  SNAP_KIND_LABELS,
+  SNAP_THRESHOLD_PX,
+  type SnapTarget,
+  type Snapper,
+} from '@/features/snapping';
+import {
+  fractionToMs,
+  msToFraction,
+  resolveViewRange,
+} from '@/features/waveform/timeMapping';
 
 type Props = {
   range: TrimRange;
@@ -14,6 +24,8 @@ type Props = {
   onChangeStart: (ms: number) => void;
   onChangeEnd: (ms: number) => void;
   onChangeRange: (startMs: number, endMs: number) => void;
+  /** 있으면 핸들을 가까운 스냅 대상에 붙인다. Alt를 누르고 있으면 붙이지 않는다. */
+  snap?: Snapper | null;
 };
 
 function TrimRangeOverlay({
@@ -24,12 +36,14 @@ function TrimRangeOverlay({
   onChangeStart,
   onChangeEnd,
   onChangeRange,
+  snap,
 }: Props) {
   const overlayRef = useRef<HTMLDivElement | null>(null);
   const [active, setActive] = useState<'start' | 'end' | null>(null);
   const activeRef = useRef<'start' | 'end' | null>(null);
   const [pointerMs, setPointerMs] = useState<number | null>(null);
   const [pointerPos, setPointerPos] = useState<number | null>(null);
+  const [snapTarget, setSnapTarget] = useState<SnapTarget | null>(null);
 
   const leftFraction = msToFraction(
     range.startMs,
@@ -59,19 +73,49 @@ function TrimRangeOverlay({
     [durationMs, viewStartMs, viewEndMs]
   );
 
-  const updatePointerInfo = useCallback(
-    (clientX: number) => {
+  /** 포인터 위치를 시간으로 바꾸고 스냅을 적용한 뒤 툴팁 정보를 갱신한다. */
+  const pointerToMs = useCallback(
+    (e: React.PointerEvent<HTMLDivElement>) => {
       const el = overlayRef.current;
-      if (!el) return;
+      if (!el) return null;
       const rect = el.getBoundingClientRect();
-      if (rect.width <= 0) return;
-      const ms = clientXToMs(clientX);
+      if (rect.width <= 0) return null;
+      const rawMs = clientXToMs(e.clientX);
+      if (rawMs === null) return null;
+
+      let ms = rawMs;
+      let target: SnapTarget | null = null;
+      if (snap && !e.altKey) {
+        const { viewDurationMs } = resolveViewRange(
+          durationMs,
+          viewStartMs,
+          viewEndMs
+        );
+        const result = snap(rawMs, {
+          thresholdMs: (SNAP_THRESHOLD_PX / rect.width) * viewDurationMs,
+        });
+        ms = result.ms;
+        target = result.target;
+      }
+
+      setSnapTarget(target);
       setPointerMs(ms);
-      setPointerPos(((clientX - rect.left) / rect.width) * 100);
+      setPointerPos(
+        target
+          ? msToFraction(ms, durationMs, viewStartMs, viewEndMs) * 100
+          : ((e.clientX - rect.left) / rect.width) * 100
+      );
+      return ms;
     },
-    [clientXToMs]
+    [clientXToMs, snap, durationMs, viewStartMs, viewEndMs]
   );
 
+  const clearPointerInfo = () => {
+    setPointerMs(null);
+    setPointerPos(null);
+    setSnapTarget(null);
+  };
+
   const startHandle = {
     onPointerDown: (e: React.PointerEvent<HTMLDivElement>) => {
       e.preventDefault();
@@ -79,13 +123,12 @@ function TrimRangeOverlay({
       e.currentTarget.setPointerCapture(e.pointerId);
       setActive('start');
       activeRef.current = 'start';
-      updatePointerInfo(e.clientX);
+      pointerToMs(e);
     },
     onPointerMove: (e: React.PointerEvent<HTMLDivElement>) => {
       if (!e.currentTarget.hasPointerCapture(e.pointerId)) return;
       e.preventDefault();
-      updatePointerInfo(e.clientX);
-      const ms = clientXToMs(e.clientX);
+      const ms = pointerToMs(e);
       if (ms === null) return;
 
       if (activeRef.current === 'end') {
@@ -112,8 +155,7 @@ function TrimRangeOverlay({
       e.currentTarget.releasePointerCapture(e.pointerId);
       setActive(null);
       activeRef.current = null;
-      setPointerMs(null);
-      setPointerPos(null);
+      clearPointerInfo();
     },
   };
 
@@ -124,13 +166,12 @@ function TrimRangeOverlay({
       e.currentTarget.setPointerCapture(e.pointerId);
       setActive('end');
       activeRef.current = 'end';
-      updatePointerInfo(e.clientX);
+      pointerToMs(e);
     },
     onPointerMove: (e: React.PointerEvent<HTMLDivElement>) => {
       if (!e.currentTarget.hasPointerCapture(e.pointerId)) return;
       e.preventDefault();
-      updatePointerInfo(e.clientX);
-      const ms = clientXToMs(e.clientX);
+      const ms = pointerToMs(e);
       if (ms === null) return;
 
       if (activeRef.current === 'start') {
@@ -157,8 +198,7 @@ function TrimRangeOverlay({
       e.currentTarget.releasePointerCapture(e.pointerId);
       setActive(null);
       activeRef.current = null;
-      setPointerMs(null);
-      setPointerPos(null);
+      clearPointerInfo();
     },
   };
 
@@ -217,6 +257,16 @@ function TrimRangeOverlay({
     whiteSpace: 'nowrap',
   };
 
+  const snapLineStyle: CSSProperties = {
+    position: 'absolute',
+    left: `${Math.max(0, Math.min(pointerPos ?? 0, 100))}%`,
+    top: 0,
+    bottom: 0,
+    width: 0,
+    borderLeft: '2px dashed var(--warning)',
+    pointerEvents: 'none',
+  };
+
   const formatMs = (ms: number) => {
     const s = Math.floor(ms / 1000);
     const m = Math.floor(s / 60);
@@ -244,8 +294,14 @@ function TrimRangeOverlay({
       >
         <div style={handleBarStyle} />
       </div>
+      {snapTarget && pointerPos !== null && active ? (
+        <div data-testid="snap-indicator" style={snapLineStyle} />
+      ) : null}
       {pointerMs !== null && pointerPos !== null && active ? (
-        <div style={tooltipStyle}>{formatMs(pointerMs)}</div>
+        <div style={tooltipStyle}>
+          {formatMs(pointerMs)}
+          {snapTarget ? ` · ${SNAP_KIND_LABELS[snapTarget.kind]}` : ''}
+        </div>
       ) : null}
     </div>
   );
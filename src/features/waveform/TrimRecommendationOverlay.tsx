@@ -1,18 +1,85 @@
 import { memo } from 'react';
 
+import { type FeatureScore } from '@/features/waveform/recommendationFeatures';
 import { msToFraction } from '@/features/waveform/timeMapping';
 import { type TrimRecommendation } from '@/features/waveform/trimRecommendations';
 
 type Props = {
   recommendations: TrimRecommendation[];
   durationMs: number | null;
+  viewStartMs?: number | null;
+  viewEndMs?: number | null;
   activeIndex?: number | null;
   onSelect?: (index: number) => void;
 };
 
+const percent = (score: number) => `${Math.round(score * 100)}%`;
+
+function describeBreakdown(breakdown: FeatureScore[]): string {
+  return breakdown
+    .map((item) => `${item.label} ${percent(item.score)} (×${item.weight})`)
+    .join('\n');
+}
+
+/** 선택한 추천 구간 안에 특성별 점수를 막대로 보여 준다. */
+function BreakdownBars({ breakdown }: { breakdown: FeatureScore[] }) {
+  return (
+    <span
+      data-testid="recommendation-breakdown"
+      style={{
+        position: 'absolute',
+        top: 4,
+        left: 4,
+        display: 'flex',
+        flexDirection: 'column',
+        gap: 2,
+        padding: '4px 6px',
+        borderRadius: 4,
+        background: 'rgba(15, 23, 42, 0.72)',
+        color: '#f8fafc',
+        fontSize: 10,
+        lineHeight: 1.2,
+        textAlign: 'left',
+        whiteSpace: 'nowrap',
+      }}
+    >
+      {breakdown.map((item) => (
+        <span
+          key={item.id}
+          style={{ display: 'flex', alignItems: 'center', gap: 4 }}
+        >
+          <span style={{ minWidth: 56 }}>{item.label}</span>
+          <span
+            style={{
+              position: 'relative',
+              width: 40,
+              height: 4,
+              borderRadius: 2,
+              background: 'rgba(248, 250, 252, 0.25)',
+              overflow: 'hidden',
+            }}
+          >
+            <span
+              style={{
+                position: 'absolute',
+                inset: 0,
+                width: percent(item.score),
+                background: 'rgb(56, 189, 248)',
+              }}
+            />
+          </span>
+          <span>{percent(item.score)}</span>
+        </span>
+      ))}
+    </span>
+  );
+}
+
 function TrimRecommendationOverlay({
   recommendations,
   durationMs,
+  viewStartMs,
+  viewEndMs,
   activeIndex,
   onSelect,
 }: Props) {
@@ -31,12 +98,24 @@ function TrimRecommendationOverlay({
       aria-hidden
     >
       {recommendations.map((rec, idx) => {
-        const left = msToFraction(rec.startMs, durationMs, null, null);
-        const right = msToFraction(rec.endMs, durationMs, null, null);
+        const left = msToFraction(
+          rec.startMs,
+          durationMs,
+          viewStartMs,
+          viewEndMs
+        );
+        const right = msToFraction(
+          rec.endMs,
+          durationMs,
+          viewStartMs,
+          viewEndMs
+        );
         const clampedLeft = Math.max(0, Math.min(1, left));
         const clampedRight = Math.max(clampedLeft, Math.min(1, right));
         const width = Math.max(0, clampedRight - clampedLeft);
         const isActive = idx === activeIndex;
+        const breakdown = rec.breakdown ?? [];
+        if (width <= 0) return null;
 
         return (
           <button
@@ -66,7 +145,12 @@ function TrimRecommendationOverlay({
               transition: 'background 120ms ease, border-color 120ms ease',
             }}
             aria-label={`추천 구간 ${idx + 1}`}
-          />
+            title={breakdown.length ? describeBreakdown(breakdown) : undefined}
+          >
+            {isActive && breakdown.length > 0 && (
+              <BreakdownBars breakdown={breakdown} />
+            )}
+          </button>
         );
       })}
     </div>
@@ -1,6 +1,19 @@
 import { useEffect, useRef } from 'react';
 
-import type { WaveformPeaks } from '@/lib/waveformPeaks';
+import type { ChannelPeaks, WaveformPeaks } from '@/lib/waveformPeaks';
+import {
+  sourceToOutputMs,
+  type EditDecisionList,
+} from '@/features/playback/editDecisionList';
+import {
+  channelLabel,
+  DEFAULT_CLIP_LEVEL,
+} from '@/features/waveform/channelAnalysis';
+import {
+  detailCoversView,
+  selectPyramidLevel,
+  type DetailPeaks,
+} from '@/features/waveform/peakLevels';
 import {
   msToFraction,
   resolveViewRange,
@@ -8,6 +21,18 @@ import {
 
 type Props = {
   peaks: WaveformPeaks | null;
+  /**
+   * `peaks`를 0번 레벨로 하는 해상도 피라미드. 있으면 보기 구간의 픽셀당 시간에
+   * 맞는 레벨을 골라 그린다.
+   */
+  pyramid?: WaveformPeaks[] | null;
+  /** 깊게 확대했을 때 보이는 구간만 촘촘하게 다시 계산한 피크 (원본 타임라인 전용) */
+  detail?: DetailPeaks | null;
+  /**
+   * 채널별 피크. 두 채널 이상이면 채널마다 띠를 나눠 위에서부터 쌓아 그리고,
+   * 클리핑된 버킷을 강조한다. `detail`은 모노 믹스 전용이라 이때는 쓰지 않는다.
+   */
+  channels?: ChannelPeaks[] | null;
   width: number;
   height: number;
   playheadMs?: number | null;
@@ -15,15 +40,26 @@ type Props = {
   viewStartMs?: number | null;
   viewEndMs?: number | null;
   trimRange?: { startMs: number; endMs: number } | null;
+  /**
+   * 편집 결정 목록. `timeline='source'`이면 제거 구간을 어둡게 표시하고,
+   * `'output'`이면 제거 구간을 빼고 남은 구간만 이어 그린다. 이때 `durationMs`,
+   * `playheadMs`, 보기 범위는 출력 타임라인 기준이다.
+   */
+  edl?: EditDecisionList | null;
+  timeline?: 'source' | 'output';
   mode?: 'peaks' | 'rms';
   colorWave?: string;
   colorTrim?: string;
   colorPlayhead?: string;
+  colorClip?: string;
   className?: string;
 };
 
 function WaveformCanvas({
   peaks,
+  pyramid,
+  detail,
+  channels,
   width,
   height,
   playheadMs,
@@ -31,10 +67,13 @@ function WaveformCanvas({
   viewStartMs,
   viewEndMs,
   trimRange,
+  edl,
+  timeline = 'source',
   mode = 'peaks',
   colorWave = '#4a5568',
   colorTrim,
   colorPlayhead,
+  colorClip,
   className,
 }: Props) {
   const canvasRef = useRef<HTMLCanvasElement | null>(null);
@@ -77,6 +116,8 @@ function WaveformCanvas({
       colorTrim ?? `rgba(${dangerRgb.replace(/\s+/g, '')}, 0.6)`;
     const resolvedColorPlayhead =
       colorPlayhead ?? `rgb(${warningRgb.replace(/\s+/g, '')})`;
+    const resolvedColorClip =
+      colorClip ?? `rgb(${dangerRgb.replace(/\s+/g, '')})`;
 
     if (trimRange && viewDurationMs > 0) {
       const startX = msToX(trimRange.startMs);
@@ -90,39 +131,131 @@ function WaveformCanvas({
       );
     }
 
-    if (peaks && peaks.length > 0 && fullDuration > 0 && viewDurationMs > 0) {
-      const totalBuckets = peaks.length / 2;
-      const msPerBucket = fullDuration / totalBuckets;
-      const startBucket = Math.max(0, Math.floor(vStart / msPerBucket));
-      const endBucket = Math.min(totalBuckets, Math.ceil(vEnd / msPerBucket));
+    const isOutput = timeline === 'output' && edl != null;
+    // 버킷은 원본 시간 기준이므로 출력 타임라인에서는 x 좌표만 옮겨 그린다.
+    const sourceMsToX = isOutput
+      ? (ms: number) => msToX(sourceToOutputMs(edl, ms))
+      : msToX;
+
+    if (edl && !isOutput && viewDurationMs > 0) {
+      ctx.fillStyle = 'rgba(15, 23, 42, 0.18)';
+      for (const cut of edl.removed) {
+        const startX = Math.max(0, msToX(cut.startMs));
+        const endX = Math.min(w, msToX(cut.endMs));
+        if (endX > startX) ctx.fillRect(startX, 0, endX - startX, h);
+      }
+    }
+
+    const sourceDuration = isOutput ? edl.sourceDurationMs : fullDuration;
+    const waveColor =
+      mode === 'rms'
+        ? `rgba(${warningRgb.replace(/\s+/g, '')}, 0.6)`
+        : colorWave;
+    const clipThreshold = DEFAULT_CLIP_LEVEL * 32768;
+
+    const drawLane = (
+      lanePeaks: WaveformPeaks,
+      lanePyramid: WaveformPeaks[] | null | undefined,
+      laneDetail: DetailPeaks | null | undefined,
+      top: number,
+      laneHeight: number,
+      highlightClip: boolean
+    ) => {
+      const levels =
+        lanePyramid && lanePyramid.length > 0 ? lanePyramid : [lanePeaks];
+      const useDetail =
+        !isOutput && detailCoversView(laneDetail, vStart, vEnd, w);
+      const series = useDetail
+        ? laneDetail.peaks
+        : levels[selectPyramidLevel(levels, sourceDuration, viewDurationMs, w)];
+      const seriesStartMs = useDetail ? laneDetail.startMs : 0;
+      const seriesDuration = useDetail
+        ? laneDetail.endMs - laneDetail.startMs
+        : sourceDuration;
 
-      const centerY = h / 2;
-      ctx.fillStyle =
-        mode === 'rms'
-          ? `rgba(${warningRgb.replace(/\s+/g, '')}, 0.6)`
-          : colorWave;
+      const totalBuckets = series.length / 2;
+      const msPerBucket = seriesDuration / totalBuckets;
+      const startBucket = isOutput
+        ? 0
+        : Math.max(0, Math.floor((vStart - seriesStartMs) / msPerBucket));
+      const endBucket = isOutput
+        ? totalBuckets
+        : Math.min(
+            totalBuckets,
+            Math.ceil((vEnd - seriesStartMs) / msPerBucket)
+          );
 
+      const halfHeight = laneHeight / 2;
+      const centerY = top + halfHeight;
+
+      ctx.fillStyle = waveColor;
       for (let i = startBucket; i < endBucket; i++) {
-        const minVal = peaks[i * 2];
-        const maxVal = peaks[i * 2 + 1];
+        const minVal = series[i * 2];
+        const maxVal = series[i * 2 + 1];
 
         const minNorm = minVal / 32768;
         const maxNorm = maxVal / 32768;
 
-        const minY = centerY - minNorm * centerY;
-        const maxY = centerY - maxNorm * centerY;
+        const minY = centerY - minNorm * halfHeight;
+        const maxY = centerY - maxNorm * halfHeight;
 
-        const bucketStartMs = i * msPerBucket;
-        const bucketEndMs = (i + 1) * msPerBucket;
-        const x1 = msToX(bucketStartMs);
-        const x2 = msToX(bucketEndMs);
+        const bucketStartMs = seriesStartMs + i * msPerBucket;
+        const bucketEndMs = seriesStartMs + (i + 1) * msPerBucket;
+        const x1 = sourceMsToX(bucketStartMs);
+        const x2 = sourceMsToX(bucketEndMs);
         const barWidth = x2 - x1;
 
         if (barWidth < 0.5) continue;
 
+        if (highlightClip) {
+          const clipped = maxVal >= clipThreshold || minVal <= -clipThreshold;
+          ctx.fillStyle = clipped ? resolvedColorClip : waveColor;
+        }
         const barHeight = Math.max(1, minY - maxY);
         ctx.fillRect(x1, maxY, Math.max(1, barWidth - 0.5), barHeight);
       }
+    };
+
+    if (sourceDuration > 0 && viewDurationMs > 0) {
+      if (channels && channels.length > 1) {
+        const laneHeight = h / channels.length;
+        channels.forEach((channel, index) => {
+          const top = index * laneHeight;
+          if (channel.peaks.length > 0) {
+            drawLane(
+              channel.peaks,
+              channel.pyramid,
+              null,
+              top,
+              laneHeight,
+              true
+            );
+          }
+          if (index > 0) {
+            ctx.fillStyle = 'rgba(15, 23, 42, 0.15)';
+            ctx.fillRect(0, top, w, dpr);
+          }
+          ctx.fillStyle = 'rgba(15, 23, 42, 0.55)';
+          ctx.font = `${11 * dpr}px sans-serif`;
+          ctx.textBaseline = 'top';
+          ctx.fillText(
+            channelLabel(index, channels.length),
+            4 * dpr,
+            top + 2 * dpr
+          );
+        });
+      } else if (peaks && peaks.length > 0) {
+        drawLane(peaks, pyramid, detail, 0, h, false);
+      }
+    }
+
+    if (isOutput && viewDurationMs > 0) {
+      // 이어 붙인 지점(컷 편집 지점) 표시
+      ctx.fillStyle = resolvedColorTrim;
+      for (const segment of edl.segments.slice(1)) {
+        const x = msToX(segment.outputStartMs);
+        if (x >= 0 && x <= w) ctx.fillRect(x - dpr / 2, 0, dpr, h);
+      }
     }
 
     if (playheadMs != null && viewDurationMs > 0) {
@@ -138,6 +271,9 @@ function WaveformCanvas({
     }
   }, [
     peaks,
+    pyramid,
+    detail,
+    channels,
     width,
     height,
     playheadMs,
@@ -145,10 +281,13 @@ function WaveformCanvas({
     viewStartMs,
     viewEndMs,
     trimRange,
+    edl,
+    timeline,
     mode,
     colorWave,
     colorTrim,
     colorPlayhead,
+    colorClip,
   ]);
 
   return (
@@ -1,6 +1,19 @@
-import { useCallback, useRef, useState, type ReactNode } from 'react';
+import {
+  useCallback,
+  useEffect,
+  useRef,
+  useState,
+  type ReactNode,
+} from 'react';
 
-import { fractionToMs } from '@/features/waveform/timeMapping';
+import {
+  fractionToMs,
+  panViewRange,
+  resolveViewRange,
+  zoomViewRange,
+  type ViewWindow,
+} from '@/features/waveform/timeMapping';
+import { useScopedShortcuts } from '@/features/shortcuts';
 
 type Props = {
   durationMs: number | null;
@@ -9,6 +22,24 @@ type Props = {
   className?: string;
   viewStartMs?: number | null;
   viewEndMs?: number | null;
+  /**
+   * 있으면 확대/이동을 켠다. Ctrl(⌘)+휠과 트랙패드 핀치는 커서 위치 기준 확대,
+   * 가로 휠과 Shift+휠은 가로 이동, 두 손가락 터치는 핀치 확대다. 포커스가 있으면
+   * 파형 범위 단축키(기본 `=` / `-` / `0`, Shift+←/→)로도 확대·이동한다.
+   */
+  onViewChange?: (view: ViewWindow) => void;
+};
+
+// 휠 한 칸(deltaY≈100)에 약 20% 확대/축소
+const WHEEL_ZOOM_SENSITIVITY = 0.002;
+// 단축키 한 번에 2배 확대/축소, 보이는 길이의 10% 이동
+const KEY_ZOOM_FACTOR = 2;
+const KEY_PAN_FRACTION = 0.1;
+
+type Pinch = {
+  distance: number;
+  anchorMs: number;
+  view: ViewWindow;
 };
 
 function WaveformInteraction({
@@ -18,9 +49,12 @@ function WaveformInteraction({
   className,
   viewStartMs,
   viewEndMs,
+  onViewChange,
 }: Props) {
   const containerRef = useRef<HTMLDivElement>(null);
   const [isDragging, setIsDragging] = useState(false);
+  const pointersRef = useRef(new Map<number, number>());
+  const pinchRef = useRef<Pinch | null>(null);
 
   const clientXToTimeMs = useCallback(
     (clientX: number): number | null => {
@@ -37,10 +71,96 @@ function WaveformInteraction({
     [durationMs, viewStartMs, viewEndMs]
   );
 
+  const viewRef = useRef({ durationMs, viewStartMs, viewEndMs, onViewChange });
+  useEffect(() => {
+    viewRef.current = { durationMs, viewStartMs, viewEndMs, onViewChange };
+  }, [durationMs, viewStartMs, viewEndMs, onViewChange]);
+
+  // React의 onWheel은 passive라 기본 스크롤을 막을 수 없어 직접 등록한다.
+  const canChangeView = Boolean(onViewChange);
+  useEffect(() => {
+    const el = containerRef.current;
+    if (!el || !canChangeView) return;
+
+    const handleWheel = (e: WheelEvent) => {
+      const { durationMs, viewStartMs, viewEndMs, onViewChange } =
+        viewRef.current;
+      if (!onViewChange || !durationMs || durationMs <= 0) return;
+      const rect = el.getBoundingClientRect();
+      if (rect.width <= 0) return;
+      const view = resolveViewRange(durationMs, viewStartMs, viewEndMs);
+
+      if (e.ctrlKey || e.metaKey) {
+        e.preventDefault();
+        const anchorMs = fractionToMs(
+          (e.clientX - rect.left) / rect.width,
+          durationMs,
+          viewStartMs,
+          viewEndMs
+        );
+        onViewChange(
+          zoomViewRange(
+            durationMs,
+            viewStartMs,
+            viewEndMs,
+            Math.exp(e.deltaY * WHEEL_ZOOM_SENSITIVITY),
+            anchorMs
+          )
+        );
+        return;
+      }
+
+      const deltaPx =
+        Math.abs(e.deltaX) > Math.abs(e.deltaY)
+          ? e.deltaX
+          : e.shiftKey
+            ? e.deltaY
+            : 0;
+      if (deltaPx === 0 || view.viewDurationMs >= view.durationMs) return;
+      e.preventDefault();
+      onViewChange(
+        panViewRange(
+          durationMs,
+          viewStartMs,
+          viewEndMs,
+          (deltaPx / rect.width) * view.viewDurationMs
+        )
+      );
+    };
+
+    el.addEventListener('wheel', handleWheel, { passive: false });
+    return () => el.removeEventListener('wheel', handleWheel);
+  }, [canChangeView]);
+
+  const startPinch = useCallback(() => {
+    const el = containerRef.current;
+    const [a, b] = [...pointersRef.current.values()];
+    if (!el || a === undefined || b === undefined) return;
+    const rect = el.getBoundingClientRect();
+    if (rect.width <= 0) return;
+    const view = resolveViewRange(durationMs, viewStartMs, viewEndMs);
+    pinchRef.current = {
+      distance: Math.max(1, Math.abs(a - b)),
+      anchorMs: fractionToMs(
+        ((a + b) / 2 - rect.left) / rect.width,
+        durationMs,
+        viewStartMs,
+        viewEndMs
+      ),
+      view: { viewStartMs: view.viewStartMs, viewEndMs: view.viewEndMs },
+    };
+  }, [durationMs, viewStartMs, viewEndMs]);
+
   const handlePointerDown = useCallback(
     (e: React.PointerEvent<HTMLDivElement>) => {
       e.preventDefault();
       e.currentTarget.setPointerCapture(e.pointerId);
+      pointersRef.current.set(e.pointerId, e.clientX);
+      if (onViewChange && pointersRef.current.size === 2) {
+        setIsDragging(false);
+        startPinch();
+        return;
+      }
       setIsDragging(true);
 
       const timeMs = clientXToTimeMs(e.clientX);
@@ -53,6 +173,23 @@ function WaveformInteraction({
 
   const handlePointerMove = useCallback(
     (e: React.PointerEvent<HTMLDivElement>) => {
+      if (pointersRef.current.has(e.pointerId)) {
+        pointersRef.current.set(e.pointerId, e.clientX);
+      }
+      const pinch = pinchRef.current;
+      if (pinch && onViewChange && pointersRef.current.size === 2) {
+        const [a, b] = [...pointersRef.current.values()];
+        onViewChange(
+          zoomViewRange(
+            durationMs,
+            pinch.view.viewStartMs,
+            pinch.view.viewEndMs,
+            pinch.distance / Math.max(1, Math.abs(a - b)),
+            pinch.anchorMs
+          )
+        );
+        return;
+      }
       if (!isDragging) return;
       if (!e.currentTarget.hasPointerCapture(e.pointerId)) return;
 
@@ -61,24 +198,54 @@ function WaveformInteraction({
         onSeek(timeMs);
       }
     },
-    [isDragging, clientXToTimeMs, onSeek]
+    [isDragging, clientXToTimeMs, onSeek, onViewChange, durationMs]
   );
 
-  const handlePointerUp = useCallback(
-    (e: React.PointerEvent<HTMLDivElement>) => {
-      if (e.currentTarget.hasPointerCapture(e.pointerId)) {
-        e.currentTarget.releasePointerCapture(e.pointerId);
-      }
-      setIsDragging(false);
+  const zoomByKey = (factor: number) => {
+    if (!onViewChange || !durationMs || durationMs <= 0) return false;
+    const view = resolveViewRange(durationMs, viewStartMs, viewEndMs);
+    onViewChange(
+      zoomViewRange(
+        durationMs,
+        viewStartMs,
+        viewEndMs,
+        factor,
+        view.viewStartMs + view.viewDurationMs / 2
+      )
+    );
+  };
+
+  const panByKey = (direction: number) => {
+    if (!onViewChange || !durationMs || durationMs <= 0) return false;
+    const view = resolveViewRange(durationMs, viewStartMs, viewEndMs);
+    onViewChange(
+      panViewRange(
+        durationMs,
+        viewStartMs,
+        viewEndMs,
+        direction * view.viewDurationMs * KEY_PAN_FRACTION
+      )
+    );
+  };
+
+  const handleKeyDown = useScopedShortcuts('waveform', {
+    'waveform.zoomIn': () => zoomByKey(1 / KEY_ZOOM_FACTOR),
+    'waveform.zoomOut': () => zoomByKey(KEY_ZOOM_FACTOR),
+    'waveform.zoomReset': () => {
+      if (!onViewChange || !durationMs || durationMs <= 0) return false;
+      onViewChange({ viewStartMs: 0, viewEndMs: durationMs });
     },
-    []
-  );
+    'waveform.panLeft': () => panByKey(-1),
+    'waveform.panRight': () => panByKey(1),
+  });
 
-  const handlePointerCancel = useCallback(
+  const handlePointerUp = useCallback(
     (e: React.PointerEvent<HTMLDivElement>) => {
       if (e.currentTarget.hasPointerCapture(e.pointerId)) {
         e.currentTarget.releasePointerCapture(e.pointerId);
       }
+      pointersRef.current.delete(e.pointerId);
+      pinchRef.current = null;
       setIsDragging(false);
     },
     []
@@ -95,7 +262,9 @@ function WaveformInteraction({
       onPointerDown={handlePointerDown}
       onPointerMove={handlePointerMove}
       onPointerUp={handlePointerUp}
-      onPointerCancel={handlePointerCancel}
+      onPointerCancel={handlePointerUp}
+      onKeyDown={onViewChange ? handleKeyDown : undefined}
+      tabIndex={onViewChange ? 0 : undefined}
       role="slider"
       aria-label="재생 위치"
       aria-valuemin={0}
@@ -0,0 +1,149 @@
+import type { WaveformPeaks } from '@/lib/waveformPeaks';
+
+/**
+ * 채널별 피크(`peaks` 모드의 min/max 쌍)로 무음·클리핑 구간을 찾는다.
+ * 버킷 단위로 판정하므로 시간 정밀도는 버킷 길이를 넘지 않는다.
+ */
+
+export type TimeRange = {
+  startMs: number;
+  endMs: number;
+};
+
+export type ChannelAnalysisOptions = {
+  /** 버킷 최대 진폭이 이 값(dBFS) 아래면 무음으로 본다. */
+  silenceDb?: number;
+  /** 이보다 짧은 무음은 무시한다. */
+  minSilenceMs?: number;
+  /** 최대 진폭 대비 이 비율(0~1) 이상이면 클리핑으로 본다. */
+  clipLevel?: number;
+};
+
+export type ChannelReport = {
+  channel: number;
+  label: string;
+  silentRanges: TimeRange[];
+  /** 이 채널만 조용하고 다른 채널에는 소리가 있는 구간 (마이크 끊김 후보) */
+  dropoutRanges: TimeRange[];
+  clippedRanges: TimeRange[];
+  /** 전체 길이 대비 무음 구간 비율 */
+  silentRatio: number;
+};
+
+export const DEFAULT_SILENCE_DB = -50;
+export const DEFAULT_MIN_SILENCE_MS = 1000;
+export const DEFAULT_CLIP_LEVEL = 0.99;
+
+export function channelLabel(index: number, channelCount: number): string {
+  if (channelCount === 2) return index === 0 ? 'L' : 'R';
+  return `${index + 1}`;
+}
+
+function bucketAmplitudes(peaks: WaveformPeaks): Float32Array {
+  const out = new Float32Array(peaks.length / 2);
+  for (let i = 0; i < out.length; i++) {
+    out[i] =
+      Math.max(Math.abs(peaks[i * 2]), Math.abs(peaks[i * 2 + 1])) / 32768;
+  }
+  return out;
+}
+
+/** 연속해서 `flags`가 켜진 버킷을 구간으로 묶고 `minMs`보다 짧은 구간은 버린다. */
+function groupBuckets(
+  flags: ArrayLike<boolean>,
+  msPerBucket: number,
+  minMs: number
+): TimeRange[] {
+  const ranges: TimeRange[] = [];
+  let start = -1;
+  for (let i = 0; i <= flags.length; i++) {
+    const on = i < flags.length && flags[i];
+    if (on && start < 0) start = i;
+    if (!on && start >= 0) {
+      const range = { startMs: start * msPerBucket, endMs: i * msPerBucket };
+      if (range.endMs - range.startMs >= minMs) ranges.push(range);
+      start = -1;
+    }
+  }
+  return ranges;
+}
+
+function silenceFlags(amplitudes: Float32Array, silenceDb: number): boolean[] {
+  const threshold = 10 ** (silenceDb / 20);
+  return Array.from(amplitudes, (a) => a < threshold);
+}
+
+export function detectSilentRanges(
+  peaks: WaveformPeaks,
+  durationMs: number,
+  options: ChannelAnalysisOptions = {}
+): TimeRange[] {
+  const {
+    silenceDb = DEFAULT_SILENCE_DB,
+    minSilenceMs = DEFAULT_MIN_SILENCE_MS,
+  } = options;
+  const buckets = peaks.length / 2;
+  if (buckets === 0 || durationMs <= 0) return [];
+  return groupBuckets(
+    silenceFlags(bucketAmplitudes(peaks), silenceDb),
+    durationMs / buckets,
+    minSilenceMs
+  );
+}
+
+export function detectClippedRanges(
+  peaks: WaveformPeaks,
+  durationMs: number,
+  options: ChannelAnalysisOptions = {}
+): TimeRange[] {
+  const { clipLevel = DEFAULT_CLIP_LEVEL } = options;
+  const buckets = peaks.length / 2;
+  if (buckets === 0 || durationMs <= 0) return [];
+  const flags = Array.from(bucketAmplitudes(peaks), (a) => a >= clipLevel);
+  return groupBuckets(flags, durationMs / buckets, 0);
+}
+
+/**
+ * 채널마다 무음·클리핑 구간을 찾고, 다른 채널과 비교해 한쪽만 끊긴 구간을 고른다.
+ * 모든 채널의 버킷 수가 같아야 한다.
+ */
+export function analyzeChannels(
+  channels: WaveformPeaks[],
+  durationMs: number,
+  options: ChannelAnalysisOptions = {}
+): ChannelReport[] {
+  const {
+    silenceDb = DEFAULT_SILENCE_DB,
+    minSilenceMs = DEFAULT_MIN_SILENCE_MS,
+  } = options;
+  if (channels.length === 0 || durationMs <= 0) return [];
+
+  const silent = channels.map((peaks) =>
+    silenceFlags(bucketAmplitudes(peaks), silenceDb)
+  );
+
+  return channels.map((peaks, channel) => {
+    const buckets = peaks.length / 2;
+    const msPerBucket = buckets > 0 ? durationMs / buckets : 0;
+    const silentRanges = detectSilentRanges(peaks, durationMs, options);
+    const dropoutFlags = silent[channel].map(
+      (isSilent, i) =>
+        isSilent && silent.some((other, ch) => ch !== channel && !other[i])
+    );
+    const silentMs = silentRanges.reduce(
+      (sum, range) => sum + range.endMs - range.startMs,
+      0
+    );
+    return {
+      channel,
+      label: channelLabel(channel, channels.length),
+      silentRanges,
+      dropoutRanges:
+        channels.length > 1
+          ? groupBuckets(dropoutFlags, msPerBucket, minSilenceMs)
+          : [],
+      clippedRanges: detectClippedRanges(peaks, durationMs, options),
+      silentRatio: silentMs / durationMs,
+    };
+  });
+}
@@ -0,0 +1,68 @@
+import type { WaveformPeaks } from '@/lib/waveformPeaks';
+
+/** 보이는 구간만 더 촘촘하게 다시 계산한 피크 */
+export type DetailPeaks = {
+  startMs: number;
+  endMs: number;
+  peaks: WaveformPeaks;
+};
+
+function bucketsInView(
+  peaks: WaveformPeaks,
+  spanMs: number,
+  viewDurationMs: number
+) {
+  return spanMs > 0 ? ((peaks.length / 2) * viewDurationMs) / spanMs : 0;
+}
+
+/**
+ * 보기 구간에서 픽셀 하나에 버킷이 하나 이상 들어가는 가장 거친 피라미드 레벨을
+ * 고른다. 0번 레벨로도 모자라면 0을 돌려준다.
+ */
+export function selectPyramidLevel(
+  levels: WaveformPeaks[],
+  sourceDurationMs: number,
+  viewDurationMs: number,
+  widthPx: number
+): number {
+  for (let level = levels.length - 1; level > 0; level--) {
+    if (
+      bucketsInView(levels[level], sourceDurationMs, viewDurationMs) >= widthPx
+    ) {
+      return level;
+    }
+  }
+  return 0;
+}
+
+/** 가장 촘촘한 레벨로도 픽셀 둘에 버킷 하나가 안 되면 구간 피크가 필요하다. */
+export function needsDetailPeaks(
+  basePeaks: WaveformPeaks | null,
+  sourceDurationMs: number,
+  viewDurationMs: number,
+  widthPx: number
+): boolean {
+  if (!basePeaks || widthPx <= 0) return false;
+  return (
+    bucketsInView(basePeaks, sourceDurationMs, viewDurationMs) < widthPx / 2
+  );
+}
+
+/** 구간 피크가 보기 구간을 모두 덮고, 픽셀 둘에 버킷 하나 이상 들어갈 만큼 촘촘한지 */
+export function detailCoversView(
+  detail: DetailPeaks | null | undefined,
+  viewStartMs: number,
+  viewEndMs: number,
+  widthPx: number
+): detail is DetailPeaks {
+  if (!detail) return false;
+  if (detail.startMs > viewStartMs || detail.endMs < viewEndMs) return false;
+  return (
+    bucketsInView(
+      detail.peaks,
+      detail.endMs - detail.startMs,
+      viewEndMs - viewStartMs
+    ) >=
+    widthPx / 2
+  );
+}
@@ -0,0 +1,224 @@
+import type { Caption } from '@/data/types';
+import { computeFallbackWordTimings } from '@/features/captions/wordHighlight';
+
+/**
+ * 구간 추천 점수를 이루는 특성들. 각 특성은 버킷 구간 [start, end)에 0~1 점수를
+ * 매기고, 추천 알고리즘은 가중 평균으로 합쳐 후보를 고른다.
+ */
+
+export type FeatureContext = {
+  /** 버킷별 평균 진폭 (0~1) */
+  amplitudes: Float64Array;
+  bucketCount: number;
+  durationMs: number;
+  captions: Caption[];
+  keywords: string[];
+};
+
+export type RecommendationFeature = {
+  id: string;
+  label: string;
+  /** false면 점수와 가중치 합에서 모두 빠진다. 생략하면 항상 쓴다. */
+  isAvailable?: (context: FeatureContext) => boolean;
+  /** 버킷 구간 점수 함수를 만든다. 후보마다 불리므로 누적합 등으로 미리 준비한다. */
+  prepare: (
+    context: FeatureContext
+  ) => (startBucket: number, endBucket: number) => number;
+};
+
+export type WeightedFeature = {
+  feature: RecommendationFeature;
+  weight: number;
+};
+
+export type FeatureScore = {
+  id: string;
+  label: string;
+  /** 0~1 */
+  score: number;
+  weight: number;
+};
+
+/** 이 속도(초당 단어 수)면 단어 속도 점수를 꽉 채운다. */
+const TARGET_WORDS_PER_SECOND = 3;
+/** 구간 안에서 키워드가 이만큼 나오면 키워드 점수를 꽉 채운다. */
+const KEYWORD_SATURATION = 2;
+
+function prefixSums(values: ArrayLike<number>): Float64Array {
+  const prefix = new Float64Array(values.length + 1);
+  for (let i = 0; i < values.length; i++) {
+    prefix[i + 1] = prefix[i] + values[i];
+  }
+  return prefix;
+}
+
+function peakOf(values: ArrayLike<number>): number {
+  let peak = 0;
+  for (let i = 0; i < values.length; i++) {
+    if (values[i] > peak) peak = values[i];
+  }
+  return peak;
+}
+
+function bucketOfMs(ms: number, context: FeatureContext): number {
+  const { bucketCount, durationMs } = context;
+  return Math.max(
+    0,
+    Math.min(bucketCount - 1, Math.floor((ms / durationMs) * bucketCount))
+  );
+}
+
+/** 시각(ms)에 놓인 사건 수를 버킷별로 센다. */
+function countPerBucket(
+  times: number[],
+  weights: number[],
+  context: FeatureContext
+): Float64Array {
+  const counts = new Float64Array(context.bucketCount);
+  times.forEach((ms, i) => {
+    counts[bucketOfMs(ms, context)] += weights[i];
+  });
+  return counts;
+}
+
+function hasCaptions(context: FeatureContext) {
+  return context.captions.length > 0;
+}
+
+export const energyFeature: RecommendationFeature = {
+  id: 'energy',
+  label: '음량',
+  prepare: ({ amplitudes }) => {
+    const prefix = prefixSums(amplitudes);
+    const peak = peakOf(amplitudes);
+    return (start, end) =>
+      peak > 0 && end > start
+        ? (prefix[end] - prefix[start]) / (end - start) / peak
+        : 0;
+  },
+};
+
+/**
+ * 말소리는 음절마다 진폭이 출렁이고 음악이나 박수는 고르게 크다.
+ * 구간 진폭의 표준편차를 최대 진폭에 견준다.
+ */
+export const energyVarianceFeature: RecommendationFeature = {
+  id: 'energyVariance',
+  label: '음량 변화',
+  prepare: ({ amplitudes }) => {
+    const prefix = prefixSums(amplitudes);
+    const squares = prefixSums(Array.from(amplitudes, (a) => a * a));
+    const peak = peakOf(amplitudes);
+    return (start, end) => {
+      const len = end - start;
+      if (peak <= 0 || len <= 0) return 0;
+      const mean = (prefix[end] - prefix[start]) / len;
+      const variance = (squares[end] - squares[start]) / len - mean * mean;
+      return Math.min(1, (2 * Math.sqrt(Math.max(0, variance))) / peak);
+    };
+  },
+};
+
+/** 구간 중 자막이 덮는 시간의 비율 */
+export const speechDensityFeature: RecommendationFeature = {
+  id: 'speechDensity',
+  label: '말소리 밀도',
+  isAvailable: hasCaptions,
+  prepare: (context) => {
+    const { bucketCount, durationMs, captions } = context;
+    const msPerBucket = durationMs / bucketCount;
+    const coverage = new Float64Array(bucketCount);
+    for (const caption of captions) {
+      const first = bucketOfMs(caption.startMs, context);
+      const last = bucketOfMs(
+        Math.max(caption.startMs, caption.endMs - 1),
+        context
+      );
+      for (let b = first; b <= last; b++) {
+        const overlap =
+          Math.min(caption.endMs, (b + 1) * msPerBucket) -
+          Math.max(caption.startMs, b * msPerBucket);
+        if (overlap > 0) coverage[b] += overlap / msPerBucket;
+      }
+    }
+    // 자막이 겹치면 한 버킷을 두 번 셀 수 있으므로 1로 자른다.
+    const prefix = prefixSums(coverage.map((v) => Math.min(1, v)));
+    return (start, end) =>
+      end > start ? (prefix[end] - prefix[start]) / (end - start) : 0;
+  },
+};
+
+/** 초당 단어 수. 단어 타이밍이 없는 자막은 자막 길이를 단어 수로 고르게 나눈다. */
+export const wordRateFeature: RecommendationFeature = {
+  id: 'wordRate',
+  label: '단어 속도',
+  isAvailable: hasCaptions,
+  prepare: (context) => {
+    const centers = context.captions.flatMap((caption) =>
+      computeFallbackWordTimings(caption).map(
+        (word) => (word.startMs + word.endMs) / 2
+      )
+    );
+    const prefix = prefixSums(
+      countPerBucket(
+        centers,
+        centers.map(() => 1),
+        context
+      )
+    );
+    const msPerBucket = context.durationMs / context.bucketCount;
+    return (start, end) => {
+      const seconds = ((end - start) * msPerBucket) / 1000;
+      if (seconds <= 0) return 0;
+      const rate = (prefix[end] - prefix[start]) / seconds;
+      return Math.min(1, rate / TARGET_WORDS_PER_SECOND);
+    };
+  },
+};
+
+/** 자막 본문에서 키워드가 나온 횟수. 대소문자는 가리지 않는다. */
+export const keywordFeature: RecommendationFeature = {
+  id: 'keywords',
+  label: '키워드',
+  isAvailable: (context) => hasCaptions(context) && context.keywords.length > 0,
+  prepare: (context) => {
+    const keywords = context.keywords.map((k) => k.toLowerCase());
+    const times: number[] = [];
+    const hits: number[] = [];
+    for (const caption of context.captions) {
+      const text = caption.text.toLowerCase();
+      const count = keywords.reduce(
+        (sum, keyword) => sum + text.split(keyword).length - 1,
+        0
+      );
+      if (count > 0) {
+        times.push((caption.startMs + caption.endMs) / 2);
+        hits.push(count);
+      }
+    }
+    const prefix = prefixSums(countPerBucket(times, hits, context));
+    return (start, end) =>
+      Math.min(1, (prefix[end] - prefix[start]) / KEYWORD_SATURATION);
+  },
+};
+
+/** 말소리가 있는 구간을 음악·박수보다 앞세우는 기본 구성 */
+export const DEFAULT_RECOMMENDATION_FEATURES: WeightedFeature[] = [
+  { feature: energyFeature, weight: 1 },
+  { feature: energyVarianceFeature, weight: 1 },
+  { feature: speechDensityFeature, weight: 2 },
+  { feature: wordRateFeature, weight: 1 },
+  { feature: keywordFeature, weight: 2 },
+];
+
+/** 쉼표로 구분한 키워드 입력을 정리한다. */
+export function parseKeywords(input: string): string[] {
+  return Array.from(
+    new Set(
+      input
+        .split(',')
+        .map((keyword) => keyword.trim())
+        .filter((keyword) => keyword.length > 0)
+    )
+  );
+}
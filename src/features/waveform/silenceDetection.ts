@@ -0,0 +1,49 @@
+import type { WaveformPeaks } from '@/lib/waveformPeaks';
+import {
+  detectSilentRanges,
+  type TimeRange,
+} from '@/features/waveform/channelAnalysis';
+
+export type SilenceDetectionOptions = {
+  /** 버킷 진폭이 이 값(dBFS) 아래면 무음으로 본다. */
+  thresholdDb: number;
+  /** 이보다 짧은 쉼은 무음으로 치지 않는다. */
+  minSilenceMs: number;
+  /** 무음 앞뒤로 남겨 둘 여유. 말소리 끝과 시작이 잘리지 않게 한다. */
+  paddingMs: number;
+};
+
+export const DEFAULT_SILENCE_OPTIONS: SilenceDetectionOptions = {
+  thresholdDb: -40,
+  minSilenceMs: 700,
+  paddingMs: 100,
+};
+
+/**
+ * 파형 피크에서 무음 구간을 찾는다. `peaks` 모드면 버킷 최대 진폭, `rms` 모드면
+ * 버킷 RMS를 기준으로 판정한다. 찾은 구간은 양쪽을 `paddingMs`만큼 줄이되,
+ * 영상 처음과 끝에 붙은 무음은 지킬 말소리가 없으므로 줄이지 않는다.
+ */
+export function detectSilences(
+  peaks: WaveformPeaks | null,
+  durationMs: number | null,
+  options: SilenceDetectionOptions = DEFAULT_SILENCE_OPTIONS
+): TimeRange[] {
+  if (!peaks || peaks.length === 0 || !durationMs || durationMs <= 0) {
+    return [];
+  }
+  const paddingMs = Math.max(0, options.paddingMs);
+
+  return detectSilentRanges(peaks, durationMs, {
+    silenceDb: options.thresholdDb,
+    minSilenceMs: Math.max(0, options.minSilenceMs),
+  })
+    .map((range) => ({
+      startMs: range.startMs <= 0 ? 0 : Math.round(range.startMs + paddingMs),
+      endMs:
+        range.endMs >= durationMs
+          ? durationMs
+          : Math.round(range.endMs - paddingMs),
+    }))
+    .filter((range) => range.endMs > range.startMs);
+}
@@ -61,3 +61,58 @@ export function fractionToMs(
   const clamped = clamp(fraction, 0, 1);
   return start + clamped * viewDurationMs;
 }
+
+export type ViewWindow = {
+  viewStartMs: number;
+  viewEndMs: number;
+};
+
+/** 확대해도 이보다 짧은 구간은 보여주지 않는다. */
+export const MIN_VIEW_DURATION_MS = 100;
+
+/**
+ * 보기 범위를 `factor`배로 늘리거나(>1) 줄인다(<1). `anchorMs`가 화면에서 같은
+ * 위치에 머물도록 시작점을 옮기고, 전체 길이를 벗어나지 않게 맞춘다.
+ */
+export function zoomViewRange(
+  durationMs: number | null | undefined,
+  viewStartMs: number | null | undefined,
+  viewEndMs: number | null | undefined,
+  factor: number,
+  anchorMs: number,
+  minViewMs = MIN_VIEW_DURATION_MS
+): ViewWindow {
+  const view = resolveViewRange(durationMs, viewStartMs, viewEndMs);
+  const nextDuration = clamp(
+    view.viewDurationMs * factor,
+    Math.min(minViewMs, view.durationMs),
+    view.durationMs
+  );
+  const anchor = clamp(anchorMs, view.viewStartMs, view.viewEndMs);
+  const ratio =
+    view.viewDurationMs > 0
+      ? (anchor - view.viewStartMs) / view.viewDurationMs
+      : 0;
+  const start = clamp(
+    anchor - ratio * nextDuration,
+    0,
+    view.durationMs - nextDuration
+  );
+  return { viewStartMs: start, viewEndMs: start + nextDuration };
+}
+
+/** 보기 길이는 그대로 두고 `deltaMs`만큼 옮긴다. */
+export function panViewRange(
+  durationMs: number | null | undefined,
+  viewStartMs: number | null | undefined,
+  viewEndMs: number | null | undefined,
+  deltaMs: number
+): ViewWindow {
+  const view = resolveViewRange(durationMs, viewStartMs, viewEndMs);
+  const start = clamp(
+    view.viewStartMs + deltaMs,
+    0,
+    view.durationMs - view.viewDurationMs
+  );
+  return { viewStartMs: start, viewEndMs: start + view.viewDurationMs };
+}
@@ -2,11 +2,21 @@ import {
   MIN_TRIM_GAP_MS,
   type TrimRange,
 } from '@/features/playback/useTrimRange';
+import type { Caption } from '@/data/types';
+import {
+  type FeatureContext,
+  type FeatureScore,
+  type WeightedFeature,
+} from '@/features/waveform/recommendationFeatures';
 import { type WaveformPeaks } from '@/lib/waveformPeaks';
 
 export type RecommendationMode = 'highlight' | 'remove';
 
-export type TrimRecommendation = TrimRange & { score: number };
+export type TrimRecommendation = TrimRange & {
+  score: number;
+  /** `features`로 점수를 매겼을 때 특성별 점수. 왜 골랐는지 보여 줄 때 쓴다. */
+  breakdown?: FeatureScore[];
+};
 
 export type RecommendationOptions = {
   mode: RecommendationMode;
@@ -17,22 +27,87 @@ export type RecommendationOptions = {
    * segments using dynamic programming.
    */
   segmentMs?: number;
+  /**
+   * Scoring features and their weights. When omitted, segments are scored by the
+   * amplitude sum alone. When given, each candidate gets the weighted mean of the
+   * available feature scores (0..1), scaled by its length.
+   */
+  features?: WeightedFeature[];
+  /** Captions used by the speech-aware features. */
+  captions?: Caption[];
+  /** Keywords matched against caption text. */
+  keywords?: string[];
 };
 
 const I16_MAX = 32767;
 
-function buildAmplitudeSums(peaks: WaveformPeaks) {
+function buildAmplitudes(peaks: WaveformPeaks) {
   const bucketCount = Math.floor(peaks.length / 2);
+  const amplitudes = new Float64Array(bucketCount);
   const sums = new Float64Array(bucketCount + 1);
 
   for (let i = 0; i < bucketCount; i++) {
     const min = Math.abs(peaks[i * 2]);
     const max = Math.abs(peaks[i * 2 + 1]);
-    const amplitude = (min + max) / (2 * I16_MAX);
-    sums[i + 1] = sums[i] + amplitude;
+    amplitudes[i] = (min + max) / (2 * I16_MAX);
+    sums[i + 1] = sums[i] + amplitudes[i];
   }
 
-  return { bucketCount, prefix: sums } as const;
+  return { bucketCount, amplitudes, prefix: sums } as const;
+}
+
+type RangeScorer = {
+  /** DP 가중치로 쓰는 구간 점수 */
+  score: (startBucket: number, endBucket: number) => number;
+  /** 결과에 실을 점수와 특성별 내역 */
+  describe: (
+    startBucket: number,
+    endBucket: number
+  ) => { score: number; breakdown?: FeatureScore[] };
+};
+
+function amplitudeScorer(prefix: Float64Array): RangeScorer {
+  const score = (start: number, end: number) => prefix[end] - prefix[start];
+  return { score, describe: (start, end) => ({ score: score(start, end) }) };
+}
+
+function featureScorer(
+  features: WeightedFeature[],
+  context: FeatureContext
+): RangeScorer {
+  const active = features
+    .filter(
+      ({ feature, weight }) =>
+        weight > 0 && (feature.isAvailable?.(context) ?? true)
+    )
+    .map(({ feature, weight }) => ({
+      feature,
+      weight,
+      scoreRange: feature.prepare(context),
+    }));
+  const totalWeight = active.reduce((sum, item) => sum + item.weight, 0);
+
+  const combined = (start: number, end: number) =>
+    totalWeight > 0
+      ? active.reduce(
+          (sum, item) => sum + item.weight * item.scoreRange(start, end),
+          0
+        ) / totalWeight
+      : 0;
+
+  return {
+    // 길이를 곱해 진폭 합과 같이 긴 구간이 유리하도록 둔다.
+    score: (start, end) => combined(start, end) * (end - start),
+    describe: (start, end) => ({
+      score: combined(start, end),
+      breakdown: active.map(({ feature, weight, scoreRange }) => ({
+        id: feature.id,
+        label: feature.label,
+        score: scoreRange(start, end),
+        weight,
+      })),
+    }),
+  };
 }
 
 function deriveSegmentWindow(
@@ -67,7 +142,7 @@ type Candidate = {
 };
 
 function buildCandidates(
-  prefix: Float64Array,
+  scoreRange: RangeScorer['score'],
   bucketCount: number,
   minBuckets: number,
   maxBuckets: number
@@ -82,13 +157,13 @@ function buildCandidates(
     const maxLen = Math.min(maxBuckets, available);
     for (let len = minBuckets; len <= maxLen; len += lengthStep) {
       const end = start + len;
-      const score = prefix[end] - prefix[start];
+      const score = scoreRange(start, end);
       candidates.push({ startBucket: start, endBucket: end, score });
     }
 
     if ((maxLen - minBuckets) % lengthStep !== 0 && maxLen >= minBuckets) {
       const end = start + maxLen;
-      const score = prefix[end] - prefix[start];
+      const score = scoreRange(start, end);
       candidates.push({ startBucket: start, endBucket: end, score });
     }
   }
@@ -103,7 +178,7 @@ export function computeTrimRecommendations(
 ): TrimRecommendation[] {
   if (!peaks || !durationMs || durationMs <= 0) return [];
 
-  const { bucketCount, prefix } = buildAmplitudeSums(peaks);
+  const { bucketCount, amplitudes, prefix } = buildAmplitudes(peaks);
   const { minBuckets, maxBuckets } = deriveSegmentWindow(
     durationMs,
     bucketCount,
@@ -111,14 +186,25 @@ export function computeTrimRecommendations(
   );
 
   if (minBuckets <= 0 || maxBuckets <= 0) return [];
+
+  const scorer = options.features
+    ? featureScorer(options.features, {
+        amplitudes,
+        bucketCount,
+        durationMs,
+        captions: options.captions ?? [],
+        keywords: options.keywords ?? [],
+      })
+    : amplitudeScorer(prefix);
+
   if (maxBuckets >= bucketCount) {
     return [
-      { startMs: 0, endMs: durationMs, score: prefix[prefix.length - 1] },
+      { startMs: 0, endMs: durationMs, ...scorer.describe(0, bucketCount) },
     ];
   }
 
   const candidates = buildCandidates(
-    prefix,
+    scorer.score,
     bucketCount,
     minBuckets,
     maxBuckets
@@ -217,6 +303,6 @@ export function computeTrimRecommendations(
     .map((c) => ({
       startMs: toMs(c.startBucket),
       endMs: Math.min(durationMs, toMs(c.endBucket)),
-      score: c.score,
+      ...scorer.describe(c.startBucket, c.endBucket),
     }));
 }
@@ -0,0 +1,152 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+
+import {
+  analysisTimeoutMs,
+  extractSpectrogram,
+  initFFmpegWorker,
+} from '@/features/export/ffmpegClient';
+import { getSpectrogram, saveSpectrogram } from '@/lib/localAssetStore';
+import { DEFAULT_FFT_SIZE, type SpectrogramData } from '@/lib/spectrogram';
+
+type SpectrogramState = {
+  spectrogram: SpectrogramData | null;
+  isLoading: boolean;
+  error: string | null;
+  progress: number;
+};
+
+type UseSpectrogramArgs = {
+  videoBlob: Blob | null;
+  /** 있으면 결과를 영상별로 IndexedDB에 캐시하고 다음 방문 때 먼저 읽는다. */
+  videoId?: string;
+  columns?: number;
+  fftSize?: number;
+  /** 스펙트로그램을 보지 않는 동안에는 계산하지 않는다. */
+  enabled?: boolean;
+  /**
+   * 영상 길이. 워커 작업의 제한 시간을 길이에 맞춰 늘리는 데만 쓰므로 바뀌어도
+   * 다시 계산하지 않는다.
+   */
+  durationMs?: number | null;
+};
+
+const initialState: SpectrogramState = {
+  spectrogram: null,
+  isLoading: false,
+  error: null,
+  progress: 0,
+};
+
+/**
+ * FFmpeg 워커에서 오디오를 조각 단위로 디코딩해 STFT 스펙트로그램을 계산한다.
+ * 파형과 달리 메인 스레드 대체 경로는 두지 않는다.
+ */
+export function useSpectrogram({
+  videoBlob,
+  videoId,
+  columns = 2000,
+  fftSize = DEFAULT_FFT_SIZE,
+  enabled = true,
+  durationMs,
+}: UseSpectrogramArgs) {
+  const [state, setState] = useState<SpectrogramState>(initialState);
+  const abortRef = useRef<AbortController | null>(null);
+  const durationMsRef = useRef(durationMs);
+
+  useEffect(() => {
+    durationMsRef.current = durationMs;
+  }, [durationMs]);
+
+  const compute = useCallback(async () => {
+    abortRef.current?.abort();
+    if (!videoBlob || !enabled) {
+      setState(initialState);
+      return;
+    }
+
+    const controller = new AbortController();
+    abortRef.current = controller;
+    setState({ ...initialState, isLoading: true });
+
+    try {
+      if (videoId) {
+        const cached = await getSpectrogram(
+          videoId,
+          columns,
+          fftSize,
+          videoBlob
+        ).catch((err: unknown) => {
+          console.warn('[spectrogram] failed to read cache:', err);
+          return undefined;
+        });
+        if (controller.signal.aborted) return;
+        if (cached) {
+          const { magnitudes, bins, sampleRate } = cached;
+          setState({
+            spectrogram: { magnitudes, columns, bins, sampleRate },
+            isLoading: false,
+            error: null,
+            progress: 1,
+          });
+          return;
+        }
+      }
+
+      await initFFmpegWorker();
+      if (controller.signal.aborted) return;
+
+      // 파형 추출 등 다른 작업이 돌고 있으면 워커 작업 줄에서 차례를 기다린다.
+      const result = await extractSpectrogram(
+        { inputBlob: videoBlob, columns, fftSize },
+        {
+          signal: controller.signal,
+          timeoutMs: analysisTimeoutMs(durationMsRef.current),
+          onProgress: (p) =>
+            setState((prev) => ({ ...prev, progress: p.progress })),
+        }
+      );
+      if (controller.signal.aborted) return;
+
+      const spectrogram: SpectrogramData = {
+        magnitudes: result.magnitudes,
+        columns: result.columns,
+        bins: result.bins,
+        sampleRate: result.sampleRate,
+      };
+
+      setState({ spectrogram, isLoading: false, error: null, progress: 1 });
+      if (videoId) {
+        saveSpectrogram({ videoId, fftSize, ...spectrogram }, videoBlob).catch(
+          (err: unknown) => {
+            console.warn('[spectrogram] failed to write cache:', err);
+          }
+        );
+      }
+    } catch (err) {
+      if (controller.signal.aborted) return;
+      const detail =
+        err instanceof Error
+          ? err.message
+          : typeof err === 'object' && err && 'message' in err
+            ? String(err.message)
+            : '';
+      setState({
+        ...initialState,
+        error: `스펙트로그램을 계산할 수 없습니다. ${detail}`.trim(),
+      });
+    }
+  }, [videoBlob, videoId, columns, fftSize, enabled]);
+
+  useEffect(() => {
+    void compute();
+    return () => {
+      abortRef.current?.abort();
+    };
+  }, [compute]);
+
+  const retry = useCallback(() => {
+    void compute();
+  }, [compute]);
+
+  return { ...state, retry } as const;
+}
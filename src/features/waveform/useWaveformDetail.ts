@@ -0,0 +1,105 @@
+import { useEffect, useState } from 'react';
+
+import {
+  extractWaveformPeaks,
+  isFFmpegReady,
+  isJobRunning,
+} from '@/features/export/ffmpegClient';
+import type { ComputePeaksMode, WaveformPeaks } from '@/lib/waveformPeaks';
+import {
+  detailCoversView,
+  needsDetailPeaks,
+  type DetailPeaks,
+} from '@/features/waveform/peakLevels';
+
+type UseWaveformDetailArgs = {
+  videoBlob: Blob | null;
+  basePeaks: WaveformPeaks | null;
+  durationMs: number | null;
+  viewStartMs: number | null;
+  viewEndMs: number | null;
+  widthPx: number;
+  mode?: ComputePeaksMode;
+  enabled?: boolean;
+};
+
+// 확대/스크롤이 멈춘 뒤에만 요청한다.
+const DETAIL_DEBOUNCE_MS = 250;
+
+/**
+ * 기본 피크로는 픽셀을 채우지 못할 만큼 확대하면 보이는 구간(앞뒤로 한 화면씩
+ * 여유를 둔다)의 피크를 FFmpeg 워커에서 새로 계산한다. 워커가 준비되지 않았거나
+ * 다른 작업 중이면 요청하지 않고 기본 피크를 그대로 쓰게 둔다.
+ */
+export function useWaveformDetail({
+  videoBlob,
+  basePeaks,
+  durationMs,
+  viewStartMs,
+  viewEndMs,
+  widthPx,
+  mode,
+  enabled = true,
+}: UseWaveformDetailArgs): DetailPeaks | null {
+  const [detail, setDetail] = useState<DetailPeaks | null>(null);
+
+  useEffect(() => {
+    setDetail(null);
+  }, [videoBlob, mode]);
+
+  useEffect(() => {
+    if (!enabled || !videoBlob || !durationMs || durationMs <= 0) return;
+    if (viewStartMs === null || viewEndMs === null) return;
+    const viewDurationMs = viewEndMs - viewStartMs;
+    if (viewDurationMs <= 0) return;
+    if (!needsDetailPeaks(basePeaks, durationMs, viewDurationMs, widthPx)) {
+      return;
+    }
+    if (detailCoversView(detail, viewStartMs, viewEndMs, widthPx)) return;
+
+    const controller = new AbortController();
+    const timer = setTimeout(() => {
+      if (!isFFmpegReady() || isJobRunning()) return;
+      const startMs = Math.max(0, viewStartMs - viewDurationMs);
+      const endMs = Math.min(durationMs, viewEndMs + viewDurationMs);
+      extractWaveformPeaks(
+        {
+          inputBlob: videoBlob,
+          bucketCount: Math.ceil(
+            (widthPx * (endMs - startMs)) / viewDurationMs
+          ),
+          mode,
+          durationMs,
+          startMs,
+          endMs,
+        },
+        { signal: controller.signal }
+      )
+        .then(({ peaks }) => {
+          if (!controller.signal.aborted) setDetail({ startMs, endMs, peaks });
+        })
+        .catch((err: unknown) => {
+          if (!controller.signal.aborted) {
+            console.warn('[waveform] detail peaks failed:', err);
+          }
+        });
+    }, DETAIL_DEBOUNCE_MS);
+
+    return () => {
+      clearTimeout(timer);
+      controller.abort();
+    };
+  }, [
+    enabled,
+    videoBlob,
+    basePeaks,
+    durationMs,
+    viewStartMs,
+    viewEndMs,
+    widthPx,
+    mode,
+    detail,
+  ]);
+
+  return detail;
+}
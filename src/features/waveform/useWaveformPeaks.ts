@@ -1,7 +1,15 @@
 import { useCallback, useEffect, useRef, useState } from 'react';
 
+import {
+  analysisTimeoutMs,
+  extractWaveformPeaks,
+  initFFmpegWorker,
+} from '@/features/export/ffmpegClient';
+import { getWaveformPeaks, saveWaveformPeaks } from '@/lib/localAssetStore';
 import {
   computePeaksInIdle,
+  createPeakAccumulator,
+  type ChannelPeaks,
   type WaveformPeaks,
   type ComputePeaksOptions,
 } from '@/lib/waveformPeaks';
@@ -9,6 +17,8 @@ import {
 type WaveformState = {
   peaks: WaveformPeaks | null;
   pyramid: WaveformPeaks[] | null;
+  /** 채널별 피크. 채널을 나누지 않았거나 모노 입력이면 null */
+  channels: ChannelPeaks[] | null;
   isLoading: boolean;
   error: string | null;
   progress: number;
@@ -18,28 +28,144 @@ type UseWaveformPeaksArgs = {
   videoBlob: Blob | null;
   bucketCount?: number;
   options?: ComputePeaksOptions;
+  /**
+   * FFmpeg 워커에서 오디오를 조각 단위로 디코딩해 피크만 받아온다.
+   * 다른 작업이 돌고 있으면 끝날 때까지 기다리고, 워커를 띄울 수 없거나 추출에
+   * 실패하면 메인 스레드 디코딩으로 돌아간다.
+   */
+  useWorker?: boolean;
+  /** 있으면 계산 결과를 영상별로 IndexedDB에 캐시하고 다음 방문 때 먼저 읽는다. */
+  videoId?: string;
+  /** 모노 믹스와 함께 채널별 피크(같은 버킷 수·피라미드)도 계산한다. */
+  splitChannels?: boolean;
+  /**
+   * 영상 길이. 워커 작업의 제한 시간을 길이에 맞춰 늘리는 데만 쓰므로 바뀌어도
+   * 다시 추출하지 않는다.
+   */
+  durationMs?: number | null;
 };
 
+type ExtractedPeaks = {
+  peaks: WaveformPeaks;
+  pyramid: WaveformPeaks[] | null;
+  channels: ChannelPeaks[] | null;
+};
+
+function requestedPyramidLevels(options: ComputePeaksOptions | undefined) {
+  return options?.returnPyramid
+    ? Math.max(1, Math.floor(options.pyramidLevels ?? 1))
+    : 1;
+}
+
+async function extractInWorker(
+  videoBlob: Blob,
+  bucketCount: number,
+  options: ComputePeaksOptions | undefined,
+  splitChannels: boolean,
+  durationMs: number | null | undefined,
+  signal: AbortSignal,
+  onProgress: (progress: number) => void
+): Promise<ExtractedPeaks | null> {
+  try {
+    await initFFmpegWorker();
+    if (signal.aborted) return null;
+    const { peaks, pyramid, channels } = await extractWaveformPeaks(
+      {
+        inputBlob: videoBlob,
+        bucketCount,
+        mode: options?.mode,
+        pyramidLevels: requestedPyramidLevels(options),
+        splitChannels,
+      },
+      {
+        signal,
+        timeoutMs: analysisTimeoutMs(durationMs),
+        onProgress: (p) => onProgress(p.progress),
+      }
+    );
+    return { peaks, pyramid, channels: channels ?? null };
+  } catch (err) {
+    if (!signal.aborted) {
+      console.warn('[waveform] worker extraction failed, falling back:', err);
+    }
+    return null;
+  }
+}
+
+async function loadCachedPeaks(
+  videoId: string,
+  videoBlob: Blob,
+  bucketCount: number,
+  options: ComputePeaksOptions | undefined,
+  splitChannels: boolean
+): Promise<ExtractedPeaks | null> {
+  try {
+    const cached = await getWaveformPeaks(
+      videoId,
+      options?.mode ?? 'peaks',
+      bucketCount,
+      videoBlob
+    );
+    if (!cached) return null;
+    // 채널을 나누지 않고 계산한 캐시에는 채널 정보가 없다.
+    if (splitChannels && cached.channels === undefined) return null;
+    const channels = splitChannels ? (cached.channels ?? null) : null;
+    const levels = requestedPyramidLevels(options);
+    if (levels === 1) {
+      return {
+        peaks: cached.peaks,
+        pyramid: null,
+        channels:
+          channels?.map(({ peaks }) => ({ peaks, pyramid: null })) ?? null,
+      };
+    }
+    if ((cached.pyramid?.length ?? 1) < levels) return null;
+    return {
+      peaks: cached.peaks,
+      pyramid: cached.pyramid!.slice(0, levels),
+      channels:
+        channels?.map(({ peaks, pyramid }) => ({
+          peaks,
+          pyramid: pyramid?.slice(0, levels) ?? null,
+        })) ?? null,
+    };
+  } catch (err) {
+    console.warn('[waveform] failed to read peak cache:', err);
+    return null;
+  }
+}
+
 export function useWaveformPeaks({
   videoBlob,
   bucketCount = 800,
   options,
+  useWorker = false,
+  videoId,
+  splitChannels = false,
+  durationMs,
 }: UseWaveformPeaksArgs) {
   const [state, setState] = useState<WaveformState>({
     peaks: null,
     pyramid: null,
+    channels: null,
     isLoading: false,
     error: null,
     progress: 0,
   });
 
   const abortRef = useRef<AbortController | null>(null);
+  const durationMsRef = useRef(durationMs);
+
+  useEffect(() => {
+    durationMsRef.current = durationMs;
+  }, [durationMs]);
 
   const extractPeaks = useCallback(async () => {
     if (!videoBlob) {
       setState({
         peaks: null,
         pyramid: null,
+        channels: null,
         isLoading: false,
         error: null,
         progress: 0,
@@ -54,12 +180,67 @@ export function useWaveformPeaks({
     setState({
       peaks: null,
       pyramid: null,
+      channels: null,
       isLoading: true,
       error: null,
       progress: 0,
     });
 
+    const complete = (extracted: ExtractedPeaks) => {
+      setState({
+        ...extracted,
+        isLoading: false,
+        error: null,
+        progress: 1,
+      });
+      if (!videoId) return;
+      saveWaveformPeaks(
+        {
+          videoId,
+          mode: options?.mode ?? 'peaks',
+          bucketCount,
+          ...extracted,
+        },
+        videoBlob
+      ).catch((err: unknown) => {
+        console.warn('[waveform] failed to write peak cache:', err);
+      });
+    };
+
     try {
+      if (videoId) {
+        const cached = await loadCachedPeaks(
+          videoId,
+          videoBlob,
+          bucketCount,
+          options,
+          splitChannels
+        );
+        if (controller.signal.aborted) return;
+        if (cached) {
+          setState({ ...cached, isLoading: false, error: null, progress: 1 });
+          return;
+        }
+      }
+
+      if (useWorker) {
+        const extracted = await extractInWorker(
+          videoBlob,
+          bucketCount,
+          options,
+          splitChannels,
+          durationMsRef.current,
+          controller.signal,
+          (progress) => setState((prev) => ({ ...prev, progress }))
+        );
+        if (controller.signal.aborted) return;
+        if (extracted) {
+          complete(extracted);
+          return;
+        }
+        setState((prev) => ({ ...prev, progress: 0 }));
+      }
+
       const arrayBuffer = await videoBlob.arrayBuffer();
       if (controller.signal.aborted) return;
 
@@ -74,6 +255,7 @@ export function useWaveformPeaks({
         setState({
           peaks: null,
           pyramid: null,
+          channels: null,
           isLoading: false,
           error: '오디오를 디코딩할 수 없습니다.',
           progress: 0,
@@ -92,6 +274,19 @@ export function useWaveformPeaks({
       const length = audioBuffer.length;
       const samples = new Float32Array(length);
 
+      const channels =
+        splitChannels && numChannels > 1
+          ? Array.from({ length: numChannels }, (_, ch) => {
+              const accumulator = createPeakAccumulator(
+                length,
+                bucketCount,
+                options
+              );
+              accumulator.push(audioBuffer.getChannelData(ch));
+              return accumulator.finish();
+            })
+          : null;
+
       if (numChannels === 1) {
         samples.set(audioBuffer.getChannelData(0));
       } else {
@@ -123,13 +318,7 @@ export function useWaveformPeaks({
       const pyramidRes: WaveformPeaks[] | null =
         'peaks' in peaksRes ? (peaksRes.pyramid ?? null) : null;
 
-      setState({
-        peaks: finalPeaks,
-        pyramid: pyramidRes,
-        isLoading: false,
-        error: null,
-        progress: 1,
-      });
+      complete({ peaks: finalPeaks, pyramid: pyramidRes, channels });
     } catch (err) {
       if (abortRef.current?.signal.aborted) return;
       const message =
@@ -139,12 +328,13 @@ export function useWaveformPeaks({
       setState({
         peaks: null,
         pyramid: null,
+        channels: null,
         isLoading: false,
         error: message,
         progress: 0,
       });
     }
-  }, [videoBlob, bucketCount, options]);
+  }, [videoBlob, bucketCount, options, useWorker, videoId, splitChannels]);
 
   useEffect(() => {
     void extractPeaks();
@@ -1,6 +1,6 @@
 import Dexie, { type Table } from 'dexie';
 
-import type { Caption } from '@/data/types';
+import type { Caption, CaptionStyle } from '@/data/types';
 
 type StoredCaptions = {
   videoId: string;
@@ -9,12 +9,23 @@ type StoredCaptions = {
   updatedAt: number;
 };
 
+type StoredCaptionStyle = {
+  videoId: string;
+  styleJson: string;
+  updatedAt: number;
+};
+
 class CaptionDatabase extends Dexie {
   captions!: Table<StoredCaptions, string>;
+  captionStyles!: Table<StoredCaptionStyle, string>;
 
   constructor() {
     super('vrew-captions');
     this.version(1).stores({ captions: 'videoId,updatedAt,createdAt' });
+    this.version(2).stores({
+      captions: 'videoId,updatedAt,createdAt',
+      captionStyles: 'videoId,updatedAt',
+    });
   }
 }
 
@@ -22,6 +33,7 @@ const hasIndexedDb = typeof indexedDB !== 'undefined';
 const db: CaptionDatabase | null = hasIndexedDb ? new CaptionDatabase() : null;
 
 const memory = new Map<string, StoredCaptions>();
+const styleMemory = new Map<string, StoredCaptionStyle>();
 
 export async function saveCaptions(
   videoId: string,
@@ -61,10 +73,48 @@ export async function getCaptions(videoId: string): Promise<Caption[]> {
   }
 }
 
+export async function saveCaptionStyle(
+  videoId: string,
+  style: CaptionStyle
+): Promise<void> {
+  const payload: StoredCaptionStyle = {
+    videoId,
+    styleJson: JSON.stringify(style),
+    updatedAt: Date.now(),
+  };
+
+  if (db) {
+    await db.captionStyles.put(payload);
+    return;
+  }
+  styleMemory.set(videoId, payload);
+}
+
+export async function getCaptionStyle(
+  videoId: string
+): Promise<CaptionStyle | null> {
+  const stored = db
+    ? await db.captionStyles.get(videoId)
+    : styleMemory.get(videoId);
+  if (!stored) return null;
+  try {
+    const parsed = JSON.parse(stored.styleJson);
+    return parsed && typeof parsed === 'object'
+      ? (parsed as CaptionStyle)
+      : null;
+  } catch {
+    return null;
+  }
+}
+
 export async function deleteCaptions(videoId: string): Promise<void> {
   if (db) {
-    await db.captions.delete(videoId);
+    await db.transaction('rw', db.captions, db.captionStyles, async () => {
+      await db.captions.delete(videoId);
+      await db.captionStyles.delete(videoId);
+    });
     return;
   }
   memory.delete(videoId);
+  styleMemory.delete(videoId);
 }
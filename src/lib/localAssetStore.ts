@@ -1,6 +1,12 @@
 import Dexie, { type Table } from 'dexie';
 
 import type { Video } from '@/data/types';
+import type { SpectrogramData } from './spectrogram';
+import type {
+  ChannelPeaks,
+  ComputePeaksMode,
+  WaveformPeaks,
+} from './waveformPeaks';
 
 export type StoredBlob = {
   id: string;
@@ -9,10 +15,41 @@ export type StoredBlob = {
   updatedAt: number;
 };
 
+export type StoredWaveformPeaks = {
+  videoId: string;
+  mode: ComputePeaksMode;
+  bucketCount: number;
+  /** 계산에 쓴 영상 Blob의 식별값. 다르면 캐시를 버린다. */
+  blobSignature: string;
+  peaks: WaveformPeaks;
+  /** 0번 레벨은 `peaks`와 같다. 피라미드를 만들지 않았으면 null */
+  pyramid: WaveformPeaks[] | null;
+  /**
+   * 채널별 피크. 입력이 모노면 null이고, 채널을 나누지 않고 계산한 항목에는
+   * 필드가 없다.
+   */
+  channels?: ChannelPeaks[] | null;
+  createdAt: number;
+};
+
+type WaveformPeaksKey = [string, ComputePeaksMode, number];
+
+export type StoredSpectrogram = SpectrogramData & {
+  videoId: string;
+  fftSize: number;
+  /** 계산에 쓴 영상 Blob의 식별값. 다르면 캐시를 버린다. */
+  blobSignature: string;
+  createdAt: number;
+};
+
+type SpectrogramKey = [string, number, number];
+
 class LocalAssetDatabase extends Dexie {
   videos!: Table<StoredBlob, string>;
   thumbnails!: Table<StoredBlob, string>;
   videosMeta!: Table<Video, string>;
+  waveformPeaks!: Table<StoredWaveformPeaks, WaveformPeaksKey>;
+  spectrograms!: Table<StoredSpectrogram, SpectrogramKey>;
 
   constructor() {
     super('vrew-assets');
@@ -21,6 +58,19 @@ class LocalAssetDatabase extends Dexie {
       thumbnails: 'id,updatedAt,createdAt',
       videosMeta: 'id,createdAt',
     });
+    this.version(2).stores({
+      videos: 'id,updatedAt,createdAt',
+      thumbnails: 'id,updatedAt,createdAt',
+      videosMeta: 'id,createdAt',
+      waveformPeaks: '[videoId+mode+bucketCount],videoId',
+    });
+    this.version(3).stores({
+      videos: 'id,updatedAt,createdAt',
+      thumbnails: 'id,updatedAt,createdAt',
+      videosMeta: 'id,createdAt',
+      waveformPeaks: '[videoId+mode+bucketCount],videoId',
+      spectrograms: '[videoId+columns+fftSize],videoId',
+    });
   }
 }
 
@@ -33,6 +83,8 @@ const memory = {
   videos: new Map<string, StoredBlob>(),
   thumbnails: new Map<string, StoredBlob>(),
   videosMeta: new Map<string, Video>(),
+  waveformPeaks: new Map<string, StoredWaveformPeaks>(),
+  spectrograms: new Map<string, StoredSpectrogram>(),
 };
 
 function now(): number {
@@ -85,6 +137,7 @@ async function fetchBlob(
 
 export async function saveVideoBlob(id: string, blob: Blob): Promise<void> {
   await upsertBlob('videos', id, blob);
+  await Promise.all([deleteWaveformPeaks(id), deleteSpectrograms(id)]);
 }
 
 export async function saveThumbnailBlob(id: string, blob: Blob): Promise<void> {
@@ -103,6 +156,7 @@ export async function getThumbnailBlob(id: string): Promise<Blob | null> {
 
 export async function deleteVideoBlob(id: string): Promise<void> {
   await deleteBlob('videos', id);
+  await Promise.all([deleteWaveformPeaks(id), deleteSpectrograms(id)]);
 }
 
 export async function deleteThumbnailBlob(id: string): Promise<void> {
@@ -143,3 +197,110 @@ export async function deleteVideoMeta(id: string): Promise<void> {
   }
   memory.videosMeta.delete(id);
 }
+
+/**
+ * Blob에는 수정 시각이 없으므로 크기와 형식(File이면 수정 시각까지)으로 같은
+ * 영상인지 판단한다. 원격 API 모드처럼 이 저장소를 거치지 않고 영상이 바뀌어도
+ * 다른 Blob이면 캐시가 맞지 않게 된다.
+ */
+export function waveformBlobSignature(blob: Blob): string {
+  const lastModified = blob instanceof File ? blob.lastModified : 0;
+  return `${blob.size}:${blob.type}:${lastModified}`;
+}
+
+function waveformPeaksMemoryKey([
+  videoId,
+  mode,
+  bucketCount,
+]: WaveformPeaksKey) {
+  return `${videoId}:${mode}:${bucketCount}`;
+}
+
+export async function getWaveformPeaks(
+  videoId: string,
+  mode: ComputePeaksMode,
+  bucketCount: number,
+  blob: Blob
+): Promise<StoredWaveformPeaks | undefined> {
+  const key: WaveformPeaksKey = [videoId, mode, bucketCount];
+  const stored = db
+    ? await db.waveformPeaks.get(key)
+    : memory.waveformPeaks.get(waveformPeaksMemoryKey(key));
+  if (!stored || stored.blobSignature !== waveformBlobSignature(blob)) {
+    return undefined;
+  }
+  return stored;
+}
+
+export async function saveWaveformPeaks(
+  entry: Omit<StoredWaveformPeaks, 'blobSignature' | 'createdAt'>,
+  blob: Blob
+): Promise<void> {
+  const stored: StoredWaveformPeaks = {
+    ...entry,
+    blobSignature: waveformBlobSignature(blob),
+    createdAt: now(),
+  };
+  if (db) {
+    await db.waveformPeaks.put(stored);
+    return;
+  }
+  memory.waveformPeaks.set(
+    waveformPeaksMemoryKey([entry.videoId, entry.mode, entry.bucketCount]),
+    stored
+  );
+}
+
+export async function deleteWaveformPeaks(videoId: string): Promise<void> {
+  if (db) {
+    await db.waveformPeaks.where('videoId').equals(videoId).delete();
+    return;
+  }
+  for (const [key, entry] of memory.waveformPeaks) {
+    if (entry.videoId === videoId) memory.waveformPeaks.delete(key);
+  }
+}
+
+export async function getSpectrogram(
+  videoId: string,
+  columns: number,
+  fftSize: number,
+  blob: Blob
+): Promise<StoredSpectrogram | undefined> {
+  const stored = db
+    ? await db.spectrograms.get([videoId, columns, fftSize])
+    : memory.spectrograms.get(`${videoId}:${columns}:${fftSize}`);
+  if (!stored || stored.blobSignature !== waveformBlobSignature(blob)) {
+    return undefined;
+  }
+  return stored;
+}
+
+export async function saveSpectrogram(
+  entry: Omit<StoredSpectrogram, 'blobSignature' | 'createdAt'>,
+  blob: Blob
+): Promise<void> {
+  const stored: StoredSpectrogram = {
+    ...entry,
+    blobSignature: waveformBlobSignature(blob),
+    createdAt: now(),
+  };
+  if (db) {
+    await db.spectrograms.put(stored);
+    return;
+  }
+  memory.spectrograms.set(
+    `${entry.videoId}:${entry.columns}:${entry.fftSize}`,
+    stored
+  );
+}
+
+export async function deleteSpectrograms(videoId: string): Promise<void> {
+  if (db) {
+    await db.spectrograms.where('videoId').equals(videoId).delete();
+    return;
+  }
+  for (const [key, entry] of memory.spectrograms) {
+    if (entry.videoId === videoId) memory.spectrograms.delete(key);
+  }
+}
@@ -0,0 +1,187 @@
+/**
+ * STFT 스펙트로그램. 워커와 메인 스레드 양쪽에서 쓰므로 DOM API에 의존하지 않는다.
+ *
+ * 시간축은 `columns`개의 열로 나누고, 열마다 구간 안에 고르게 놓인 몇 개의 프레임
+ * 파워 스펙트럼을 평균낸다. 값은 dB로 바꿔 0~255로 양자화한다.
+ */
+
+export type SpectrogramData = {
+  /** 열 우선(`column * bins + bin`) 0~255 세기. 0번 bin이 가장 낮은 주파수다. */
+  magnitudes: Uint8Array;
+  columns: number;
+  bins: number;
+  sampleRate: number;
+};
+
+export type SpectrogramOptions = {
+  /** 2의 거듭제곱. bin 수는 절반이 된다. */
+  fftSize?: number;
+  /** 열 하나에서 평균낼 최대 프레임 수 */
+  framesPerColumn?: number;
+};
+
+export const DEFAULT_FFT_SIZE = 1024;
+const DEFAULT_FRAMES_PER_COLUMN = 4;
+const MIN_DB = -100;
+const MAX_DB = 0;
+
+/** 제자리 radix-2 FFT */
+function fft(re: Float32Array, im: Float32Array) {
+  const n = re.length;
+  for (let i = 1, j = 0; i < n; i++) {
+    let bit = n >> 1;
+    for (; j & bit; bit >>= 1) j ^= bit;
+    j ^= bit;
+    if (i < j) {
+      [re[i], re[j]] = [re[j], re[i]];
+      [im[i], im[j]] = [im[j], im[i]];
+    }
+  }
+  for (let len = 2; len <= n; len <<= 1) {
+    const angle = (-2 * Math.PI) / len;
+    const wRe = Math.cos(angle);
+    const wIm = Math.sin(angle);
+    for (let i = 0; i < n; i += len) {
+      let curRe = 1;
+      let curIm = 0;
+      for (let k = 0; k < len / 2; k++) {
+        const a = i + k;
+        const b = a + len / 2;
+        const tRe = re[b] * curRe - im[b] * curIm;
+        const tIm = re[b] * curIm + im[b] * curRe;
+        re[b] = re[a] - tRe;
+        im[b] = im[a] - tIm;
+        re[a] += tRe;
+        im[a] += tIm;
+        const nextRe = curRe * wRe - curIm * wIm;
+        curIm = curRe * wIm + curIm * wRe;
+        curRe = nextRe;
+      }
+    }
+  }
+}
+
+function isPowerOfTwo(n: number) {
+  return n > 1 && (n & (n - 1)) === 0;
+}
+
+export type SpectrogramAccumulator = {
+  /** 다음 PCM 조각을 이어서 누적한다. 조각 길이는 자유롭다. */
+  push: (chunk: Float32Array) => void;
+  finish: () => SpectrogramData;
+};
+
+/**
+ * PCM을 조각 단위로 받아 스펙트로그램을 만든다. 프레임이 조각 경계에 걸칠 수 있어
+ * 아직 처리하지 않은 다음 프레임부터의 샘플만 남겨 둔다.
+ */
+export function createSpectrogramAccumulator(
+  totalSamples: number,
+  sampleRate: number,
+  columnCount: number,
+  options?: SpectrogramOptions
+): SpectrogramAccumulator {
+  const fftSize = options?.fftSize ?? DEFAULT_FFT_SIZE;
+  if (!isPowerOfTwo(fftSize)) {
+    throw new Error(`fftSize must be a power of two: ${fftSize}`);
+  }
+  const columns = Math.max(1, Math.floor(columnCount));
+  const bins = fftSize / 2;
+  const samplesPerColumn = Math.max(1, totalSamples) / columns;
+  const framesPerColumn = Math.max(
+    1,
+    Math.min(
+      options?.framesPerColumn ?? DEFAULT_FRAMES_PER_COLUMN,
+      Math.floor(samplesPerColumn / fftSize) || 1
+    )
+  );
+
+  const hann = new Float32Array(fftSize);
+  let windowSum = 0;
+  for (let i = 0; i < fftSize; i++) {
+    hann[i] = 0.5 - 0.5 * Math.cos((2 * Math.PI * i) / (fftSize - 1));
+    windowSum += hann[i];
+  }
+  const powerScale = 1 / (windowSum * windowSum);
+
+  const power = new Float64Array(columns * bins);
+  const frameCounts = new Uint16Array(columns);
+  const re = new Float32Array(fftSize);
+  const im = new Float32Array(fftSize);
+
+  // 프레임 시작 위치는 열 순서대로 단조 증가한다.
+  const frameCount = columns * framesPerColumn;
+  const frameStart = (index: number) => {
+    const column = Math.floor(index / framesPerColumn);
+    const k = index % framesPerColumn;
+    const center =
+      column * samplesPerColumn +
+      ((k + 0.5) * samplesPerColumn) / framesPerColumn;
+    return Math.max(0, Math.round(center - fftSize / 2));
+  };
+
+  let nextFrame = 0;
+  let buffer = new Float32Array(0);
+  let bufferStart = 0;
+
+  const processFrame = (index: number, offset: number) => {
+    for (let i = 0; i < fftSize; i++) {
+      re[i] = (buffer[offset + i] ?? 0) * hann[i];
+      im[i] = 0;
+    }
+    fft(re, im);
+    const column = Math.floor(index / framesPerColumn);
+    const base = column * bins;
+    for (let b = 0; b < bins; b++) {
+      power[base + b] += (re[b] * re[b] + im[b] * im[b]) * powerScale;
+    }
+    frameCounts[column]++;
+  };
+
+  const drain = (final: boolean) => {
+    const bufferEnd = bufferStart + buffer.length;
+    while (nextFrame < frameCount) {
+      const start = frameStart(nextFrame);
+      if (start + fftSize > bufferEnd && !final) break;
+      if (start >= bufferEnd) break;
+      processFrame(nextFrame, start - bufferStart);
+      nextFrame++;
+    }
+  };
+
+  return {
+    push(chunk) {
+      const joined = new Float32Array(buffer.length + chunk.length);
+      joined.set(buffer);
+      joined.set(chunk, buffer.length);
+      buffer = joined;
+      drain(false);
+      // 다음 프레임 시작 전 샘플은 더 필요 없다.
+      const keepFrom =
+        nextFrame < frameCount
+          ? Math.max(
+              0,
+              Math.min(buffer.length, frameStart(nextFrame) - bufferStart)
+            )
+          : buffer.length;
+      buffer = buffer.slice(keepFrom);
+      bufferStart += keepFrom;
+    },
+    finish() {
+      drain(true);
+      const magnitudes = new Uint8Array(columns * bins);
+      for (let c = 0; c < columns; c++) {
+        const count = frameCounts[c];
+        if (count === 0) continue;
+        for (let b = 0; b < bins; b++) {
+          const db = 10 * Math.log10(power[c * bins + b] / count + 1e-12);
+          const t = (db - MIN_DB) / (MAX_DB - MIN_DB);
+          magnitudes[c * bins + b] = Math.round(
+            Math.max(0, Math.min(1, t)) * 255
+          );
+        }
+      }
+      return { magnitudes, columns, bins, sampleRate };
+    },
+  };
+}
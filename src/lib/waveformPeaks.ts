@@ -21,6 +21,213 @@ export type ComputePeaksOptions = {
   returnPyramid?: boolean;
 };
 
+type BucketStats =
+  | { mode: 'peaks'; min: Float32Array; max: Float32Array }
+  | { mode: 'rms'; sumSq: Float64Array; count: Uint32Array };
+
+function statsToPeaks(stats: BucketStats): WaveformPeaks {
+  if (stats.mode === 'peaks') {
+    const out = new Int16Array(stats.min.length * 2);
+    for (let i = 0; i < stats.min.length; i++) {
+      out[i * 2] = floatToI16(stats.min[i]);
+      out[i * 2 + 1] = floatToI16(stats.max[i]);
+    }
+    return out;
+  }
+  const out = new Int16Array(stats.count.length * 2);
+  for (let i = 0; i < stats.count.length; i++) {
+    const cnt = stats.count[i];
+    const rms = cnt > 0 ? Math.sqrt(stats.sumSq[i] / cnt) : 0;
+    out[i * 2] = floatToI16(-rms);
+    out[i * 2 + 1] = floatToI16(rms);
+  }
+  return out;
+}
+
+/** 이웃한 버킷 두 개를 하나로 합쳐 절반 해상도의 통계를 만든다. */
+function halveStats(stats: BucketStats): BucketStats {
+  if (stats.mode === 'peaks') {
+    const prevN = stats.min.length;
+    const nextN = Math.ceil(prevN / 2);
+    const min = new Float32Array(nextN);
+    const max = new Float32Array(nextN);
+    for (let j = 0; j < nextN; j++) {
+      const a = j * 2;
+      const b = Math.min(prevN, a + 2);
+      let mn = 1;
+      let mx = -1;
+      for (let k = a; k < b; k++) {
+        if (stats.min[k] < mn) mn = stats.min[k];
+        if (stats.max[k] > mx) mx = stats.max[k];
+      }
+      min[j] = mn;
+      max[j] = mx;
+    }
+    return { mode: 'peaks', min, max };
+  }
+  const prevN = stats.count.length;
+  const nextN = Math.ceil(prevN / 2);
+  const sumSq = new Float64Array(nextN);
+  const count = new Uint32Array(nextN);
+  for (let j = 0; j < nextN; j++) {
+    const a = j * 2;
+    const b = Math.min(prevN, a + 2);
+    let s = 0;
+    let c = 0;
+    for (let k = a; k < b; k++) {
+      s += stats.sumSq[k];
+      c += stats.count[k];
+    }
+    sumSq[j] = s;
+    count[j] = c;
+  }
+  return { mode: 'rms', sumSq, count };
+}
+
+function buildPyramid(
+  stats: BucketStats,
+  base: WaveformPeaks,
+  levels: number
+): WaveformPeaks[] {
+  const pyramid: WaveformPeaks[] = [base];
+  let current = stats;
+  for (let level = 1; level < levels; level++) {
+    current = halveStats(current);
+    pyramid.push(statsToPeaks(current));
+  }
+  return pyramid;
+}
+
+export type PeakAccumulator = {
+  /** 다음 PCM 조각을 이어서 누적한다. 조각 길이는 자유롭다. */
+  push: (chunk: Float32Array) => void;
+  finish: () => { peaks: WaveformPeaks; pyramid: WaveformPeaks[] | null };
+};
+
+/**
+ * PCM을 조각 단위로 받아 버킷 통계를 누적한다. 전체 샘플 수(`totalSamples`)를
+ * 미리 알아야 버킷 경계를 잡을 수 있으며, 실제 길이가 추정보다 길면 남는 샘플은
+ * 마지막 버킷에, 짧으면 남은 버킷은 0으로 채운다.
+ */
+export function createPeakAccumulator(
+  totalSamples: number,
+  bucketCount: number,
+  options?: ComputePeaksOptions
+): PeakAccumulator {
+  const buckets = Math.max(1, Math.floor(bucketCount));
+  const samplesPerBucket = Math.max(1, totalSamples) / buckets;
+  const mode: ComputePeaksMode = options?.mode ?? 'peaks';
+  const min = new Float32Array(buckets).fill(1);
+  const max = new Float32Array(buckets).fill(-1);
+  const sumSq = new Float64Array(buckets);
+  const count = new Uint32Array(buckets);
+  let offset = 0;
+
+  return {
+    push(chunk) {
+      for (let i = 0; i < chunk.length; i++) {
+        const b = Math.min(
+          buckets - 1,
+          Math.floor((offset + i) / samplesPerBucket)
+        );
+        const v = chunk[i];
+        if (v < min[b]) min[b] = v;
+        if (v > max[b]) max[b] = v;
+        sumSq[b] += v * v;
+        count[b]++;
+      }
+      offset += chunk.length;
+    },
+    finish() {
+      for (let b = 0; b < buckets; b++) {
+        if (count[b] === 0) {
+          min[b] = 0;
+          max[b] = 0;
+        }
+      }
+      const stats: BucketStats =
+        mode === 'peaks' ? { mode, min, max } : { mode, sumSq, count };
+      const peaks = statsToPeaks(stats);
+      const levels = Math.max(1, Math.floor(options?.pyramidLevels ?? 1));
+      return {
+        peaks,
+        pyramid:
+          options?.returnPyramid && levels > 1
+            ? buildPyramid(stats, peaks, levels)
+            : null,
+      };
+    },
+  };
+}
+
+export type ChannelPeaks = {
+  peaks: WaveformPeaks;
+  pyramid: WaveformPeaks[] | null;
+};
+
+export type ChannelPeakAccumulator = {
+  /** 채널이 교차 배치된(interleaved) PCM 조각을 이어서 누적한다. */
+  push: (chunk: Float32Array) => void;
+  /** `channels`는 채널이 하나면 null이다. */
+  finish: () => ChannelPeaks & { channels: ChannelPeaks[] | null };
+};
+
+/**
+ * 다채널 PCM을 조각 단위로 받아 채널별 피크와 채널 평균(모노) 피크를 함께 누적한다.
+ * `totalFrames`는 채널당 샘플 수다. 조각이 프레임 경계에서 끊겨도 된다.
+ */
+export function createChannelPeakAccumulator(
+  totalFrames: number,
+  channelCount: number,
+  bucketCount: number,
+  options?: ComputePeaksOptions
+): ChannelPeakAccumulator {
+  const count = Math.max(1, Math.floor(channelCount));
+  const mixed = createPeakAccumulator(totalFrames, bucketCount, options);
+  if (count === 1) {
+    return {
+      push: mixed.push,
+      finish: () => ({ ...mixed.finish(), channels: null }),
+    };
+  }
+  const channels = Array.from({ length: count }, () =>
+    createPeakAccumulator(totalFrames, bucketCount, options)
+  );
+  let carry = new Float32Array(0);
+
+  return {
+    push(chunk) {
+      let data = chunk;
+      if (carry.length > 0) {
+        data = new Float32Array(carry.length + chunk.length);
+        data.set(carry);
+        data.set(chunk, carry.length);
+      }
+      const frames = Math.floor(data.length / count);
+      const mix = new Float32Array(frames);
+      const planar = channels.map(() => new Float32Array(frames));
+      for (let f = 0; f < frames; f++) {
+        let sum = 0;
+        for (let ch = 0; ch < count; ch++) {
+          const v = data[f * count + ch];
+          planar[ch][f] = v;
+          sum += v;
+        }
+        mix[f] = sum / count;
+      }
+      mixed.push(mix);
+      channels.forEach((acc, ch) => acc.push(planar[ch]));
+      carry = data.slice(frames * count);
+    },
+    finish() {
+      return {
+        ...mixed.finish(),
+        channels: channels.map((acc) => acc.finish()),
+      };
+    },
+  };
+}
+
 export function computePeaksInIdle(
   samples: Float32Array,
   bucketCount: number,
@@ -153,21 +360,11 @@ export function computePeaksInIdle(
       }
 
       if (bucketIndex >= buckets) {
-        const baseOut = new Int16Array(buckets * 2);
-
-        if (mode === 'peaks') {
-          for (let i = 0; i < buckets; i++) {
-            baseOut[i * 2] = floatToI16(minArr![i]);
-            baseOut[i * 2 + 1] = floatToI16(maxArr![i]);
-          }
-        } else {
-          for (let i = 0; i < buckets; i++) {
-            const cnt = countArr![i] ?? 0;
-            const rms = cnt > 0 ? Math.sqrt((sumSqArr![i] ?? 0) / cnt) : 0;
-            baseOut[i * 2] = floatToI16(-rms);
-            baseOut[i * 2 + 1] = floatToI16(rms);
-          }
-        }
+        const stats: BucketStats =
+          mode === 'peaks'
+            ? { mode, min: minArr!, max: maxArr! }
+            : { mode, sumSq: sumSqArr!, count: countArr! };
+        const baseOut = statsToPeaks(stats);
 
         const levels = Math.max(1, Math.floor(options?.pyramidLevels ?? 1));
         const returnPyramid = Boolean(options?.returnPyramid);
@@ -177,91 +374,10 @@ export function computePeaksInIdle(
           return;
         }
 
-        const pyramid: WaveformPeaks[] = [];
-
-        const buildNextPeaksFromPeaks = (
-          prevMin: Float32Array,
-          prevMax: Float32Array
-        ) => {
-          const prevN = prevMin.length;
-          const nextN = Math.ceil(prevN / 2);
-          const nextMin = new Float32Array(nextN);
-          const nextMax = new Float32Array(nextN);
-          for (let j = 0; j < nextN; j++) {
-            const a = j * 2;
-            const b = Math.min(prevN, a + 2);
-            let mn = 1;
-            let mx = -1;
-            for (let k = a; k < b; k++) {
-              const vmin = prevMin[k];
-              const vmax = prevMax[k];
-              if (vmin < mn) mn = vmin;
-              if (vmax > mx) mx = vmax;
-            }
-            nextMin[j] = mn;
-            nextMax[j] = mx;
-          }
-          const outA = new Int16Array(nextN * 2);
-          for (let i = 0; i < nextN; i++) {
-            outA[i * 2] = floatToI16(nextMin[i]);
-            outA[i * 2 + 1] = floatToI16(nextMax[i]);
-          }
-          return { min: nextMin, max: nextMax, peaks: outA };
-        };
-
-        const buildNextPeaksFromRms = (
-          prevSumSq: Float64Array,
-          prevCount: Uint32Array
-        ) => {
-          const prevN = prevCount.length;
-          const nextN = Math.ceil(prevN / 2);
-          const nextSum = new Float64Array(nextN);
-          const nextCount = new Uint32Array(nextN);
-          for (let j = 0; j < nextN; j++) {
-            const a = j * 2;
-            const b = Math.min(prevN, a + 2);
-            let s = 0;
-            let c = 0;
-            for (let k = a; k < b; k++) {
-              s += prevSumSq[k];
-              c += prevCount[k];
-            }
-            nextSum[j] = s;
-            nextCount[j] = c;
-          }
-          const outA = new Int16Array(nextN * 2);
-          for (let i = 0; i < nextN; i++) {
-            const cnt = nextCount[i];
-            const rms = cnt > 0 ? Math.sqrt(nextSum[i] / cnt) : 0;
-            outA[i * 2] = floatToI16(-rms);
-            outA[i * 2 + 1] = floatToI16(rms);
-          }
-          return { sum: nextSum, count: nextCount, peaks: outA };
-        };
-
-        pyramid.push(baseOut);
-
-        if (mode === 'peaks') {
-          let curMin = minArr!;
-          let curMax = maxArr!;
-          for (let level = 1; level < levels; level++) {
-            const res = buildNextPeaksFromPeaks(curMin, curMax);
-            pyramid.push(res.peaks);
-            curMin = res.min;
-            curMax = res.max;
-          }
-        } else {
-          let curSum = sumSqArr!;
-          let curCount = countArr!;
-          for (let level = 1; level < levels; level++) {
-            const res = buildNextPeaksFromRms(curSum, curCount);
-            pyramid.push(res.peaks);
-            curSum = res.sum;
-            curCount = res.count;
-          }
-        }
-
-        finish({ peaks: baseOut, pyramid });
+        finish({
+          peaks: baseOut,
+          pyramid: buildPyramid(stats, baseOut, levels),
+        });
         return;
       }
 
@@ -4,26 +4,78 @@ import { useVideoBlobQuery, useVideoQuery } from '@/features/videos/queries';
 import { createVideoId } from '@/data/types';
 import CaptionsPanel from '@/features/captions/CaptionsPanel';
 import SubtitleOverlay from '@/features/captions/SubtitleOverlay';
-import { useCaptionsQuery } from '@/features/captions/queries';
+import {
+  useCaptionStyleQuery,
+  useCaptionsQuery,
+} from '@/features/captions/queries';
+import { DEFAULT_CAPTION_STYLE } from '@/features/captions/captionStyle';
 import { useThumbnailBlobQuery } from '@/features/thumbnails/queries';
 import { useDeleteVideoMutation } from '@/features/videos/mutations';
 import { usePlaybackController } from '@/features/playback/usePlaybackController';
 import { useWaveformPeaks } from '@/features/waveform/useWaveformPeaks';
 import WaveformCanvas from '@/features/waveform/WaveformCanvas';
 import WaveformInteraction from '@/features/waveform/WaveformInteraction';
+import { useWaveformDetail } from '@/features/waveform/useWaveformDetail';
+import { useSpectrogram } from '@/features/waveform/useSpectrogram';
+import SpectrogramCanvas from '@/features/waveform/SpectrogramCanvas';
+import { panViewRange, type ViewWindow } from '@/features/waveform/timeMapping';
+import { analyzeChannels } from '@/features/waveform/channelAnalysis';
+import {
+  DEFAULT_SILENCE_OPTIONS,
+  detectSilences,
+  type SilenceDetectionOptions,
+} from '@/features/waveform/silenceDetection';
+import SilenceRangeOverlay from '@/features/waveform/SilenceRangeOverlay';
+import SilencePanel from '@/features/waveform/SilencePanel';
 import TrimRangeOverlay from '@/features/waveform/TrimRangeOverlay';
 import { useTrimRange } from '@/features/playback/useTrimRange';
+import { useCutRanges } from '@/features/playback/useCutRanges';
+import { createEditDecisionList } from '@/features/playback/editDecisionList';
 import TrimRecommendationOverlay from '@/features/waveform/TrimRecommendationOverlay';
 import { useTrimAuto } from '@/features/playback/useTrimAuto';
 import {
   type RecommendationMode,
   type TrimRecommendation,
 } from '@/features/waveform/trimRecommendations';
-import { useFilterState, useWebGLPreview } from '@/features/filters';
-import { useVideoExport } from '@/features/export';
+import {
+  DEFAULT_RECOMMENDATION_FEATURES,
+  parseKeywords,
+} from '@/features/waveform/recommendationFeatures';
+import {
+  buildFFmpegVideoFilter,
+  useFilterState,
+  useWebGLPreview,
+} from '@/features/filters';
+import { stripCutWords, useVideoExport } from '@/features/export';
+import { useEditHistory, useHistoryShortcuts } from '@/features/history';
+import HistoryPanel from '@/features/history/HistoryPanel';
+import { useSnapping } from '@/features/snapping';
+import { usePlaybackShortcuts } from '@/features/playback/usePlaybackShortcuts';
+import { formatBinding, useKeymap } from '@/features/shortcuts';
+import {
+  useCommandPaletteCommands,
+  type PaletteCommand,
+} from '@/features/commandPalette';
+import TimecodeField from '@/features/playback/TimecodeField';
+import { isValidFrameRate } from '@/features/playback/timecode';
+import SnapSettingsBar from '@/features/snapping/SnapSettingsBar';
+import type { AudioChannelSelection, CutRange } from '@/features/export';
 import ThumbnailPreview from '@/components/ThumbnailPreview';
 import styles from './VideoDetailPage.module.css';
 
+// 확대 보기에서 레벨을 고를 수 있도록 촘촘한 기본 피크와 피라미드를 함께 만든다.
+const WAVEFORM_BUCKET_COUNT = 8000;
+const WAVEFORM_PEAK_OPTIONS = { returnPyramid: true, pyramidLevels: 6 };
+
+type WaveformDisplay = 'waveform' | 'spectrogram' | 'combined';
+type ExportFormat = 'mp4' | 'webm';
+
+// J/L 셔틀 속도(2·4·8배)도 목록에 있어야 셔틀 중에 선택 상자가 비지 않는다.
+const PLAYBACK_RATE_OPTIONS = [0.25, 0.5, 0.75, 1, 1.25, 1.5, 2, 4, 8];
+
+// 채널별 끊김 구간 중 바로가기 버튼으로 보여줄 개수
+const CHANNEL_ISSUE_LINKS = 5;
+
 function VideoDetailPage() {
   const { id } = useParams<{ id: string }>();
   const videoId = createVideoId(id ?? '');
@@ -33,6 +85,8 @@ function VideoDetailPage() {
   const { data: videoBlob } = useVideoBlobQuery(videoId);
   const { data: thumbnailBlob } = useThumbnailBlobQuery(videoId);
   const { data: captions = [] } = useCaptionsQuery(videoId);
+  const { data: captionStyle = DEFAULT_CAPTION_STYLE } =
+    useCaptionStyleQuery(videoId);
   const [isThumbnailCollapsed, setIsThumbnailCollapsed] = useState(false);
   const [isFilterExpanded, setIsFilterExpanded] = useState(false);
   const deleteVideo = useDeleteVideoMutation();
@@ -42,10 +96,27 @@ function VideoDetailPage() {
   const [recommendMode, setRecommendMode] =
     useState<RecommendationMode>('highlight');
   const [recommendCount, setRecommendCount] = useState(2);
+  const [recommendKeywords, setRecommendKeywords] = useState('');
   const [includeSubtitles, setIncludeSubtitles] = useState(true);
+  const [wordHighlight, setWordHighlight] = useState(false);
   const [exportMode, setExportMode] = useState<'trim' | 'cutout'>('trim');
+  const [exportFormat, setExportFormat] = useState<ExportFormat>('mp4');
+  const [waveformTimeline, setWaveformTimeline] = useState<'source' | 'output'>(
+    'source'
+  );
   const waveformWrapperRef = useRef<HTMLDivElement | null>(null);
   const [waveformWidth, setWaveformWidth] = useState(0);
+  // null이면 전체 길이를 보여준다.
+  const [waveformView, setWaveformView] = useState<ViewWindow | null>(null);
+  const [waveformDisplay, setWaveformDisplay] =
+    useState<WaveformDisplay>('waveform');
+  const [showChannelLanes, setShowChannelLanes] = useState(false);
+  const [silenceOptions, setSilenceOptions] = useState<SilenceDetectionOptions>(
+    DEFAULT_SILENCE_OPTIONS
+  );
+  const [showSilences, setShowSilences] = useState(false);
+  const [exportAudioChannel, setExportAudioChannel] =
+    useState<AudioChannelSelection | null>(null);
 
   const [videoEl, setVideoEl] = useState<HTMLVideoElement | null>(null);
   const [videoSize, setVideoSize] = useState<{
@@ -85,8 +156,14 @@ function VideoDetailPage() {
   } = usePlaybackController({
     resetKey: videoId,
     onLoadedMetadata: useCallback(() => {}, []),
+    frameRate: video?.frameRate,
   });
 
+  const playerContainerRef = useRef<HTMLDivElement>(null);
+  const keymap = useKeymap();
+  // J 셔틀은 음수 배속으로 뒤로 재생한다.
+  const isReverseShuttle = playerView.playbackRate < 0;
+
   const handleVideoRef = useCallback(
     (el: HTMLVideoElement | null) => {
       playerRef(el);
@@ -118,8 +195,26 @@ function VideoDetailPage() {
 
   const waveform = useWaveformPeaks({
     videoBlob: videoBlob ?? null,
-    bucketCount: 600,
+    bucketCount: WAVEFORM_BUCKET_COUNT,
+    options: WAVEFORM_PEAK_OPTIONS,
+    useWorker: true,
+    videoId,
+    splitChannels: true,
+    durationMs: video?.durationMs ?? playerView.durationMs,
   });
+  const waveformChannels = waveform.channels;
+  const hasMultipleChannels = (waveformChannels?.length ?? 0) > 1;
+
+  const channelReports = useMemo(
+    () =>
+      waveformChannels && waveformChannels.length > 1 && playerView.durationMs
+        ? analyzeChannels(
+            waveformChannels.map((channel) => channel.peaks),
+            playerView.durationMs
+          )
+        : [],
+    [waveformChannels, playerView.durationMs]
+  );
 
   useEffect(() => {
     const el = waveformWrapperRef.current;
@@ -141,7 +236,42 @@ function VideoDetailPage() {
     observer.observe(el);
     return () => observer.disconnect();
   }, [waveform.isLoading]);
-  const trim = useTrimRange(playerView.durationMs);
+  const history = useEditHistory();
+  const { clear: clearHistory } = history;
+  useHistoryShortcuts({ undo: history.undo, redo: history.redo });
+  usePlaybackShortcuts({
+    toggle: playerActions.toggle,
+    seekBy: (deltaMs) =>
+      playerActions.seek(Math.max(0, playerView.currentTimeMs + deltaMs)),
+    stepFrame: playerActions.stepFrame,
+    shuttleReverse: playerActions.shuttleReverse,
+    shuttleStop: playerActions.shuttleStop,
+    shuttleForward: playerActions.shuttleForward,
+    toggleMute: () => {
+      if (videoEl) videoEl.muted = !videoEl.muted;
+    },
+    toggleFullscreen: () => {
+      const container = playerContainerRef.current;
+      if (!container) return;
+      const request = document.fullscreenElement
+        ? document.exitFullscreen()
+        : container.requestFullscreen?.();
+      request?.catch(() => {});
+    },
+  });
+
+  // 다른 비디오의 편집 기록으로 되돌아가지 않도록 비디오가 바뀌면 비운다.
+  useEffect(() => {
+    clearHistory();
+  }, [videoId, clearHistory]);
+
+  const trim = useTrimRange(playerView.durationMs, {
+    record: history.record,
+  });
+  const cuts = useCutRanges(playerView.durationMs, {
+    record: history.record,
+  });
+  const cutRanges = cuts.ranges;
 
   const recommendationSegmentMs = useMemo(() => {
     if (!playerView.durationMs || playerView.durationMs <= 0) {
@@ -164,6 +294,11 @@ function VideoDetailPage() {
     setRecommendCount((prev) => Math.min(Math.max(1, prev), maxRecommendCount));
   }, [maxRecommendCount]);
 
+  const parsedRecommendKeywords = useMemo(
+    () => parseKeywords(recommendKeywords),
+    [recommendKeywords]
+  );
+
   const {
     recommendations,
     activeIndex: activeRecommendationIndex,
@@ -177,6 +312,9 @@ function VideoDetailPage() {
     mode: recommendMode,
     count: recommendCount,
     targetSegmentMs: recommendationSegmentMs,
+    features: DEFAULT_RECOMMENDATION_FEATURES,
+    captions,
+    keywords: parsedRecommendKeywords,
     onApply: (range, meta) => applyRecommendation(range, meta.autoEnableGuard),
   });
 
@@ -332,31 +470,205 @@ function VideoDetailPage() {
     setIsTrimGuardEnabled((prev) => !prev);
   }, [trim.range]);
 
-  const handleExport = useCallback(async () => {
-    if (!videoBlob) return;
+  const {
+    add: addCutRange,
+    addMany: addCutRanges,
+    toggle: toggleCutRange,
+  } = cuts.actions;
+
+  const handleAddCutRange = useCallback(() => {
+    if (!trim.range) return;
+    addCutRange(trim.range);
+  }, [trim.range, addCutRange]);
 
-    if (!trim.range) {
-      setExportError('트림 구간을 먼저 설정하세요.');
+  const silenceRanges = useMemo(
+    () => detectSilences(waveform.peaks, playerView.durationMs, silenceOptions),
+    [waveform.peaks, playerView.durationMs, silenceOptions]
+  );
+
+  const snapping = useSnapping({
+    captions,
+    silences: silenceRanges,
+    playheadMs: playerView.currentTimeMs,
+    frameRate: video?.frameRate,
+  });
+
+  // 무음을 한 번에 제거 목록에 넣고 컷아웃 모드로 바꿔 미리보기에서 바로 건너뛴다.
+  const handleRemoveAllSilences = useCallback(() => {
+    if (silenceRanges.length === 0) return;
+    addCutRanges(silenceRanges, '무음 구간 모두 제거');
+    setExportMode('cutout');
+  }, [silenceRanges, addCutRanges]);
+
+  const handleRemoveCutRange = cuts.actions.removeAt;
+  const handleClearCutRanges = cuts.actions.clear;
+
+  // 텍스트에서 단어/자막을 지우면 컷아웃 모드로 바꿔 미리보기와 내보내기에 바로 반영한다.
+  const handleToggleTextCut = useCallback(
+    (range: CutRange, target: 'word' | 'caption') => {
+      const labels =
+        target === 'word'
+          ? { cut: '단어 잘라내기', restore: '단어 되살리기' }
+          : { cut: '자막 잘라내기', restore: '자막 되살리기' };
+      if (toggleCutRange(range, labels)) {
+        setExportMode('cutout');
+      }
+    },
+    [toggleCutRange]
+  );
+
+  const hasCutRanges = exportMode === 'cutout' && cutRanges.length > 0;
+
+  // 컷아웃 모드의 제거 목록을 편집 결정 목록으로 만들어 미리보기·파형·내보내기가 함께 쓴다.
+  const edl = useMemo(
+    () =>
+      hasCutRanges && playerView.durationMs
+        ? createEditDecisionList(cutRanges, playerView.durationMs)
+        : null,
+    [hasCutRanges, cutRanges, playerView.durationMs]
+  );
+  const isOutputTimeline = edl !== null && waveformTimeline === 'output';
+  const timelineDurationMs = isOutputTimeline
+    ? playerView.outputDurationMs
+    : playerView.durationMs;
+  const timelinePlayheadMs = isOutputTimeline
+    ? playerView.outputTimeMs
+    : playerView.currentTimeMs;
+
+  // 보기 범위는 타임라인 기준 시간이므로 타임라인이나 길이가 바뀌면 전체 보기로 돌아간다.
+  useEffect(() => {
+    setWaveformView(null);
+  }, [isOutputTimeline, timelineDurationMs]);
+
+  // 재생 중 재생 위치가 확대 구간을 벗어나면 한 화면씩 따라간다.
+  useEffect(() => {
+    if (!waveformView || !playerView.isPlaying) return;
+    const { viewStartMs, viewEndMs } = waveformView;
+    if (timelinePlayheadMs >= viewStartMs && timelinePlayheadMs <= viewEndMs) {
       return;
     }
+    setWaveformView(
+      panViewRange(
+        timelineDurationMs,
+        viewStartMs,
+        viewEndMs,
+        timelinePlayheadMs - viewStartMs
+      )
+    );
+  }, [
+    waveformView,
+    playerView.isPlaying,
+    timelinePlayheadMs,
+    timelineDurationMs,
+  ]);
 
-    setExportError(null);
-    await exportController.startExport({
+  const waveformDetail = useWaveformDetail({
+    videoBlob: videoBlob ?? null,
+    basePeaks: waveform.peaks,
+    durationMs: playerView.durationMs,
+    viewStartMs: waveformView?.viewStartMs ?? null,
+    viewEndMs: waveformView?.viewEndMs ?? null,
+    widthPx: waveformWidth,
+    enabled: !isOutputTimeline,
+  });
+
+  // 스펙트로그램은 원본 시간 기준이라 편집본 타임라인에서는 파형만 보여준다.
+  const effectiveDisplay: WaveformDisplay = isOutputTimeline
+    ? 'waveform'
+    : waveformDisplay;
+  const spectrogram = useSpectrogram({
+    videoBlob: videoBlob ?? null,
+    videoId,
+    enabled: effectiveDisplay !== 'waveform',
+    durationMs: video?.durationMs ?? playerView.durationMs,
+  });
+
+  const { setEditDecisionList } = playerActions;
+  useEffect(() => {
+    setEditDecisionList(edl);
+  }, [edl, setEditDecisionList]);
+
+  // 미리보기 자막에서도 지운 단어를 뺀다. 시간은 원본 기준이라 건너뛰기와 맞는다.
+  const previewCaptions = useMemo(
+    () =>
+      hasCutRanges
+        ? stripCutWords(captions, cutRanges, playerView.durationMs ?? 0)
+        : captions,
+    [hasCutRanges, captions, cutRanges, playerView.durationMs]
+  );
+  const isExportBusy =
+    exportController.state.status === 'exporting' ||
+    exportController.state.status === 'initializing';
+
+  const runExport = useCallback(
+    async (outputFormat: ExportFormat) => {
+      if (!videoBlob) return;
+
+      if (!trim.range && !hasCutRanges) {
+        setExportError('트림 구간을 먼저 설정하세요.');
+        return;
+      }
+
+      setExportError(null);
+      await exportController.startExport({
+        videoBlob,
+        trimRange: trim.range,
+        captions: previewCaptions,
+        includeSubtitles,
+        videoFilter: buildFFmpegVideoFilter(filter.state.filters),
+        outputFormat,
+        exportMode,
+        edl,
+        durationMs: playerView.durationMs,
+        captionStyle,
+        wordHighlight,
+        audioChannel: hasMultipleChannels ? exportAudioChannel : null,
+        videoSize:
+          video?.width && video?.height
+            ? { width: video.width, height: video.height }
+            : null,
+      });
+    },
+    [
       videoBlob,
-      trimRange: trim.range,
-      captions,
+      trim.range,
+      hasCutRanges,
+      previewCaptions,
       includeSubtitles,
-      outputFormat: 'mp4',
+      filter.state.filters,
       exportMode,
-      durationMs: playerView.durationMs,
-    });
-  }, [videoBlob, trim.range, captions, includeSubtitles, exportController]);
+      edl,
+      playerView.durationMs,
+      captionStyle,
+      wordHighlight,
+      hasMultipleChannels,
+      exportAudioChannel,
+      video?.width,
+      video?.height,
+      exportController,
+    ]
+  );
+
+  const handleExport = useCallback(
+    () => runExport(exportFormat),
+    [runExport, exportFormat]
+  );
+
+  const handleExportAs = useCallback(
+    (format: ExportFormat) => {
+      setExportFormat(format);
+      void runExport(format);
+    },
+    [runExport]
+  );
 
   const handleDownload = useCallback(() => {
     if (!video) return;
     const safeTitle = video.title.replace(/[\\/:*?"<>|]/g, '-');
     const suffix = exportMode === 'cutout' ? '-cutout' : '-trim';
-    exportController.downloadResult(`${safeTitle}${suffix}.mp4`);
+    const extension =
+      exportController.state.outputBlob?.type === 'video/webm' ? 'webm' : 'mp4';
+    exportController.downloadResult(`${safeTitle}${suffix}.${extension}`);
   }, [exportController, video, exportMode]);
 
   const handleResetExport = useCallback(() => {
@@ -364,6 +676,196 @@ function VideoDetailPage() {
     setExportError(null);
   }, [exportController]);
 
+  const exportDisabledReason = !exportController.isReady
+    ? 'FFmpeg 준비 중'
+    : !videoBlob
+      ? '영상을 불러오는 중'
+      : !trim.range && !hasCutRanges
+        ? '트림 구간을 먼저 설정하세요'
+        : isExportBusy
+          ? '내보내는 중'
+          : undefined;
+
+  const paletteCommands = useMemo<PaletteCommand[]>(() => {
+    const noTrimRange = trim.range ? undefined : '트림 구간이 없습니다';
+    const filters = filter.state.filters;
+    return [
+      {
+        id: 'player.togglePlay',
+        label: playerView.isPlaying ? '일시정지' : '재생',
+        group: '재생',
+        keywords: ['play', 'pause'],
+        shortcutId: 'player.togglePlay',
+        enabled: playerView.isReady,
+        run: playerActions.toggle,
+      },
+      {
+        id: 'history.undo',
+        label: '실행 취소',
+        group: '편집',
+        keywords: ['undo'],
+        shortcutId: 'history.undo',
+        enabled: history.canUndo,
+        run: history.undo,
+      },
+      {
+        id: 'history.redo',
+        label: '다시 실행',
+        group: '편집',
+        keywords: ['redo'],
+        shortcutId: 'history.redo',
+        enabled: history.canRedo,
+        run: history.redo,
+      },
+      {
+        id: 'trim.setStart',
+        label: '현재 위치를 트림 시작점으로',
+        group: '트림',
+        keywords: ['trim', 'in'],
+        enabled: playerView.isReady,
+        run: handleSetTrimStart,
+      },
+      {
+        id: 'trim.setEnd',
+        label: '현재 위치를 트림 종료점으로',
+        group: '트림',
+        keywords: ['trim', 'out'],
+        enabled: playerView.isReady,
+        run: handleSetTrimEnd,
+      },
+      {
+        id: 'trim.clear',
+        label: '트림 구간 초기화',
+        group: '트림',
+        enabled: Boolean(trim.range),
+        disabledReason: noTrimRange,
+        run: handleClearTrim,
+      },
+      {
+        id: 'cuts.addTrimRange',
+        label: '트림 구간을 제거 목록에 추가',
+        group: '컷 편집',
+        keywords: ['cut'],
+        enabled: Boolean(trim.range) && !isExportBusy,
+        disabledReason: noTrimRange,
+        run: handleAddCutRange,
+      },
+      {
+        id: 'silence.removeAll',
+        label: '무음 구간 모두 제거',
+        group: '컷 편집',
+        keywords: ['silence'],
+        enabled: silenceRanges.length > 0,
+        disabledReason: '찾은 무음 구간이 없습니다',
+        run: handleRemoveAllSilences,
+      },
+      {
+        id: 'recommendations.generate',
+        label: '구간 추천 생성',
+        group: '추천',
+        keywords: ['highlight', 'recommend'],
+        enabled:
+          !waveform.isLoading &&
+          Boolean(playerView.durationMs) &&
+          !isRecommendationGenerating,
+        disabledReason: isRecommendationGenerating
+          ? '생성 중'
+          : '파형을 불러오는 중',
+        run: handleGenerateRecommendations,
+      },
+      {
+        id: 'export.mp4',
+        label: 'MP4로 내보내기',
+        group: '내보내기',
+        keywords: ['export', 'mp4'],
+        enabled: !exportDisabledReason,
+        disabledReason: exportDisabledReason,
+        run: () => handleExportAs('mp4'),
+      },
+      {
+        id: 'export.webm',
+        label: 'WebM으로 내보내기',
+        group: '내보내기',
+        keywords: ['export', 'webm'],
+        enabled: !exportDisabledReason,
+        disabledReason: exportDisabledReason,
+        run: () => handleExportAs('webm'),
+      },
+      {
+        id: 'export.download',
+        label: '내보낸 파일 다운로드',
+        group: '내보내기',
+        keywords: ['download'],
+        enabled: exportController.state.status === 'completed',
+        disabledReason: '내보낸 파일이 없습니다',
+        run: handleDownload,
+      },
+      {
+        id: 'filters.grayscale',
+        label: `흑백 필터 ${filters.grayscale.enabled ? '끄기' : '켜기'}`,
+        group: '필터',
+        keywords: ['grayscale', 'filter'],
+        run: filter.actions.toggleGrayscale,
+      },
+      {
+        id: 'filters.brightness',
+        label: `밝기 필터 ${filters.brightness.enabled ? '끄기' : '켜기'}`,
+        group: '필터',
+        keywords: ['brightness', 'filter'],
+        run: filter.actions.toggleBrightness,
+      },
+      {
+        id: 'filters.contrast',
+        label: `대비 필터 ${filters.contrast.enabled ? '끄기' : '켜기'}`,
+        group: '필터',
+        keywords: ['contrast', 'filter'],
+        run: filter.actions.toggleContrast,
+      },
+      {
+        id: 'filters.reset',
+        label: '필터 초기화',
+        group: '필터',
+        keywords: ['filter', 'reset'],
+        run: filter.actions.reset,
+      },
+      {
+        id: 'thumbnail.toggle',
+        label: isThumbnailCollapsed ? '썸네일 펼치기' : '썸네일 접기',
+        group: '썸네일',
+        keywords: ['thumbnail'],
+        run: () => setIsThumbnailCollapsed((collapsed) => !collapsed),
+      },
+    ];
+  }, [
+    playerView.isPlaying,
+    playerView.isReady,
+    playerView.durationMs,
+    playerActions.toggle,
+    history.canUndo,
+    history.canRedo,
+    history.undo,
+    history.redo,
+    trim.range,
+    handleSetTrimStart,
+    handleSetTrimEnd,
+    handleClearTrim,
+    isExportBusy,
+    handleAddCutRange,
+    silenceRanges.length,
+    handleRemoveAllSilences,
+    waveform.isLoading,
+    isRecommendationGenerating,
+    handleGenerateRecommendations,
+    exportDisabledReason,
+    handleExportAs,
+    exportController.state.status,
+    handleDownload,
+    filter.state.filters,
+    filter.actions,
+    isThumbnailCollapsed,
+  ]);
+  useCommandPaletteCommands(paletteCommands);
+
   if (!videoId) {
     return (
       <p className={styles.status}>
@@ -430,7 +932,7 @@ function VideoDetailPage() {
       <div className={styles.grid}>
         <article className={styles.panel}>
           <div>
-            <div className={styles.player}>
+            <div ref={playerContainerRef} className={styles.player}>
               {videoUrl ? (
                 <>
                   <video
@@ -466,10 +968,22 @@ function VideoDetailPage() {
                     />
                   )}
                   <SubtitleOverlay
-                    captions={captions}
+                    captions={previewCaptions}
+                    defaultStyle={captionStyle}
                     currentTimeMs={playerView.currentTimeMs}
                     onWordClick={handleSeek}
                   />
+                  {playerView.playbackRate !== 1 && (
+                    <div
+                      className={styles.speedBadge}
+                      aria-live="polite"
+                      data-testid="speed-indicator"
+                    >
+                      {isReverseShuttle
+                        ? `◀◀ ${Math.abs(playerView.playbackRate)}×`
+                        : `${playerView.playbackRate}×`}
+                    </div>
+                  )}
                 </>
               ) : (
                 <div
@@ -486,6 +1000,42 @@ function VideoDetailPage() {
               )}
             </div>
 
+            <div className={styles.playbackRateBar}>
+              <label>
+                재생 속도
+                {/* 역재생 중에는 앞으로 가는 속도를 고를 수 없으므로 현재 속도만 보여 준다. */}
+                <select
+                  value={playerView.playbackRate}
+                  onChange={(e) =>
+                    playerActions.setPlaybackRate(Number(e.target.value))
+                  }
+                  disabled={isReverseShuttle}
+                  title={
+                    isReverseShuttle
+                      ? `역재생 중 (${formatBinding(keymap, 'player.shuttleStop')}로 정지)`
+                      : undefined
+                  }
+                >
+                  {isReverseShuttle && (
+                    <option value={playerView.playbackRate}>
+                      {Math.abs(playerView.playbackRate)}× 역재생
+                    </option>
+                  )}
+                  {PLAYBACK_RATE_OPTIONS.map((rate) => (
+                    <option key={rate} value={rate}>
+                      {rate}×
+                    </option>
+                  ))}
+                </select>
+              </label>
+              <span className={styles.playbackRateHint}>
+                {formatBinding(keymap, 'player.shuttleReverse')} 뒤로 ·{' '}
+                {formatBinding(keymap, 'player.shuttleStop')} 정지 ·{' '}
+                {formatBinding(keymap, 'player.shuttleForward')} 앞으로
+                (반복해서 누르면 빨라짐)
+              </span>
+            </div>
+
             <div className={styles.filterSection}>
               <button
                 className={styles.filterToggle}
@@ -597,11 +1147,72 @@ function VideoDetailPage() {
             <div className={styles.waveformSection}>
               <div className={styles.waveformHeader}>
                 <h2 className={styles.sectionTitle}>파형</h2>
+                {edl && (
+                  <label className={styles.trimToggle}>
+                    <input
+                      type="checkbox"
+                      checked={waveformTimeline === 'output'}
+                      onChange={(e) =>
+                        setWaveformTimeline(
+                          e.target.checked ? 'output' : 'source'
+                        )
+                      }
+                    />
+                    편집본 타임라인
+                  </label>
+                )}
+                <label className={styles.waveformDisplay}>
+                  보기
+                  <select
+                    value={effectiveDisplay}
+                    disabled={isOutputTimeline}
+                    onChange={(e) =>
+                      setWaveformDisplay(e.target.value as WaveformDisplay)
+                    }
+                  >
+                    <option value="waveform">파형</option>
+                    <option value="spectrogram">스펙트로그램</option>
+                    <option value="combined">파형 + 스펙트로그램</option>
+                  </select>
+                </label>
+                {hasMultipleChannels && (
+                  <label className={styles.trimToggle}>
+                    <input
+                      type="checkbox"
+                      checked={showChannelLanes}
+                      onChange={(e) => setShowChannelLanes(e.target.checked)}
+                    />
+                    채널별 보기
+                  </label>
+                )}
+                {waveformView && (
+                  <button
+                    type="button"
+                    className={styles.trimButton}
+                    onClick={() => setWaveformView(null)}
+                  >
+                    전체 보기
+                  </button>
+                )}
                 <div className={styles.timeDisplay}>
-                  {formatTime(playerView.currentTimeMs)} /{' '}
-                  {formatTime(playerView.durationMs)}
+                  {formatTime(playerView.outputTimeMs)} /{' '}
+                  {formatTime(playerView.outputDurationMs)}
+                  {edl && ` (원본 ${formatTime(playerView.durationMs)})`}
                 </div>
+                {isValidFrameRate(video.frameRate) && (
+                  <TimecodeField
+                    valueMs={playerView.currentTimeMs}
+                    frameRate={video.frameRate}
+                    onCommit={handleSeek}
+                  />
+                )}
               </div>
+              <SnapSettingsBar
+                settings={snapping.settings}
+                availableKinds={snapping.availableKinds}
+                onEnabledChange={snapping.setEnabled}
+                onKindChange={snapping.setKindEnabled}
+              />
 
               {waveform.isLoading ? (
                 <p className={styles.waveformStatus}>
@@ -610,44 +1221,131 @@ function VideoDetailPage() {
               ) : waveform.error ? (
                 <p className={styles.waveformError}>{waveform.error}</p>
               ) : (
-                <div
-                  className={styles.waveformWrapper}
-                  ref={waveformWrapperRef}
-                >
-                  <WaveformInteraction
-                    durationMs={playerView.durationMs}
-                    onSeek={handleSeek}
-                    viewStartMs={null}
-                    viewEndMs={null}
-                    className={styles.waveformContainer}
+                <>
+                  {effectiveDisplay !== 'waveform' &&
+                    (spectrogram.isLoading ? (
+                      <p className={styles.waveformStatus}>
+                        스펙트로그램 분석 중...{' '}
+                        {Math.round(spectrogram.progress * 100)}%
+                      </p>
+                    ) : spectrogram.error ? (
+                      <p className={styles.waveformError}>
+                        {spectrogram.error}{' '}
+                        <button
+                          type="button"
+                          className={styles.trimButton}
+                          onClick={spectrogram.retry}
+                        >
+                          다시 시도
+                        </button>
+                      </p>
+                    ) : null)}
+                  <div
+                    className={styles.waveformWrapper}
+                    ref={waveformWrapperRef}
                   >
-                    <WaveformCanvas
-                      peaks={waveform.peaks}
-                      width={waveformWidth || 1}
-                      height={120}
-                      playheadMs={playerView.currentTimeMs}
-                      durationMs={playerView.durationMs ?? undefined}
-                      trimRange={trim.range}
-                    />
-                  </WaveformInteraction>
-                  <TrimRecommendationOverlay
-                    recommendations={recommendations}
-                    durationMs={playerView.durationMs}
-                    activeIndex={activeRecommendationIndex}
-                    onSelect={applyRecommendationAt}
-                  />
-                  {trim.range &&
-                    playerView.durationMs &&
-                    playerView.durationMs > 0 && (
-                      <TrimRangeOverlay
-                        range={trim.range}
+                    <WaveformInteraction
+                      durationMs={timelineDurationMs}
+                      onSeek={
+                        isOutputTimeline ? playerActions.seekOutput : handleSeek
+                      }
+                      viewStartMs={waveformView?.viewStartMs ?? null}
+                      viewEndMs={waveformView?.viewEndMs ?? null}
+                      onViewChange={setWaveformView}
+                      className={styles.waveformContainer}
+                    >
+                      {effectiveDisplay !== 'spectrogram' && (
+                        <WaveformCanvas
+                          peaks={waveform.peaks}
+                          pyramid={waveform.pyramid}
+                          detail={waveformDetail}
+                          channels={showChannelLanes ? waveformChannels : null}
+                          width={waveformWidth || 1}
+                          height={120}
+                          playheadMs={timelinePlayheadMs}
+                          durationMs={timelineDurationMs ?? undefined}
+                          viewStartMs={waveformView?.viewStartMs ?? null}
+                          viewEndMs={waveformView?.viewEndMs ?? null}
+                          trimRange={isOutputTimeline ? null : trim.range}
+                          edl={edl}
+                          timeline={isOutputTimeline ? 'output' : 'source'}
+                        />
+                      )}
+                      {effectiveDisplay !== 'waveform' && (
+                        <SpectrogramCanvas
+                          spectrogram={spectrogram.spectrogram}
+                          width={waveformWidth || 1}
+                          height={effectiveDisplay === 'combined' ? 96 : 120}
+                          playheadMs={playerView.currentTimeMs}
+                          durationMs={playerView.durationMs}
+                          viewStartMs={waveformView?.viewStartMs ?? null}
+                          viewEndMs={waveformView?.viewEndMs ?? null}
+                        />
+                      )}
+                    </WaveformInteraction>
+                    {/* 트림·추천·무음 구간은 원본 시간 기준이라 편집본 타임라인에서는 숨긴다. */}
+                    {!isOutputTimeline && showSilences && (
+                      <SilenceRangeOverlay
+                        ranges={silenceRanges}
                         durationMs={playerView.durationMs}
-                        onChangeStart={handleChangeTrimStart}
-                        onChangeEnd={handleChangeTrimEnd}
-                        onChangeRange={handleChangeTrimRange}
+                        viewStartMs={waveformView?.viewStartMs ?? null}
+                        viewEndMs={waveformView?.viewEndMs ?? null}
                       />
                     )}
-                </div>
+                    {!isOutputTimeline && (
+                      <TrimRecommendationOverlay
+                        recommendations={recommendations}
+                        durationMs={playerView.durationMs}
+                        viewStartMs={waveformView?.viewStartMs ?? null}
+                        viewEndMs={waveformView?.viewEndMs ?? null}
+                        activeIndex={activeRecommendationIndex}
+                        onSelect={applyRecommendationAt}
+                      />
+                    )}
+                    {!isOutputTimeline &&
+                      trim.range &&
+                      playerView.durationMs &&
+                      playerView.durationMs > 0 && (
+                        <TrimRangeOverlay
+                          range={trim.range}
+                          durationMs={playerView.durationMs}
+                          viewStartMs={waveformView?.viewStartMs ?? null}
+                          viewEndMs={waveformView?.viewEndMs ?? null}
+                          onChangeStart={handleChangeTrimStart}
+                          onChangeEnd={handleChangeTrimEnd}
+                          onChangeRange={handleChangeTrimRange}
+                          snap={snapping.snap}
+                        />
+                      )}
+                  </div>
+                  {channelReports.some(
+                    (report) =>
+                      report.dropoutRanges.length > 0 ||
+                      report.clippedRanges.length > 0
+                  ) && (
+                    <ul className={styles.channelReport}>
+                      {channelReports.map((report) => (
+                        <li key={report.channel}>
+                          <strong>{report.label}</strong> 채널: 끊김{' '}
+                          {report.dropoutRanges.length}구간 · 클리핑{' '}
+                          {report.clippedRanges.length}곳
+                          {report.dropoutRanges
+                            .slice(0, CHANNEL_ISSUE_LINKS)
+                            .map((range) => (
+                              <button
+                                key={range.startMs}
+                                type="button"
+                                className={styles.channelIssueButton}
+                                onClick={() => handleSeek(range.startMs)}
+                              >
+                                {formatTime(range.startMs)}
+                              </button>
+                            ))}
+                        </li>
+                      ))}
+                    </ul>
+                  )}
+                </>
               )}
 
               <div className={styles.trimControls}>
@@ -725,6 +1423,16 @@ function VideoDetailPage() {
                       ))}
                     </select>
                   </label>
+                  <label className={styles.recommendKeywords}>
+                    키워드
+                    <input
+                      type="text"
+                      value={recommendKeywords}
+                      onChange={(e) => setRecommendKeywords(e.target.value)}
+                      placeholder="쉼표로 구분"
+                      title="자막에 이 단어가 나오는 구간에 가산점을 줍니다"
+                    />
+                  </label>
                   <button
                     type="button"
                     className={styles.recommendButton}
@@ -763,6 +1471,15 @@ function VideoDetailPage() {
                   </div>
                 )}
               </div>
+              <SilencePanel
+                options={silenceOptions}
+                onOptionsChange={setSilenceOptions}
+                ranges={silenceRanges}
+                showOnWaveform={showSilences}
+                onShowOnWaveformChange={setShowSilences}
+                onRemoveAll={handleRemoveAllSilences}
+                disabled={waveform.isLoading || !waveform.peaks}
+              />
               {trim.range && (
                 <p className={styles.trimInfo}>
                   구간: {formatTime(trim.range.startMs)} ~{' '}
@@ -772,6 +1489,8 @@ function VideoDetailPage() {
               )}
             </div>
 
+            <HistoryPanel history={history} />
+
             <div className={styles.exportSection}>
               <div className={styles.sectionHeader}>
                 <h2 className={styles.sectionTitle}>내보내기</h2>
@@ -789,6 +1508,41 @@ function VideoDetailPage() {
                   />
                   자막 포함해서 내보내기
                 </label>
+                <label className={styles.exportOption}>
+                  <input
+                    type="checkbox"
+                    checked={wordHighlight}
+                    onChange={(e) => setWordHighlight(e.target.checked)}
+                    disabled={
+                      !includeSubtitles ||
+                      exportController.state.status === 'exporting' ||
+                      exportController.state.status === 'initializing'
+                    }
+                  />
+                  단어 하이라이트(카라오케)
+                </label>
+                {hasMultipleChannels && (
+                  <label className={styles.exportOption}>
+                    오디오 채널
+                    <select
+                      value={exportAudioChannel ?? 'all'}
+                      onChange={(e) =>
+                        setExportAudioChannel(
+                          e.target.value === 'all'
+                            ? null
+                            : (e.target.value as AudioChannelSelection)
+                        )
+                      }
+                      disabled={isExportBusy}
+                    >
+                      <option value="all">원본 그대로</option>
+                      <option value="left">왼쪽 채널만 (양쪽으로 복제)</option>
+                      <option value="right">
+                        오른쪽 채널만 (양쪽으로 복제)
+                      </option>
+                    </select>
+                  </label>
+                )}
                 <div className={styles.exportModeOptions}>
                   <label className={styles.exportOption}>
                     <input
@@ -821,7 +1575,72 @@ function VideoDetailPage() {
                     트림 구간을 제외하고 내보내기
                   </label>
                 </div>
+                {exportMode === 'cutout' && (
+                  <div className={styles.cutRangeSection}>
+                    <div className={styles.exportActions}>
+                      <button
+                        type="button"
+                        className={styles.exportGhostButton}
+                        onClick={handleAddCutRange}
+                        disabled={!trim.range || isExportBusy}
+                      >
+                        현재 구간을 제거 목록에 추가
+                      </button>
+                      {cutRanges.length > 0 && (
+                        <button
+                          type="button"
+                          className={styles.exportGhostButton}
+                          onClick={handleClearCutRanges}
+                          disabled={isExportBusy}
+                        >
+                          모두 지우기
+                        </button>
+                      )}
+                    </div>
+                    {cutRanges.length > 0 ? (
+                      <ul className={styles.cutRangeList}>
+                        {cutRanges.map((range, idx) => (
+                          <li
+                            key={`${range.startMs}-${range.endMs}`}
+                            className={styles.cutRangeItem}
+                          >
+                            <span>
+                              #{idx + 1} {formatTime(range.startMs)} ~{' '}
+                              {formatTime(range.endMs)}
+                            </span>
+                            <button
+                              type="button"
+                              className={styles.cutRangeRemove}
+                              onClick={() => handleRemoveCutRange(idx)}
+                              disabled={isExportBusy}
+                              aria-label={`제거 구간 ${idx + 1} 삭제`}
+                            >
+                              ×
+                            </button>
+                          </li>
+                        ))}
+                      </ul>
+                    ) : (
+                      <p className={styles.exportHint}>
+                        목록이 비어 있으면 현재 트림 구간 하나를 제거합니다.
+                      </p>
+                    )}
+                  </div>
+                )}
                 <div className={styles.exportActions}>
+                  <label className={styles.exportFormat}>
+                    형식
+                    <select
+                      value={exportFormat}
+                      onChange={(e) =>
+                        setExportFormat(e.target.value as ExportFormat)
+                      }
+                      disabled={isExportBusy}
+                    >
+                      <option value="mp4">MP4</option>
+                      <option value="webm">WebM</option>
+                    </select>
+                  </label>
                   <button
                     type="button"
                     className={styles.exportButton}
@@ -829,7 +1648,7 @@ function VideoDetailPage() {
                     disabled={
                       !exportController.isReady ||
                       !videoBlob ||
-                      !trim.range ||
+                      (!trim.range && !hasCutRanges) ||
                       exportController.state.status === 'exporting' ||
                       exportController.state.status === 'initializing'
                     }
@@ -868,7 +1687,7 @@ function VideoDetailPage() {
                     </>
                   )}
                 </div>
-                {!trim.range && (
+                {!trim.range && !hasCutRanges && (
                   <p className={styles.exportHint}>
                     트림 구간을 설정하면 잘라서 내보낼 수 있습니다.
                   </p>
@@ -935,6 +1754,13 @@ function VideoDetailPage() {
             videoTitle={video.title}
             currentTimeMs={playerView.currentTimeMs}
             onSeek={playerActions.seek}
+            onRecordHistory={history.record}
+            mediaBlob={videoBlob ?? null}
+            cutRanges={cutRanges}
+            durationMs={playerView.durationMs}
+            onToggleCut={handleToggleTextCut}
+            snap={snapping.snap}
+            frameRate={video.frameRate}
           />
         </article>
       </div>